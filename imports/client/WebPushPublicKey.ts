@@ -0,0 +1,12 @@
+import { Mongo } from "meteor/mongo";
+
+interface WebPushPublicKeyType {
+  publicKey: string;
+}
+
+// Pseudo-collection used to track
+const WebPushPublicKey = new Mongo.Collection<WebPushPublicKeyType>(
+  "webPushPublicKey",
+);
+
+export default WebPushPublicKey;
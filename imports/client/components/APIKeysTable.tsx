@@ -1,9 +1,11 @@
+import { useTracker } from "meteor/react-meteor-data";
 import { faCopy } from "@fortawesome/free-solid-svg-icons/faCopy";
 import { faEye } from "@fortawesome/free-solid-svg-icons/faEye";
 import { faEyeSlash } from "@fortawesome/free-solid-svg-icons/faEyeSlash";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { useCallback, useId, useRef, useState } from "react";
 import Alert from "react-bootstrap/Alert";
+import Badge from "react-bootstrap/Badge";
 import Button from "react-bootstrap/Button";
 import FormControl from "react-bootstrap/FormControl";
 import InputGroup from "react-bootstrap/InputGroup";
@@ -13,6 +15,7 @@ import Tooltip from "react-bootstrap/Tooltip";
 import { styled } from "styled-components";
 import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
 import type { APIKeyType } from "../../lib/models/APIKeys";
+import Hunts from "../../lib/models/Hunts";
 import destroyAPIKey from "../../methods/destroyAPIKey";
 import CopyToClipboardButton from "./CopyToClipboardButton";
 import ModalForm, { type ModalFormHandle } from "./ModalForm";
@@ -61,6 +64,12 @@ const APIKeyRow = ({ apiKey }: { apiKey: APIKeyType }) => {
     <span />
   );
 
+  const huntNames = useTracker(() => {
+    return apiKey.hunts?.map((huntId) => Hunts.findOne(huntId)?.name ?? huntId);
+  }, [apiKey.hunts]);
+  const expired =
+    apiKey.expiresAt !== undefined && apiKey.expiresAt.getTime() <= Date.now();
+
   const onDestroyClicked = useCallback(() => {
     destroyModalRef.current?.show();
   }, []);
@@ -108,6 +117,24 @@ const APIKeyRow = ({ apiKey }: { apiKey: APIKeyType }) => {
           />
         </InputGroup>
       </td>
+      <td>{huntNames ? huntNames.join(", ") : "All"}</td>
+      <td>
+        {apiKey.scopes.map((scope) => (
+          <Badge key={scope} bg="secondary" className="me-1">
+            {scope}
+          </Badge>
+        ))}
+      </td>
+      <td>
+        {apiKey.expiresAt ? (
+          <span className={expired ? "text-danger" : undefined}>
+            {expired ? "Expired " : undefined}
+            {calendarTimeFormat(apiKey.expiresAt)}
+          </span>
+        ) : (
+          "never"
+        )}
+      </td>
       <td>{apiKey.createdAt.toISOString()}</td>
       <td>
         {apiKey.lastUsedAt ? (
@@ -146,7 +173,7 @@ const APIKeyRow = ({ apiKey }: { apiKey: APIKeyType }) => {
     return (
       <>
         <tr>
-          <td colSpan={4}>
+          <td colSpan={7}>
             <Alert
               variant="danger"
               onClose={() => setRequestState("idle")}
@@ -170,6 +197,9 @@ const APIKeysTable = ({ apiKeys }: { apiKeys?: APIKeyType[] }) => {
       <thead>
         <tr>
           <th>Key</th>
+          <th>Hunts</th>
+          <th>Scopes</th>
+          <th>Expires</th>
           <th>Created</th>
           <th>Last used</th>
           <th>Actions</th>
@@ -182,7 +212,7 @@ const APIKeysTable = ({ apiKeys }: { apiKeys?: APIKeyType[] }) => {
           })
         ) : (
           <tr>
-            <td colSpan={5}>No API keys</td>
+            <td colSpan={7}>No API keys</td>
           </tr>
         )}
       </tbody>
@@ -0,0 +1,311 @@
+import { useTracker } from "meteor/react-meteor-data";
+import { useId, useState } from "react";
+import ToggleButton from "react-bootstrap/ToggleButton";
+import ToggleButtonGroup from "react-bootstrap/ToggleButtonGroup";
+import { Link, useParams } from "react-router-dom";
+import styled from "styled-components";
+import type { ActivityRollupGranularityType } from "../../lib/models/ActivityRollups";
+import ActivityRollups from "../../lib/models/ActivityRollups";
+import Puzzles from "../../lib/models/Puzzles";
+import activityRollupsForHunt from "../../lib/publications/activityRollupsForHunt";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import indexedDisplayNames from "../indexedDisplayNames";
+
+type HeatmapGrouping = "puzzle" | "user";
+
+const periodLengths: Record<ActivityRollupGranularityType, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+const periodFormatters: Record<
+  ActivityRollupGranularityType,
+  Intl.DateTimeFormat
+> = {
+  hour: new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    hour: "numeric",
+  }),
+  day: new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+  }),
+};
+
+// Only label every so many columns, to keep the header legible
+const labelEvery: Record<ActivityRollupGranularityType, number> = {
+  hour: 6,
+  day: 1,
+};
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-bottom: 16px;
+`;
+
+const HeatmapScroller = styled.div`
+  overflow-x: auto;
+`;
+
+const HeatmapGrid = styled.div<{ $columns: number }>`
+  display: grid;
+  grid-template-columns: minmax(10rem, max-content) repeat(
+      ${({ $columns }) => $columns},
+      14px
+    );
+  gap: 2px;
+  font-size: 12px;
+  line-height: 14px;
+`;
+
+const RowLabel = styled.div`
+  position: sticky;
+  left: 0;
+  padding-right: 8px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  background-color: ${({ theme }) => theme.colors.background};
+`;
+
+const ColumnLabel = styled.div`
+  white-space: nowrap;
+  overflow: visible;
+`;
+
+const Cell = styled.div<{ $intensity: number }>`
+  height: 14px;
+  border-radius: 2px;
+  background-color: ${({ theme }) => theme.colors.primary};
+  opacity: ${({ $intensity }) => Math.max($intensity, 0.05)};
+`;
+
+const ActivityHeatmapPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Activity", path: `/hunts/${huntId}/activity` });
+
+  const idPrefix = useId();
+  const [grouping, setGrouping] = useState<HeatmapGrouping>("puzzle");
+  const [granularity, setGranularity] =
+    useState<ActivityRollupGranularityType>("hour");
+
+  const rollupsLoading = useTypedSubscribe(activityRollupsForHunt, {
+    huntId,
+    granularity,
+  });
+  const puzzlesLoading = useTypedSubscribe(puzzlesForPuzzleList, {
+    huntId,
+    includeDeleted: true,
+  });
+  const displayNamesLoading = useSubscribeDisplayNames(huntId);
+  const loading = rollupsLoading() || puzzlesLoading() || displayNamesLoading();
+
+  const rollups = useTracker(
+    () =>
+      loading
+        ? []
+        : ActivityRollups.find({ hunt: huntId, granularity }).fetch(),
+    [loading, huntId, granularity],
+  );
+  const puzzleTitles = useTracker(
+    () =>
+      new Map(
+        loading
+          ? []
+          : Puzzles.findAllowingDeleted({ hunt: huntId })
+              .fetch()
+              .map((puzzle) => [puzzle._id, puzzle.title]),
+      ),
+    [loading, huntId],
+  );
+  const displayNames = useTracker(
+    () => (loading ? new Map<string, string>() : indexedDisplayNames()),
+    [loading],
+  );
+
+  if (loading) {
+    return <div>loading...</div>;
+  }
+
+  const controls = (
+    <Controls>
+      <ToggleButtonGroup
+        type="radio"
+        name="heatmap-grouping"
+        value={grouping}
+        onChange={setGrouping}
+      >
+        <ToggleButton
+          id={`${idPrefix}-heatmap-grouping-puzzle`}
+          value="puzzle"
+          size="sm"
+        >
+          By puzzle
+        </ToggleButton>
+        <ToggleButton
+          id={`${idPrefix}-heatmap-grouping-user`}
+          value="user"
+          size="sm"
+        >
+          By hunter
+        </ToggleButton>
+      </ToggleButtonGroup>
+      <ToggleButtonGroup
+        type="radio"
+        name="heatmap-granularity"
+        value={granularity}
+        onChange={setGranularity}
+      >
+        <ToggleButton
+          id={`${idPrefix}-heatmap-granularity-hour`}
+          value="hour"
+          size="sm"
+        >
+          Hourly
+        </ToggleButton>
+        <ToggleButton
+          id={`${idPrefix}-heatmap-granularity-day`}
+          value="day"
+          size="sm"
+        >
+          Daily
+        </ToggleButton>
+      </ToggleButtonGroup>
+    </Controls>
+  );
+
+  // Document edits we couldn't attribute to anyone still count towards the
+  // puzzle, but there's no hunter to show them against
+  const relevant =
+    grouping === "user" ? rollups.filter((rollup) => rollup.user) : rollups;
+  if (relevant.length === 0) {
+    return (
+      <div>
+        <h1>Activity</h1>
+        {controls}
+        <p>
+          No activity has been rolled up yet. Activity shows up here once it is
+          a few hours old.
+        </p>
+      </div>
+    );
+  }
+
+  const period = periodLengths[granularity];
+  const times = relevant.map((rollup) => rollup.ts.getTime());
+  const start = Math.min(...times);
+  const columns = (Math.max(...times) - start) / period + 1;
+
+  const rows = new Map<string, number[]>();
+  for (const rollup of relevant) {
+    const key = grouping === "puzzle" ? rollup.puzzle : rollup.user!;
+    let row = rows.get(key);
+    if (!row) {
+      row = new Array<number>(columns).fill(0);
+      rows.set(key, row);
+    }
+    row[(rollup.ts.getTime() - start) / period]! += rollup.activeMinutes;
+  }
+  const max = Math.max(...[...rows.values()].flat());
+
+  const label = (key: string) =>
+    grouping === "puzzle"
+      ? (puzzleTitles.get(key) ?? "(unknown puzzle)")
+      : (displayNames.get(key) ?? "???");
+  const sortedRows = [...rows.entries()].sort(([a], [b]) =>
+    label(a).localeCompare(label(b)),
+  );
+
+  return (
+    <div>
+      <h1>Activity</h1>
+      {controls}
+      <p>
+        Darker cells mean more person-minutes of chat, calls and document
+        editing. Activity shows up here once it is a few hours old.
+      </p>
+      <HeatmapScroller>
+        <HeatmapGrid $columns={columns}>
+          <RowLabel />
+          {Array.from({ length: columns }, (_, i) => (
+            <ColumnLabel key={start + i * period}>
+              {i % labelEvery[granularity] === 0
+                ? periodFormatters[granularity].format(
+                    new Date(start + i * period),
+                  )
+                : null}
+            </ColumnLabel>
+          ))}
+          {sortedRows.map(([key, values]) => (
+            <HeatmapRow
+              key={key}
+              huntId={huntId}
+              id={key}
+              grouping={grouping}
+              label={label(key)}
+              values={values}
+              max={max}
+              start={start}
+              period={period}
+              granularity={granularity}
+            />
+          ))}
+        </HeatmapGrid>
+      </HeatmapScroller>
+    </div>
+  );
+};
+
+const HeatmapRow = ({
+  huntId,
+  id,
+  grouping,
+  label,
+  values,
+  max,
+  start,
+  period,
+  granularity,
+}: {
+  huntId: string;
+  id: string;
+  grouping: HeatmapGrouping;
+  label: string;
+  values: number[];
+  max: number;
+  start: number;
+  period: number;
+  granularity: ActivityRollupGranularityType;
+}) => {
+  return (
+    <>
+      <RowLabel title={label}>
+        <Link
+          to={
+            grouping === "puzzle"
+              ? `/hunts/${huntId}/puzzles/${id}`
+              : `/hunts/${huntId}/hunters/${id}`
+          }
+        >
+          {label}
+        </Link>
+      </RowLabel>
+      {values.map((minutes, i) => (
+        <Cell
+          key={start + i * period}
+          $intensity={minutes / max}
+          title={`${periodFormatters[granularity].format(
+            new Date(start + i * period),
+          )}: ${Math.round(minutes)} person-minutes`}
+        />
+      ))}
+    </>
+  );
+};
+
+export default ActivityHeatmapPage;
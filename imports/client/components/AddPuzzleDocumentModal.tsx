@@ -0,0 +1,144 @@
+import React, {
+  useCallback,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import Alert from "react-bootstrap/Alert";
+import Col from "react-bootstrap/Col";
+import type { FormControlProps } from "react-bootstrap/FormControl";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import Row from "react-bootstrap/Row";
+import type { GdriveMimeTypesType } from "../../lib/GdriveMimeTypes";
+import type { DocumentProviderType } from "../../lib/models/Hunts";
+import addPuzzleDocument from "../../methods/addPuzzleDocument";
+import LabelledRadioGroup from "./LabelledRadioGroup";
+import type { ModalFormHandle } from "./ModalForm";
+import ModalForm from "./ModalForm";
+
+export type AddPuzzleDocumentModalHandle = {
+  show: () => void;
+};
+
+const AddPuzzleDocumentModal = React.forwardRef(
+  (
+    {
+      puzzleId,
+      documentProvider,
+      onAdded,
+    }: {
+      puzzleId: string;
+      documentProvider: DocumentProviderType;
+      // Called with the ID of the new document once it's been created
+      onAdded: (documentId: string) => void;
+    },
+    forwardedRef: React.Ref<AddPuzzleDocumentModalHandle>,
+  ) => {
+    const [title, setTitle] = useState<string>("");
+    const [type, setType] = useState<GdriveMimeTypesType>("spreadsheet");
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string>("");
+
+    const formRef = useRef<ModalFormHandle>(null);
+
+    useImperativeHandle(forwardedRef, () => ({
+      show: () => {
+        formRef.current?.show();
+      },
+    }));
+
+    const onTitleChange: NonNullable<FormControlProps["onChange"]> =
+      useCallback((event) => {
+        setTitle(event.currentTarget.value);
+      }, []);
+
+    const onTypeChange = useCallback((value: string) => {
+      setType(value as GdriveMimeTypesType);
+    }, []);
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        setSubmitting(true);
+        addPuzzleDocument.call(
+          {
+            puzzleId,
+            title,
+            type: documentProvider === "google" ? type : undefined,
+          },
+          (error, documentId) => {
+            setSubmitting(false);
+            if (error) {
+              setErrorMessage(error.message);
+            } else {
+              setErrorMessage("");
+              setTitle("");
+              onAdded(documentId!);
+              callback();
+            }
+          },
+        );
+      },
+      [puzzleId, title, type, documentProvider, onAdded],
+    );
+
+    const idPrefix = useId();
+
+    return (
+      <ModalForm
+        ref={formRef}
+        title="Add document"
+        submitLabel="Add"
+        submitDisabled={submitting}
+        onSubmit={onSubmit}
+      >
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-add-document-title`}
+        >
+          <FormLabel column xs={3}>
+            Title
+          </FormLabel>
+          <Col xs={9}>
+            <FormControl
+              type="text"
+              autoFocus
+              placeholder="e.g. Grid, Notes"
+              disabled={submitting}
+              onChange={onTitleChange}
+              value={title}
+            />
+          </Col>
+        </FormGroup>
+
+        {documentProvider === "google" && (
+          <FormGroup as={Row} className="mb-3">
+            <FormLabel column xs={3}>
+              Document type
+            </FormLabel>
+            <Col xs={9}>
+              <LabelledRadioGroup
+                header=""
+                options={[
+                  { value: "spreadsheet", label: "Spreadsheet" },
+                  { value: "document", label: "Document" },
+                  { value: "drawing", label: "Drawing" },
+                ]}
+                initialValue={type}
+                help="The new document opens in its own tab on the puzzle page."
+                onChange={onTypeChange}
+              />
+            </Col>
+          </FormGroup>
+        )}
+
+        {errorMessage && <Alert variant="danger">{errorMessage}</Alert>}
+      </ModalForm>
+    );
+  },
+);
+
+export default AddPuzzleDocumentModal;
@@ -20,17 +20,19 @@ const AnnouncementToast = ({
   message,
   createdAt,
   onClose,
+  closeLabel,
   className,
 }: {
   displayName: string;
   message: string;
   createdAt: Date;
   onClose?: () => void;
+  closeLabel?: string;
   className?: string;
 }) => {
   return (
     <StyledToast className={className} onClose={onClose}>
-      <Toast.Header closeButton={!!onClose}>
+      <Toast.Header closeButton={!!onClose} closeLabel={closeLabel}>
         <strong className="me-auto">Announcement from {displayName}</strong>
         <StyledNotificationTimestamp>
           {calendarTimeFormat(createdAt)}
@@ -5,14 +5,17 @@ import { useCallback, useId, useState } from "react";
 import Alert from "react-bootstrap/Alert";
 import Button from "react-bootstrap/Button";
 import Form from "react-bootstrap/Form";
-import { useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import ReactTextareaAutosize from "react-textarea-autosize";
 import styled from "styled-components";
 import Announcements from "../../lib/models/Announcements";
 import Hunts from "../../lib/models/Hunts";
+import type { AnnouncementChannelType } from "../../lib/models/NotificationPreferences";
 import { userMayAddAnnouncementToHunt } from "../../lib/permission_stubs";
 import announcementsForAnnouncementsPage from "../../lib/publications/announcementsForAnnouncementsPage";
+import destroyAnnouncement from "../../methods/destroyAnnouncement";
 import postAnnouncement from "../../methods/postAnnouncement";
+import setAnnouncementChannels from "../../methods/setAnnouncementChannels";
 import { useBreadcrumb } from "../hooks/breadcrumb";
 import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import indexedDisplayNames from "../indexedDisplayNames";
@@ -114,6 +117,74 @@ const AnnouncementFormInput = ({
   );
 };
 
+const announcementChannelLabels: Record<AnnouncementChannelType, string> = {
+  email: "Email",
+  sms: "Text message",
+};
+
+const AnnouncementChannelsForm = ({ huntId }: { huntId: string }) => {
+  const { channels, hasPhoneNumber } = useTracker(() => {
+    const user = Meteor.user();
+    return {
+      channels: user?.announcementChannels?.[huntId] ?? [],
+      hasPhoneNumber: !!user?.phoneNumber,
+    };
+  }, [huntId]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>();
+
+  const onToggle = useCallback(
+    (channel: AnnouncementChannelType) => {
+      const newChannels = channels.includes(channel)
+        ? channels.filter((c) => c !== channel)
+        : [...channels, channel];
+      setSubmitting(true);
+      setAnnouncementChannels.call(
+        { huntId, channels: newChannels },
+        (error) => {
+          setErrorMessage(error?.message);
+          setSubmitting(false);
+        },
+      );
+    },
+    [huntId, channels],
+  );
+
+  const idPrefix = useId();
+
+  return (
+    <BoundedForm className="mb-3">
+      {errorMessage ? (
+        <Alert
+          variant="danger"
+          dismissible
+          onClose={() => setErrorMessage(undefined)}
+        >
+          {errorMessage}
+        </Alert>
+      ) : null}
+      <Form.Label>Also send me this hunt&apos;s announcements by:</Form.Label>
+      {(["email", "sms"] as const).map((channel) => (
+        <Form.Check
+          key={channel}
+          type="checkbox"
+          id={`${idPrefix}-${channel}`}
+          label={announcementChannelLabels[channel]}
+          checked={channels.includes(channel)}
+          disabled={submitting || (channel === "sms" && !hasPhoneNumber)}
+          onChange={() => onToggle(channel)}
+        />
+      ))}
+      <Form.Text>
+        Emails go to the address on your account, and text messages to the phone
+        number on <Link to="/users/me">your profile</Link>
+        {hasPhoneNumber ? "" : " (once you've added one)"}. Nothing is sent
+        during your quiet hours.
+      </Form.Text>
+    </BoundedForm>
+  );
+};
+
 const AnnouncementsPage = () => {
   const huntId = useParams<"huntId">().huntId!;
   useBreadcrumb({
@@ -156,6 +227,7 @@ const AnnouncementsPage = () => {
   return (
     <div>
       <h1>Announcements</h1>
+      <AnnouncementChannelsForm huntId={huntId} />
       {canCreateAnnouncements && (
         <AnnouncementFormInput
           huntId={huntId}
@@ -173,6 +245,15 @@ const AnnouncementsPage = () => {
               createdAt={announcement.createdAt}
               displayName={displayNames.get(announcement.createdBy) ?? "???"}
               message={announcement.message}
+              onClose={
+                canCreateAnnouncements
+                  ? () =>
+                      destroyAnnouncement.call({
+                        announcementId: announcement._id,
+                      })
+                  : undefined
+              }
+              closeLabel="Delete announcement"
             />
           );
         })}
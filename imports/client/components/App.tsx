@@ -309,6 +309,11 @@ const AppNavbar = ({
                 <DropdownItem eventKey="4">Server setup</DropdownItem>
               </RRBS.LinkContainer>
             ) : undefined}
+            {userIsAdmin ? (
+              <RRBS.LinkContainer to="/audit-log">
+                <DropdownItem eventKey="5">Audit log</DropdownItem>
+              </RRBS.LinkContainer>
+            ) : undefined}
             <DropdownItem eventKey="3" onClick={logout}>
               Sign out
             </DropdownItem>
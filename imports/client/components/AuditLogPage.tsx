@@ -0,0 +1,298 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import type { ChangeEvent } from "react";
+import { useCallback, useEffect, useId, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormSelect from "react-bootstrap/FormSelect";
+import Table from "react-bootstrap/Table";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import styled from "styled-components";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import type {
+  AuditLogActionType,
+  AuditLogEntryType,
+} from "../../lib/models/AuditLogEntries";
+import { AuditLogActions } from "../../lib/models/AuditLogEntries";
+import {
+  userMayViewAuditLogForHunt,
+  userMayViewServerAuditLog,
+} from "../../lib/permission_stubs";
+import fetchAuditLog from "../../methods/fetchAuditLog";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+
+const actionLabels: Record<AuditLogActionType, string> = {
+  promoteOperator: "Made operator",
+  demoteOperator: "Demoted operator",
+  setUserHuntRoles: "Changed hunter's roles",
+  configureHuntRoles: "Configured roles",
+  generateHuntInvitationCode: "Generated invitation link",
+  clearHuntInvitationCode: "Disabled invitation link",
+  setGuessState: "Changed guess state",
+  destroyPuzzle: "Deleted puzzle",
+  undestroyPuzzle: "Restored puzzle",
+  mergePuzzle: "Merged puzzle",
+  destroyGuess: "Deleted guess",
+  undestroyGuess: "Restored guess",
+  destroyAnnouncement: "Deleted announcement",
+  undestroyAnnouncement: "Restored announcement",
+  destroyTag: "Deleted tag",
+  undestroyTag: "Restored tag",
+  updateHunt: "Edited hunt",
+  destroyHunt: "Deleted hunt",
+  undestroyHunt: "Restored hunt",
+  setFeatureFlag: "Set feature flag",
+  configureClearGdriveCreds: "Cleared Google Drive credentials",
+  configureCollectGoogleAccountIds: "Collected Google account IDs",
+  configureDiscordBot: "Configured Discord bot",
+  configureDiscordBotGuild: "Configured Discord guild",
+  configureDiscordOAuthClient: "Configured Discord OAuth",
+  configureEmailBranding: "Configured email branding",
+  configureEnsureGoogleScript: "Deployed Google Apps Script",
+  configureEtherpad: "Configured Etherpad",
+  configureGdriveCreds: "Configured Google Drive credentials",
+  configureGdriveRoot: "Configured Google Drive root folder",
+  configureGdriveTemplates: "Configured Google Drive templates",
+  configureGoogleOAuthClient: "Configured Google OAuth",
+  configureGoogleScriptUrl: "Configured Google Apps Script URL",
+  configureOrganizeGoogleDrive: "Reorganized Google Drive",
+  configureS3ImageBucket: "Configured S3 image bucket",
+  configureTeamName: "Configured team name",
+  configureWebPush: "Configured Web Push",
+};
+
+const Filters = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 1em;
+  margin-bottom: 1em;
+`;
+
+type AuditLogResults = {
+  entries: AuditLogEntryType[];
+  hasMore: boolean;
+};
+
+const AuditLogPage = () => {
+  // Hunt operators see their hunt's log, and admins can also see the log for
+  // the whole server
+  const huntId = useParams<"huntId">().huntId;
+  useBreadcrumb({
+    title: "Audit log",
+    path: huntId ? `/hunts/${huntId}/audit-log` : "/audit-log",
+  });
+
+  const canView = useTracker(
+    () =>
+      huntId
+        ? userMayViewAuditLogForHunt(Meteor.user(), { _id: huntId })
+        : userMayViewServerAuditLog(Meteor.user()),
+    [huntId],
+  );
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const actionFilter = AuditLogActions.safeParse(
+    searchParams.get("action"),
+  ).data;
+  const userFilter = searchParams.get("user") ?? undefined;
+
+  const [page, setPage] = useState<AuditLogResults>();
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<string>();
+  // Everyone we've seen in the log, so they stay available to filter by
+  const [displayNames, setDisplayNames] = useState<Map<string, string>>(
+    new Map(),
+  );
+  const [huntNames, setHuntNames] = useState<Map<string, string>>(new Map());
+
+  const fetchPage = useCallback(
+    (before: Date | undefined, onPage: (result: AuditLogResults) => void) => {
+      fetchAuditLog.call(
+        { huntId, action: actionFilter, user: userFilter, before },
+        (err, result) => {
+          if (err || !result) {
+            setError(err?.message);
+            return;
+          }
+          setError(undefined);
+          setDisplayNames(
+            (prev) =>
+              new Map([...prev, ...Object.entries(result.displayNames)]),
+          );
+          setHuntNames(
+            (prev) => new Map([...prev, ...Object.entries(result.huntNames)]),
+          );
+          onPage({ entries: result.entries, hasMore: result.hasMore });
+        },
+      );
+    },
+    [huntId, actionFilter, userFilter],
+  );
+
+  useEffect(() => {
+    if (!canView) {
+      return undefined;
+    }
+    let cancelled = false;
+    setPage(undefined);
+    fetchPage(undefined, (result) => {
+      if (!cancelled) {
+        setPage(result);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [canView, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    const oldest = page?.entries[page.entries.length - 1];
+    if (!oldest) {
+      return;
+    }
+    setLoadingMore(true);
+    fetchPage(oldest.createdAt, (result) => {
+      setLoadingMore(false);
+      setPage((prev) => ({
+        entries: [...(prev?.entries ?? []), ...result.entries],
+        hasMore: result.hasMore,
+      }));
+    });
+  }, [page, fetchPage]);
+
+  const setFilter = useCallback(
+    (key: string, value: string) => {
+      const u = new URLSearchParams(searchParams);
+      if (value) {
+        u.set(key, value);
+      } else {
+        u.delete(key);
+      }
+      setSearchParams(u);
+    },
+    [searchParams, setSearchParams],
+  );
+  const onActionFilterChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      setFilter("action", e.currentTarget.value);
+    },
+    [setFilter],
+  );
+  const onUserFilterChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      setFilter("user", e.currentTarget.value);
+    },
+    [setFilter],
+  );
+
+  const idPrefix = useId();
+
+  if (!canView) {
+    return (
+      <Alert variant="danger">
+        You are not permitted to view the audit log
+        {huntId ? " for this hunt" : ""}.
+      </Alert>
+    );
+  }
+
+  const users = [...displayNames].sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <div>
+      <h1>Audit log</h1>
+      <p>
+        {huntId
+          ? "Everything operators and admins have done to this hunt that affects other hunters."
+          : "Everything operators and admins have done, across all hunts and to the server's settings."}
+      </p>
+      <Filters>
+        <FormGroup controlId={`${idPrefix}-action`}>
+          <FormLabel>Action</FormLabel>
+          <FormSelect
+            value={actionFilter ?? ""}
+            onChange={onActionFilterChange}
+          >
+            <option value="">Any</option>
+            {AuditLogActions.options.map((action) => (
+              <option key={action} value={action}>
+                {actionLabels[action]}
+              </option>
+            ))}
+          </FormSelect>
+        </FormGroup>
+        <FormGroup controlId={`${idPrefix}-user`}>
+          <FormLabel>By</FormLabel>
+          <FormSelect value={userFilter ?? ""} onChange={onUserFilterChange}>
+            <option value="">Anyone</option>
+            {users.map(([userId, name]) => (
+              <option key={userId} value={userId}>
+                {name}
+              </option>
+            ))}
+          </FormSelect>
+        </FormGroup>
+      </Filters>
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {page ? (
+        <>
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Who</th>
+                {huntId ? null : <th>Hunt</th>}
+                <th>Action</th>
+                <th>On</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.entries.length > 0 ? (
+                page.entries.map((entry) => (
+                  <tr key={entry._id}>
+                    <td>{calendarTimeFormat(entry.createdAt)}</td>
+                    <td>{displayNames.get(entry.user) ?? entry.user}</td>
+                    {huntId ? null : (
+                      <td>
+                        {entry.hunt ? (
+                          <Link to={`/hunts/${entry.hunt}/audit-log`}>
+                            {huntNames.get(entry.hunt) ?? entry.hunt}
+                          </Link>
+                        ) : (
+                          "Server"
+                        )}
+                      </td>
+                    )}
+                    <td>{actionLabels[entry.action]}</td>
+                    <td>{entry.subject ?? entry.subjectId}</td>
+                    <td>{entry.details}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={huntId ? 5 : 6}>Nothing has been logged</td>
+                </tr>
+              )}
+            </tbody>
+          </Table>
+          {page.hasMore ? (
+            <Button
+              variant="outline-secondary"
+              disabled={loadingMore}
+              onClick={loadMore}
+            >
+              Load older entries
+            </Button>
+          ) : null}
+        </>
+      ) : (
+        <div>loading...</div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
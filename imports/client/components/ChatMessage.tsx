@@ -6,6 +6,8 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import BSImage from "react-bootstrap/Image";
 import styled from "styled-components";
 import type { ChatMessageContentType } from "../../lib/models/ChatMessages";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
 import nodeIsImage from "../../lib/nodeIsImage";
 import nodeIsMention from "../../lib/nodeIsMention";
 import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
@@ -203,12 +205,14 @@ const ChatMessage = ({
   displayNames,
   selfUserId,
   roles,
+  groups = [],
   imageOnLoad,
 }: {
   message: ChatMessageContentType;
   displayNames: Map<string, string>;
   selfUserId: string;
   roles: string[];
+  groups?: HuntGroupType[];
   imageOnLoad?: () => void;
 }) => {
   const children = message.children.map((child, i) => {
@@ -226,6 +230,13 @@ const ChatMessage = ({
           @{child.roleId}
         </MentionSpan>
       );
+    } else if (nodeIsGroupMention(child)) {
+      const group = groups.find((g) => g._id === child.groupId);
+      return (
+        <MentionSpan key={i} $isSelf={!!group?.members.includes(selfUserId)}>
+          @{group?.name ?? "group"}
+        </MentionSpan>
+      );
     } else if (nodeIsImage(child)) {
       return <ResponsiveImage key={i} src={child.url} onLoadCB={imageOnLoad} />;
     } else {
@@ -0,0 +1,158 @@
+import { faSmile } from "@fortawesome/free-solid-svg-icons/faSmile";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useCallback, useState } from "react";
+import Button from "react-bootstrap/Button";
+import OverlayTrigger from "react-bootstrap/OverlayTrigger";
+import Popover from "react-bootstrap/Popover";
+import Tooltip from "react-bootstrap/Tooltip";
+import styled, { css } from "styled-components";
+import type { ChatReactionType } from "../../lib/models/ChatMessages";
+import { ChatReactions } from "../../lib/models/ChatMessages";
+import toggleChatMessageReaction from "../../methods/toggleChatMessageReaction";
+
+const ReactionList = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px;
+  margin-top: 2px;
+`;
+
+const ReactionPill = styled.button<{ $isSelf: boolean }>`
+  padding: 0 6px;
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 10px;
+  background: none;
+  color: inherit;
+  font-size: 12px;
+  line-height: 18px;
+
+  ${({ $isSelf }) =>
+    $isSelf &&
+    css`
+      border-color: ${({ theme }) => theme.colors.primary};
+    `}
+`;
+
+const PickerPopover = styled(Popover)`
+  .popover-body {
+    display: flex;
+    padding: 4px;
+  }
+`;
+
+const PickerButton = styled(Button)`
+  font-size: 16px;
+  padding: 0 4px;
+`;
+
+// A button which pops up the available reactions, for adding one to a message
+export const ChatReactionPicker = ({
+  chatMessageId,
+  onToggle,
+}: {
+  chatMessageId: string;
+  // Called when the picker is opened or closed
+  onToggle?: (show: boolean) => void;
+}) => {
+  const [show, setShow] = useState(false);
+  const onShowChange = useCallback(
+    (nextShow: boolean) => {
+      setShow(nextShow);
+      onToggle?.(nextShow);
+    },
+    [onToggle],
+  );
+
+  const react = useCallback(
+    (reaction: ChatReactionType) => {
+      toggleChatMessageReaction.call({ chatMessageId, reaction });
+      onShowChange(false);
+    },
+    [chatMessageId, onShowChange],
+  );
+
+  const picker = (
+    <PickerPopover id={`chat-reaction-picker-${chatMessageId}`}>
+      <Popover.Body>
+        {ChatReactions.options.map((reaction) => (
+          <PickerButton
+            key={reaction}
+            variant="link"
+            onClick={() => react(reaction)}
+          >
+            {reaction}
+          </PickerButton>
+        ))}
+      </Popover.Body>
+    </PickerPopover>
+  );
+
+  return (
+    <OverlayTrigger
+      trigger="click"
+      placement="top"
+      rootClose
+      overlay={picker}
+      show={show}
+      onToggle={onShowChange}
+    >
+      <Button variant="link" title="Add reaction">
+        <FontAwesomeIcon icon={faSmile} />
+      </Button>
+    </OverlayTrigger>
+  );
+};
+
+// The reactions on a message, each with a count of who reacted. Clicking one
+// toggles your own reaction.
+const ChatMessageReactions = ({
+  chatMessageId,
+  reactions,
+  displayNames,
+  selfUserId,
+}: {
+  chatMessageId: string;
+  reactions: Record<string, string[]> | undefined;
+  displayNames: Map<string, string>;
+  selfUserId: string;
+}) => {
+  const entries = Object.entries(reactions ?? {}).filter(
+    ([, users]) => users.length > 0,
+  );
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ReactionList>
+      {entries.map(([reaction, users]) => {
+        const tooltip = (
+          <Tooltip id={`chat-reaction-${chatMessageId}-${reaction}`}>
+            {users.map((u) => displayNames.get(u) ?? "???").join(", ")}
+          </Tooltip>
+        );
+        const toggleable = ChatReactions.safeParse(reaction);
+        return (
+          <OverlayTrigger key={reaction} placement="top" overlay={tooltip}>
+            <ReactionPill
+              $isSelf={users.includes(selfUserId)}
+              disabled={!toggleable.success}
+              onClick={() => {
+                if (toggleable.success) {
+                  toggleChatMessageReaction.call({
+                    chatMessageId,
+                    reaction: toggleable.data,
+                  });
+                }
+              }}
+            >
+              {reaction} {users.length}
+            </ReactionPill>
+          </OverlayTrigger>
+        );
+      })}
+    </ReactionList>
+  );
+};
+
+export default ChatMessageReactions;
@@ -1,5 +1,6 @@
 import type { Meteor } from "meteor/meteor";
 import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
+import { faDrawPolygon } from "@fortawesome/free-solid-svg-icons/faDrawPolygon";
 import { faFileAlt } from "@fortawesome/free-solid-svg-icons/faFileAlt";
 import { faTable } from "@fortawesome/free-solid-svg-icons/faTable";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
@@ -41,13 +42,40 @@ export const DocumentMessage = styled.span`
   background-color: ${({ theme }) => theme.colors.documentMessageBackground};
 `;
 
+// How to refer to a document: its own title if it has one, or otherwise what
+// kind of document it is
+export function documentLabel(document: DocumentType) {
+  if (document.title) {
+    return document.title;
+  }
+
+  switch (document.provider) {
+    case "google":
+      switch (document.value.type) {
+        case "spreadsheet":
+          return "Sheet";
+        case "document":
+          return "Doc";
+        case "drawing":
+          return "Drawing";
+        default:
+          return "Document";
+      }
+    case "etherpad":
+      return "Pad";
+    default:
+      return "Document";
+  }
+}
+
 const GoogleDocumentDisplay = ({
   document,
   displayMode,
   user,
-}: DocumentDisplayProps) => {
+}: DocumentDisplayProps & {
+  document: DocumentType & { provider: "google" };
+}) => {
   let url: string;
-  let title: string;
   let icon: IconDefinition;
   // If the user has linked their Google account, try to force usage of that specific account.
   // Otherwise, they may open the document anonymously. If the user isn't signed in, they will be
@@ -58,14 +86,16 @@ const GoogleDocumentDisplay = ({
   switch (document.value.type) {
     case "spreadsheet":
       url = `https://docs.google.com/spreadsheets/d/${document.value.id}/edit?${authUserParam}ui=2&rm=embedded&gid=0#gid=0`;
-      title = "Sheet";
       icon = faTable;
       break;
     case "document":
       url = `https://docs.google.com/document/d/${document.value.id}/edit?${authUserParam}ui=2&rm=embedded#gid=0`;
-      title = "Doc";
       icon = faFileAlt;
       break;
+    case "drawing":
+      url = `https://docs.google.com/drawings/d/${document.value.id}/edit?${authUserParam}ui=2&rm=embedded`;
+      icon = faDrawPolygon;
+      break;
     default:
       return (
         <DocumentMessage>
@@ -79,7 +109,8 @@ const GoogleDocumentDisplay = ({
     case "link":
       return (
         <StyledDeepLink href={url} target="_blank" rel="noreferrer noopener">
-          <FontAwesomeIcon fixedWidth icon={icon} /> <span>{title}</span>
+          <FontAwesomeIcon fixedWidth icon={icon} />{" "}
+          <span>{documentLabel(document)}</span>
         </StyledDeepLink>
       );
     case "embed":
@@ -92,6 +123,48 @@ const GoogleDocumentDisplay = ({
   }
 };
 
+const EtherpadDocumentDisplay = ({
+  document,
+  displayMode,
+  user,
+}: DocumentDisplayProps & {
+  document: DocumentType & { provider: "etherpad" };
+}) => {
+  switch (displayMode) {
+    case "link":
+      return (
+        <StyledDeepLink
+          href={document.value.url}
+          target="_blank"
+          rel="noreferrer noopener"
+        >
+          <FontAwesomeIcon fixedWidth icon={faFileAlt} />{" "}
+          <span>{documentLabel(document)}</span>
+        </StyledDeepLink>
+      );
+    case "embed": {
+      // Pass the user's display name so that others can see who is editing,
+      // and so we can attribute pad activity to them. Chat happens in Jolly
+      // Roger, so hide Etherpad's own.
+      const params = new URLSearchParams({
+        userName: user.displayName ?? "",
+        showChat: "false",
+      });
+      return (
+        <StyledIframe
+          title="document"
+          scrolling="no"
+          src={`${document.value.url}?${params}`}
+        />
+      );
+    }
+    default:
+      return (
+        <DocumentMessage>Unknown displayMode {displayMode}</DocumentMessage>
+      );
+  }
+};
+
 const DocumentDisplay = ({
   document,
   displayMode,
@@ -106,6 +179,14 @@ const DocumentDisplay = ({
           user={user}
         />
       );
+    case "etherpad":
+      return (
+        <EtherpadDocumentDisplay
+          document={document}
+          displayMode={displayMode}
+          user={user}
+        />
+      );
     default:
       return (
         <DocumentMessage>
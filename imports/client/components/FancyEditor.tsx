@@ -39,6 +39,7 @@ import {
 import styled, { css } from "styled-components";
 import { formatDiscordName } from "../../lib/discord";
 import { indexedById, sortedBy } from "../../lib/listUtils";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
 import Avatar from "./Avatar";
 
 // This implements a markdown-inspired input editor with live formatting preview
@@ -49,18 +50,27 @@ export const DEBUG_EDITOR = false;
 export type CustomText = { text: string };
 export type MessageElement = {
   type: "message";
-  children: (MentionElement | RoleMentionElement | ImageElement | CustomText)[];
+  children: (
+    | MentionElement
+    | RoleMentionElement
+    | GroupMentionElement
+    | ImageElement
+    | CustomText
+  )[];
 };
 export type MentionElement = {
   type: "mention";
   userId: string; // user._id of the mentioned user
   children: CustomText[];
 };
-const AllRoles = ["operator"] as const;
-type AllRolesType = (typeof AllRoles)[number];
 export type RoleMentionElement = {
   type: "role-mention";
-  roleId: AllRolesType; // name of the mentioned role
+  roleId: string; // id of the mentioned role
+  children: CustomText[];
+};
+export type GroupMentionElement = {
+  type: "group-mention";
+  groupId: string; // _id of the mentioned hunt group
   children: CustomText[];
 };
 export type ImageStatus = "success" | "error" | "loading";
@@ -74,6 +84,7 @@ export type ImageElement = {
 export type CustomElement =
   | MessageElement
   | RoleMentionElement
+  | GroupMentionElement
   | MentionElement
   | ImageElement;
 declare module "slate" {
@@ -112,9 +123,14 @@ interface LeafProps {
   blockquote?: boolean;
 }
 
+type MentionableGroup = Pick<HuntGroupType, "_id" | "name">;
+
 interface MentionRendererProps
-  extends ElementRendererProps<MentionElement | RoleMentionElement> {
+  extends ElementRendererProps<
+    MentionElement | RoleMentionElement | GroupMentionElement
+  > {
   users: Map<string, Meteor.User>;
+  groups: Map<string, MentionableGroup>;
 }
 
 export const MentionSpan = styled.span<{
@@ -156,6 +172,7 @@ const EditableMentionRenderer = ({
   children,
   element,
   users,
+  groups,
 }: MentionRendererProps) => {
   const selected = useSelected();
   const focused = useFocused();
@@ -167,6 +184,9 @@ const EditableMentionRenderer = ({
     case "role-mention":
       name = element.roleId;
       break;
+    case "group-mention":
+      name = groups.get(element.groupId)?.name ?? "group";
+      break;
     default:
       // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
       element satisfies never;
@@ -231,6 +251,7 @@ const withMentionsAndImages = (
     switch (element.type) {
       case "mention":
       case "role-mention":
+      case "group-mention":
       case "image":
         return true;
       default:
@@ -241,6 +262,7 @@ const withMentionsAndImages = (
     switch (element.type) {
       case "mention":
       case "role-mention":
+      case "group-mention":
       case "image":
         return true;
       default:
@@ -251,6 +273,7 @@ const withMentionsAndImages = (
     switch (element.type) {
       case "mention":
       case "role-mention":
+      case "group-mention":
         return true;
       case "image":
         return false;
@@ -300,7 +323,7 @@ const insertMention = (editor: Editor, userId: string) => {
   Transforms.move(editor);
 };
 
-const insertRoleMention = (editor: Editor, roleId: AllRolesType) => {
+const insertRoleMention = (editor: Editor, roleId: string) => {
   const roleMention: RoleMentionElement = {
     type: "role-mention",
     roleId,
@@ -310,6 +333,16 @@ const insertRoleMention = (editor: Editor, roleId: AllRolesType) => {
   Transforms.move(editor);
 };
 
+const insertGroupMention = (editor: Editor, groupId: string) => {
+  const groupMention: GroupMentionElement = {
+    type: "group-mention",
+    groupId,
+    children: [{ text: "" }],
+  };
+  Transforms.insertNodes(editor, groupMention);
+  Transforms.move(editor);
+};
+
 const MatchCandidateRow = styled.div<{ $selected: boolean }>`
   padding: 2px 3px;
   border-radius: 3px;
@@ -375,6 +408,16 @@ const MatchCandidate = ({
           <strong>@{mention.roleId}</strong>
         </MatchCandidateRow>
       );
+    case "group-mention":
+      return (
+        <MatchCandidateRow
+          key={mention.group._id}
+          $selected={selected}
+          onClick={onClick}
+        >
+          <strong>@{mention.group.name}</strong>
+        </MatchCandidateRow>
+      );
     default:
       // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
       mention satisfies never;
@@ -389,9 +432,28 @@ type MentionMatch =
     }
   | {
       type: "role-mention";
-      roleId: AllRolesType;
+      roleId: string;
+    }
+  | {
+      type: "group-mention";
+      group: MentionableGroup;
     };
 
+function mentionMatchKey(mention: MentionMatch): string {
+  switch (mention.type) {
+    case "mention":
+      return mention.user._id;
+    case "role-mention":
+      return mention.roleId;
+    case "group-mention":
+      return mention.group._id;
+    default:
+      // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
+      mention satisfies never;
+      return "";
+  }
+}
+
 type AugmentedUser = Meteor.User & {
   foundDisplayName: boolean;
   startsDisplayName: boolean;
@@ -405,6 +467,8 @@ type AugmentedUser = Meteor.User & {
 
 function matchMentions(
   users: Meteor.User[],
+  groups: MentionableGroup[],
+  roles: string[],
   searchString: string,
 ): MentionMatch[] {
   // No point doing all this matching work if there's no search string to match against.
@@ -475,14 +539,21 @@ function matchMentions(
     };
   });
 
-  const roleMentions = AllRoles.filter((roleId) =>
-    roleId.startsWith(needle),
-  ).map((roleId) => ({
-    type: "role-mention" as const,
-    roleId,
-  }));
+  const roleMentions = roles
+    .filter((roleId) => roleId.startsWith(needle))
+    .map((roleId) => ({
+      type: "role-mention" as const,
+      roleId,
+    }));
+
+  const groupMentions = groups
+    .filter((group) => group.name.toLowerCase().includes(needle))
+    .map((group) => ({
+      type: "group-mention" as const,
+      group,
+    }));
 
-  return [...userMentions, ...roleMentions];
+  return [...userMentions, ...groupMentions, ...roleMentions];
 }
 
 const StyledMessage = styled.p`
@@ -691,6 +762,8 @@ const FancyEditor = React.forwardRef(
       initialContent,
       placeholder,
       users,
+      groups,
+      roles,
       onContentChange,
       onSubmit,
       uploadImageFile,
@@ -700,6 +773,9 @@ const FancyEditor = React.forwardRef(
       initialContent: Descendant[];
       placeholder?: string;
       users: Meteor.User[];
+      // Hunt groups and roles that can be @-mentioned
+      groups: MentionableGroup[];
+      roles: string[];
       onContentChange: (content: Descendant[]) => void;
       uploadImageFile: (file: File) => void;
       onSubmit: () => boolean;
@@ -727,6 +803,7 @@ const FancyEditor = React.forwardRef(
     const [completionSearchString, setCompletionSearchString] = useState("");
 
     const usersById = useMemo(() => indexedById(users), [users]);
+    const groupsById = useMemo(() => indexedById(groups), [groups]);
 
     const insertImage = useCallback(
       (url: string, tempId: string, status: ImageStatus) => {
@@ -821,11 +898,13 @@ const FancyEditor = React.forwardRef(
         switch (props.element.type) {
           case "mention":
           case "role-mention":
+          case "group-mention":
             return (
               <EditableMentionRenderer
                 users={usersById}
+                groups={groupsById}
                 {...(props as ElementRendererProps<
-                  MentionElement | RoleMentionElement
+                  MentionElement | RoleMentionElement | GroupMentionElement
                 >)}
               />
             );
@@ -844,7 +923,7 @@ const FancyEditor = React.forwardRef(
             );
         }
       },
-      [usersById],
+      [usersById, groupsById],
     );
 
     const onChange = useCallback(
@@ -889,8 +968,8 @@ const FancyEditor = React.forwardRef(
     );
 
     const matchingMentions: MentionMatch[] = useMemo(
-      () => matchMentions(users, completionSearchString),
-      [users, completionSearchString],
+      () => matchMentions(users, groups, roles, completionSearchString),
+      [users, groups, roles, completionSearchString],
     );
 
     const onKeyDown: React.KeyboardEventHandler<HTMLDivElement> = useCallback(
@@ -929,6 +1008,10 @@ const FancyEditor = React.forwardRef(
                   insertRoleMention(editor, mention.roleId);
                   break;
                 }
+                case "group-mention": {
+                  insertGroupMention(editor, mention.group._id);
+                  break;
+                }
                 default:
                   // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
                   mention satisfies never;
@@ -1020,6 +1103,9 @@ const FancyEditor = React.forwardRef(
           case "role-mention":
             insertRoleMention(editor, m.roleId);
             break;
+          case "group-mention":
+            insertGroupMention(editor, m.group._id);
+            break;
           default:
             // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
             m satisfies never;
@@ -1058,11 +1144,7 @@ const FancyEditor = React.forwardRef(
               {matchingMentions.map((mention, i) => {
                 return (
                   <MatchCandidate
-                    key={
-                      mention.type === "mention"
-                        ? mention.user._id
-                        : mention.roleId
-                    }
+                    key={mentionMatchKey(mention)}
                     mention={mention}
                     selected={i === completionCursorIndex}
                     onSelected={onMentionSelected}
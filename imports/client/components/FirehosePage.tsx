@@ -21,8 +21,10 @@ import { shortCalendarTimeFormat } from "../../lib/calendarTimeFormat";
 import { indexedById } from "../../lib/listUtils";
 import type { ChatMessageType } from "../../lib/models/ChatMessages";
 import ChatMessages from "../../lib/models/ChatMessages";
+import HuntGroups from "../../lib/models/HuntGroups";
 import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
 import nodeIsImage from "../../lib/nodeIsImage";
 import nodeIsMention from "../../lib/nodeIsMention";
 import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
@@ -50,6 +52,7 @@ const FirehosePageLayout = styled.div`
 interface MessageProps {
   msg: ChatMessageType;
   displayNames: Map<string, string>;
+  groupNames: Map<string, string>;
   puzzle: PuzzleType | undefined;
 }
 
@@ -62,6 +65,7 @@ const PreWrapSpan = styled.span`
 function asFlatString(
   chatMessage: ChatMessageType,
   displayNames: Map<string, string>,
+  groupNames: Map<string, string>,
 ): string {
   return chatMessage.content.children
     .map((child) => {
@@ -69,6 +73,8 @@ function asFlatString(
         return ` @${displayNames.get(child.userId) ?? "???"} `;
       } else if (nodeIsRoleMention(child)) {
         return ` @${child.roleId} `;
+      } else if (nodeIsGroupMention(child)) {
+        return ` @${groupNames.get(child.groupId) ?? "group"} `;
       } else if (nodeIsImage(child)) {
         return `[image]`;
       } else {
@@ -78,43 +84,45 @@ function asFlatString(
     .join(" ");
 }
 
-const Message = React.memo(({ msg, displayNames, puzzle }: MessageProps) => {
-  const ts = shortCalendarTimeFormat(msg.timestamp);
-  const displayName = msg.sender
-    ? (displayNames.get(msg.sender) ?? "???")
-    : "jolly-roger";
-  const messageText = asFlatString(msg, displayNames);
-  const hasNewline = messageText.includes("\n");
-  return (
-    <div>
-      <span>
-        [{ts}] [
-        {puzzle !== undefined ? (
-          <>
-            <span>{`${puzzle.deleted ? "deleted: " : ""}`}</span>
-            <a
-              href={`/hunts/${msg.hunt}/puzzles/${msg.puzzle}`}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              {puzzle.title}
-            </a>
-          </>
+const Message = React.memo(
+  ({ msg, displayNames, groupNames, puzzle }: MessageProps) => {
+    const ts = shortCalendarTimeFormat(msg.timestamp);
+    const displayName = msg.sender
+      ? (displayNames.get(msg.sender) ?? "???")
+      : "jolly-roger";
+    const messageText = asFlatString(msg, displayNames, groupNames);
+    const hasNewline = messageText.includes("\n");
+    return (
+      <div>
+        <span>
+          [{ts}] [
+          {puzzle !== undefined ? (
+            <>
+              <span>{`${puzzle.deleted ? "deleted: " : ""}`}</span>
+              <a
+                href={`/hunts/${msg.hunt}/puzzles/${msg.puzzle}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {puzzle.title}
+              </a>
+            </>
+          ) : (
+            <span>deleted: no data</span>
+          )}
+          {"] "}
+          {displayName}
+          {": "}
+        </span>
+        {hasNewline ? (
+          <PreWrapSpan>{messageText}</PreWrapSpan>
         ) : (
-          <span>deleted: no data</span>
+          <span>{messageText}</span>
         )}
-        {"] "}
-        {displayName}
-        {": "}
-      </span>
-      {hasNewline ? (
-        <PreWrapSpan>{messageText}</PreWrapSpan>
-      ) : (
-        <span>{messageText}</span>
-      )}
-    </div>
-  );
-});
+      </div>
+    );
+  },
+);
 
 const MessagesPane = styled.div`
   overflow-y: scroll;
@@ -130,6 +138,7 @@ const MessagesPane = styled.div`
 function compileChatMessageMatcher(
   puzzles: Map<string, PuzzleType>,
   displayNames: Map<string, string>,
+  groupNames: Map<string, string>,
   searchKeys: string[],
 ): (c: ChatMessageType) => boolean {
   // Given a set of puzzles, display names, and search keys,
@@ -141,6 +150,7 @@ function compileChatMessageMatcher(
     const haystackString = asFlatString(
       chatMessage,
       displayNames,
+      groupNames,
     ).toLowerCase();
     const senderDisplayName = (
       chatMessage.sender
@@ -175,6 +185,13 @@ const FirehosePage = () => {
   const displayNames = useTracker(() => {
     return loading ? new Map<string, string>() : indexedDisplayNames();
   }, [loading]);
+  const groupNames = useTracker(
+    () =>
+      new Map(
+        HuntGroups.find({ hunt: huntId }).map((g) => [g._id, g.name] as const),
+      ),
+    [huntId],
+  );
   // TODO: consider using useFind once fixed upstream
   const allPuzzles = useTracker(
     () =>
@@ -245,6 +262,7 @@ const FirehosePage = () => {
         const isInteresting = compileChatMessageMatcher(
           puzzles,
           displayNames,
+          groupNames,
           searchKeysWithEmptyKeysRemoved,
         );
         interestingChatMessages = allChatMessages.filter(isInteresting);
@@ -252,7 +270,7 @@ const FirehosePage = () => {
 
       return interestingChatMessages;
     },
-    [searchString, puzzles, displayNames],
+    [searchString, puzzles, displayNames, groupNames],
   );
 
   const [shouldScrollBottom, setShouldScrollBottom] = useState<boolean>(true);
@@ -346,6 +364,7 @@ const FirehosePage = () => {
                 msg={msg}
                 puzzle={puzzles.get(msg.puzzle)}
                 displayNames={displayNames}
+                groupNames={groupNames}
               />
             );
           })}
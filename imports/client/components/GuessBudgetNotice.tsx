@@ -0,0 +1,92 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import { useEffect, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import { guessBudget, guessesSharingBudget } from "../../lib/guessRateLimit";
+import type { GuessType } from "../../lib/models/Guesses";
+import Guesses from "../../lib/models/Guesses";
+import type { GuessRateLimitType } from "../../lib/models/Hunts";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import guessesForGuessQueue from "../../lib/publications/guessesForGuessQueue";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import RelativeTime from "./RelativeTime";
+
+// Shows solvers how much of the hunt's guess rate limit is left before they
+// submit another guess.
+const GuessBudgetNotice = ({
+  policy,
+  puzzle,
+  puzzleGuesses,
+}: {
+  policy: GuessRateLimitType;
+  puzzle: PuzzleType;
+  // The guesses for this puzzle, which are all we need for a per-puzzle limit
+  puzzleGuesses: GuessType[];
+}) => {
+  // A hunt-wide limit depends on every guess in the hunt, which the puzzle page
+  // doesn't otherwise subscribe to.
+  const huntWide = policy.scope === "hunt";
+  const huntGuessesLoading = useTypedSubscribe(
+    huntWide ? guessesForGuessQueue : undefined,
+    { huntId: puzzle.hunt },
+  );
+  const loading = huntWide && huntGuessesLoading();
+  const huntGuesses = useTracker(
+    () =>
+      huntWide && !loading ? Guesses.find({ hunt: puzzle.hunt }).fetch() : [],
+    [huntWide, loading, puzzle.hunt],
+  );
+
+  // Recompute the budget when submissions age out of the window
+  const [now, setNow] = useState(() => new Date());
+  const budget = guessBudget(
+    policy,
+    guessesSharingBudget(
+      policy,
+      puzzle._id,
+      huntWide ? huntGuesses : puzzleGuesses,
+    ),
+    now,
+  );
+  const availableAt = budget.availableAt?.getTime();
+  useEffect(() => {
+    if (availableAt === undefined) {
+      return undefined;
+    }
+
+    const timeout = Meteor.setTimeout(
+      () => setNow(new Date()),
+      Math.max(0, availableAt - Date.now()),
+    );
+    return () => Meteor.clearTimeout(timeout);
+  }, [availableAt]);
+
+  if (loading) {
+    return null;
+  }
+
+  const scope = huntWide ? "across the hunt" : "for this puzzle";
+  const exhausted = budget.remaining <= budget.pending;
+  return (
+    <Alert variant={exhausted ? "warning" : "info"}>
+      {budget.remaining} of {budget.limit} guesses left {scope} in the last{" "}
+      {policy.windowMinutes} minutes
+      {budget.pending > 0
+        ? `, with ${budget.pending} waiting in the queue`
+        : ""}
+      .
+      {budget.availableAt ? (
+        <>
+          {" "}
+          The next guess can be submitted{" "}
+          <RelativeTime date={budget.availableAt} maxElements={2} />.
+        </>
+      ) : null}
+      {exhausted && !budget.availableAt
+        ? " The guesses already in the queue will use up what's left."
+        : null}
+    </Alert>
+  );
+};
+
+export default GuessBudgetNotice;
@@ -5,7 +5,8 @@ import { faEraser } from "@fortawesome/free-solid-svg-icons/faEraser";
 import { faPuzzlePiece } from "@fortawesome/free-solid-svg-icons/faPuzzlePiece";
 import { faSkullCrossbones } from "@fortawesome/free-solid-svg-icons/faSkullCrossbones";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import React, { useCallback, useId, useRef } from "react";
+import React, { useCallback, useEffect, useId, useRef, useState } from "react";
+import Badge from "react-bootstrap/Badge";
 import Button from "react-bootstrap/Button";
 import type { FormControlProps } from "react-bootstrap/FormControl";
 import FormControl from "react-bootstrap/FormControl";
@@ -16,6 +17,8 @@ import Tooltip from "react-bootstrap/Tooltip";
 import { Link, useParams, useSearchParams } from "react-router-dom";
 import styled, { css } from "styled-components";
 import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import type { GuessBudget } from "../../lib/guessRateLimit";
+import { guessBudget, guessesSharingBudget } from "../../lib/guessRateLimit";
 import { indexedById } from "../../lib/listUtils";
 import type { GuessType } from "../../lib/models/Guesses";
 import Guesses from "../../lib/models/Guesses";
@@ -25,6 +28,7 @@ import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
 import { userMayUpdateGuessesForHunt } from "../../lib/permission_stubs";
 import guessesForGuessQueue from "../../lib/publications/guessesForGuessQueue";
+import destroyGuess from "../../methods/destroyGuess";
 import setGuessState from "../../methods/setGuessState";
 import { guessURL } from "../../model-helpers";
 import { useBreadcrumb } from "../hooks/breadcrumb";
@@ -41,6 +45,7 @@ import {
 } from "./guessDetails";
 import Markdown from "./Markdown";
 import PuzzleAnswer from "./PuzzleAnswer";
+import RelativeTime from "./RelativeTime";
 import Breakable from "./styling/Breakable";
 import type { Breakpoint } from "./styling/responsive";
 import { mediaBreakpointDown } from "./styling/responsive";
@@ -107,6 +112,13 @@ const StyledCell = styled.div`
   background-color: inherit;
 `;
 
+const StyledGuessActions = styled(StyledCell)`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: start;
+  gap: 4px;
+`;
+
 const StyledGuessDirection = styled(GuessDirection)`
   padding: 4px;
   background-color: inherit;
@@ -236,6 +248,34 @@ const StyledAdditionalNotes = styled(StyledCell)`
   }
 `;
 
+const StyledDuplicateBadge = styled(Badge)`
+  margin-left: 0.5em;
+  align-self: center;
+`;
+
+const StyledBudgetWarning = styled.div`
+  font-size: 0.875em;
+`;
+
+const GuessBudgetWarning = ({ budget }: { budget: GuessBudget }) => {
+  if (budget.availableAt) {
+    return (
+      <StyledBudgetWarning className="text-danger">
+        Guess limit reached; can submit{" "}
+        <RelativeTime date={budget.availableAt} maxElements={2} />
+      </StyledBudgetWarning>
+    );
+  }
+  if (budget.remaining === 1) {
+    return (
+      <StyledBudgetWarning className="text-warning">
+        Last guess before the limit
+      </StyledBudgetWarning>
+    );
+  }
+  return null;
+};
+
 const GuessBlock = React.memo(
   ({
     canEdit,
@@ -243,16 +283,26 @@ const GuessBlock = React.memo(
     guess,
     createdByDisplayName,
     puzzle,
+    duplicateOf,
+    budget,
   }: {
     canEdit: boolean;
     hunt: HuntType;
     guess: GuessType;
     createdByDisplayName: string;
     puzzle: PuzzleType;
+    // The earlier guess that this one duplicates, if any
+    duplicateOf: GuessType | undefined;
+    // For pending guesses in hunts with a rate limit, how much of the limit is
+    // left if this guess were submitted now
+    budget: GuessBudget | undefined;
   }) => {
     const markPending = useCallback(() => {
       setGuessState.call({ guessId: guess._id, state: "pending" });
     }, [guess._id]);
+    const deleteGuess = useCallback(() => {
+      destroyGuess.call({ guessId: guess._id });
+    }, [guess._id]);
 
     const idPrefix = useId();
 
@@ -301,6 +351,14 @@ const GuessBlock = React.memo(
             <FontAwesomeIcon icon={faCopy} fixedWidth />
           </StyledCopyToClipboardButton>
           <PuzzleAnswer answer={guess.guess} breakable indented />
+          {duplicateOf && (
+            <StyledDuplicateBadge
+              bg={duplicateOf.state === "incorrect" ? "danger" : "warning"}
+              title={`Same answer as ${duplicateOf.guess}`}
+            >
+              Duplicate ({duplicateOf.state})
+            </StyledDuplicateBadge>
+          )}
         </StyledGuessCell>
         {hunt.hasGuessQueue && (
           <StyledGuessDetails>
@@ -322,9 +380,10 @@ const GuessBlock = React.memo(
         )}
         <StyledCell>
           <GuessState state={guess.state} />
+          {budget && <GuessBudgetWarning budget={budget} />}
         </StyledCell>
         {hunt.hasGuessQueue && (
-          <StyledCell>
+          <StyledGuessActions>
             {canEdit && guess.state !== "pending" && (
               <Button
                 variant="outline-secondary"
@@ -334,7 +393,12 @@ const GuessBlock = React.memo(
                 Return to queue
               </Button>
             )}
-          </StyledCell>
+            {canEdit && guess.state !== "correct" && (
+              <Button variant="outline-danger" size="sm" onClick={deleteGuess}>
+                Delete
+              </Button>
+            )}
+          </StyledGuessActions>
         )}
         {guess.additionalNotes && (
           <Markdown as={StyledAdditionalNotes} text={guess.additionalNotes} />
@@ -380,6 +444,28 @@ const GuessQueuePage = () => {
         : indexedById(Puzzles.find({ hunt: huntId }).fetch()),
     [huntId, loading],
   );
+  const guessesById = indexedById(guesses);
+
+  // Re-evaluate guess budgets periodically, since submissions age out of the
+  // rate limit window
+  const guessRateLimit = hunt?.guessRateLimit;
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!guessRateLimit) {
+      return undefined;
+    }
+
+    const interval = Meteor.setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => Meteor.clearInterval(interval);
+  }, [guessRateLimit]);
+  const budgetFor = (guess: GuessType) =>
+    guessRateLimit && guess.state === "pending"
+      ? guessBudget(
+          guessRateLimit,
+          guessesSharingBudget(guessRateLimit, guess.puzzle, guesses),
+          now,
+        )
+      : undefined;
   const displayNames = useTracker(
     () => (loading ? new Map<string, string>() : indexedDisplayNames()),
     [loading],
@@ -509,6 +595,12 @@ const GuessQueuePage = () => {
               createdByDisplayName={displayNames.get(guess.createdBy) ?? "???"}
               puzzle={puzzles.get(guess.puzzle)!}
               canEdit={canEdit}
+              duplicateOf={
+                guess.duplicateOf
+                  ? guessesById.get(guess.duplicateOf)
+                  : undefined
+              }
+              budget={budgetFor(guess)}
             />
           );
         })}
@@ -0,0 +1,290 @@
+import { useTracker } from "meteor/react-meteor-data";
+import { faDownload } from "@fortawesome/free-solid-svg-icons/faDownload";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useCallback, useEffect, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Table from "react-bootstrap/Table";
+import { Link, useParams } from "react-router-dom";
+import styled, { useTheme } from "styled-components";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import type { PuzzleAnalyticsType } from "../../lib/huntAnalytics";
+import {
+  cumulativeProgress,
+  huntAnalyticsCsv,
+  timeToSolve,
+} from "../../lib/huntAnalytics";
+import Hunts from "../../lib/models/Hunts";
+import fetchHuntAnalytics from "../../methods/fetchHuntAnalytics";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = 32;
+
+const ChartSvg = styled.svg`
+  width: 100%;
+  max-width: ${CHART_WIDTH}px;
+  height: auto;
+  margin-bottom: 16px;
+  font-size: 12px;
+`;
+
+const Summary = styled.dl`
+  display: grid;
+  grid-template-columns: auto 1fr;
+  gap: 0 16px;
+`;
+
+const NumberCell = styled.td`
+  text-align: right;
+`;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / (60 * 1000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+// A step chart of how many puzzles had been unlocked and solved over the
+// course of the hunt
+const ProgressChart = ({ entries }: { entries: PuzzleAnalyticsType[] }) => {
+  const theme = useTheme();
+  const points = cumulativeProgress(entries);
+  if (points.length === 0) {
+    return null;
+  }
+
+  const start = points[0]!.ts.getTime();
+  const end = Math.max(points[points.length - 1]!.ts.getTime(), start + 1);
+  const max = Math.max(points[points.length - 1]!.unlocked, 1);
+  const x = (ts: Date) =>
+    CHART_PADDING +
+    ((ts.getTime() - start) / (end - start)) *
+      (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (count: number) =>
+    CHART_HEIGHT -
+    CHART_PADDING -
+    (count / max) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const stepPath = (key: "unlocked" | "solved") => {
+    let path = `M ${x(points[0]!.ts)} ${y(0)}`;
+    let previous = 0;
+    for (const point of points) {
+      path += ` L ${x(point.ts)} ${y(previous)} L ${x(point.ts)} ${y(point[key])}`;
+      previous = point[key];
+    }
+    return path;
+  };
+
+  return (
+    <ChartSvg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label="Puzzles unlocked and solved over time"
+    >
+      <line
+        x1={CHART_PADDING}
+        y1={y(0)}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={y(0)}
+        stroke={theme.colors.border}
+      />
+      <line
+        x1={CHART_PADDING}
+        y1={y(0)}
+        x2={CHART_PADDING}
+        y2={y(max)}
+        stroke={theme.colors.border}
+      />
+      <text
+        x={CHART_PADDING - 4}
+        y={y(max)}
+        textAnchor="end"
+        fill="currentColor"
+      >
+        {max}
+      </text>
+      <text x={CHART_PADDING - 4} y={y(0)} textAnchor="end" fill="currentColor">
+        0
+      </text>
+      <text
+        x={CHART_PADDING}
+        y={CHART_HEIGHT - 8}
+        textAnchor="start"
+        fill="currentColor"
+      >
+        {calendarTimeFormat(new Date(start))}
+      </text>
+      <text
+        x={CHART_WIDTH - CHART_PADDING}
+        y={CHART_HEIGHT - 8}
+        textAnchor="end"
+        fill="currentColor"
+      >
+        {calendarTimeFormat(new Date(end))}
+      </text>
+      <path
+        d={stepPath("unlocked")}
+        fill="none"
+        stroke={theme.colors.secondary}
+        strokeWidth={2}
+      />
+      <path
+        d={stepPath("solved")}
+        fill="none"
+        stroke={theme.colors.primary}
+        strokeWidth={2}
+      />
+      <text x={CHART_PADDING + 8} y={CHART_PADDING} fill={theme.colors.primary}>
+        Solved
+      </text>
+      <text
+        x={CHART_PADDING + 8}
+        y={CHART_PADDING + 16}
+        fill={theme.colors.secondary}
+      >
+        Unlocked
+      </text>
+    </ChartSvg>
+  );
+};
+
+const HuntAnalyticsPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Analytics", path: `/hunts/${huntId}/analytics` });
+
+  const huntName = useTracker(() => Hunts.findOne(huntId)?.name, [huntId]);
+
+  const [entries, setEntries] = useState<PuzzleAnalyticsType[]>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchHuntAnalytics.call({ huntId }, (err, result) => {
+      if (cancelled) return;
+      if (err) {
+        setError(err.message);
+      } else {
+        setError(undefined);
+        setEntries(
+          result!.sort(
+            (a, b) => a.unlockedAt.getTime() - b.unlockedAt.getTime(),
+          ),
+        );
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [huntId]);
+
+  const onExport = useCallback(() => {
+    if (!entries) {
+      return;
+    }
+
+    const url = URL.createObjectURL(
+      new Blob([huntAnalyticsCsv(entries)], { type: "text/csv" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${(huntName ?? "hunt").replace(/[^a-z0-9]+/gi, "-")}-analytics.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [entries, huntName]);
+
+  if (error) {
+    return <Alert variant="danger">{error}</Alert>;
+  }
+
+  if (!entries) {
+    return <div>loading...</div>;
+  }
+
+  const solveTimes = entries.flatMap((entry) => timeToSolve(entry) ?? []);
+  const medianSolveTime = median(solveTimes);
+  const totalPersonMinutes = entries.reduce(
+    (total, entry) => total + entry.personMinutes,
+    0,
+  );
+
+  return (
+    <div>
+      <h1>Analytics</h1>
+      <Summary>
+        <dt>Puzzles unlocked</dt>
+        <dd>{entries.length}</dd>
+        <dt>Puzzles solved</dt>
+        <dd>{solveTimes.length}</dd>
+        <dt>Median time to solve</dt>
+        <dd>
+          {medianSolveTime !== undefined
+            ? formatDuration(medianSolveTime)
+            : "—"}
+        </dd>
+        <dt>Total person-hours</dt>
+        <dd>{Math.round(totalPersonMinutes / 60)}</dd>
+      </Summary>
+      <h2>Solves over time</h2>
+      <ProgressChart entries={entries} />
+      <p>
+        For when people were working on each puzzle, see the{" "}
+        <Link to={`/hunts/${huntId}/activity`}>activity heatmaps</Link>.
+      </p>
+      <h2>Puzzles</h2>
+      <Button variant="secondary" className="mb-3" onClick={onExport}>
+        <FontAwesomeIcon icon={faDownload} /> Export CSV
+      </Button>
+      <Table responsive size="sm">
+        <thead>
+          <tr>
+            <th>Puzzle</th>
+            <th>Unlocked</th>
+            <th>Solved</th>
+            <th>Time to solve</th>
+            <th>Guesses</th>
+            <th>Incorrect</th>
+            <th>Person-minutes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => {
+            const duration = timeToSolve(entry);
+            return (
+              <tr key={entry.puzzle}>
+                <td>
+                  <Link to={`/hunts/${huntId}/puzzles/${entry.puzzle}`}>
+                    {entry.title}
+                  </Link>
+                </td>
+                <td>{calendarTimeFormat(entry.unlockedAt)}</td>
+                <td>
+                  {entry.solvedAt ? calendarTimeFormat(entry.solvedAt) : "—"}
+                </td>
+                <NumberCell>
+                  {duration !== undefined ? formatDuration(duration) : "—"}
+                </NumberCell>
+                <NumberCell>{entry.guesses}</NumberCell>
+                <NumberCell>{entry.incorrectGuesses}</NumberCell>
+                <NumberCell>{entry.personMinutes}</NumberCell>
+              </tr>
+            );
+          })}
+        </tbody>
+      </Table>
+    </div>
+  );
+};
+
+export default HuntAnalyticsPage;
@@ -14,6 +14,7 @@ import {
   userMayUpdateHunt,
 } from "../../lib/permission_stubs";
 import huntForHuntApp from "../../lib/publications/huntForHuntApp";
+import huntGroupsForHunt from "../../lib/publications/huntGroupsForHunt";
 import acceptUserHuntTerms from "../../methods/acceptUserHuntTerms";
 import addHuntUser from "../../methods/addHuntUser";
 import undestroyHunt from "../../methods/undestroyHunt";
@@ -112,6 +113,9 @@ const HuntApp = React.memo(() => {
 
   const huntLoading = useTypedSubscribe(huntForHuntApp, { huntId });
   const loading = huntLoading();
+  // Groups are used throughout the hunt (for chat mentions and filtering), but
+  // nothing needs to wait for them
+  useTypedSubscribe(huntGroupsForHunt, { huntId });
 
   const hunt = useTracker(() => Hunts.findOneAllowingDeleted(huntId), [huntId]);
   const { member, canUndestroy, canJoin, mustAcceptTerms } = useTracker(() => {
@@ -1,5 +1,6 @@
 import { useTracker } from "meteor/react-meteor-data";
 import { faInfo } from "@fortawesome/free-solid-svg-icons/faInfo";
+import { faTimes } from "@fortawesome/free-solid-svg-icons/faTimes";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import type React from "react";
 import { useCallback, useId, useRef, useState } from "react";
@@ -19,12 +20,24 @@ import Modal from "react-bootstrap/Modal";
 import Row from "react-bootstrap/Row";
 import { createPortal } from "react-dom";
 import { useNavigate, useParams } from "react-router-dom";
+import { DEFAULT_ANSWER_NORMALIZATION } from "../../lib/answerNormalization";
 import DiscordCache from "../../lib/models/DiscordCache";
 import type {
+  AnswerNormalizationRuleType,
+  DocumentProviderType,
+  DocumentTemplateType,
+  DuplicateGuessPolicyType,
   EditableHuntType,
+  GuessRateLimitType,
   SavedDiscordObjectType,
 } from "../../lib/models/Hunts";
-import Hunts from "../../lib/models/Hunts";
+import Hunts, {
+  AnswerNormalizationRules,
+  DocumentProviders,
+  DocumentTemplateTypes,
+  DuplicateGuessPolicies,
+  GuessRateLimitScopes,
+} from "../../lib/models/Hunts";
 import Settings from "../../lib/models/Settings";
 import discordChannelsForConfiguredGuild from "../../lib/publications/discordChannelsForConfiguredGuild";
 import discordRolesForConfiguredGuild from "../../lib/publications/discordRolesForConfiguredGuild";
@@ -43,6 +56,28 @@ enum SubmitState {
   FAILED = "failed",
 }
 
+// Drops rows without a template, and accepts a link to the template in place of
+// its ID, since that's what people tend to have on hand
+const templatesForSubmit = function (
+  rows: DocumentTemplateRow[],
+): DocumentTemplateType[] | undefined {
+  const templates = rows.flatMap(({ tag, type, id }) => {
+    const trimmedId = id.trim();
+    if (trimmedId === "") {
+      return [];
+    }
+    const trimmedTag = tag.trim();
+    return [
+      {
+        tag: trimmedTag === "" ? undefined : trimmedTag,
+        type,
+        id: /\/d\/([\w-]+)/.exec(trimmedId)?.[1] ?? trimmedId,
+      },
+    ];
+  });
+  return templates.length > 0 ? templates : undefined;
+};
+
 const splitLists = function (lists: string): string[] {
   const strippedLists = lists.trim();
   if (strippedLists === "") {
@@ -52,6 +87,29 @@ const splitLists = function (lists: string): string[] {
   return strippedLists.split(/[, ]+/);
 };
 
+// Document templates as edited in the form, where fields may still be blank
+type DocumentTemplateRow = {
+  tag: string;
+  type: DocumentTemplateType["type"];
+  id: string;
+};
+
+const documentTemplateTypeLabels: Record<DocumentTemplateType["type"], string> =
+  {
+    spreadsheet: "Spreadsheet",
+    document: "Document",
+    drawing: "Drawing",
+  };
+
+const answerNormalizationRuleLabels: Record<
+  AnswerNormalizationRuleType,
+  string
+> = {
+  whitespace: "Ignore spaces",
+  punctuation: "Ignore punctuation and symbols",
+  diacritics: "Ignore accents (so É matches E)",
+};
+
 interface DiscordSelectorParams {
   disable: boolean;
   value: SavedDiscordObjectType | undefined;
@@ -160,7 +218,7 @@ const DiscordChannelSelector = ({
   return <DiscordSelector loading={loading} options={options} {...rest} />;
 };
 
-const DiscordRoleSelector = ({
+export const DiscordRoleSelector = ({
   guildId,
   ...rest
 }: DiscordSelectorParams & { guildId: string }) => {
@@ -228,6 +286,40 @@ const HuntEditPage = () => {
   const [hasGuessQueue, setHasGuessQueue] = useState<boolean>(
     hunt?.hasGuessQueue ?? true,
   );
+  const [answerNormalization, setAnswerNormalization] = useState<
+    AnswerNormalizationRuleType[]
+  >(hunt?.answerNormalization ?? DEFAULT_ANSWER_NORMALIZATION);
+  const [duplicateGuessPolicy, setDuplicateGuessPolicy] =
+    useState<DuplicateGuessPolicyType>(hunt?.duplicateGuessPolicy ?? "flag");
+  const [documentProvider, setDocumentProvider] =
+    useState<DocumentProviderType>(hunt?.documentProvider ?? "google");
+  const [documentTemplates, setDocumentTemplates] = useState<
+    DocumentTemplateRow[]
+  >(
+    hunt?.documentTemplates?.map((t) => ({
+      tag: t.tag ?? "",
+      type: t.type,
+      id: t.id,
+    })) ?? [],
+  );
+  const [hasGuessRateLimit, setHasGuessRateLimit] = useState<boolean>(
+    hunt?.guessRateLimit !== undefined,
+  );
+  const [guessRateLimitScope, setGuessRateLimitScope] = useState<
+    GuessRateLimitType["scope"]
+  >(hunt?.guessRateLimit?.scope ?? "puzzle");
+  const [guessRateLimitLimit, setGuessRateLimitLimit] = useState<string>(
+    `${hunt?.guessRateLimit?.limit ?? 3}`,
+  );
+  const [guessRateLimitWindow, setGuessRateLimitWindow] = useState<string>(
+    `${hunt?.guessRateLimit?.windowMinutes ?? 60}`,
+  );
+  const [purgeDeleted, setPurgeDeleted] = useState<boolean>(
+    hunt?.purgeDeletedAfterDays !== undefined,
+  );
+  const [purgeDeletedAfterDays, setPurgeDeletedAfterDays] = useState<string>(
+    `${hunt?.purgeDeletedAfterDays ?? 30}`,
+  );
   const [termsOfUse, setTermsOfUse] = useState<string>(hunt?.termsOfUse ?? "");
   const [showTermsOfUsePreview, setShowTermsOfUsePreview] =
     useState<boolean>(false);
@@ -287,6 +379,91 @@ const HuntEditPage = () => {
     [],
   );
 
+  const onAnswerNormalizationRuleChanged = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const rule = e.currentTarget.value as AnswerNormalizationRuleType;
+      const { checked } = e.currentTarget;
+      setAnswerNormalization((prev) =>
+        AnswerNormalizationRules.options.filter((r) =>
+          r === rule ? checked : prev.includes(r),
+        ),
+      );
+    },
+    [],
+  );
+
+  const onDuplicateGuessPolicyChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setDuplicateGuessPolicy(e.currentTarget.value as DuplicateGuessPolicyType);
+  }, []);
+
+  const onDocumentProviderChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setDocumentProvider(e.currentTarget.value as DocumentProviderType);
+  }, []);
+
+  const onAddDocumentTemplate = useCallback(() => {
+    setDocumentTemplates((prev) => [
+      ...prev,
+      { tag: "", type: "spreadsheet", id: "" },
+    ]);
+  }, []);
+
+  const onRemoveDocumentTemplate = useCallback((index: number) => {
+    setDocumentTemplates((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const onDocumentTemplateChanged = useCallback(
+    (index: number, change: Partial<DocumentTemplateRow>) => {
+      setDocumentTemplates((prev) =>
+        prev.map((t, i) => (i === index ? { ...t, ...change } : t)),
+      );
+    },
+    [],
+  );
+
+  const onHasGuessRateLimitChanged = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setHasGuessRateLimit(e.currentTarget.checked);
+    },
+    [],
+  );
+
+  const onGuessRateLimitScopeChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setGuessRateLimitScope(
+      e.currentTarget.value as GuessRateLimitType["scope"],
+    );
+  }, []);
+
+  const onGuessRateLimitLimitChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setGuessRateLimitLimit(e.currentTarget.value);
+  }, []);
+
+  const onGuessRateLimitWindowChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setGuessRateLimitWindow(e.currentTarget.value);
+  }, []);
+
+  const onPurgeDeletedChanged = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setPurgeDeleted(e.currentTarget.checked);
+    },
+    [],
+  );
+
+  const onPurgeDeletedAfterDaysChanged = useCallback<
+    NonNullable<FormControlProps["onChange"]>
+  >((e) => {
+    setPurgeDeletedAfterDays(e.currentTarget.value);
+  }, []);
+
   const onTermsOfUseChanged = useCallback<
     NonNullable<FormControlProps["onChange"]>
   >((e) => {
@@ -367,13 +544,27 @@ const HuntEditPage = () => {
         signupMessage: signupMessage === "" ? undefined : signupMessage,
         openSignups,
         hasGuessQueue,
+        answerNormalization,
+        duplicateGuessPolicy,
+        guessRateLimit: hasGuessRateLimit
+          ? {
+              scope: guessRateLimitScope,
+              limit: parseInt(guessRateLimitLimit, 10),
+              windowMinutes: parseInt(guessRateLimitWindow, 10),
+            }
+          : undefined,
         termsOfUse: termsOfUse === "" ? undefined : termsOfUse,
         homepageUrl: homepageUrl === "" ? undefined : homepageUrl,
         submitTemplate: submitTemplate === "" ? undefined : submitTemplate,
+        documentProvider,
+        documentTemplates: templatesForSubmit(documentTemplates),
         announcementDiscordChannel,
         puzzleHooksDiscordChannel,
         firehoseDiscordChannel,
         memberDiscordRole,
+        purgeDeletedAfterDays: purgeDeleted
+          ? parseInt(purgeDeletedAfterDays, 10)
+          : undefined,
       };
 
       if (huntId) {
@@ -389,13 +580,23 @@ const HuntEditPage = () => {
       signupMessage,
       openSignups,
       hasGuessQueue,
+      answerNormalization,
+      duplicateGuessPolicy,
+      hasGuessRateLimit,
+      guessRateLimitScope,
+      guessRateLimitLimit,
+      guessRateLimitWindow,
       termsOfUse,
       homepageUrl,
       submitTemplate,
+      documentProvider,
+      documentTemplates,
       announcementDiscordChannel,
       puzzleHooksDiscordChannel,
       firehoseDiscordChannel,
       memberDiscordRole,
+      purgeDeleted,
+      purgeDeletedAfterDays,
       onFormCallback,
     ],
   );
@@ -521,6 +722,130 @@ const HuntEditPage = () => {
           </Col>
         </FormGroup>
 
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-hunt-form-answer-normalization`}
+        >
+          <FormLabel column xs={3}>
+            Answer matching
+          </FormLabel>
+          <Col xs={9}>
+            {AnswerNormalizationRules.options.map((rule) => (
+              <FormCheck
+                key={rule}
+                id={`${idPrefix}-hunt-form-answer-normalization-${rule}`}
+                label={answerNormalizationRuleLabels[rule]}
+                value={rule}
+                checked={answerNormalization.includes(rule)}
+                onChange={onAnswerNormalizationRuleChanged}
+                disabled={disableForm}
+              />
+            ))}
+            <FormText>
+              Guesses for a puzzle that only differ in these ways are treated as
+              the same answer. Case is always ignored.
+            </FormText>
+          </Col>
+        </FormGroup>
+
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-hunt-form-duplicate-guess-policy`}
+        >
+          <FormLabel column xs={3}>
+            Duplicate guesses
+          </FormLabel>
+          <Col xs={9}>
+            <FormControl
+              as="select"
+              value={duplicateGuessPolicy}
+              onChange={onDuplicateGuessPolicyChanged}
+              disabled={disableForm}
+            >
+              {DuplicateGuessPolicies.options.map((policy) => (
+                <option key={policy} value={policy}>
+                  {policy === "flag"
+                    ? "Accept, but flag them in the guess queue"
+                    : "Refuse to submit them"}
+                </option>
+              ))}
+            </FormControl>
+            <FormText>
+              What to do when someone submits a guess that matches one already
+              submitted for the same puzzle.
+            </FormText>
+          </Col>
+        </FormGroup>
+
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-hunt-form-guess-rate-limit`}
+        >
+          <FormLabel column xs={3}>
+            Guess rate limit
+          </FormLabel>
+          <Col xs={9}>
+            <FormCheck
+              id={`${idPrefix}-hunt-form-guess-rate-limit`}
+              checked={hasGuessRateLimit}
+              onChange={onHasGuessRateLimitChanged}
+              disabled={disableForm}
+            />
+            {hasGuessRateLimit && (
+              <Row className="g-2">
+                <Col xs="auto">
+                  <FormControl
+                    type="number"
+                    min={1}
+                    aria-label="Guesses"
+                    value={guessRateLimitLimit}
+                    onChange={onGuessRateLimitLimitChanged}
+                    disabled={disableForm}
+                  />
+                </Col>
+                <Col xs="auto">
+                  <FormControl
+                    as="select"
+                    aria-label="Applies to"
+                    value={guessRateLimitScope}
+                    onChange={onGuessRateLimitScopeChanged}
+                    disabled={disableForm}
+                  >
+                    {GuessRateLimitScopes.options.map((scope) => (
+                      <option key={scope} value={scope}>
+                        {scope === "puzzle"
+                          ? "guesses per puzzle"
+                          : "guesses across the hunt"}
+                      </option>
+                    ))}
+                  </FormControl>
+                </Col>
+                <Col xs="auto">
+                  <FormControl
+                    type="number"
+                    min={1}
+                    aria-label="Window (minutes)"
+                    value={guessRateLimitWindow}
+                    onChange={onGuessRateLimitWindowChanged}
+                    disabled={disableForm}
+                  />
+                </Col>
+                <Col xs="auto" className="col-form-label">
+                  minutes
+                </Col>
+              </Row>
+            )}
+            <FormText>
+              If the hunt limits how often you can guess, describe the limit
+              here. Jolly Roger won&apos;t stop anyone from guessing, but will
+              show solvers and operators how much of the limit is left.
+            </FormText>
+          </Col>
+        </FormGroup>
+
         <FormGroup
           as={Row}
           className="mb-3"
@@ -554,6 +879,46 @@ const HuntEditPage = () => {
 
         {termsOfUsePreview}
 
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-hunt-form-purge-deleted`}
+        >
+          <FormLabel column xs={3}>
+            Empty trash
+          </FormLabel>
+          <Col xs={9}>
+            <FormCheck
+              id={`${idPrefix}-hunt-form-purge-deleted`}
+              checked={purgeDeleted}
+              onChange={onPurgeDeletedChanged}
+              disabled={disableForm}
+            />
+            {purgeDeleted && (
+              <Row className="g-2">
+                <Col xs="auto">
+                  <FormControl
+                    type="number"
+                    min={1}
+                    aria-label="Days"
+                    value={purgeDeletedAfterDays}
+                    onChange={onPurgeDeletedAfterDaysChanged}
+                    disabled={disableForm}
+                  />
+                </Col>
+                <Col xs="auto" className="col-form-label">
+                  days after deletion
+                </Col>
+              </Row>
+            )}
+            <FormText>
+              If checked, deleted puzzles, guesses, announcements and tags are
+              permanently removed from the hunt&apos;s trash once they&apos;ve
+              been there this long. Otherwise they can be restored at any time.
+            </FormText>
+          </Col>
+        </FormGroup>
+
         <h3>Hunt website</h3>
 
         <FormGroup
@@ -641,6 +1006,121 @@ const HuntEditPage = () => {
           </Col>
         </FormGroup>
 
+        <FormGroup
+          as={Row}
+          className="mb-3"
+          controlId={`${idPrefix}-hunt-form-document-provider`}
+        >
+          <FormLabel column xs={3}>
+            Puzzle documents
+          </FormLabel>
+          <Col xs={9}>
+            <FormControl
+              as="select"
+              value={documentProvider}
+              onChange={onDocumentProviderChanged}
+              disabled={disableForm}
+            >
+              {DocumentProviders.options.map((provider) => (
+                <option key={provider} value={provider}>
+                  {provider === "google" ? "Google Drive" : "Etherpad"}
+                </option>
+              ))}
+            </FormControl>
+            <FormText>
+              Where to create the shared document for each new puzzle. Etherpad
+              must first be configured on the server setup page. Changing this
+              doesn&apos;t affect puzzles which already have a document.
+            </FormText>
+          </Col>
+        </FormGroup>
+
+        <FormGroup as={Row} className="mb-3">
+          <FormLabel column xs={3}>
+            Document templates
+          </FormLabel>
+          <Col xs={9}>
+            {documentTemplates.map((template, i) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: rows have no other identity until saved
+              <Row key={i} className="g-2 mb-2">
+                <Col xs={3}>
+                  <FormControl
+                    type="text"
+                    aria-label="Tag"
+                    placeholder="Any tag"
+                    value={template.tag}
+                    onChange={(e) =>
+                      onDocumentTemplateChanged(i, {
+                        tag: e.currentTarget.value,
+                      })
+                    }
+                    disabled={disableForm}
+                  />
+                </Col>
+                <Col xs="auto">
+                  <FormControl
+                    as="select"
+                    aria-label="Document type"
+                    value={template.type}
+                    onChange={(e) =>
+                      onDocumentTemplateChanged(i, {
+                        type: e.currentTarget
+                          .value as DocumentTemplateType["type"],
+                      })
+                    }
+                    disabled={disableForm}
+                  >
+                    {DocumentTemplateTypes.options.map((type) => (
+                      <option key={type} value={type}>
+                        {documentTemplateTypeLabels[type]}
+                      </option>
+                    ))}
+                  </FormControl>
+                </Col>
+                <Col>
+                  <FormControl
+                    type="text"
+                    aria-label="Template doc id"
+                    placeholder="Template doc id"
+                    value={template.id}
+                    onChange={(e) =>
+                      onDocumentTemplateChanged(i, {
+                        id: e.currentTarget.value,
+                      })
+                    }
+                    disabled={disableForm}
+                  />
+                </Col>
+                <Col xs="auto">
+                  <Button
+                    variant="outline-danger"
+                    title="Remove template"
+                    onClick={() => onRemoveDocumentTemplate(i)}
+                    disabled={disableForm}
+                  >
+                    <FontAwesomeIcon icon={faTimes} />
+                  </Button>
+                </Col>
+              </Row>
+            ))}
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={onAddDocumentTemplate}
+              disabled={disableForm}
+            >
+              Add template
+            </Button>
+            <FormText>
+              Google Drive files to copy for new puzzle documents, instead of
+              the server-wide templates. A template for a tag is used for
+              puzzles with that tag, in preference to one for any tag; if
+              several match, the first listed wins. The service account needs to
+              be able to read the template.
+            </FormText>
+          </Col>
+        </FormGroup>
+
         {guildId ? (
           <>
             <FormGroup
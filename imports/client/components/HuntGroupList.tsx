@@ -0,0 +1,369 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import React, {
+  Suspense,
+  useCallback,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormText from "react-bootstrap/FormText";
+import ListGroup from "react-bootstrap/ListGroup";
+import ListGroupItem from "react-bootstrap/ListGroupItem";
+import styled, { useTheme } from "styled-components";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
+import type { HuntType, SavedDiscordObjectType } from "../../lib/models/Hunts";
+import Settings from "../../lib/models/Settings";
+import type { TagType } from "../../lib/models/Tags";
+import settingsByName from "../../lib/publications/settingsByName";
+import createHuntGroup from "../../methods/createHuntGroup";
+import destroyHuntGroup from "../../methods/destroyHuntGroup";
+import setHuntGroupMembership from "../../methods/setHuntGroupMembership";
+import updateHuntGroup from "../../methods/updateHuntGroup";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import { DiscordRoleSelector } from "./HuntEditPage";
+import Loading from "./Loading";
+import type { ModalFormHandle } from "./ModalForm";
+import ModalForm from "./ModalForm";
+
+// Casting away the React.lazy because otherwise we lose access to the generic parameter
+const Select = React.lazy(
+  () => import("react-select"),
+) as typeof import("react-select").default;
+
+interface TagSelectOption {
+  label: string;
+  value: string;
+}
+
+const GroupControls = styled.div`
+  margin-left: auto;
+  display: flex;
+  gap: 0.25rem;
+`;
+
+type HuntGroupModalHandle = {
+  show: () => void;
+};
+
+const HuntGroupModal = React.forwardRef(
+  (
+    {
+      hunt,
+      group,
+      tags,
+      canSyncDiscord,
+    }: {
+      hunt: HuntType;
+      // The group to edit, or undefined to create a new one
+      group?: HuntGroupType;
+      // All known tags for this hunt
+      tags: TagType[];
+      canSyncDiscord: boolean;
+    },
+    forwardedRef: React.Ref<HuntGroupModalHandle>,
+  ) => {
+    const formRef = useRef<ModalFormHandle>(null);
+    const [name, setName] = useState<string>("");
+    const [tagIds, setTagIds] = useState<string[]>([]);
+    const [discordRole, setDiscordRole] = useState<
+      SavedDiscordObjectType | undefined
+    >(undefined);
+    const [disabled, setDisabled] = useState<boolean>(false);
+    const [error, setError] = useState<string | undefined>(undefined);
+
+    const show = useCallback(() => {
+      // Start from the group's current state each time the modal is opened
+      setName(group?.name ?? "");
+      setTagIds(group?.tags ?? []);
+      setDiscordRole(group?.discordRole);
+      setError(undefined);
+      formRef.current?.show();
+    }, [group]);
+    useImperativeHandle(forwardedRef, () => ({ show }), [show]);
+
+    useTypedSubscribe(canSyncDiscord ? settingsByName : undefined, {
+      name: "discord.guild",
+    });
+    const guildId = useTracker(() => {
+      const setting = Settings.findOne({ name: "discord.guild" });
+      return setting?.value.guild.id;
+    }, []);
+
+    const options: TagSelectOption[] = tags
+      .map((t) => ({ label: t.name, value: t._id }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    const optionsById = new Map(options.map((o) => [o.value, o]));
+
+    const onTagsChange = useCallback((value: readonly TagSelectOption[]) => {
+      setTagIds(value.map((v) => v.value));
+    }, []);
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        const trimmedName = name.trim();
+        const onDone = (err?: Error) => {
+          setDisabled(false);
+          if (err) {
+            setError(err.message);
+          } else {
+            callback();
+          }
+        };
+        setDisabled(true);
+        if (group) {
+          updateHuntGroup.call(
+            {
+              groupId: group._id,
+              name: trimmedName,
+              tags: tagIds,
+              discordRole,
+            },
+            onDone,
+          );
+        } else {
+          createHuntGroup.call(
+            { huntId: hunt._id, name: trimmedName, tags: tagIds, discordRole },
+            onDone,
+          );
+        }
+      },
+      [hunt._id, group, name, tagIds, discordRole],
+    );
+
+    const idPrefix = useId();
+    const theme = useTheme();
+
+    return (
+      <ModalForm
+        ref={formRef}
+        title={group ? `Edit ${group.name}` : "Create group"}
+        onSubmit={onSubmit}
+        submitLabel={group ? "Save" : "Create"}
+        submitDisabled={disabled || !name.trim()}
+      >
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        <FormGroup className="mb-3" controlId={`${idPrefix}-name`}>
+          <FormLabel>Name</FormLabel>
+          <FormControl
+            type="text"
+            value={name}
+            disabled={disabled}
+            onChange={(e) => setName(e.currentTarget.value)}
+          />
+          <FormText>
+            Hunters can @-mention the group in chat by this name
+          </FormText>
+        </FormGroup>
+        <FormGroup className="mb-3">
+          <FormLabel htmlFor={`${idPrefix}-tags`}>Tags</FormLabel>
+          <Suspense fallback={<Loading inline />}>
+            <Select
+              inputId={`${idPrefix}-tags`}
+              theme={theme.reactSelectTheme}
+              options={options}
+              isMulti
+              isDisabled={disabled}
+              onChange={onTagsChange}
+              value={tagIds.flatMap((id) => optionsById.get(id) ?? [])}
+            />
+          </Suspense>
+          <FormText>
+            The puzzle list can be filtered to the puzzles this group is working
+            on, which are the ones with any of these tags
+          </FormText>
+        </FormGroup>
+        {canSyncDiscord && guildId ? (
+          <FormGroup>
+            <FormLabel>Discord role</FormLabel>
+            <DiscordRoleSelector
+              guildId={guildId}
+              disable={disabled}
+              value={discordRole}
+              onChange={setDiscordRole}
+            />
+            <FormText>
+              Members of the group who have linked their Discord account will be
+              given this role
+            </FormText>
+          </FormGroup>
+        ) : null}
+      </ModalForm>
+    );
+  },
+);
+
+const DeleteHuntGroupModal = React.forwardRef(
+  (
+    { group }: { group: HuntGroupType },
+    forwardedRef: React.Ref<ModalFormHandle>,
+  ) => {
+    const [error, setError] = useState<string | undefined>(undefined);
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        destroyHuntGroup.call({ groupId: group._id }, (err) => {
+          if (err) {
+            setError(err.message);
+          } else {
+            callback();
+          }
+        });
+      },
+      [group._id],
+    );
+
+    return (
+      <ModalForm
+        ref={forwardedRef}
+        title={`Delete ${group.name}`}
+        onSubmit={onSubmit}
+        submitLabel="Delete"
+        submitStyle="danger"
+      >
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        Are you sure you want to delete this group? Members will keep its
+        Discord role, if it has one.
+      </ModalForm>
+    );
+  },
+);
+
+const HuntGroupItem = ({
+  hunt,
+  group,
+  tags,
+  selfUserId,
+  canManageGroups,
+  canSyncDiscord,
+}: {
+  hunt: HuntType;
+  group: HuntGroupType;
+  tags: TagType[];
+  selfUserId: string;
+  canManageGroups: boolean;
+  canSyncDiscord: boolean;
+}) => {
+  const isMember = group.members.includes(selfUserId);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const toggleMembership = useCallback(() => {
+    setHuntGroupMembership.call(
+      { groupId: group._id, member: !isMember },
+      (err) => setError(err?.message),
+    );
+  }, [group._id, isMember]);
+
+  const editModalRef = useRef<HuntGroupModalHandle>(null);
+  const deleteModalRef = useRef<ModalFormHandle>(null);
+
+  return (
+    <ListGroupItem className="d-flex align-items-center">
+      <span>
+        <strong>{group.name}</strong> ({group.members.length}{" "}
+        {group.members.length === 1 ? "member" : "members"})
+        {error ? <span className="text-danger ms-2">{error}</span> : null}
+      </span>
+      <GroupControls>
+        <Button
+          size="sm"
+          variant={isMember ? "outline-secondary" : "primary"}
+          onClick={toggleMembership}
+        >
+          {isMember ? "Leave" : "Join"}
+        </Button>
+        {canManageGroups ? (
+          <>
+            <HuntGroupModal
+              ref={editModalRef}
+              hunt={hunt}
+              group={group}
+              tags={tags}
+              canSyncDiscord={canSyncDiscord}
+            />
+            <DeleteHuntGroupModal ref={deleteModalRef} group={group} />
+            <Button
+              size="sm"
+              variant="outline-secondary"
+              onClick={() => editModalRef.current?.show()}
+            >
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="outline-danger"
+              onClick={() => deleteModalRef.current?.show()}
+            >
+              Delete
+            </Button>
+          </>
+        ) : null}
+      </GroupControls>
+    </ListGroupItem>
+  );
+};
+
+const HuntGroupList = ({
+  hunt,
+  groups,
+  tags,
+  canManageGroups,
+  canSyncDiscord,
+}: {
+  hunt: HuntType;
+  groups: HuntGroupType[];
+  // All known tags for this hunt. Only needed to manage groups
+  tags: TagType[];
+  canManageGroups: boolean;
+  canSyncDiscord: boolean;
+}) => {
+  const selfUserId = useTracker(() => Meteor.userId()!, []);
+  const createModalRef = useRef<HuntGroupModalHandle>(null);
+
+  if (groups.length === 0 && !canManageGroups) {
+    return null;
+  }
+
+  return (
+    <section className="mb-3">
+      <h2>Groups</h2>
+      <p>Join a group to be notified when it&apos;s @-mentioned in chat.</p>
+      {canManageGroups ? (
+        <HuntGroupModal
+          ref={createModalRef}
+          hunt={hunt}
+          tags={tags}
+          canSyncDiscord={canSyncDiscord}
+        />
+      ) : null}
+      <ListGroup>
+        {groups.map((group) => (
+          <HuntGroupItem
+            key={group._id}
+            hunt={hunt}
+            group={group}
+            tags={tags}
+            selfUserId={selfUserId}
+            canManageGroups={canManageGroups}
+            canSyncDiscord={canSyncDiscord}
+          />
+        ))}
+        {canManageGroups ? (
+          <ListGroupItem action onClick={() => createModalRef.current?.show()}>
+            <FontAwesomeIcon icon={faPlus} /> Create a group
+          </ListGroupItem>
+        ) : null}
+      </ListGroup>
+    </section>
+  );
+};
+
+export default HuntGroupList;
@@ -1,11 +1,13 @@
 import { Meteor } from "meteor/meteor";
 import { useTracker } from "meteor/react-meteor-data";
+import { faDownload } from "@fortawesome/free-solid-svg-icons/faDownload";
 import { faEdit } from "@fortawesome/free-solid-svg-icons/faEdit";
 import { faMinus } from "@fortawesome/free-solid-svg-icons/faMinus";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import type { MouseEvent, ReactNode } from "react";
 import React, {
   useCallback,
+  useId,
   useImperativeHandle,
   useRef,
   useState,
@@ -13,10 +15,14 @@ import React, {
 import Alert from "react-bootstrap/Alert";
 import Button from "react-bootstrap/Button";
 import ButtonGroup from "react-bootstrap/ButtonGroup";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormText from "react-bootstrap/FormText";
 import Modal from "react-bootstrap/Modal";
 import { createPortal } from "react-dom";
 import { LinkContainer } from "react-router-bootstrap";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import type { HuntType } from "../../lib/models/Hunts";
 import Hunts from "../../lib/models/Hunts";
 import {
@@ -26,6 +32,8 @@ import {
 import huntsAll from "../../lib/publications/huntsAll";
 import createFixtureHunt from "../../methods/createFixtureHunt";
 import destroyHunt from "../../methods/destroyHunt";
+import exportHunt from "../../methods/exportHunt";
+import importHunt from "../../methods/importHunt";
 import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import type { ModalFormHandle } from "./ModalForm";
 import ModalForm from "./ModalForm";
@@ -52,6 +60,33 @@ const Hunt = React.memo(({ hunt }: { hunt: HuntType }) => {
     [huntId],
   );
 
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<Error>();
+  const clearExportError = useCallback(() => setExportError(undefined), []);
+  const onExport = useCallback(() => {
+    setExporting(true);
+    setExportError(undefined);
+    exportHunt.call({ huntId }, (error, archive) => {
+      setExporting(false);
+      if (error) {
+        setExportError(error);
+        return;
+      }
+      if (archive === undefined) {
+        return;
+      }
+
+      const url = URL.createObjectURL(
+        new Blob([archive], { type: "application/json" }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${hunt.name.replace(/[^a-z0-9]+/gi, "-")}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }, [huntId, hunt.name]);
+
   const showDeleteModal = useCallback(() => {
     if (deleteModalRef.current) {
       deleteModalRef.current.show();
@@ -79,6 +114,16 @@ const Hunt = React.memo(({ hunt }: { hunt: HuntType }) => {
             </Button>
           </LinkContainer>
         ) : undefined}
+        {canUpdate ? (
+          <Button
+            onClick={onExport}
+            variant="outline-secondary"
+            title="Export hunt archive"
+            disabled={exporting}
+          >
+            <FontAwesomeIcon fixedWidth icon={faDownload} />
+          </Button>
+        ) : undefined}
         {canDestroy ? (
           <Button
             onClick={showDeleteModal}
@@ -90,6 +135,11 @@ const Hunt = React.memo(({ hunt }: { hunt: HuntType }) => {
         ) : undefined}
       </ButtonGroup>{" "}
       <Link to={`/hunts/${huntId}`}>{hunt.name}</Link>
+      {exportError && (
+        <Alert variant="danger" dismissible onClose={clearExportError}>
+          Failed to export hunt: {exportError.message}
+        </Alert>
+      )}
     </li>
   );
 });
@@ -159,6 +209,83 @@ const CreateFixtureModal = React.forwardRef<CreateFixtureModalFormHandle>(
   },
 );
 
+type ImportHuntModalHandle = {
+  show: () => void;
+};
+
+const ImportHuntModal = React.forwardRef<ImportHuntModalHandle>(
+  (_props, forwardedRef) => {
+    const formRef = useRef<ModalFormHandle>(null);
+    const [file, setFile] = useState<File>();
+    const [error, setError] = useState<string>();
+    const navigate = useNavigate();
+
+    const show = useCallback(() => {
+      setFile(undefined);
+      setError(undefined);
+      formRef.current?.show();
+    }, []);
+    useImperativeHandle(forwardedRef, () => ({ show }), [show]);
+
+    const onFileChange = useCallback(
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        setFile(e.target.files?.[0]);
+      },
+      [],
+    );
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        if (!file) {
+          return;
+        }
+
+        void file.text().then((archive) => {
+          importHunt.call({ archive }, (err, huntId) => {
+            if (err) {
+              setError(err.message);
+            } else {
+              callback();
+              navigate(`/hunts/${huntId}`);
+            }
+          });
+        });
+      },
+      [file, navigate],
+    );
+
+    const idPrefix = useId();
+
+    return (
+      <ModalForm
+        ref={formRef}
+        title="Import hunt"
+        submitLabel="Import"
+        submitDisabled={!file}
+        onSubmit={onSubmit}
+      >
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        <FormGroup>
+          <FormLabel htmlFor={`${idPrefix}-archive`}>Hunt archive</FormLabel>
+          <FormControl
+            id={`${idPrefix}-archive`}
+            type="file"
+            accept=".json,application/json"
+            onChange={onFileChange}
+          />
+          <FormText>
+            An archive exported from this or another Jolly Roger server. The
+            hunt is imported as a new hunt with you as an operator. People are
+            matched up by email address; anything done by someone without an
+            account here will be attributed to you. Discord and mailing list
+            settings are not included in archives.
+          </FormText>
+        </FormGroup>
+      </ModalForm>
+    );
+  },
+);
+
 const HuntListPage = () => {
   const huntsLoading = useTypedSubscribe(huntsAll);
   const loading = huntsLoading();
@@ -188,6 +315,11 @@ const HuntListPage = () => {
     [renderCreateFixtureModal],
   );
 
+  const importModalRef = useRef<ImportHuntModalHandle>(null);
+  const showImportModal = useCallback(() => {
+    importModalRef.current?.show();
+  }, []);
+
   const body: ReactNode[] = [];
   if (loading) {
     body.push(<div key="loading">Loading...</div>);
@@ -235,7 +367,11 @@ const HuntListPage = () => {
             <Button as="a" variant="success" size="sm">
               New hunt...
             </Button>
-          </LinkContainer>
+          </LinkContainer>{" "}
+          <ImportHuntModal ref={importModalRef} />
+          <Button onClick={showImportModal} variant="secondary" size="sm">
+            Import hunt...
+          </Button>
           {!loading && hunts.length === 0 && (
             <>
               {" "}
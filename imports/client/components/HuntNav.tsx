@@ -1,17 +1,29 @@
 import { Meteor } from "meteor/meteor";
 import { useTracker } from "meteor/react-meteor-data";
 import { faBullhorn } from "@fortawesome/free-solid-svg-icons/faBullhorn";
+import { faChartLine } from "@fortawesome/free-solid-svg-icons/faChartLine";
+import { faClipboardList } from "@fortawesome/free-solid-svg-icons/faClipboardList";
+import { faClockRotateLeft } from "@fortawesome/free-solid-svg-icons/faClockRotateLeft";
 import { faFaucet } from "@fortawesome/free-solid-svg-icons/faFaucet";
 import { faMap } from "@fortawesome/free-solid-svg-icons/faMap";
+import { faPlug } from "@fortawesome/free-solid-svg-icons/faPlug";
 import { faReceipt } from "@fortawesome/free-solid-svg-icons/faReceipt";
+import { faSearch } from "@fortawesome/free-solid-svg-icons/faSearch";
+import { faSitemap } from "@fortawesome/free-solid-svg-icons/faSitemap";
 import { faTags } from "@fortawesome/free-solid-svg-icons/faTags";
+import { faTrashCan } from "@fortawesome/free-solid-svg-icons/faTrashCan";
 import { faUsers } from "@fortawesome/free-solid-svg-icons/faUsers";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import Nav from "react-bootstrap/Nav";
 import { NavLink, useParams } from "react-router-dom";
 import styled, { css } from "styled-components";
 import Hunts from "../../lib/models/Hunts";
-import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import {
+  userMayConfigureWebhooksForHunt,
+  userMayViewAuditLogForHunt,
+  userMayViewTrashForHunt,
+  userMayWritePuzzlesForHunt,
+} from "../../lib/permission_stubs";
 import { mediaBreakpointDown } from "./styling/responsive";
 
 const JRLinkList = styled(Nav)`
@@ -139,11 +151,18 @@ const MenuIcon = styled(FontAwesomeIcon)`
 const HuntNav = () => {
   const huntId = useParams<"huntId">().huntId!;
   const hunt = useTracker(() => Hunts.findOne(huntId)!, [huntId]);
-  const { canUpdate } = useTracker(() => {
-    return {
-      canUpdate: userMayWritePuzzlesForHunt(Meteor.user(), hunt),
-    };
-  }, [hunt]);
+  const { canUpdate, canConfigureWebhooks, canViewAuditLog, canViewTrash } =
+    useTracker(() => {
+      return {
+        canUpdate: userMayWritePuzzlesForHunt(Meteor.user(), hunt),
+        canConfigureWebhooks: userMayConfigureWebhooksForHunt(
+          Meteor.user(),
+          hunt,
+        ),
+        canViewAuditLog: userMayViewAuditLogForHunt(Meteor.user(), hunt),
+        canViewTrash: userMayViewTrashForHunt(Meteor.user(), hunt),
+      };
+    }, [hunt]);
   if (huntId && hunt) {
     const huntLink = hunt.homepageUrl && (
       <HuntLinkAnchor
@@ -184,6 +203,27 @@ const HuntNav = () => {
           <StyledPuzzleListLinkLabel>Hunters</StyledPuzzleListLinkLabel>
         </StyledPuzzleListLinkAnchor>
 
+        <StyledPuzzleListLinkAnchor to={`/hunts/${huntId}/metas`} title="Metas">
+          <MenuIcon icon={faSitemap} />
+          <StyledPuzzleListLinkLabel>Metas</StyledPuzzleListLinkLabel>
+        </StyledPuzzleListLinkAnchor>
+
+        <StyledPuzzleListLinkAnchor
+          to={`/hunts/${huntId}/roster`}
+          title="Who is working on what"
+        >
+          <MenuIcon icon={faClipboardList} />
+          <StyledPuzzleListLinkLabel>Roster</StyledPuzzleListLinkLabel>
+        </StyledPuzzleListLinkAnchor>
+
+        <StyledPuzzleListLinkAnchor
+          to={`/hunts/${huntId}/search`}
+          title="Search"
+        >
+          <MenuIcon icon={faSearch} />
+          <StyledPuzzleListLinkLabel>Search</StyledPuzzleListLinkLabel>
+        </StyledPuzzleListLinkAnchor>
+
         <StyledPuzzleListLinkAnchor to={`/hunts/${huntId}/tags`} title="Tags">
           <MenuIcon icon={faTags} />
           <StyledPuzzleListLinkLabel>Tags</StyledPuzzleListLinkLabel>
@@ -199,6 +239,42 @@ const HuntNav = () => {
             <StyledPuzzleListLinkLabel>Firehose</StyledPuzzleListLinkLabel>
           </StyledPuzzleListLinkAnchor>
         )}
+        {canUpdate && (
+          <StyledPuzzleListLinkAnchor
+            to={`/hunts/${huntId}/analytics`}
+            title="Analytics"
+          >
+            <MenuIcon icon={faChartLine} />
+            <StyledPuzzleListLinkLabel>Analytics</StyledPuzzleListLinkLabel>
+          </StyledPuzzleListLinkAnchor>
+        )}
+        {canConfigureWebhooks && (
+          <StyledPuzzleListLinkAnchor
+            to={`/hunts/${huntId}/webhooks`}
+            title="Webhooks"
+          >
+            <MenuIcon icon={faPlug} />
+            <StyledPuzzleListLinkLabel>Webhooks</StyledPuzzleListLinkLabel>
+          </StyledPuzzleListLinkAnchor>
+        )}
+        {canViewTrash && (
+          <StyledPuzzleListLinkAnchor
+            to={`/hunts/${huntId}/trash`}
+            title="Deleted puzzles, guesses, announcements and tags"
+          >
+            <MenuIcon icon={faTrashCan} />
+            <StyledPuzzleListLinkLabel>Trash</StyledPuzzleListLinkLabel>
+          </StyledPuzzleListLinkAnchor>
+        )}
+        {canViewAuditLog && (
+          <StyledPuzzleListLinkAnchor
+            to={`/hunts/${huntId}/audit-log`}
+            title="Audit log"
+          >
+            <MenuIcon icon={faClockRotateLeft} />
+            <StyledPuzzleListLinkLabel>Audit log</StyledPuzzleListLinkLabel>
+          </StyledPuzzleListLinkAnchor>
+        )}
         {huntLink}
       </JRLinkList>
     );
@@ -1,17 +1,24 @@
 import { Meteor } from "meteor/meteor";
 import { useSubscribe, useTracker } from "meteor/react-meteor-data";
 import { useParams } from "react-router-dom";
+import HuntGroups from "../../lib/models/HuntGroups";
 import Hunts from "../../lib/models/Hunts";
 import InvitationCodes from "../../lib/models/InvitationCodes";
 import MeteorUsers from "../../lib/models/MeteorUsers";
+import Tags from "../../lib/models/Tags";
 import {
   listAllRolesForHunt,
   userMayAddUsersToHunt,
+  userMayAssignRolesForHunt,
+  userMayConfigureRolesForHunt,
   userMayMakeOperatorForHunt,
+  userMayManageGroupsForHunt,
+  userMaySeeUserInfoForHunt,
   userMayUpdateHuntInvitationCode,
   userMayUseDiscordBotAPIs,
 } from "../../lib/permission_stubs";
 import invitationCodesForHunt from "../../lib/publications/invitationCodesForHunt";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
 import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import ProfileList from "./ProfileList";
 
@@ -42,12 +49,20 @@ const HuntProfileListPage = () => {
     canInvite,
     canSyncDiscord,
     canMakeOperator,
+    canAssignRoles,
+    canConfigureRoles,
+    canManageGroups,
+    canSeeRoles,
     canUpdateHuntInvitationCode,
   } = useTracker(() => {
     return {
       canInvite: userMayAddUsersToHunt(Meteor.user(), hunt),
       canSyncDiscord: userMayUseDiscordBotAPIs(Meteor.user()),
       canMakeOperator: userMayMakeOperatorForHunt(Meteor.user(), hunt),
+      canAssignRoles: userMayAssignRolesForHunt(Meteor.user(), hunt),
+      canConfigureRoles: userMayConfigureRolesForHunt(Meteor.user(), hunt),
+      canManageGroups: userMayManageGroupsForHunt(Meteor.user(), hunt),
+      canSeeRoles: userMaySeeUserInfoForHunt(Meteor.user(), hunt),
       canUpdateHuntInvitationCode: userMayUpdateHuntInvitationCode(
         Meteor.user(),
         hunt,
@@ -56,7 +71,7 @@ const HuntProfileListPage = () => {
   }, [hunt]);
   const roles = useTracker(
     () =>
-      loading || !canMakeOperator
+      loading || !(canMakeOperator || canAssignRoles || canSeeRoles)
         ? {}
         : Object.fromEntries(
             MeteorUsers.find({ hunts: huntId }).map((u) => [
@@ -64,7 +79,20 @@ const HuntProfileListPage = () => {
               listAllRolesForHunt(u, hunt),
             ]),
           ),
-    [huntId, hunt, loading, canMakeOperator],
+    [huntId, hunt, loading, canMakeOperator, canAssignRoles, canSeeRoles],
+  );
+  // Groups are subscribed to by HuntApp, but picking a group's tags needs the
+  // hunt's tags, which we only load for those who can manage groups
+  useTypedSubscribe(canManageGroups ? puzzlesForPuzzleList : undefined, {
+    huntId,
+  });
+  const groups = useTracker(
+    () => HuntGroups.find({ hunt: huntId }, { sort: { name: 1 } }).fetch(),
+    [huntId],
+  );
+  const tags = useTracker(
+    () => (canManageGroups ? Tags.find({ hunt: huntId }).fetch() : []),
+    [huntId, canManageGroups],
   );
   const invitationCode = useTracker(
     () => InvitationCodes.findOne({ hunt: huntId })?.code,
@@ -79,10 +107,15 @@ const HuntProfileListPage = () => {
     <ProfileList
       users={users}
       roles={roles}
+      groups={groups}
+      tags={tags}
       hunt={hunt}
       canInvite={canInvite}
       canSyncDiscord={canSyncDiscord}
       canMakeOperator={canMakeOperator}
+      canAssignRoles={canAssignRoles}
+      canConfigureRoles={canConfigureRoles}
+      canManageGroups={canManageGroups}
       canUpdateHuntInvitationCode={canUpdateHuntInvitationCode}
       invitationCode={invitationCode}
     />
@@ -0,0 +1,239 @@
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { faTrash } from "@fortawesome/free-solid-svg-icons/faTrash";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useCallback, useId, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Card from "react-bootstrap/Card";
+import FormCheck from "react-bootstrap/FormCheck";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormText from "react-bootstrap/FormText";
+import InputGroup from "react-bootstrap/InputGroup";
+import {
+  defaultMemberCapabilities,
+  huntCapabilityLabels,
+  huntRoleIdFromName,
+  OPERATOR_ROLE,
+} from "../../lib/huntRoles";
+import type {
+  HuntCapabilityType,
+  HuntRoleType,
+  HuntType,
+} from "../../lib/models/Hunts";
+import { HuntCapabilities } from "../../lib/models/Hunts";
+import configureHuntRoles from "../../methods/configureHuntRoles";
+
+type SubmitState =
+  | { state: "idle" | "submitting" | "success" }
+  | { state: "error"; error: string };
+
+function toggleCapability(
+  capabilities: HuntCapabilityType[],
+  capability: HuntCapabilityType,
+): HuntCapabilityType[] {
+  return capabilities.includes(capability)
+    ? capabilities.filter((c) => c !== capability)
+    : [...capabilities, capability];
+}
+
+const CapabilityChecks = ({
+  idPrefix,
+  capabilities,
+  disabled,
+  onToggle,
+}: {
+  idPrefix: string;
+  capabilities: HuntCapabilityType[];
+  disabled: boolean;
+  onToggle: (capability: HuntCapabilityType) => void;
+}) => {
+  return (
+    <>
+      {HuntCapabilities.options.map((capability) => (
+        <FormCheck
+          key={capability}
+          type="checkbox"
+          id={`${idPrefix}-${capability}`}
+          label={huntCapabilityLabels[capability]}
+          checked={capabilities.includes(capability)}
+          disabled={disabled}
+          onChange={() => onToggle(capability)}
+        />
+      ))}
+    </>
+  );
+};
+
+const HuntRolesConfig = ({ hunt }: { hunt: HuntType }) => {
+  const [customRoles, setCustomRoles] = useState<HuntRoleType[]>(
+    hunt.customRoles ?? [],
+  );
+  const [memberCapabilities, setMemberCapabilities] = useState<
+    HuntCapabilityType[]
+  >(hunt.memberCapabilities ?? defaultMemberCapabilities);
+  const [newRoleName, setNewRoleName] = useState<string>("");
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    state: "idle",
+  });
+
+  const newRoleId = huntRoleIdFromName(newRoleName);
+  const newRoleInvalid =
+    !newRoleId ||
+    newRoleId === OPERATOR_ROLE ||
+    customRoles.some((role) => role.id === newRoleId);
+
+  const onAddRole = useCallback(() => {
+    setCustomRoles((prev) => [
+      ...prev,
+      { id: newRoleId, name: newRoleName.trim(), capabilities: [] },
+    ]);
+    setNewRoleName("");
+  }, [newRoleId, newRoleName]);
+
+  const onRemoveRole = useCallback((roleId: string) => {
+    setCustomRoles((prev) => prev.filter((role) => role.id !== roleId));
+  }, []);
+
+  const onUpdateRole = useCallback(
+    (roleId: string, update: (role: HuntRoleType) => HuntRoleType) => {
+      setCustomRoles((prev) =>
+        prev.map((role) => (role.id === roleId ? update(role) : role)),
+      );
+    },
+    [],
+  );
+
+  const onSave = useCallback(() => {
+    setSubmitState({ state: "submitting" });
+    configureHuntRoles.call(
+      { huntId: hunt._id, customRoles, memberCapabilities },
+      (error) => {
+        if (error) {
+          setSubmitState({ state: "error", error: error.message });
+        } else {
+          setSubmitState({ state: "success" });
+        }
+      },
+    );
+  }, [hunt._id, customRoles, memberCapabilities]);
+
+  const dismissAlert = useCallback(() => {
+    setSubmitState({ state: "idle" });
+  }, []);
+
+  const idPrefix = useId();
+  const disabled = submitState.state === "submitting";
+
+  return (
+    <section className="mt-3">
+      <h2>Roles</h2>
+      {submitState.state === "success" ? (
+        <Alert variant="success" dismissible onClose={dismissAlert}>
+          Saved roles.
+        </Alert>
+      ) : null}
+      {submitState.state === "error" ? (
+        <Alert variant="danger" dismissible onClose={dismissAlert}>
+          Saving failed: {submitState.error}
+        </Alert>
+      ) : null}
+      <p>
+        Operators can do everything. Other hunters can do what every member is
+        allowed to, plus whatever their roles allow. Hunters with a restricted
+        role can only do what their roles allow. Roles can be @-mentioned in
+        chat.
+      </p>
+      <FormGroup className="mb-3">
+        <FormLabel>Every member can</FormLabel>
+        <CapabilityChecks
+          idPrefix={`${idPrefix}-members`}
+          capabilities={memberCapabilities}
+          disabled={disabled}
+          onToggle={(capability) =>
+            setMemberCapabilities((prev) => toggleCapability(prev, capability))
+          }
+        />
+      </FormGroup>
+      {customRoles.map((role) => (
+        <Card key={role.id} className="mb-3">
+          <Card.Header className="d-flex align-items-center">
+            <span>
+              {role.name} <code>@{role.id}</code>
+            </span>
+            <Button
+              className="ms-auto"
+              size="sm"
+              variant="danger"
+              disabled={disabled}
+              onClick={() => onRemoveRole(role.id)}
+              aria-label={`Remove ${role.name}`}
+            >
+              <FontAwesomeIcon icon={faTrash} />
+            </Button>
+          </Card.Header>
+          <Card.Body>
+            <CapabilityChecks
+              idPrefix={`${idPrefix}-${role.id}`}
+              capabilities={role.capabilities}
+              disabled={disabled}
+              onToggle={(capability) =>
+                onUpdateRole(role.id, (r) => ({
+                  ...r,
+                  capabilities: toggleCapability(r.capabilities, capability),
+                }))
+              }
+            />
+            <FormCheck
+              className="mt-2"
+              type="checkbox"
+              id={`${idPrefix}-${role.id}-restricted`}
+              label="Restricted (doesn't get what every member can do)"
+              checked={!!role.restricted}
+              disabled={disabled}
+              onChange={() =>
+                onUpdateRole(role.id, (r) => ({
+                  ...r,
+                  restricted: !r.restricted,
+                }))
+              }
+            />
+          </Card.Body>
+        </Card>
+      ))}
+      <FormGroup className="mb-3" controlId={`${idPrefix}-new-role`}>
+        <FormLabel>New role</FormLabel>
+        <InputGroup>
+          <FormControl
+            type="text"
+            placeholder="e.g. Guess submitter"
+            value={newRoleName}
+            disabled={disabled}
+            onChange={(e) => setNewRoleName(e.currentTarget.value)}
+          />
+          <Button
+            variant="secondary"
+            disabled={disabled || newRoleInvalid}
+            onClick={onAddRole}
+          >
+            <FontAwesomeIcon icon={faPlus} /> Add role
+          </Button>
+        </InputGroup>
+        {newRoleName && newRoleInvalid ? (
+          <FormText className="text-danger">
+            That name is taken or doesn&apos;t contain any letters or numbers
+          </FormText>
+        ) : null}
+      </FormGroup>
+      <FormText as="p">
+        Removing a role takes it away from everyone who has it.
+      </FormText>
+      <Button variant="primary" disabled={disabled} onClick={onSave}>
+        Save roles
+      </Button>
+    </section>
+  );
+};
+
+export default HuntRolesConfig;
@@ -0,0 +1,202 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import { useEffect, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Table from "react-bootstrap/Table";
+import { Link, useParams } from "react-router-dom";
+import styled from "styled-components";
+import type { HuntRosterEntryType } from "../../lib/huntRoster";
+import {
+  isUnattendedPuzzle,
+  UNATTENDED_PUZZLE_THRESHOLD,
+} from "../../lib/huntRoster";
+import { indexedById } from "../../lib/listUtils";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import Puzzles from "../../lib/models/Puzzles";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
+import fetchHuntRoster from "../../methods/fetchHuntRoster";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import indexedDisplayNames from "../indexedDisplayNames";
+import RelativeTime from "./RelativeTime";
+
+// Presence changes constantly, so rather than keeping a publication open we
+// just re-fetch the roster periodically
+const ROSTER_REFRESH_INTERVAL = 60 * 1000;
+
+const PuzzleLinks = styled.span`
+  display: inline-flex;
+  flex-wrap: wrap;
+  gap: 0 8px;
+`;
+
+const PuzzleLinkList = ({
+  huntId,
+  puzzleIds,
+  puzzles,
+}: {
+  huntId: string;
+  puzzleIds: string[];
+  puzzles: Map<string, PuzzleType>;
+}) => {
+  const known = puzzleIds.flatMap((id) => puzzles.get(id) ?? []);
+  if (known.length === 0) {
+    return <span>&mdash;</span>;
+  }
+
+  return (
+    <PuzzleLinks>
+      {known.map((puzzle) => (
+        <Link key={puzzle._id} to={`/hunts/${huntId}/puzzles/${puzzle._id}`}>
+          {puzzle.title}
+        </Link>
+      ))}
+    </PuzzleLinks>
+  );
+};
+
+const HuntRosterPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Roster", path: `/hunts/${huntId}/roster` });
+
+  const puzzlesLoading = useTypedSubscribe(puzzlesForPuzzleList, { huntId });
+  const displayNamesLoading = useSubscribeDisplayNames(huntId);
+  const loading = puzzlesLoading() || displayNamesLoading();
+
+  const puzzles = useTracker(
+    () => (loading ? [] : Puzzles.find({ hunt: huntId }).fetch()),
+    [loading, huntId],
+  );
+  const displayNames = useTracker(
+    () => (loading ? new Map<string, string>() : indexedDisplayNames()),
+    [loading],
+  );
+
+  const [roster, setRoster] = useState<HuntRosterEntryType[]>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      fetchHuntRoster.call({ huntId }, (err, entries) => {
+        if (cancelled) return;
+        if (err) {
+          setError(err.message);
+        } else {
+          setError(undefined);
+          setRoster(entries);
+        }
+      });
+    };
+    refresh();
+    const interval = Meteor.setInterval(refresh, ROSTER_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      Meteor.clearInterval(interval);
+    };
+  }, [huntId]);
+
+  if (loading || (!roster && !error)) {
+    return <div>loading...</div>;
+  }
+
+  const puzzlesById = indexedById(puzzles);
+  const assignments = new Map<string, string[]>();
+  puzzles.forEach((puzzle) => {
+    (puzzle.assignees ?? []).forEach((userId) => {
+      assignments.set(userId, [...(assignments.get(userId) ?? []), puzzle._id]);
+    });
+  });
+
+  const now = Date.now();
+  const unattended = puzzles.filter((puzzle) =>
+    isUnattendedPuzzle(puzzle, now),
+  );
+
+  // Most recently active first, with hunters we haven't seen at the bottom
+  const entries = [...(roster ?? [])].sort(
+    (a, b) =>
+      (b.lastActive?.getTime() ?? 0) - (a.lastActive?.getTime() ?? 0) ||
+      (displayNames.get(a.user) ?? "").localeCompare(
+        displayNames.get(b.user) ?? "",
+      ),
+  );
+
+  return (
+    <div>
+      <h1>Roster</h1>
+      {error && <Alert variant="danger">{error}</Alert>}
+      <h2>Unassigned puzzles</h2>
+      {unattended.length > 0 ? (
+        <>
+          <p>
+            These puzzles have been open for more than{" "}
+            {UNATTENDED_PUZZLE_THRESHOLD / (60 * 1000)} minutes without anyone
+            assigned to them.
+          </p>
+          <PuzzleLinkList
+            huntId={huntId}
+            puzzleIds={unattended.map((puzzle) => puzzle._id)}
+            puzzles={puzzlesById}
+          />
+        </>
+      ) : (
+        <p>Every puzzle that has been open for a while has someone on it.</p>
+      )}
+      <h2>Hunters</h2>
+      <p>
+        For who has been working when over the whole hunt, see the{" "}
+        <Link to={`/hunts/${huntId}/activity`}>activity heatmaps</Link>.
+      </p>
+      <Table responsive size="sm">
+        <thead>
+          <tr>
+            <th>Hunter</th>
+            <th>Viewing</th>
+            <th>Assigned to</th>
+            <th>Last active</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.user}>
+              <td>
+                <Link to={`/hunts/${huntId}/hunters/${entry.user}`}>
+                  {displayNames.get(entry.user) ?? "???"}
+                </Link>
+              </td>
+              <td>
+                <PuzzleLinkList
+                  huntId={huntId}
+                  puzzleIds={entry.viewing}
+                  puzzles={puzzlesById}
+                />
+              </td>
+              <td>
+                <PuzzleLinkList
+                  huntId={huntId}
+                  puzzleIds={assignments.get(entry.user) ?? []}
+                  puzzles={puzzlesById}
+                />
+              </td>
+              <td>
+                {entry.lastActive ? (
+                  <RelativeTime
+                    date={entry.lastActive}
+                    minimumUnit="minute"
+                    maxElements={1}
+                  />
+                ) : (
+                  "not recently"
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </div>
+  );
+};
+
+export default HuntRosterPage;
@@ -38,6 +38,7 @@ import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
 import type { Solvedness } from "../../lib/solvedness";
 import { computeSolvedness } from "../../lib/solvedness";
 import addPuzzleTag from "../../methods/addPuzzleTag";
+import destroyTag from "../../methods/destroyTag";
 import removePuzzleTag from "../../methods/removePuzzleTag";
 import renameTag from "../../methods/renameTag";
 import { useBreadcrumb } from "../hooks/breadcrumb";
@@ -159,6 +160,21 @@ const RenameTagSection = ({ huntId }: { huntId: string }) => {
     [selectedTagId, newTagName],
   );
 
+  const onDeleteClicked = useCallback(() => {
+    setSubmitState(SubmitState.SUBMITTING);
+    destroyTag.call({ tagId: selectedTagId }, (error?: Error) => {
+      if (error) {
+        setSubmitState(SubmitState.FAILED);
+        setErrorMessage(error.message);
+      } else {
+        setSubmitState(SubmitState.IDLE);
+        setErrorMessage("");
+        setSelectedTagId("");
+        setNewTagName("");
+      }
+    });
+  }, [selectedTagId]);
+
   const isNameDirtied = tagToRename?.name.trim() !== newTagName.trim();
   const disableRename =
     !isNameDirtied || submitState === SubmitState.SUBMITTING;
@@ -168,10 +184,11 @@ const RenameTagSection = ({ huntId }: { huntId: string }) => {
 
   return (
     <section>
-      <h2>Rename tag</h2>
+      <h2>Rename or delete tag</h2>
       <p>
         Select a tag from the drop-down, then type its new name, and choose
-        &quot;Rename&quot;.
+        &quot;Rename&quot;. Deleting a tag takes it off every puzzle, but
+        restoring it from the hunt&apos;s trash puts it back.
       </p>
       <Form onSubmit={onFormSubmit}>
         {submitState === SubmitState.FAILED ? (
@@ -180,7 +197,7 @@ const RenameTagSection = ({ huntId }: { huntId: string }) => {
           </Alert>
         ) : null}
         <Row className="mb-3 align-items-end">
-          <Col xs={5}>
+          <Col xs={4}>
             <FormGroup className="mb-3" controlId={`${idPrefix}-rename-source`}>
               <FormLabel>Tag to rename</FormLabel>
               <Select
@@ -206,11 +223,26 @@ const RenameTagSection = ({ huntId }: { huntId: string }) => {
               />
             </FormGroup>
           </Col>
-          <Col xs={2}>
+          <Col xs={3}>
             <FormGroup className="mb-3">
-              <Button variant="primary" type="submit" disabled={disableRename}>
-                Rename
-              </Button>
+              <div className="d-flex gap-2">
+                <Button
+                  variant="primary"
+                  type="submit"
+                  disabled={disableRename}
+                >
+                  Rename
+                </Button>
+                <Button
+                  variant="outline-danger"
+                  onClick={onDeleteClicked}
+                  disabled={
+                    !tagToRename || submitState === SubmitState.SUBMITTING
+                  }
+                >
+                  Delete
+                </Button>
+              </div>
             </FormGroup>
           </Col>
         </Row>
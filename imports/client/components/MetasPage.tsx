@@ -0,0 +1,156 @@
+import { useTracker } from "meteor/react-meteor-data";
+import ProgressBar from "react-bootstrap/ProgressBar";
+import Table from "react-bootstrap/Table";
+import { Link, useParams } from "react-router-dom";
+import styled from "styled-components";
+import type { MetaProgress } from "../../lib/metas";
+import { isMeta, metasByReadiness } from "../../lib/metas";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import Puzzles from "../../lib/models/Puzzles";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
+import { computeSolvedness } from "../../lib/solvedness";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import PuzzleAnswer from "./PuzzleAnswer";
+
+const MetaSection = styled.section`
+  margin-bottom: 24px;
+`;
+
+const MetaHeader = styled.div`
+  display: flex;
+  align-items: baseline;
+  flex-wrap: wrap;
+  gap: 0 12px;
+
+  h2 {
+    font-size: 1.25rem;
+    margin-bottom: 4px;
+  }
+`;
+
+const MetaProgressBar = styled(ProgressBar)`
+  margin-bottom: 8px;
+`;
+
+const FeederRow = styled.tr<{ $solved: boolean }>`
+  td {
+    background-color: ${({ $solved, theme }) =>
+      $solved ? theme.colors.solvedness.solved : "transparent"};
+  }
+`;
+
+const PuzzleTitleLink = ({ puzzle }: { puzzle: PuzzleType }) => {
+  return (
+    <Link to={`/hunts/${puzzle.hunt}/puzzles/${puzzle._id}`}>
+      {puzzle.title}
+    </Link>
+  );
+};
+
+const Answers = ({ puzzle }: { puzzle: PuzzleType }) => {
+  if (puzzle.answers.length === 0) {
+    return null;
+  }
+  return <PuzzleAnswer answer={puzzle.answers.join(", ")} />;
+};
+
+const MetaCard = ({ progress }: { progress: MetaProgress }) => {
+  const { meta, feeders, solvedFeeders, unsolvedFeeders } = progress;
+  const metaSolved = computeSolvedness(meta) === "solved";
+  return (
+    <MetaSection>
+      <MetaHeader>
+        <h2>
+          <PuzzleTitleLink puzzle={meta} />
+        </h2>
+        {metaSolved ? (
+          <Answers puzzle={meta} />
+        ) : (
+          <span>
+            {solvedFeeders.length} of {feeders.length} feeders solved
+            {feeders.length > 0 ? `, ${unsolvedFeeders.length} to go` : null}
+          </span>
+        )}
+      </MetaHeader>
+      {metaSolved || feeders.length === 0 ? null : (
+        <MetaProgressBar
+          now={solvedFeeders.length}
+          max={feeders.length}
+          variant="success"
+        />
+      )}
+      {feeders.length > 0 ? (
+        <Table size="sm">
+          <thead>
+            <tr>
+              <th>Feeder</th>
+              <th>Answer</th>
+            </tr>
+          </thead>
+          <tbody>
+            {feeders.map((feeder) => (
+              <FeederRow
+                key={feeder._id}
+                $solved={computeSolvedness(feeder) === "solved"}
+              >
+                <td>
+                  <PuzzleTitleLink puzzle={feeder} />
+                  {isMeta(feeder) ? " (meta)" : null}
+                </td>
+                <td>
+                  <Answers puzzle={feeder} />
+                </td>
+              </FeederRow>
+            ))}
+          </tbody>
+        </Table>
+      ) : (
+        <p>No feeders known yet.</p>
+      )}
+    </MetaSection>
+  );
+};
+
+const MetasPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Metas", path: `/hunts/${huntId}/metas` });
+
+  const puzzlesLoading = useTypedSubscribe(puzzlesForPuzzleList, { huntId });
+  const loading = puzzlesLoading();
+
+  const metas = useTracker(
+    () =>
+      loading ? [] : metasByReadiness(Puzzles.find({ hunt: huntId }).fetch()),
+    [loading, huntId],
+  );
+
+  if (loading) {
+    return <div>loading...</div>;
+  }
+
+  return (
+    <div>
+      <h1>Metas</h1>
+      {metas.length > 0 ? (
+        <>
+          <p>
+            Unsolved metas are listed first, closest to solvable at the top. To
+            mark a puzzle as a meta or change its feeders, use &quot;Edit meta
+            structure&quot; on the puzzle&apos;s page.
+          </p>
+          {metas.map((progress) => (
+            <MetaCard key={progress.meta._id} progress={progress} />
+          ))}
+        </>
+      ) : (
+        <p>
+          No metas yet. To mark a puzzle as a meta, use &quot;Edit meta
+          structure&quot; on the puzzle&apos;s page.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetasPage;
@@ -6,18 +6,19 @@ import { faCopy } from "@fortawesome/free-solid-svg-icons/faCopy";
 import { faPuzzlePiece } from "@fortawesome/free-solid-svg-icons/faPuzzlePiece";
 import { faSpinner } from "@fortawesome/free-solid-svg-icons/faSpinner";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import React, { useCallback, useEffect, useId, useState } from "react";
+import React, { useCallback, useEffect, useId, useRef, useState } from "react";
 import Button from "react-bootstrap/Button";
 import Form from "react-bootstrap/Form";
 import OverlayTrigger from "react-bootstrap/OverlayTrigger";
 import Toast from "react-bootstrap/Toast";
 import ToastContainer from "react-bootstrap/ToastContainer";
 import Tooltip from "react-bootstrap/Tooltip";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import ReactTextareaAutosize from "react-textarea-autosize";
 import styled from "styled-components";
 import Flags from "../../Flags";
 import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import chatMessagePlainText from "../../lib/chatMessagePlainText";
 import isAdmin from "../../lib/isAdmin";
 import { indexedById } from "../../lib/listUtils";
 import type { AnnouncementType } from "../../lib/models/Announcements";
@@ -28,11 +29,15 @@ import type { ChatNotificationType } from "../../lib/models/ChatNotifications";
 import ChatNotifications from "../../lib/models/ChatNotifications";
 import type { GuessType } from "../../lib/models/Guesses";
 import Guesses from "../../lib/models/Guesses";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
+import HuntGroups from "../../lib/models/HuntGroups";
 import type { HuntType } from "../../lib/models/Hunts";
 import Hunts from "../../lib/models/Hunts";
+import type { NotificationType } from "../../lib/models/NotificationPreferences";
 import PendingAnnouncements from "../../lib/models/PendingAnnouncements";
 import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
+import { resolveNotificationDelivery } from "../../lib/notificationPreferences";
 import {
   huntsUserIsOperatorFor,
   listAllRolesForHunt,
@@ -573,6 +578,7 @@ const ChatNotificationMessage = ({
   displayNames,
   selfUserId,
   roles,
+  groups,
 }: {
   cn: ChatNotificationType;
   hunt: HuntType;
@@ -580,6 +586,7 @@ const ChatNotificationMessage = ({
   displayNames: Map<string, string>;
   selfUserId: string;
   roles: string[];
+  groups: HuntGroupType[];
 }) => {
   const id = cn._id;
   const dismiss = useCallback(
@@ -613,6 +620,7 @@ const ChatNotificationMessage = ({
             displayNames={displayNames}
             selfUserId={selfUserId}
             roles={roles}
+            groups={groups}
           />
         </div>
       </Toast.Body>
@@ -706,6 +714,44 @@ const ReloadRequiredNotification = ({ reasons }: { reasons: string[] }) => {
   );
 };
 
+// Shows a notification through the browser instead of as a toast. Renders
+// nothing itself; onShown lets the caller dismiss the underlying record so it
+// doesn't also show up as a toast later.
+const BrowserNotification = ({
+  tag,
+  title,
+  body,
+  link,
+  onShown,
+}: {
+  tag: string;
+  title: string;
+  body: string;
+  link: string;
+  onShown?: () => void;
+}) => {
+  const navigate = useNavigate();
+  const shown = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (shown.current) {
+      return;
+    }
+    shown.current = true;
+
+    // The tag keeps multiple open tabs from each showing the same notification
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      void navigate(link);
+      notification.close();
+    };
+    onShown?.();
+  }, [tag, title, body, link, onShown, navigate]);
+
+  return null;
+};
+
 const StyledToastContainer = styled(ToastContainer)`
   z-index: 1050;
 
@@ -782,6 +828,10 @@ const NotificationCenter = () => {
   }, []);
 
   const selfUserId = useTracker(() => Meteor.userId()!, []);
+  const notificationPreferences = useTracker(
+    () => Meteor.user()?.notificationPreferences,
+    [],
+  );
   // Lookup tables to support guesses/pendingAnnouncements/chatNotifications/bookmarkNotifications
   const hunts = useTracker(
     () =>
@@ -799,6 +849,13 @@ const NotificationCenter = () => {
     () => (loading ? new Map<string, string>() : indexedDisplayNames()),
     [loading],
   );
+  // Groups are only subscribed to by the hunt pages, so mentions of them in
+  // notifications from other hunts fall back to a generic name
+  const groups = useTracker(
+    () => (loading ? [] : HuntGroups.find().fetch()),
+    [loading],
+  );
+  const groupNames = new Map(groups.map((group) => [group._id, group.name]));
   const announcements = useTracker(
     () =>
       loading
@@ -935,6 +992,28 @@ const NotificationCenter = () => {
     return <div />;
   }
 
+  // Emails are sent by the server, so anything that reaches us was held back
+  // (e.g. for quiet hours) and should be shown in the app. Likewise, if the
+  // browser won't let us show notifications, fall back to a toast.
+  const now = new Date();
+  const deliveryFor = (type: NotificationType) => {
+    const delivery = resolveNotificationDelivery(
+      notificationPreferences,
+      type,
+      now,
+    );
+    if (delivery === "email") {
+      return "toast";
+    }
+    if (
+      delivery === "browser" &&
+      (!("Notification" in window) || Notification.permission !== "granted")
+    ) {
+      return "toast";
+    }
+    return delivery;
+  };
+
   // Build a list of uninstantiated messages with their props, then create them
   const messages = [] as React.JSX.Element[];
 
@@ -963,7 +1042,8 @@ const NotificationCenter = () => {
   if (
     discordEnabledOnServer &&
     !discordConfiguredByUser &&
-    !hideDiscordSetupMessage
+    !hideDiscordSetupMessage &&
+    deliveryFor("discordLink") !== "off"
   ) {
     messages.push(
       <DiscordMessage key="discord" onDismiss={onHideDiscordSetupMessage} />,
@@ -978,6 +1058,24 @@ const NotificationCenter = () => {
     const puzzle = puzzles.get(g.puzzle);
     if (!hunt || !puzzle) return;
     if (!hunt.hasGuessQueue) return;
+    const delivery = deliveryFor("guess");
+    if (delivery === "off") return;
+    if (delivery === "browser") {
+      // Only new guesses warrant a notification; resolving them happens in
+      // the guess queue
+      if (g.state === "pending") {
+        messages.push(
+          <BrowserNotification
+            key={g._id}
+            tag={`guess-${g._id}`}
+            title={`Guess for ${puzzle.title}`}
+            body={`${displayNames.get(g.createdBy) ?? "???"} guessed ${g.guess}`}
+            link={`/hunts/${hunt._id}/guesses`}
+          />,
+        );
+      }
+      return;
+    }
     messages.push(
       <GuessMessage
         key={g._id}
@@ -993,6 +1091,23 @@ const NotificationCenter = () => {
   pendingAnnouncements.forEach((pa) => {
     const announcement = announcements.get(pa.announcement);
     if (!announcement) return;
+    const delivery = deliveryFor("announcement");
+    if (delivery === "off") return;
+    if (delivery === "browser") {
+      messages.push(
+        <BrowserNotification
+          key={pa._id}
+          tag={`announcement-${pa._id}`}
+          title="Announcement"
+          body={announcement.message}
+          link={`/hunts/${pa.hunt}/announcements`}
+          onShown={() =>
+            dismissPendingAnnouncement.call({ pendingAnnouncementId: pa._id })
+          }
+        />,
+      );
+      return;
+    }
     messages.push(
       <AnnouncementMessage
         key={pa._id}
@@ -1007,6 +1122,23 @@ const NotificationCenter = () => {
     const hunt = hunts.get(cn.hunt);
     const puzzle = puzzles.get(cn.puzzle);
     if (!hunt || !puzzle) return;
+    const delivery = deliveryFor("chat");
+    if (delivery === "off") return;
+    if (delivery === "browser") {
+      messages.push(
+        <BrowserNotification
+          key={cn._id}
+          tag={`chat-${cn._id}`}
+          title={`${displayNames.get(cn.sender) ?? "???"} on ${puzzle.title}`}
+          body={chatMessagePlainText(cn.content, displayNames, groupNames)}
+          link={`/hunts/${hunt._id}/puzzles/${puzzle._id}`}
+          onShown={() =>
+            dismissChatNotification.call({ chatNotificationId: cn._id })
+          }
+        />,
+      );
+      return;
+    }
     messages.push(
       <ChatNotificationMessage
         key={cn._id}
@@ -1016,6 +1148,7 @@ const NotificationCenter = () => {
         displayNames={displayNames}
         selfUserId={selfUserId}
         roles={rolesForChat.get(cn.hunt) ?? []}
+        groups={groups}
       />,
     );
   });
@@ -1024,6 +1157,23 @@ const NotificationCenter = () => {
     const hunt = hunts.get(bn.hunt);
     const puzzle = puzzles.get(bn.puzzle);
     if (!hunt || !puzzle) return;
+    const delivery = deliveryFor("bookmark");
+    if (delivery === "off") return;
+    if (delivery === "browser") {
+      messages.push(
+        <BrowserNotification
+          key={bn._id}
+          tag={`bookmark-${bn._id}`}
+          title={puzzle.title}
+          body={`A puzzle you have bookmarked has a new answer: ${bn.answer}`}
+          link={`/hunts/${hunt._id}/puzzles/${puzzle._id}`}
+          onShown={() =>
+            dismissBookmarkNotification.call({ bookmarkNotificationId: bn._id })
+          }
+        />,
+      );
+      return;
+    }
     messages.push(
       <BookmarkNotificationMessage
         key={bn._id}
@@ -0,0 +1,238 @@
+import type { Meteor } from "meteor/meteor";
+import type React from "react";
+import { useCallback, useId, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Col from "react-bootstrap/Col";
+import FormCheck from "react-bootstrap/FormCheck";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormSelect from "react-bootstrap/FormSelect";
+import FormText from "react-bootstrap/FormText";
+import Row from "react-bootstrap/Row";
+import type {
+  NotificationDeliveryType,
+  NotificationPreferencesType,
+  NotificationType,
+} from "../../lib/models/NotificationPreferences";
+import { NotificationTypes } from "../../lib/models/NotificationPreferences";
+import {
+  notificationDeliveriesForType,
+  notificationDelivery,
+  notificationDeliveryLabels,
+  notificationTypeLabels,
+} from "../../lib/notificationPreferences";
+import updateNotificationPreferences from "../../methods/updateNotificationPreferences";
+import PushDevicesConfig from "./PushDevicesConfig";
+
+// Quiet hours are stored as minutes after midnight, but edited as the
+// "HH:MM" strings that time inputs use
+function formatTimeOfDay(minutes: number): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function parseTimeOfDay(time: string): number | undefined {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+const browserNotificationsSupported = () => "Notification" in window;
+
+type SubmitState =
+  | { state: "idle" | "submitting" | "success" }
+  | { state: "error"; error: string };
+
+const NotificationPreferencesConfig = ({
+  preferences,
+}: {
+  preferences: Meteor.User["notificationPreferences"];
+}) => {
+  const [deliveries, setDeliveries] = useState<
+    Record<NotificationType, NotificationDeliveryType>
+  >(
+    () =>
+      Object.fromEntries(
+        NotificationTypes.options.map((type) => [
+          type,
+          notificationDelivery(preferences, type),
+        ]),
+      ) as Record<NotificationType, NotificationDeliveryType>,
+  );
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState<boolean>(
+    !!preferences?.quietHours,
+  );
+  const [quietHoursStart, setQuietHoursStart] = useState<string>(
+    formatTimeOfDay(preferences?.quietHours?.start ?? 23 * 60),
+  );
+  const [quietHoursEnd, setQuietHoursEnd] = useState<string>(
+    formatTimeOfDay(preferences?.quietHours?.end ?? 8 * 60),
+  );
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    state: "idle",
+  });
+
+  const timeZone =
+    preferences?.quietHours?.timeZone ??
+    Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const onDeliveryChange = useCallback(
+    (type: NotificationType, e: React.ChangeEvent<HTMLSelectElement>) => {
+      const delivery = e.currentTarget.value as NotificationDeliveryType;
+      setDeliveries((prev) => ({ ...prev, [type]: delivery }));
+    },
+    [],
+  );
+
+  const onSave = useCallback(() => {
+    const start = parseTimeOfDay(quietHoursStart);
+    const end = parseTimeOfDay(quietHoursEnd);
+    if (quietHoursEnabled && (start === undefined || end === undefined)) {
+      setSubmitState({
+        state: "error",
+        error: "Quiet hours need both a start and an end time",
+      });
+      return;
+    }
+
+    const notificationPreferences: NotificationPreferencesType = {
+      ...deliveries,
+      quietHours: quietHoursEnabled
+        ? { start: start!, end: end!, timeZone }
+        : undefined,
+    };
+
+    setSubmitState({ state: "submitting" });
+    void (async () => {
+      // Browser notifications can only be shown once the user has granted
+      // permission, and browsers only let us ask in response to a click
+      if (
+        Object.values(deliveries).includes("browser") &&
+        browserNotificationsSupported() &&
+        Notification.permission === "default"
+      ) {
+        await Notification.requestPermission();
+      }
+
+      updateNotificationPreferences.call(
+        { notificationPreferences },
+        (error) => {
+          if (error) {
+            setSubmitState({ state: "error", error: error.message });
+          } else {
+            setSubmitState({ state: "success" });
+          }
+        },
+      );
+    })();
+  }, [deliveries, quietHoursEnabled, quietHoursStart, quietHoursEnd, timeZone]);
+
+  const dismissAlert = useCallback(() => {
+    setSubmitState({ state: "idle" });
+  }, []);
+
+  const idPrefix = useId();
+  const browserBlocked =
+    Object.values(deliveries).includes("browser") &&
+    (!browserNotificationsSupported() || Notification.permission === "denied");
+
+  return (
+    <section className="mt-3">
+      <h2>Notifications</h2>
+      {submitState.state === "success" ? (
+        <Alert variant="success" dismissible onClose={dismissAlert}>
+          Saved notification preferences.
+        </Alert>
+      ) : null}
+      {submitState.state === "error" ? (
+        <Alert variant="danger" dismissible onClose={dismissAlert}>
+          Saving failed: {submitState.error}
+        </Alert>
+      ) : null}
+      {browserBlocked ? (
+        <Alert variant="warning">
+          This browser isn&apos;t allowing Jolly Roger to show notifications, so
+          they&apos;ll be shown in the app instead.
+        </Alert>
+      ) : null}
+      <p>
+        Choose how you hear about each kind of notification. Emails go to the
+        address on your account. You can also get a hunt&apos;s announcements by
+        email or text message from its announcements page.
+      </p>
+      {NotificationTypes.options.map((type) => (
+        <FormGroup
+          as={Row}
+          className="mb-2"
+          key={type}
+          controlId={`${idPrefix}-delivery-${type}`}
+        >
+          <FormLabel column sm={6}>
+            {notificationTypeLabels[type]}
+          </FormLabel>
+          <Col sm={6}>
+            <FormSelect
+              value={deliveries[type]}
+              disabled={submitState.state === "submitting"}
+              onChange={(e) => onDeliveryChange(type, e)}
+            >
+              {notificationDeliveriesForType[type].map((delivery) => (
+                <option key={delivery} value={delivery}>
+                  {notificationDeliveryLabels[delivery]}
+                </option>
+              ))}
+            </FormSelect>
+          </Col>
+        </FormGroup>
+      ))}
+      <FormGroup className="mb-3">
+        <FormCheck
+          type="checkbox"
+          id={`${idPrefix}-quiet-hours`}
+          label="Quiet hours"
+          checked={quietHoursEnabled}
+          disabled={submitState.state === "submitting"}
+          onChange={() => setQuietHoursEnabled((prev) => !prev)}
+        />
+        {quietHoursEnabled ? (
+          <Row className="mt-2">
+            <Col sm={6}>
+              <FormControl
+                type="time"
+                aria-label="Quiet hours start"
+                value={quietHoursStart}
+                disabled={submitState.state === "submitting"}
+                onChange={(e) => setQuietHoursStart(e.currentTarget.value)}
+              />
+            </Col>
+            <Col sm={6}>
+              <FormControl
+                type="time"
+                aria-label="Quiet hours end"
+                value={quietHoursEnd}
+                disabled={submitState.state === "submitting"}
+                onChange={(e) => setQuietHoursEnd(e.currentTarget.value)}
+              />
+            </Col>
+          </Row>
+        ) : null}
+        <FormText>
+          During quiet hours ({timeZone} time), we won&apos;t send emails or
+          browser notifications. You&apos;ll find them waiting in the app
+          instead.
+        </FormText>
+      </FormGroup>
+      <Button
+        variant="primary"
+        disabled={submitState.state === "submitting"}
+        onClick={onSave}
+      >
+        Save notification preferences
+      </Button>
+      <PushDevicesConfig />
+    </section>
+  );
+};
+
+export default NotificationPreferencesConfig;
@@ -2,10 +2,11 @@ import type { Meteor } from "meteor/meteor";
 import { OAuth } from "meteor/oauth";
 import { useTracker } from "meteor/react-meteor-data";
 import { ServiceConfiguration } from "meteor/service-configuration";
-import { useCallback, useId, useMemo, useState } from "react";
+import React, { useCallback, useId, useMemo, useRef, useState } from "react";
 import Alert from "react-bootstrap/Alert";
 import Button from "react-bootstrap/Button";
 import Container from "react-bootstrap/Container";
+import FormCheck from "react-bootstrap/FormCheck";
 import type { FormControlProps } from "react-bootstrap/FormControl";
 import FormControl from "react-bootstrap/FormControl";
 import FormGroup from "react-bootstrap/FormGroup";
@@ -13,18 +14,24 @@ import FormLabel from "react-bootstrap/FormLabel";
 import FormText from "react-bootstrap/FormText";
 import Flags from "../../Flags";
 import { formatDiscordName } from "../../lib/discord";
-import type { APIKeyType } from "../../lib/models/APIKeys";
+import type { APIKeyScopeType, APIKeyType } from "../../lib/models/APIKeys";
+import { APIKeyScopes } from "../../lib/models/APIKeys";
+import Hunts from "../../lib/models/Hunts";
+import huntsAll from "../../lib/publications/huntsAll";
 import createAPIKey from "../../methods/createAPIKey";
 import linkUserDiscordAccount from "../../methods/linkUserDiscordAccount";
 import unlinkUserDiscordAccount from "../../methods/unlinkUserDiscordAccount";
 import updateProfile from "../../methods/updateProfile";
 import { requestDiscordCredential } from "../discord";
 import useTeamName from "../hooks/useTeamName";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import ActionButtonRow from "./ActionButtonRow";
 import APIKeysTable from "./APIKeysTable";
 import AudioConfig from "./AudioConfig";
 import Avatar from "./Avatar";
 import GoogleLinkBlock from "./GoogleLinkBlock";
+import ModalForm, { type ModalFormHandle } from "./ModalForm";
+import NotificationPreferencesConfig from "./NotificationPreferencesConfig";
 
 enum DiscordLinkBlockLinkState {
   IDLE = "idle",
@@ -163,25 +170,176 @@ enum OwnProfilePageSubmitState {
   ERROR = "error",
 }
 
-const APIKeysSection = ({ apiKeys }: { apiKeys?: APIKeyType[] }) => {
-  const [createState, setCreateState] = useState<
-    "idle" | "requesting" | "success" | "error"
-  >("idle");
+const apiKeyScopeLabels: Record<APIKeyScopeType, string> = {
+  read: "Read hunts, puzzles, guesses and announcements",
+  "puzzle-write": "Create and edit puzzles and their tags",
+  "guess-submit": "Submit guesses",
+  "guess-resolve": "Mark guesses correct or incorrect",
+  announce: "Post announcements",
+};
+
+const CreateAPIKeyModal = React.forwardRef(
+  (
+    {
+      huntIds,
+      onCreated,
+    }: {
+      huntIds: string[];
+      onCreated: (error?: Meteor.Error) => void;
+    },
+    forwardedRef: React.Ref<ModalFormHandle>,
+  ) => {
+    const [allHunts, setAllHunts] = useState<boolean>(true);
+    const [hunts, setHunts] = useState<string[]>([]);
+    const [scopes, setScopes] = useState<APIKeyScopeType[]>(["read"]);
+    const [expiresOn, setExpiresOn] = useState<string>("");
+
+    const huntNames = useTracker(() => {
+      return new Map(
+        Hunts.find({ _id: { $in: huntIds } }).map((h) => [h._id, h.name]),
+      );
+    }, [huntIds]);
+
+    const toggleHunt = useCallback((huntId: string) => {
+      setHunts((prev) =>
+        prev.includes(huntId)
+          ? prev.filter((h) => h !== huntId)
+          : [...prev, huntId],
+      );
+    }, []);
+
+    const toggleScope = useCallback((scope: APIKeyScopeType) => {
+      setScopes((prev) =>
+        prev.includes(scope)
+          ? prev.filter((s) => s !== scope)
+          : [...prev, scope],
+      );
+    }, []);
+
+    const handleExpiresOnChange: NonNullable<FormControlProps["onChange"]> =
+      useCallback((e) => {
+        setExpiresOn(e.currentTarget.value);
+      }, []);
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        createAPIKey.call(
+          {
+            hunts: allHunts ? undefined : hunts,
+            scopes,
+            // Keys expire at the end of the chosen day, local time
+            expiresAt: expiresOn
+              ? new Date(`${expiresOn}T23:59:59`)
+              : undefined,
+          },
+          (error) => {
+            onCreated(error);
+            if (!error) {
+              setAllHunts(true);
+              setHunts([]);
+              setScopes(["read"]);
+              setExpiresOn("");
+            }
+            callback();
+          },
+        );
+      },
+      [allHunts, hunts, scopes, expiresOn, onCreated],
+    );
+
+    const idPrefix = useId();
+
+    return (
+      <ModalForm
+        ref={forwardedRef}
+        title="Create API key"
+        submitLabel="Create"
+        submitDisabled={
+          scopes.length === 0 || (!allHunts && hunts.length === 0)
+        }
+        onSubmit={onSubmit}
+      >
+        <FormGroup className="mb-3">
+          <FormLabel>Hunts</FormLabel>
+          <FormCheck
+            type="checkbox"
+            id={`${idPrefix}-all-hunts`}
+            label="All hunts I am a member of"
+            checked={allHunts}
+            onChange={() => setAllHunts((prev) => !prev)}
+          />
+          {allHunts
+            ? undefined
+            : huntIds.map((huntId) => (
+                <FormCheck
+                  key={huntId}
+                  type="checkbox"
+                  id={`${idPrefix}-hunt-${huntId}`}
+                  label={huntNames.get(huntId) ?? huntId}
+                  checked={hunts.includes(huntId)}
+                  onChange={() => toggleHunt(huntId)}
+                />
+              ))}
+        </FormGroup>
+        <FormGroup className="mb-3">
+          <FormLabel>Scopes</FormLabel>
+          {APIKeyScopes.options.map((scope) => (
+            <FormCheck
+              key={scope}
+              type="checkbox"
+              id={`${idPrefix}-scope-${scope}`}
+              label={apiKeyScopeLabels[scope]}
+              checked={scopes.includes(scope)}
+              onChange={() => toggleScope(scope)}
+            />
+          ))}
+        </FormGroup>
+        <FormGroup controlId={`${idPrefix}-expires-on`}>
+          <FormLabel>Expires on</FormLabel>
+          <FormControl
+            type="date"
+            value={expiresOn}
+            onChange={handleExpiresOnChange}
+          />
+          <FormText>Leave blank for a key that never expires.</FormText>
+        </FormGroup>
+      </ModalForm>
+    );
+  },
+);
+
+const APIKeysSection = ({
+  huntIds,
+  apiKeys,
+}: {
+  huntIds: string[];
+  apiKeys?: APIKeyType[];
+}) => {
+  const [createState, setCreateState] = useState<"idle" | "success" | "error">(
+    "idle",
+  );
   const [createError, setCreateError] = useState<string | undefined>(undefined);
-  const createKey = useCallback(() => {
-    setCreateState("requesting");
-    createAPIKey.call({}, (error, _newKey) => {
-      if (error) {
-        setCreateState("error");
-        setCreateError(error.message);
-      } else {
-        setCreateState("success");
-      }
-    });
+  const huntsLoading = useTypedSubscribe(huntsAll);
+  const createModalRef = useRef<ModalFormHandle>(null);
+  const showCreateModal = useCallback(() => {
+    createModalRef.current?.show();
+  }, []);
+  const onCreated = useCallback((error?: Meteor.Error) => {
+    if (error) {
+      setCreateState("error");
+      setCreateError(error.message);
+    } else {
+      setCreateState("success");
+    }
   }, []);
-  const disabled = createState === "requesting";
+  const disabled = huntsLoading();
   return (
     <>
+      <CreateAPIKeyModal
+        ref={createModalRef}
+        huntIds={huntIds}
+        onCreated={onCreated}
+      />
       <div
         style={{
           display: "flex",
@@ -191,7 +349,7 @@ const APIKeysSection = ({ apiKeys }: { apiKeys?: APIKeyType[] }) => {
         }}
       >
         <h3>API Keys</h3>
-        <Button disabled={disabled} onClick={createKey}>
+        <Button disabled={disabled} onClick={showCreateModal}>
           + Create API key
         </Button>
       </div>
@@ -204,7 +362,10 @@ const APIKeysSection = ({ apiKeys }: { apiKeys?: APIKeyType[] }) => {
           Creating API key failed: {createError}
         </Alert>
       ) : undefined}
-      <p>Authorization credentials used to make API calls. Keep them secret!</p>
+      <p>
+        Authorization credentials used to make API calls. Keep them secret, and
+        grant each key only the hunts and scopes it needs.
+      </p>
       <APIKeysTable apiKeys={apiKeys} />
     </>
   );
@@ -349,9 +510,9 @@ const OwnProfilePage = ({
           placeholder="cryptic,biology,chemistry"
         />
         <FormText>
-          Get an in-app notification if anyone sends a chat message containing
-          one of your comma-separated, case-insensitive dingwords as a
-          substring. This feature is experimental and may be disabled without
+          Get notified (see Notifications below) if anyone sends a chat message
+          containing one of your comma-separated, case-insensitive dingwords as
+          a substring. This feature is experimental and may be disabled without
           notice.
         </FormText>
       </FormGroup>
@@ -369,11 +530,15 @@ const OwnProfilePage = ({
         </FormGroup>
       </ActionButtonRow>
 
+      <NotificationPreferencesConfig
+        preferences={initialUser.notificationPreferences}
+      />
+
       <AudioConfig />
 
       <section className="mt-3">
         <h2>Advanced</h2>
-        <APIKeysSection apiKeys={apiKeys} />
+        <APIKeysSection huntIds={initialUser.hunts ?? []} apiKeys={apiKeys} />
       </section>
     </Container>
   );
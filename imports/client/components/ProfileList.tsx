@@ -4,7 +4,7 @@ import { faCopy } from "@fortawesome/free-solid-svg-icons/faCopy";
 import { faEraser } from "@fortawesome/free-solid-svg-icons/faEraser";
 import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import type { MouseEvent } from "react";
+import type { ChangeEvent, MouseEvent } from "react";
 import React, {
   useCallback,
   useId,
@@ -16,10 +16,15 @@ import React, {
 import Alert from "react-bootstrap/Alert";
 import Badge from "react-bootstrap/Badge";
 import Button from "react-bootstrap/Button";
+import Dropdown from "react-bootstrap/Dropdown";
+import DropdownItem from "react-bootstrap/DropdownItem";
+import DropdownMenu from "react-bootstrap/DropdownMenu";
+import DropdownToggle from "react-bootstrap/DropdownToggle";
 import type { FormControlProps } from "react-bootstrap/FormControl";
 import FormControl from "react-bootstrap/FormControl";
 import FormGroup from "react-bootstrap/FormGroup";
 import FormLabel from "react-bootstrap/FormLabel";
+import FormSelect from "react-bootstrap/FormSelect";
 import FormText from "react-bootstrap/FormText";
 import InputGroup from "react-bootstrap/InputGroup";
 import ListGroup from "react-bootstrap/ListGroup";
@@ -30,16 +35,24 @@ import { Link } from "react-router-dom";
 import styled from "styled-components";
 import { formatDiscordName } from "../../lib/discord";
 import isAdmin from "../../lib/isAdmin";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
 import type { HuntType } from "../../lib/models/Hunts";
-import { userIsOperatorForHunt } from "../../lib/permission_stubs";
+import type { TagType } from "../../lib/models/Tags";
+import {
+  userIsOperatorForHunt,
+  userMayAssignRoleForHunt,
+} from "../../lib/permission_stubs";
 import clearHuntInvitationCode from "../../methods/clearHuntInvitationCode";
 import demoteOperator from "../../methods/demoteOperator";
 import generateHuntInvitationCode from "../../methods/generateHuntInvitationCode";
 import promoteOperator from "../../methods/promoteOperator";
+import setUserHuntRoles from "../../methods/setUserHuntRoles";
 import syncHuntDiscordRole from "../../methods/syncHuntDiscordRole";
 import useFocusRefOnFindHotkey from "../hooks/useFocusRefOnFindHotkey";
 import Avatar from "./Avatar";
 import CopyToClipboardButton from "./CopyToClipboardButton";
+import HuntGroupList from "./HuntGroupList";
+import HuntRolesConfig from "./HuntRolesConfig";
 
 const ProfilesSummary = styled.div`
   text-align: right;
@@ -263,12 +276,8 @@ const OperatorControls = ({
     [renderDemoteModal],
   );
 
-  const preventPropagation = useCallback((e: MouseEvent) => {
-    e.preventDefault();
-  }, []);
-
   return (
-    <OperatorBox onClick={preventPropagation}>
+    <>
       {renderPromoteModal && (
         <PromoteOperatorModal
           forwardedRef={promoteModalRef}
@@ -298,7 +307,82 @@ const OperatorControls = ({
           Make operator
         </Button>
       )}
-    </OperatorBox>
+    </>
+  );
+};
+
+const HuntRoleControls = ({
+  user,
+  hunt,
+  roles,
+  canAssignRoles,
+}: {
+  user: Meteor.User;
+  hunt: HuntType;
+  roles: string[];
+  canAssignRoles: boolean;
+}) => {
+  const customRoles = hunt.customRoles ?? [];
+  const heldRoles = customRoles.filter((role) => roles.includes(role.id));
+  const assignableRoleIds = useTracker(
+    () =>
+      (hunt.customRoles ?? []).flatMap((role) =>
+        userMayAssignRoleForHunt(Meteor.user(), hunt, role.id) ? [role.id] : [],
+      ),
+    [hunt],
+  );
+  const [error, setError] = useState<Error>();
+
+  const toggleRole = useCallback(
+    (roleId: string) => {
+      const heldRoleIds = heldRoles.map((role) => role.id);
+      setUserHuntRoles.call(
+        {
+          targetUserId: user._id,
+          huntId: hunt._id,
+          roles: heldRoleIds.includes(roleId)
+            ? heldRoleIds.filter((id) => id !== roleId)
+            : [...heldRoleIds, roleId],
+        },
+        (e) => setError(e),
+      );
+    },
+    [user._id, hunt._id, heldRoles],
+  );
+
+  return (
+    <>
+      {heldRoles.map((role) => (
+        <Badge key={role.id} bg="secondary">
+          {role.name}
+        </Badge>
+      ))}
+      {error && (
+        <span className="text-danger" title={error.message}>
+          Couldn&apos;t update roles
+        </span>
+      )}
+      {canAssignRoles && customRoles.length > 0 && (
+        <Dropdown>
+          <DropdownToggle size="sm" variant="outline-secondary">
+            Roles
+          </DropdownToggle>
+          <DropdownMenu>
+            {customRoles.map((role) => (
+              <DropdownItem
+                key={role.id}
+                as="button"
+                active={roles.includes(role.id)}
+                disabled={!assignableRoleIds.includes(role.id)}
+                onClick={() => toggleRole(role.id)}
+              >
+                {role.name}
+              </DropdownItem>
+            ))}
+          </DropdownMenu>
+        </Dropdown>
+      )}
+    </>
   );
 };
 
@@ -360,26 +444,43 @@ const DisableInvitationLinkModal = ({
   );
 };
 
+// Controls in a list item sit inside the link to the hunter's profile
+const preventNavigation = (e: MouseEvent) => {
+  e.preventDefault();
+};
+
 const ProfileList = ({
   hunt,
   canInvite,
   canSyncDiscord,
   canMakeOperator,
+  canAssignRoles,
+  canConfigureRoles,
+  canManageGroups,
   canUpdateHuntInvitationCode,
   users,
   roles,
+  groups,
+  tags,
   invitationCode,
 }: {
   hunt?: HuntType;
   canInvite?: boolean;
   canSyncDiscord?: boolean;
   canMakeOperator?: boolean;
+  canAssignRoles?: boolean;
+  canConfigureRoles?: boolean;
+  canManageGroups?: boolean;
   canUpdateHuntInvitationCode?: boolean;
   users: Meteor.User[];
   roles?: Record<string, string[]>;
+  // The hunt's groups, and the tags needed to manage them
+  groups?: HuntGroupType[];
+  tags?: TagType[];
   invitationCode?: string;
 }) => {
   const [searchString, setSearchString] = useState<string>("");
+  const [groupFilter, setGroupFilter] = useState<string>("");
 
   const searchBarRef = useRef<HTMLInputElement>(null); // Wrong type but I should fix it
   useFocusRefOnFindHotkey(searchBarRef);
@@ -416,6 +517,13 @@ const ProfileList = ({
     return isInteresting;
   }, [searchString, roles]);
 
+  const onGroupFilterChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      setGroupFilter(e.currentTarget.value);
+    },
+    [],
+  );
+
   const clearSearch = useCallback(() => {
     setSearchString("");
   }, []);
@@ -598,7 +706,11 @@ const ProfileList = ({
 
   const searchId = useId();
 
-  const matching = users.filter(matcher);
+  const groupMembers = groups?.find((g) => g._id === groupFilter)?.members;
+  const matching = users.filter(
+    (user) =>
+      matcher(user) && (!groupMembers || groupMembers.includes(user._id)),
+  );
   return (
     <div>
       <h1>List of hunters</h1>
@@ -609,6 +721,16 @@ const ProfileList = ({
       {invitationLink}
       {invitationLinkManagementButtons}
 
+      {hunt && groups ? (
+        <HuntGroupList
+          hunt={hunt}
+          groups={groups}
+          tags={tags ?? []}
+          canManageGroups={!!canManageGroups}
+          canSyncDiscord={!!canSyncDiscord}
+        />
+      ) : null}
+
       <FormGroup className="mb-3" controlId={searchId}>
         <FormLabel>Search</FormLabel>
         <InputGroup>
@@ -625,6 +747,20 @@ const ProfileList = ({
         </InputGroup>
       </FormGroup>
 
+      {groups && groups.length > 0 ? (
+        <FormGroup className="mb-3" controlId={`${searchId}-group`}>
+          <FormLabel>Group</FormLabel>
+          <FormSelect value={groupFilter} onChange={onGroupFilterChange}>
+            <option value="">Everyone</option>
+            {groups.map((group) => (
+              <option key={group._id} value={group._id}>
+                {group.name}
+              </option>
+            ))}
+          </FormSelect>
+        </FormGroup>
+      ) : null}
+
       {globalInfo}
 
       <ListGroup>
@@ -648,14 +784,26 @@ const ProfileList = ({
                   <Avatar {...user} size={40} />
                 </ImageBlock>
                 {name}
-                {hunt && canMakeOperator && (
-                  <OperatorControls hunt={hunt} user={user} />
+                {hunt && roles?.[user._id] && (
+                  <OperatorBox onClick={preventNavigation}>
+                    <HuntRoleControls
+                      hunt={hunt}
+                      user={user}
+                      roles={roles[user._id]!}
+                      canAssignRoles={!!canAssignRoles}
+                    />
+                    {canMakeOperator && (
+                      <OperatorControls hunt={hunt} user={user} />
+                    )}
+                  </OperatorBox>
                 )}
               </ListItemContainer>
             </ListGroupItem>
           );
         })}
       </ListGroup>
+
+      {hunt && canConfigureRoles && <HuntRolesConfig hunt={hunt} />}
     </div>
   );
 };
@@ -0,0 +1,188 @@
+import { Meteor } from "meteor/meteor";
+import { useSubscribe, useTracker } from "meteor/react-meteor-data";
+import { useCallback, useEffect, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Table from "react-bootstrap/Table";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import PushSubscriptions from "../../lib/models/PushSubscriptions";
+import pushSubscriptionsForSelf from "../../lib/publications/pushSubscriptionsForSelf";
+import removePushSubscription from "../../methods/removePushSubscription";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import WebPushPublicKey from "../WebPushPublicKey";
+import {
+  currentPushSubscription,
+  subscribeToPush,
+  webPushSupported,
+} from "../webPush";
+
+// Lists the devices that browser notifications get pushed to, and lets the
+// user add or remove the one they're on
+const PushDevicesConfig = () => {
+  const publicKeyLoading = useSubscribe("webPushPublicKey");
+  const subscriptionsLoading = useTypedSubscribe(pushSubscriptionsForSelf);
+  const loading = publicKeyLoading() || subscriptionsLoading();
+
+  const publicKey = useTracker(
+    () => WebPushPublicKey.findOne("webPushPublicKey")?.publicKey,
+    [],
+  );
+  const subscriptions = useTracker(
+    () =>
+      loading
+        ? []
+        : PushSubscriptions.find(
+            { user: Meteor.userId()! },
+            { sort: { createdAt: 1 } },
+          ).fetch(),
+    [loading],
+  );
+
+  const [thisDeviceEndpoint, setThisDeviceEndpoint] = useState<string>();
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    void currentPushSubscription().then((subscription) => {
+      if (!cancelled) {
+        setThisDeviceEndpoint(subscription?.endpoint);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onEnable = useCallback(() => {
+    if (!publicKey) {
+      return;
+    }
+
+    setBusy(true);
+    setError(undefined);
+    void (async () => {
+      try {
+        if ((await Notification.requestPermission()) !== "granted") {
+          throw new Error(
+            "This browser isn't allowing Jolly Roger to show notifications",
+          );
+        }
+        setThisDeviceEndpoint(await subscribeToPush(publicKey));
+      } catch (e) {
+        setError((e as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    })();
+  }, [publicKey]);
+
+  const onRemove = useCallback(
+    (pushSubscriptionId: string, endpoint: string) => {
+      setBusy(true);
+      setError(undefined);
+      void (async () => {
+        try {
+          if (endpoint === thisDeviceEndpoint) {
+            const subscription = await currentPushSubscription();
+            await subscription?.unsubscribe();
+            setThisDeviceEndpoint(undefined);
+          }
+          await removePushSubscription.callPromise({ pushSubscriptionId });
+        } catch (e) {
+          setError((e as Error).message);
+        } finally {
+          setBusy(false);
+        }
+      })();
+    },
+    [thisDeviceEndpoint],
+  );
+
+  if (loading) {
+    return <div>loading...</div>;
+  }
+
+  let enableControl;
+  if (!publicKey) {
+    enableControl = (
+      <p>
+        This server hasn&apos;t been set up to push notifications, so browser
+        notifications are only shown while Jolly Roger is open.
+      </p>
+    );
+  } else if (!webPushSupported()) {
+    enableControl = (
+      <p>
+        This browser doesn&apos;t support push notifications, so browser
+        notifications are only shown while Jolly Roger is open.
+      </p>
+    );
+  } else if (
+    !subscriptions.some((sub) => sub.endpoint === thisDeviceEndpoint)
+  ) {
+    enableControl = (
+      <Button variant="secondary" disabled={busy} onClick={onEnable}>
+        Push notifications to this device
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <h3 className="mt-3">Devices</h3>
+      <p>
+        Browser notifications are pushed to these devices, so you&apos;ll see
+        them even when Jolly Roger isn&apos;t open.
+      </p>
+      {error ? (
+        <Alert variant="danger" dismissible onClose={() => setError(undefined)}>
+          {error}
+        </Alert>
+      ) : null}
+      {subscriptions.length > 0 ? (
+        <Table size="sm">
+          <thead>
+            <tr>
+              <th>Device</th>
+              <th>Added</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {subscriptions.map((subscription) => (
+              <tr key={subscription._id}>
+                <td>
+                  {subscription.userAgent ?? "Unknown browser"}
+                  {subscription.endpoint === thisDeviceEndpoint ? (
+                    <>
+                      {" "}
+                      <Badge bg="secondary">This device</Badge>
+                    </>
+                  ) : null}
+                </td>
+                <td>{calendarTimeFormat(subscription.createdAt)}</td>
+                <td>
+                  <Button
+                    variant="outline-danger"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() =>
+                      onRemove(subscription._id, subscription.endpoint)
+                    }
+                  >
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      ) : null}
+      {enableControl}
+    </>
+  );
+};
+
+export default PushDevicesConfig;
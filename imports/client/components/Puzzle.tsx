@@ -14,6 +14,7 @@ import Button from "react-bootstrap/Button";
 import ButtonGroup from "react-bootstrap/ButtonGroup";
 import { Link } from "react-router-dom";
 import styled, { css, useTheme } from "styled-components";
+import { isUnattendedPuzzle } from "../../lib/huntRoster";
 import { difference, indexedById } from "../../lib/listUtils";
 import type { PuzzleType } from "../../lib/models/Puzzles";
 import type { TagType } from "../../lib/models/Tags";
@@ -27,15 +28,22 @@ import PuzzleAnswer from "./PuzzleAnswer";
 import PuzzleDeleteModal from "./PuzzleDeleteModal";
 import type { PuzzleModalFormSubmitPayload } from "./PuzzleModalForm";
 import PuzzleModalForm from "./PuzzleModalForm";
+import PuzzleStatusBadge from "./PuzzleStatusBadge";
 import { mediaBreakpointDown } from "./styling/responsive";
 import TagList from "./TagList";
 
 const PuzzleDiv = styled.div<{
   $solvedness: Solvedness;
+  $unattended: boolean;
 }>`
   background-color: ${({ $solvedness, theme }) => {
     return theme.colors.solvedness[$solvedness];
   }};
+  ${({ $unattended }) =>
+    $unattended &&
+    css`
+      box-shadow: inset 4px 0 0 var(--bs-warning);
+    `}
   display: flex;
   flex-direction: row;
   align-items: first baseline;
@@ -80,6 +88,10 @@ const PuzzleTitleColumn = styled(PuzzleColumn)`
   order: -1;
 `;
 
+const StatusBadge = styled(PuzzleStatusBadge)`
+  margin-left: 4px;
+`;
+
 const PuzzleActivityColumn = styled(PuzzleColumn)`
   width: 11rem;
   text-align: right;
@@ -230,6 +242,7 @@ const Puzzle = React.memo(
       .filter<TagType>((t): t is TagType => t !== undefined);
 
     const solvedness = computeSolvedness(puzzle);
+    const unattended = isUnattendedPuzzle(puzzle, Date.now());
     const answers = puzzle.answers.map((answer, i) => {
       return (
         <PuzzleAnswer
@@ -243,7 +256,7 @@ const Puzzle = React.memo(
     });
 
     return (
-      <PuzzleDiv $solvedness={solvedness}>
+      <PuzzleDiv $solvedness={solvedness} $unattended={unattended}>
         {showEditModal ? (
           <PuzzleModalForm
             key={puzzle._id}
@@ -269,8 +282,19 @@ const Puzzle = React.memo(
             {showEdit && editButtons}
           </ButtonGroup>
         </PuzzleControlButtonsColumn>
-        <PuzzleTitleColumn>
+        <PuzzleTitleColumn
+          title={
+            unattended
+              ? "Nobody has been assigned to this puzzle for a while"
+              : undefined
+          }
+        >
           <Link to={linkTarget}>{puzzle.title}</Link>
+          {solvedness === "unsolved" &&
+            puzzle.status &&
+            puzzle.status !== "new" && (
+              <StatusBadge status={puzzle.status} note={puzzle.statusNote} />
+            )}
         </PuzzleTitleColumn>
         <PuzzleActivityColumn>
           {solvedness === "unsolved" && (
@@ -0,0 +1,123 @@
+import { faTimes } from "@fortawesome/free-solid-svg-icons/faTimes";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type { ChangeEvent } from "react";
+import { useCallback } from "react";
+import Button from "react-bootstrap/Button";
+import FormSelect from "react-bootstrap/FormSelect";
+import styled from "styled-components";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import assignPuzzle from "../../methods/assignPuzzle";
+import unassignPuzzle from "../../methods/unassignPuzzle";
+
+const AssigneesLine = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 4px 8px;
+`;
+
+const AssigneesLabel = styled.span`
+  font-weight: bold;
+`;
+
+const Assignee = styled.span`
+  display: inline-flex;
+  align-items: center;
+  padding: 0 6px;
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 10px;
+`;
+
+const RemoveAssigneeButton = styled(Button)`
+  padding: 0 0 0 4px;
+  line-height: 1;
+`;
+
+const AssignSelect = styled(FormSelect)`
+  width: auto;
+`;
+
+// Shows who's assigned to the puzzle. Hunters can add or remove themselves;
+// operators can also assign or unassign anyone in the hunt.
+const PuzzleAssignees = ({
+  puzzle,
+  displayNames,
+  selfUserId,
+  canAssignOthers,
+}: {
+  puzzle: PuzzleType;
+  displayNames: Map<string, string>;
+  selfUserId: string;
+  canAssignOthers: boolean;
+}) => {
+  const assignees = puzzle.assignees ?? [];
+  const selfAssigned = assignees.includes(selfUserId);
+  const editable = !puzzle.deleted;
+
+  const assign = useCallback(
+    (userId: string) => {
+      assignPuzzle.call({ puzzleId: puzzle._id, userId });
+    },
+    [puzzle._id],
+  );
+
+  const unassign = useCallback(
+    (userId: string) => {
+      unassignPuzzle.call({ puzzleId: puzzle._id, userId });
+    },
+    [puzzle._id],
+  );
+
+  const onAssignSelectChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      if (e.currentTarget.value) {
+        assign(e.currentTarget.value);
+      }
+    },
+    [assign],
+  );
+
+  const unassignedHunters = [...displayNames.entries()]
+    .filter(([userId]) => userId !== selfUserId && !assignees.includes(userId))
+    .sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <AssigneesLine>
+      <AssigneesLabel>Assigned:</AssigneesLabel>
+      {assignees.length > 0
+        ? assignees.map((userId) => (
+            <Assignee key={userId}>
+              {displayNames.get(userId) ?? "???"}
+              {editable && (canAssignOthers || userId === selfUserId) ? (
+                <RemoveAssigneeButton
+                  variant="link"
+                  size="sm"
+                  title="Unassign"
+                  onClick={() => unassign(userId)}
+                >
+                  <FontAwesomeIcon icon={faTimes} />
+                </RemoveAssigneeButton>
+              ) : null}
+            </Assignee>
+          ))
+        : "nobody yet"}
+      {editable && !selfAssigned ? (
+        <Button variant="link" size="sm" onClick={() => assign(selfUserId)}>
+          Assign me
+        </Button>
+      ) : null}
+      {editable && canAssignOthers && unassignedHunters.length > 0 ? (
+        <AssignSelect size="sm" value="" onChange={onAssignSelectChange}>
+          <option value="">Assign someone else...</option>
+          {unassignedHunters.map(([userId, name]) => (
+            <option key={userId} value={userId}>
+              {name}
+            </option>
+          ))}
+        </AssignSelect>
+      ) : null}
+    </AssigneesLine>
+  );
+};
+
+export default PuzzleAssignees;
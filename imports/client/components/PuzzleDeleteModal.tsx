@@ -2,10 +2,12 @@ import { useSubscribe, useTracker } from "meteor/react-meteor-data";
 import React, {
   Suspense,
   useCallback,
+  useId,
   useImperativeHandle,
   useState,
 } from "react";
 import Button from "react-bootstrap/Button";
+import FormCheck from "react-bootstrap/FormCheck";
 import Modal from "react-bootstrap/Modal";
 import { createPortal } from "react-dom";
 import Peers from "../../lib/models/mediasoup/Peers";
@@ -13,6 +15,7 @@ import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
 import puzzlesForHunt from "../../lib/publications/puzzlesForHunt";
 import destroyPuzzle from "../../methods/destroyPuzzle";
+import mergePuzzle from "../../methods/mergePuzzle";
 import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
 import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import indexedDisplayNames from "../indexedDisplayNames";
@@ -104,14 +107,31 @@ const PuzzleDeleteModal = React.forwardRef(
       ...puzzles.map((p) => ({ label: p.title, value: p._id })),
     ];
 
+    const [merge, setMerge] = useState<boolean>(false);
+    const onMergeChange = useCallback(
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        setMerge(e.currentTarget.checked);
+      },
+      [],
+    );
+
     const deletePuzzle = useCallback(() => {
-      destroyPuzzle.call({
-        puzzleId: puzzle._id,
-        replacedBy: replacementId?.value,
-      });
+      if (merge && replacementId) {
+        mergePuzzle.call({
+          puzzleId: puzzle._id,
+          intoPuzzleId: replacementId.value,
+        });
+      } else {
+        destroyPuzzle.call({
+          puzzleId: puzzle._id,
+          replacedBy: replacementId?.value,
+        });
+      }
       // Hide immediately before the component gets unmounted
       hide();
-    }, [puzzle._id, replacementId?.value, hide]);
+    }, [puzzle._id, replacementId, merge, hide]);
+
+    const idPrefix = useId();
 
     const modal = (
       <Modal show={visible} onHide={hide}>
@@ -143,6 +163,16 @@ const PuzzleDeleteModal = React.forwardRef(
                 onChange={setReplacementIdCallback}
               />
             </p>
+            {replacementId && (
+              <FormCheck
+                className="mb-3"
+                id={`${idPrefix}-merge`}
+                type="checkbox"
+                label="Merge into the replacement: move this puzzle's chat, guesses, bookmarks, tags and documents there"
+                checked={merge}
+                onChange={onMergeChange}
+              />
+            )}
             <p>
               This puzzle is currently being viewed by {uniqueViewers.length}{" "}
               {uniqueViewers.length === 1 ? "person" : "people"}
@@ -160,7 +190,7 @@ const PuzzleDeleteModal = React.forwardRef(
             Cancel
           </Button>
           <Button variant="danger" onClick={deletePuzzle}>
-            Delete
+            {merge && replacementId ? "Merge" : "Delete"}
           </Button>
         </Modal.Footer>
       </Modal>
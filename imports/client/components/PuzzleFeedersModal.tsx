@@ -0,0 +1,134 @@
+import React, {
+  Suspense,
+  useCallback,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import Alert from "react-bootstrap/Alert";
+import FormCheck from "react-bootstrap/FormCheck";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormText from "react-bootstrap/FormText";
+import { useTheme } from "styled-components";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import setPuzzleFeeders from "../../methods/setPuzzleFeeders";
+import Loading from "./Loading";
+import type { ModalFormHandle } from "./ModalForm";
+import ModalForm from "./ModalForm";
+
+// Casting away the React.lazy because otherwise we lose access to the generic parameter
+const Select = React.lazy(
+  () => import("react-select"),
+) as typeof import("react-select").default;
+
+interface PuzzleSelectOption {
+  label: string;
+  value: string;
+}
+
+export type PuzzleFeedersModalHandle = {
+  show: () => void;
+};
+
+const PuzzleFeedersModal = React.forwardRef(
+  (
+    {
+      puzzle,
+      allPuzzles,
+    }: {
+      puzzle: PuzzleType;
+      // All puzzles in the hunt
+      allPuzzles: PuzzleType[];
+    },
+    forwardedRef: React.Ref<PuzzleFeedersModalHandle>,
+  ) => {
+    const formRef = useRef<ModalFormHandle>(null);
+    const [isMeta, setIsMeta] = useState<boolean>(false);
+    const [feeders, setFeeders] = useState<string[]>([]);
+    const [error, setError] = useState<string | undefined>(undefined);
+
+    const show = useCallback(() => {
+      // Start from the puzzle's current state each time the modal is opened
+      setIsMeta(puzzle.feeders !== undefined);
+      setFeeders(puzzle.feeders ?? []);
+      setError(undefined);
+      formRef.current?.show();
+    }, [puzzle.feeders]);
+    useImperativeHandle(forwardedRef, () => ({ show }), [show]);
+
+    const options: PuzzleSelectOption[] = allPuzzles
+      .filter((p) => p._id !== puzzle._id)
+      .map((p) => ({ label: p.title, value: p._id }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    const optionsById = new Map(options.map((o) => [o.value, o]));
+
+    const onFeedersChange = useCallback(
+      (value: readonly PuzzleSelectOption[]) => {
+        setFeeders(value.map((v) => v.value));
+      },
+      [],
+    );
+
+    const onSubmit = useCallback(
+      (callback: () => void) => {
+        setPuzzleFeeders.call(
+          { puzzleId: puzzle._id, feeders: isMeta ? feeders : undefined },
+          (err) => {
+            if (err) {
+              setError(err.message);
+            } else {
+              callback();
+            }
+          },
+        );
+      },
+      [puzzle._id, isMeta, feeders],
+    );
+
+    const idPrefix = useId();
+    const theme = useTheme();
+
+    return (
+      <ModalForm
+        ref={formRef}
+        title={`Meta structure for ${puzzle.title}`}
+        onSubmit={onSubmit}
+        submitLabel="Save"
+      >
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        <FormGroup className="mb-3">
+          <FormCheck
+            type="checkbox"
+            id={`${idPrefix}-is-meta`}
+            label="This puzzle is a meta"
+            checked={isMeta}
+            onChange={() => setIsMeta((prev) => !prev)}
+          />
+        </FormGroup>
+        {isMeta ? (
+          <FormGroup>
+            <FormLabel htmlFor={`${idPrefix}-feeders`}>Feeders</FormLabel>
+            <Suspense fallback={<Loading inline />}>
+              <Select
+                inputId={`${idPrefix}-feeders`}
+                theme={theme.reactSelectTheme}
+                options={options}
+                isMulti
+                onChange={onFeedersChange}
+                value={feeders.flatMap((id) => optionsById.get(id) ?? [])}
+              />
+            </Suspense>
+            <FormText>
+              The puzzles whose answers are used to solve this meta. Leave empty
+              if they aren&apos;t known yet.
+            </FormText>
+          </FormGroup>
+        ) : null}
+      </ModalForm>
+    );
+  },
+);
+
+export default PuzzleFeedersModal;
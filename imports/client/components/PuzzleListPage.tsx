@@ -5,6 +5,7 @@ import { faEraser } from "@fortawesome/free-solid-svg-icons/faEraser";
 import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import {
+  type ChangeEvent,
   type ComponentPropsWithRef,
   type FC,
   useCallback,
@@ -18,6 +19,7 @@ import type { FormControlProps } from "react-bootstrap/FormControl";
 import FormControl from "react-bootstrap/FormControl";
 import FormGroup from "react-bootstrap/FormGroup";
 import FormLabel from "react-bootstrap/FormLabel";
+import FormSelect from "react-bootstrap/FormSelect";
 import InputGroup from "react-bootstrap/InputGroup";
 import ToggleButton from "react-bootstrap/ToggleButton";
 import ToggleButtonGroup from "react-bootstrap/ToggleButtonGroup";
@@ -25,9 +27,10 @@ import { useParams, useSearchParams } from "react-router-dom";
 import styled, { css } from "styled-components";
 import { sortedBy } from "../../lib/listUtils";
 import Bookmarks from "../../lib/models/Bookmarks";
+import HuntGroups from "../../lib/models/HuntGroups";
 import Hunts from "../../lib/models/Hunts";
 import type { PuzzleType } from "../../lib/models/Puzzles";
-import Puzzles from "../../lib/models/Puzzles";
+import Puzzles, { PuzzleStatuses } from "../../lib/models/Puzzles";
 import Tags from "../../lib/models/Tags";
 import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
 import puzzleActivityForHunt from "../../lib/publications/puzzleActivityForHunt";
@@ -36,6 +39,7 @@ import {
   filteredPuzzleGroups,
   puzzleGroupsByRelevance,
 } from "../../lib/puzzle-sort-and-group";
+import { puzzleStatusLabels } from "../../lib/puzzleStatus";
 import { computeSolvedness } from "../../lib/solvedness";
 import createPuzzle from "../../methods/createPuzzle";
 import {
@@ -60,7 +64,7 @@ import { mediaBreakpointDown } from "./styling/responsive";
 
 const ViewControls = styled.div<{ $canAdd?: boolean }>`
   display: grid;
-  grid-template-columns: auto auto auto 1fr;
+  grid-template-columns: auto auto auto auto 1fr;
   align-items: end;
   gap: 1em;
   margin-bottom: 1em;
@@ -86,7 +90,7 @@ const ViewControls = styled.div<{ $canAdd?: boolean }>`
 `;
 
 const SearchFormGroup = styled(FormGroup)<{ $canAdd?: boolean }>`
-  grid-column: ${(props) => (props.$canAdd ? 1 : 3)} / -1;
+  grid-column: ${(props) => (props.$canAdd ? 1 : 4)} / -1;
   ${mediaBreakpointDown(
     "sm",
     css`
@@ -105,6 +109,12 @@ const SearchFormLabel = styled(FormLabel)<{ $canAdd?: boolean }>`
   )}
 `;
 
+const FilterControls = styled.div`
+  display: flex;
+  align-items: end;
+  gap: 1em;
+`;
+
 const OperatorActionsFormGroup = styled(FormGroup)`
   ${mediaBreakpointDown(
     "xs",
@@ -179,6 +189,15 @@ const PuzzleListView = ({
     () => Tags.find({ hunt: huntId }).fetch(),
     [huntId],
   );
+  // Only groups with tags can be used to filter puzzles
+  const groups = useTracker(
+    () =>
+      HuntGroups.find(
+        { hunt: huntId, "tags.0": { $exists: true } },
+        { sort: { name: 1 } },
+      ).fetch(),
+    [huntId],
+  );
   const bookmarked = useTracker(() => {
     const bookmarks = Bookmarks.find({ hunt: huntId, user: Meteor.userId()! })
       .fetch()
@@ -196,6 +215,9 @@ const PuzzleListView = ({
 
   const [searchParams, setSearchParams] = useSearchParams();
   const searchString = searchParams.get("q") ?? "";
+  const statusParam = searchParams.get("status");
+  const statusFilter = PuzzleStatuses.safeParse(statusParam).data;
+  const groupFilter = groups.find((g) => g._id === searchParams.get("group"));
   const addModalRef = useRef<PuzzleModalFormHandle>(null);
   const searchBarRef = useRef<HTMLInputElement>(null);
   const [displayMode, setDisplayMode] = useHuntPuzzleListDisplayMode(huntId);
@@ -257,6 +279,34 @@ const PuzzleListView = ({
     [searchParams, setSearchParams],
   );
 
+  const onStatusFilterChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      const u = new URLSearchParams(searchParams);
+      if (e.currentTarget.value) {
+        u.set("status", e.currentTarget.value);
+      } else {
+        u.delete("status");
+      }
+
+      setSearchParams(u);
+    },
+    [searchParams, setSearchParams],
+  );
+
+  const onGroupFilterChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      const u = new URLSearchParams(searchParams);
+      if (e.currentTarget.value) {
+        u.set("group", e.currentTarget.value);
+      } else {
+        u.delete("group");
+      }
+
+      setSearchParams(u);
+    },
+    [searchParams, setSearchParams],
+  );
+
   const onSearchStringChange: NonNullable<FormControlProps["onChange"]> =
     useCallback(
       (e) => {
@@ -285,6 +335,31 @@ const PuzzleListView = ({
     [searchString, allTags],
   );
 
+  const puzzlesMatchingStatusFilter = useCallback(
+    (puzzles: PuzzleType[]): PuzzleType[] => {
+      if (!statusFilter) {
+        return puzzles;
+      }
+      return puzzles.filter(
+        (puzzle) => (puzzle.status ?? "new") === statusFilter,
+      );
+    },
+    [statusFilter],
+  );
+
+  const puzzlesMatchingGroupFilter = useCallback(
+    (puzzles: PuzzleType[]): PuzzleType[] => {
+      if (!groupFilter) {
+        return puzzles;
+      }
+      // A group is working on the puzzles with any of its tags
+      return puzzles.filter((puzzle) =>
+        puzzle.tags.some((tagId) => groupFilter.tags.includes(tagId)),
+      );
+    },
+    [groupFilter],
+  );
+
   const puzzlesMatchingSolvedFilter = useCallback(
     (puzzles: PuzzleType[]): PuzzleType[] => {
       if (showSolved) {
@@ -358,7 +433,7 @@ const PuzzleListView = ({
             }
             return (
               <RelatedPuzzleGroup
-                key={g.sharedTag ? g.sharedTag._id : "ungrouped"}
+                key={g.sharedTag?._id ?? g.meta?._id ?? "ungrouped"}
                 huntId={huntId}
                 group={g}
                 noSharedTagLabel="(no group specified)"
@@ -499,7 +574,9 @@ const PuzzleListView = ({
     </>
   );
 
-  const matchingSearch = puzzlesMatchingSearchString(allPuzzles);
+  const matchingSearch = puzzlesMatchingGroupFilter(
+    puzzlesMatchingStatusFilter(puzzlesMatchingSearchString(allPuzzles)),
+  );
   const matchingSearchAndSolved = puzzlesMatchingSolvedFilter(matchingSearch);
   // Normally, we'll just show matchingSearchAndSolved, but if that produces
   // no results, and there *is* a solved puzzle that is not being displayed due
@@ -511,7 +588,10 @@ const PuzzleListView = ({
     ? matchingSearch
     : matchingSearchAndSolved;
   const retainedDeletedPuzzles =
-    deletedPuzzles && puzzlesMatchingSearchString(deletedPuzzles);
+    deletedPuzzles &&
+    puzzlesMatchingGroupFilter(
+      puzzlesMatchingStatusFilter(puzzlesMatchingSearchString(deletedPuzzles)),
+    );
 
   return (
     <div>
@@ -570,6 +650,38 @@ const PuzzleListView = ({
             </StyledToggleButtonGroup>
           </ButtonToolbar>
         </FormGroup>
+        <FilterControls>
+          <FormGroup controlId={`${idPrefix}-status-filter`}>
+            <FormLabel>Status</FormLabel>
+            <FormSelect
+              value={statusFilter ?? ""}
+              onChange={onStatusFilterChange}
+            >
+              <option value="">Any</option>
+              {PuzzleStatuses.options.map((status) => (
+                <option key={status} value={status}>
+                  {puzzleStatusLabels[status]}
+                </option>
+              ))}
+            </FormSelect>
+          </FormGroup>
+          {groups.length > 0 ? (
+            <FormGroup controlId={`${idPrefix}-group-filter`}>
+              <FormLabel>Group</FormLabel>
+              <FormSelect
+                value={groupFilter?._id ?? ""}
+                onChange={onGroupFilterChange}
+              >
+                <option value="">Any</option>
+                {groups.map((group) => (
+                  <option key={group._id} value={group._id}>
+                    {group.name}
+                  </option>
+                ))}
+              </FormSelect>
+            </FormGroup>
+          ) : null}
+        </FilterControls>
         {addPuzzleContent}
         <SearchFormGroup
           $canAdd={canAdd}
@@ -0,0 +1,129 @@
+import { faSitemap } from "@fortawesome/free-solid-svg-icons/faSitemap";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useCallback, useRef } from "react";
+import Button from "react-bootstrap/Button";
+import { Link } from "react-router-dom";
+import styled from "styled-components";
+import { indexedById } from "../../lib/listUtils";
+import { metaProgress, metasForPuzzle } from "../../lib/metas";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import { computeSolvedness } from "../../lib/solvedness";
+import PuzzleAnswer from "./PuzzleAnswer";
+import type { PuzzleFeedersModalHandle } from "./PuzzleFeedersModal";
+import PuzzleFeedersModal from "./PuzzleFeedersModal";
+
+const MetaStructureDiv = styled.div`
+  display: flex;
+  flex-direction: column;
+  width: 100%;
+`;
+
+const MetaStructureLine = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0 8px;
+`;
+
+const MetaStructureLabel = styled.span`
+  font-weight: bold;
+`;
+
+const FeederEntry = styled.span<{ $solved: boolean }>`
+  padding: 0 4px;
+  border-radius: 4px;
+  background-color: ${({ $solved, theme }) =>
+    $solved ? theme.colors.solvedness.solved : "transparent"};
+`;
+
+const FeederLink = ({ puzzle }: { puzzle: PuzzleType }) => {
+  const solved = computeSolvedness(puzzle) === "solved";
+  return (
+    <FeederEntry $solved={solved}>
+      <Link to={`/hunts/${puzzle.hunt}/puzzles/${puzzle._id}`}>
+        {puzzle.title}
+      </Link>
+      {puzzle.answers.length > 0 ? (
+        <>
+          {": "}
+          <PuzzleAnswer answer={puzzle.answers.join(", ")} />
+        </>
+      ) : null}
+    </FeederEntry>
+  );
+};
+
+// Shows which puzzles feed into this one (if it's a meta) and which metas it
+// feeds into.
+const PuzzleMetaStructure = ({
+  puzzle,
+  allPuzzles,
+  canUpdate,
+}: {
+  puzzle: PuzzleType;
+  // All puzzles in the hunt
+  allPuzzles: PuzzleType[];
+  canUpdate: boolean;
+}) => {
+  const modalRef = useRef<PuzzleFeedersModalHandle>(null);
+  const showModal = useCallback(() => {
+    modalRef.current?.show();
+  }, []);
+
+  const puzzlesById = indexedById(allPuzzles);
+  const progress = puzzle.feeders
+    ? metaProgress(puzzle, puzzlesById)
+    : undefined;
+  const metas = metasForPuzzle(puzzle._id, allPuzzles).map((meta) =>
+    metaProgress(meta, puzzlesById),
+  );
+
+  if (!progress && metas.length === 0 && !canUpdate) {
+    return null;
+  }
+
+  return (
+    <MetaStructureDiv>
+      {canUpdate ? (
+        <PuzzleFeedersModal
+          ref={modalRef}
+          puzzle={puzzle}
+          allPuzzles={allPuzzles}
+        />
+      ) : null}
+      {progress ? (
+        <MetaStructureLine>
+          <MetaStructureLabel>
+            Feeders ({progress.solvedFeeders.length}/{progress.feeders.length}{" "}
+            solved):
+          </MetaStructureLabel>
+          {progress.feeders.length > 0
+            ? progress.feeders.map((feeder) => (
+                <FeederLink key={feeder._id} puzzle={feeder} />
+              ))
+            : "none known yet"}
+        </MetaStructureLine>
+      ) : null}
+      {metas.length > 0 ? (
+        <MetaStructureLine>
+          <MetaStructureLabel>Feeds into:</MetaStructureLabel>
+          {metas.map(({ meta, feeders, solvedFeeders }) => (
+            <span key={meta._id}>
+              <FeederLink puzzle={meta} /> ({solvedFeeders.length}/
+              {feeders.length} feeders solved)
+            </span>
+          ))}
+        </MetaStructureLine>
+      ) : null}
+      {canUpdate ? (
+        <MetaStructureLine>
+          <Button variant="link" size="sm" onClick={showModal}>
+            <FontAwesomeIcon icon={faSitemap} /> Edit meta structure
+          </Button>
+        </MetaStructureLine>
+      ) : null}
+    </MetaStructureDiv>
+  );
+};
+
+export default PuzzleMetaStructure;
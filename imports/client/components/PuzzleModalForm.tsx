@@ -325,7 +325,7 @@ const PuzzleModalForm = React.forwardRef(
                 },
               ]}
               initialValue={docType}
-              help="This can't be changed once a puzzle has been created. Unless you're absolutely sure, use a spreadsheet. We only expect to use documents for administrivia."
+              help="This can't be changed once a puzzle has been created, though more documents of any type can be added from the puzzle page. Unless you're absolutely sure, use a spreadsheet. We only expect to use documents for administrivia."
               onChange={onDocTypeChange}
             />
           </Col>
@@ -12,8 +12,11 @@ import { faEdit } from "@fortawesome/free-solid-svg-icons/faEdit";
 import { faImage } from "@fortawesome/free-solid-svg-icons/faImage";
 import { faKey } from "@fortawesome/free-solid-svg-icons/faKey";
 import { faPaperPlane } from "@fortawesome/free-solid-svg-icons/faPaperPlane";
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
 import { faPuzzlePiece } from "@fortawesome/free-solid-svg-icons/faPuzzlePiece";
+import { faReply } from "@fortawesome/free-solid-svg-icons/faReply";
 import { faTimes } from "@fortawesome/free-solid-svg-icons/faTimes";
+import { faTrashAlt } from "@fortawesome/free-solid-svg-icons/faTrashAlt";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import type { ComponentPropsWithRef, FC } from "react";
 import React, {
@@ -41,34 +44,45 @@ import OverlayTrigger from "react-bootstrap/OverlayTrigger";
 import Row from "react-bootstrap/Row";
 import Tooltip from "react-bootstrap/Tooltip";
 import { createPortal } from "react-dom";
-import { Link, useParams } from "react-router-dom";
+import { Link, Navigate, useParams, useSearchParams } from "react-router-dom";
 import type { Descendant } from "slate";
 import styled, { css } from "styled-components";
+import { findDuplicateGuess } from "../../lib/answerNormalization";
 import {
   calendarTimeFormat,
   shortCalendarTimeFormat,
 } from "../../lib/calendarTimeFormat";
 import { messageDingsUser } from "../../lib/dingwordLogic";
+import { mentionableRolesForHunt } from "../../lib/huntRoles";
 import { indexedById, sortedBy } from "../../lib/listUtils";
 import Bookmarks from "../../lib/models/Bookmarks";
-import type { ChatMessageType } from "../../lib/models/ChatMessages";
+import type {
+  ChatMessageContentType,
+  ChatMessageType,
+} from "../../lib/models/ChatMessages";
 import ChatMessages from "../../lib/models/ChatMessages";
 import type { DocumentType } from "../../lib/models/Documents";
 import Documents from "../../lib/models/Documents";
 import type { GuessType } from "../../lib/models/Guesses";
 import Guesses from "../../lib/models/Guesses";
+import type { HuntGroupType } from "../../lib/models/HuntGroups";
+import HuntGroups from "../../lib/models/HuntGroups";
+import type { HuntType } from "../../lib/models/Hunts";
 import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
 import type { TagType } from "../../lib/models/Tags";
 import Tags from "../../lib/models/Tags";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
 import nodeIsImage from "../../lib/nodeIsImage";
 import nodeIsMention from "../../lib/nodeIsMention";
 import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
 import nodeIsText from "../../lib/nodeIsText";
 import {
   listAllRolesForHunt,
+  userMaySendChatMessagesForHunt,
+  userMaySubmitGuessesForHunt,
   userMayWritePuzzlesForHunt,
 } from "../../lib/permission_stubs";
 import chatMessagesForPuzzle from "../../lib/publications/chatMessagesForPuzzle";
@@ -78,11 +92,13 @@ import addPuzzleAnswer from "../../methods/addPuzzleAnswer";
 import addPuzzleTag from "../../methods/addPuzzleTag";
 import createChatImageUpload from "../../methods/createChatImageUpload";
 import createGuess from "../../methods/createGuess";
+import deleteChatMessage from "../../methods/deleteChatMessage";
 import ensurePuzzleDocument from "../../methods/ensurePuzzleDocument";
 import removePuzzleAnswer from "../../methods/removePuzzleAnswer";
 import removePuzzleTag from "../../methods/removePuzzleTag";
 import sendChatMessage from "../../methods/sendChatMessage";
 import undestroyPuzzle from "../../methods/undestroyPuzzle";
+import updateChatMessage from "../../methods/updateChatMessage";
 import updatePuzzle from "../../methods/updatePuzzle";
 import EnabledChatImage from "../EnabledChatImage";
 import { useBreadcrumb } from "../hooks/breadcrumb";
@@ -94,13 +110,22 @@ import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
 import useTypedSubscribe from "../hooks/useTypedSubscribe";
 import indexedDisplayNames from "../indexedDisplayNames";
 import { trace } from "../tracing";
+import type { AddPuzzleDocumentModalHandle } from "./AddPuzzleDocumentModal";
+import AddPuzzleDocumentModal from "./AddPuzzleDocumentModal";
 import BookmarkButton from "./BookmarkButton";
 import ChatMessage from "./ChatMessage";
+import ChatMessageReactions, {
+  ChatReactionPicker,
+} from "./ChatMessageReactions";
 import ChatPeople from "./ChatPeople";
 import CopyToClipboardButton from "./CopyToClipboardButton";
-import DocumentDisplay, { DocumentMessage } from "./DocumentDisplay";
+import DocumentDisplay, {
+  DocumentMessage,
+  documentLabel,
+} from "./DocumentDisplay";
 import type { FancyEditorHandle, MessageElement } from "./FancyEditor";
 import FancyEditor from "./FancyEditor";
+import GuessBudgetNotice from "./GuessBudgetNotice";
 import GuessState from "./GuessState";
 import {
   formatConfidence,
@@ -114,8 +139,11 @@ import MinimizedChatInfo from "./MinimizedChatInfo";
 import type { ModalFormHandle } from "./ModalForm";
 import ModalForm from "./ModalForm";
 import PuzzleAnswer from "./PuzzleAnswer";
+import PuzzleAssignees from "./PuzzleAssignees";
+import PuzzleMetaStructure from "./PuzzleMetaStructure";
 import type { PuzzleModalFormSubmitPayload } from "./PuzzleModalForm";
 import PuzzleModalForm from "./PuzzleModalForm";
+import PuzzleStatusControl from "./PuzzleStatusControl";
 import SplitPaneMinus from "./SplitPaneMinus";
 import Breakable from "./styling/Breakable";
 import { MonospaceFontFamily } from "./styling/constants";
@@ -134,9 +162,19 @@ type FilteredChatFields =
   | "puzzle"
   | "content"
   | "sender"
-  | "timestamp";
+  | "timestamp"
+  | "parent"
+  | "editedAt"
+  | "history"
+  | "reactions";
 type FilteredChatMessageType = Pick<ChatMessageType, FilteredChatFields>;
 
+// A message the user is replying to or editing in the chat input
+type ChatComposeTarget = {
+  mode: "reply" | "edit";
+  message: FilteredChatMessageType;
+};
+
 // It doesn't need to be, but this is consistent with the 576px transition used in other pages' css
 const MinimumSidebarWidth = 176;
 const MinimumDocumentWidth = 400;
@@ -202,10 +240,17 @@ const PUZZLE_PAGE_PADDING = 8;
 const ChatMessageDiv = styled.div<{
   $isSystemMessage: boolean;
   $isHighlighted: boolean;
+  $isTarget?: boolean;
 }>`
+  position: relative;
   padding: 0 ${PUZZLE_PAGE_PADDING}px 2px;
   overflow-wrap: break-word;
   font-size: 14px;
+  ${({ $isTarget }) =>
+    $isTarget &&
+    css`
+      box-shadow: inset 3px 0 0 ${({ theme }) => theme.colors.primary};
+    `}
   ${({ $isSystemMessage, $isHighlighted }) =>
     $isHighlighted &&
     !$isSystemMessage &&
@@ -237,6 +282,59 @@ const ChatMessageTimestamp = styled.span`
   color: #666;
 `;
 
+const ChatMessageActions = styled.div<{ $visible: boolean }>`
+  position: absolute;
+  top: 0;
+  right: ${PUZZLE_PAGE_PADDING}px;
+  display: ${({ $visible }) => ($visible ? "flex" : "none")};
+  border-radius: 4px;
+  background-color: ${({ theme }) => theme.colors.hoverChatMessageBackground};
+
+  ${ChatMessageDiv}:hover &,
+  ${ChatMessageDiv}:focus-within & {
+    display: flex;
+  }
+
+  button {
+    padding: 0 4px;
+    font-size: 12px;
+  }
+`;
+
+const ChatReplyQuote = styled.button`
+  display: block;
+  max-width: 100%;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  padding: 0 0 0 4px;
+  border: none;
+  border-left: 2px solid ${({ theme }) => theme.colors.border};
+  background: none;
+  color: inherit;
+  font-size: 12px;
+  text-align: left;
+`;
+
+const ChatMessageEditedMarker = styled.span`
+  font-size: 12px;
+`;
+
+const ChatComposeBanner = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  margin-bottom: 4px;
+  font-size: 12px;
+
+  span {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`;
+
 const ChatSectionDiv = styled.div`
   flex: 1 1 auto;
   display: flex;
@@ -352,46 +450,224 @@ const AnswerFormControl = styled(FormControl)`
   font-weight: 400;
 `;
 
+function chatSenderName(
+  sender: string | undefined,
+  displayNames: Map<string, string>,
+) {
+  return sender !== undefined
+    ? (displayNames.get(sender) ?? "???")
+    : "jolly-roger";
+}
+
+// A one-line plain text rendering of a message, for quoting it in replies
+function chatMessageSnippet(
+  content: ChatMessageContentType,
+  displayNames: Map<string, string>,
+  groups: HuntGroupType[],
+) {
+  return content.children
+    .map((child) => {
+      if (nodeIsMention(child)) {
+        return `@${displayNames.get(child.userId) ?? child.userId}`;
+      } else if (nodeIsRoleMention(child)) {
+        return `@${child.roleId}`;
+      } else if (nodeIsGroupMention(child)) {
+        const group = groups.find((g) => g._id === child.groupId);
+        return `@${group?.name ?? "group"}`;
+      } else if (nodeIsImage(child)) {
+        return "[image]";
+      } else {
+        return child.text;
+      }
+    })
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Converts a sent message back into editor content so it can be edited.
+// Inline elements need text nodes on either side of them.
+function editorContentFromMessage(
+  content: ChatMessageContentType,
+): Descendant[] {
+  const children: MessageElement["children"] = [{ text: "" }];
+  content.children.forEach((child) => {
+    if (nodeIsText(child)) {
+      const last = children[children.length - 1]!;
+      if (nodeIsText(last)) {
+        children[children.length - 1] = { text: last.text + child.text };
+        return;
+      }
+      children.push({ text: child.text });
+      return;
+    }
+
+    if (
+      nodeIsMention(child) ||
+      nodeIsRoleMention(child) ||
+      nodeIsGroupMention(child)
+    ) {
+      children.push({ ...child, children: [{ text: "" }] });
+    } else if (nodeIsImage(child)) {
+      children.push({
+        ...child,
+        tempId: Random.id(),
+        status: "success",
+        children: [{ text: "" }],
+      });
+    }
+    children.push({ text: "" });
+  });
+  return [{ type: "message", children }];
+}
+
 const ChatHistoryMessage = React.memo(
   ({
     message,
+    parent,
     displayNames,
     isSystemMessage,
     isHighlighted,
+    isTarget,
     suppressSender,
     selfUserId,
     roles,
+    groups,
     imageOnLoad,
+    onReply,
+    onEdit,
+    onDelete,
+    onShowParent,
   }: {
     message: FilteredChatMessageType;
+    // The message this is a reply to, if it's still around
+    parent: FilteredChatMessageType | undefined;
     displayNames: Map<string, string>;
     isSystemMessage: boolean;
     isHighlighted: boolean;
+    // Whether this is the message we were linked to (e.g. from search)
+    isTarget: boolean;
     suppressSender: boolean;
     selfUserId: string;
     roles: string[];
+    groups: HuntGroupType[];
     imageOnLoad: () => void;
+    onReply: (message: FilteredChatMessageType) => void;
+    onEdit: (message: FilteredChatMessageType) => void;
+    onDelete: (message: FilteredChatMessageType) => void;
+    onShowParent: (parentId: string) => void;
   }) => {
     const ts = shortCalendarTimeFormat(message.timestamp);
 
-    const senderDisplayName =
-      message.sender !== undefined
-        ? (displayNames.get(message.sender) ?? "???")
-        : "jolly-roger";
+    const senderDisplayName = chatSenderName(message.sender, displayNames);
+    const isOwnMessage = message.sender === selfUserId;
+    // Keep the actions visible while the reaction picker is open, even if the
+    // mouse has moved away
+    const [pickingReaction, setPickingReaction] = useState(false);
+
+    let replyQuote;
+    if (message.parent) {
+      replyQuote = parent ? (
+        <ChatReplyQuote
+          className="text-muted"
+          onClick={() => onShowParent(parent._id)}
+        >
+          <strong>{chatSenderName(parent.sender, displayNames)}:</strong>{" "}
+          {chatMessageSnippet(parent.content, displayNames, groups)}
+        </ChatReplyQuote>
+      ) : (
+        <ChatReplyQuote as="div" className="text-muted">
+          <em>Replying to a deleted message</em>
+        </ChatReplyQuote>
+      );
+    }
+
+    let editedMarker;
+    if (message.editedAt) {
+      editedMarker = (
+        <ChatMessageEditedMarker className="text-muted">
+          {" "}
+          (edited)
+        </ChatMessageEditedMarker>
+      );
+      // Edit history is only published to operators
+      if (message.history && message.history.length > 0) {
+        const tooltip = (
+          <Tooltip id={`chat-message-history-${message._id}`}>
+            {message.history.map((version) => (
+              <div key={version.timestamp.getTime()}>
+                {shortCalendarTimeFormat(version.timestamp)}:{" "}
+                {chatMessageSnippet(version.content, displayNames, groups)}
+              </div>
+            ))}
+          </Tooltip>
+        );
+        editedMarker = (
+          <OverlayTrigger placement="top" overlay={tooltip}>
+            {editedMarker}
+          </OverlayTrigger>
+        );
+      }
+    }
+
     return (
       <ChatMessageDiv
+        data-message-id={message._id}
         $isSystemMessage={isSystemMessage}
         $isHighlighted={isHighlighted && !isSystemMessage}
+        $isTarget={isTarget}
       >
+        {!isSystemMessage && (
+          <ChatMessageActions $visible={pickingReaction}>
+            <ChatReactionPicker
+              chatMessageId={message._id}
+              onToggle={setPickingReaction}
+            />
+            <Button
+              variant="link"
+              title="Reply"
+              onClick={() => onReply(message)}
+            >
+              <FontAwesomeIcon icon={faReply} />
+            </Button>
+            {isOwnMessage && (
+              <>
+                <Button
+                  variant="link"
+                  title="Edit"
+                  onClick={() => onEdit(message)}
+                >
+                  <FontAwesomeIcon icon={faEdit} />
+                </Button>
+                <Button
+                  variant="link"
+                  title="Delete"
+                  onClick={() => onDelete(message)}
+                >
+                  <FontAwesomeIcon icon={faTrashAlt} />
+                </Button>
+              </>
+            )}
+          </ChatMessageActions>
+        )}
         {!suppressSender && <ChatMessageTimestamp>{ts}</ChatMessageTimestamp>}
         {!suppressSender && <strong>{senderDisplayName}</strong>}
+        {replyQuote}
         <ChatMessage
           message={message.content}
           displayNames={displayNames}
           selfUserId={selfUserId}
           roles={roles}
+          groups={groups}
           imageOnLoad={imageOnLoad}
         />
+        {editedMarker}
+        <ChatMessageReactions
+          chatMessageId={message._id}
+          reactions={message.reactions}
+          displayNames={displayNames}
+          selfUserId={selfUserId}
+        />
       </ChatMessageDiv>
     );
   },
@@ -410,11 +686,15 @@ const ChatHistory = React.forwardRef(
       puzzleId,
       displayNames,
       selfUser,
+      onReply,
+      onEdit,
     }: {
       huntId: string;
       puzzleId: string;
       displayNames: Map<string, string>;
       selfUser: Meteor.User;
+      onReply: (message: FilteredChatMessageType) => void;
+      onEdit: (message: FilteredChatMessageType) => void;
     },
     forwardedRef: React.Ref<ChatHistoryHandle>,
   ) => {
@@ -544,14 +824,99 @@ const ChatHistory = React.forwardRef(
       scrollChat();
     }, [scrollChat]);
 
+    // Links (e.g. from search results) can point at a particular message with
+    // ?message=<id>. Once that message has loaded, scroll it into view (once)
+    // and leave the scroll position there.
+    const [searchParams] = useSearchParams();
+    const targetMessageId = searchParams.get("message") ?? undefined;
+    const scrolledToMessageId = useRef<string>(undefined);
+    // biome-ignore lint/correctness/useExhaustiveDependencies(chatMessages): We need to look for the target again whenever new messages are rendered
+    useEffect(() => {
+      if (
+        !targetMessageId ||
+        scrolledToMessageId.current === targetMessageId ||
+        !ref.current
+      ) {
+        return;
+      }
+
+      const target = ref.current.querySelector(
+        `[data-message-id="${CSS.escape(targetMessageId)}"]`,
+      );
+      if (target) {
+        scrolledToMessageId.current = targetMessageId;
+        target.scrollIntoView({ block: "center" });
+        saveScrollBottomTarget();
+      }
+    }, [targetMessageId, chatMessages, saveScrollBottomTarget]);
+
     const roles = useMemo(
       () => listAllRolesForHunt(selfUser, { _id: huntId }),
       [selfUser, huntId],
     );
+    const groups = useTracker(
+      () => HuntGroups.find({ hunt: huntId }).fetch(),
+      [huntId],
+    );
+    const selfGroupIds = useMemo(
+      () =>
+        groups
+          .filter((group) => group.members.includes(selfUser._id))
+          .map((group) => group._id),
+      [groups, selfUser._id],
+    );
+
+    const messagesById = useMemo(
+      () => indexedById(chatMessages),
+      [chatMessages],
+    );
+
+    const onShowParent = useCallback(
+      (parentId: string) => {
+        ref.current
+          ?.querySelector(`[data-message-id="${CSS.escape(parentId)}"]`)
+          ?.scrollIntoView({ block: "center" });
+        saveScrollBottomTarget();
+      },
+      [saveScrollBottomTarget],
+    );
+
+    const deleteModalRef = useRef<ModalFormHandle>(null);
+    const [deleteTarget, setDeleteTarget] = useState<string>();
+    const [deleteError, setDeleteError] = useState<string>();
+    const onDelete = useCallback((message: FilteredChatMessageType) => {
+      setDeleteTarget(message._id);
+      setDeleteError(undefined);
+      deleteModalRef.current?.show();
+    }, []);
+    const onDeleteSubmit = useCallback(
+      (callback: () => void) => {
+        if (!deleteTarget) return;
+        deleteChatMessage.call({ chatMessageId: deleteTarget }, (err) => {
+          if (err) {
+            setDeleteError(err.message);
+          } else {
+            callback();
+          }
+        });
+      },
+      [deleteTarget],
+    );
 
     trace("ChatHistory render", { messageCount: chatMessages.length });
     return (
       <ChatHistoryDiv ref={ref} onScroll={onScrollObserved}>
+        <ModalForm
+          ref={deleteModalRef}
+          title="Delete message"
+          submitLabel="Delete"
+          submitStyle="danger"
+          onSubmit={onDeleteSubmit}
+        >
+          {deleteError ? <Alert variant="danger">{deleteError}</Alert> : null}
+          Are you sure you want to delete this message? This can&apos;t be
+          undone.
+        </ModalForm>
         {chatMessages.length === 0 ? (
           <ChatMessageDiv
             key="no-message"
@@ -571,18 +936,25 @@ const ChatHistory = React.forwardRef(
             !!lastMessage &&
             lastMessage.sender === msg.sender &&
             lastMessage.timestamp.getTime() + 60000 > msg.timestamp.getTime();
-          const isHighlighted = messageDingsUser(msg, selfUser);
+          const isHighlighted = messageDingsUser(msg, selfUser, selfGroupIds);
           return (
             <ChatHistoryMessage
               key={msg._id}
               message={msg}
+              parent={msg.parent ? messagesById.get(msg.parent) : undefined}
               displayNames={displayNames}
               isSystemMessage={msg.sender === undefined}
               isHighlighted={isHighlighted}
+              isTarget={msg._id === targetMessageId}
               suppressSender={suppressSender}
               selfUserId={selfUser._id}
               roles={roles}
+              groups={groups}
               imageOnLoad={scrollChat}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onShowParent={onShowParent}
             />
           );
         })}
@@ -626,12 +998,19 @@ const ChatInput = React.memo(
     huntId,
     puzzleId,
     disabled,
+    compose,
+    displayNames,
+    onCancelCompose,
   }: {
     onHeightChange: () => void;
     onMessageSent: () => void;
     huntId: string;
     puzzleId: string;
     disabled: boolean;
+    // The message being replied to or edited, if any
+    compose: ChatComposeTarget | undefined;
+    displayNames: Map<string, string>;
+    onCancelCompose: () => void;
   }) => {
     // We want to have hunt profile data around so we can autocomplete from multiple fields.
     const profilesLoadingFunc = useSubscribe("huntProfiles", huntId);
@@ -649,6 +1028,20 @@ const ChatInput = React.memo(
             displayName: { $ne: undefined }, // no point completing a user with an unset displayName
           }).fetch();
     }, [huntId, profilesLoading]);
+    const groups = useTracker(
+      () => HuntGroups.find({ hunt: huntId }, { sort: { name: 1 } }).fetch(),
+      [huntId],
+    );
+    const { roles, canSendChatMessages } = useTracker(() => {
+      const hunt = Hunts.findOne(huntId);
+      return {
+        roles: mentionableRolesForHunt(hunt),
+        canSendChatMessages: userMaySendChatMessagesForHunt(
+          Meteor.user(),
+          hunt,
+        ),
+      };
+    }, [huntId]);
 
     const onHeightChangeCb = useCallback(
       (newHeight: number) => {
@@ -665,6 +1058,20 @@ const ChatInput = React.memo(
     }, []);
 
     const [content, setContent] = useState<Descendant[]>(initialValue);
+    // When we start (or stop) editing a message, swap its content into the
+    // editor. The editor only reads its initial content on mount, so it's
+    // keyed on the message being edited.
+    const editingMessage =
+      compose?.mode === "edit" ? compose.message : undefined;
+    const [editorKey, setEditorKey] = useState<string>();
+    if (editingMessage?._id !== editorKey) {
+      setEditorKey(editingMessage?._id);
+      setContent(
+        editingMessage
+          ? editorContentFromMessage(editingMessage.content)
+          : initialValue,
+      );
+    }
     const fancyEditorRef = useRef<FancyEditorHandle | null>(null);
     const onContentChange = useCallback(
       (newContent: Descendant[]) => {
@@ -681,6 +1088,7 @@ const ChatInput = React.memo(
             nodeIsImage(child) ||
             nodeIsMention(child) ||
             nodeIsRoleMention(child) ||
+            nodeIsGroupMention(child) ||
             (nodeIsText(child) && child.text.trim().length > 0)
           );
         })
@@ -710,7 +1118,11 @@ const ChatInput = React.memo(
           type,
           children: children
             .filter((child) => {
-              if (nodeIsMention(child) || nodeIsRoleMention(child)) {
+              if (
+                nodeIsMention(child) ||
+                nodeIsRoleMention(child) ||
+                nodeIsGroupMention(child)
+              ) {
                 return true;
               }
               if (nodeIsImage(child) && child.status !== "success") {
@@ -732,6 +1144,11 @@ const ChatInput = React.memo(
                   type: child.type,
                   roleId: child.roleId,
                 };
+              } else if (nodeIsGroupMention(child)) {
+                return {
+                  type: child.type,
+                  groupId: child.groupId,
+                };
               } else if (nodeIsImage(child)) {
                 return {
                   type: child.type,
@@ -743,10 +1160,21 @@ const ChatInput = React.memo(
             }),
         };
 
+        if (editingMessage) {
+          // Save the edit, then go back to composing a new message
+          updateChatMessage.call({
+            chatMessageId: editingMessage._id,
+            content: JSON.stringify(cleanedMessage),
+          });
+          onCancelCompose();
+          return true;
+        }
+
         // Send chat message.
         sendChatMessage.call({
           puzzleId,
           content: JSON.stringify(cleanedMessage),
+          parent: compose?.mode === "reply" ? compose.message._id : undefined,
         });
         setContent(initialValue);
         fancyEditorRef.current?.clearInput();
@@ -761,7 +1189,10 @@ const ChatInput = React.memo(
       hasLoadingImage,
       content,
       puzzleId,
+      compose,
+      editingMessage,
       onMessageSent,
+      onCancelCompose,
     ]);
 
     useBlockUpdate(
@@ -855,23 +1286,68 @@ const ChatInput = React.memo(
     return (
       <ChatInputRow>
         {uploadImageError && createPortal(errorModal, document.body)}
+        {compose && (
+          <ChatComposeBanner className="text-muted">
+            <FontAwesomeIcon
+              icon={compose.mode === "edit" ? faEdit : faReply}
+            />
+            <span>
+              {compose.mode === "edit" ? (
+                "Editing message"
+              ) : (
+                <>
+                  Replying to{" "}
+                  <strong>
+                    {chatSenderName(compose.message.sender, displayNames)}
+                  </strong>
+                  :{" "}
+                  {chatMessageSnippet(
+                    compose.message.content,
+                    displayNames,
+                    groups,
+                  )}
+                </>
+              )}
+            </span>
+            <Button
+              variant="link"
+              size="sm"
+              title="Cancel"
+              onClick={onCancelCompose}
+            >
+              <FontAwesomeIcon icon={faTimes} />
+            </Button>
+          </ChatComposeBanner>
+        )}
         <InputGroup>
           <StyledFancyEditor
+            key={editorKey ?? "compose"}
             ref={fancyEditorRef}
             className="form-control"
             initialContent={content}
-            placeholder="Chat"
+            placeholder={
+              canSendChatMessages
+                ? "Chat"
+                : "You can't send chat messages in this hunt"
+            }
             users={users}
+            groups={groups}
+            roles={roles}
             onContentChange={onContentChange}
             onSubmit={sendContentMessage}
             uploadImageFile={uploadImageFile}
-            disabled={disabled}
+            disabled={disabled || !canSendChatMessages}
           />
           <Button
             variant="secondary"
             onClick={sendContentMessage}
             onMouseDown={preventDefaultCallback}
-            disabled={disabled || !hasNonTrivialContent || hasLoadingImage}
+            disabled={
+              disabled ||
+              !canSendChatMessages ||
+              !hasNonTrivialContent ||
+              hasLoadingImage
+            }
           >
             <FontAwesomeIcon icon={faPaperPlane} />
           </Button>
@@ -944,8 +1420,20 @@ const ChatSection = React.forwardRef(
       }
     }, []);
 
+    const [compose, setCompose] = useState<ChatComposeTarget>();
+    const onReply = useCallback((message: FilteredChatMessageType) => {
+      setCompose({ mode: "reply", message });
+    }, []);
+    const onEdit = useCallback((message: FilteredChatMessageType) => {
+      setCompose({ mode: "edit", message });
+    }, []);
+    const onCancelCompose = useCallback(() => {
+      setCompose(undefined);
+    }, []);
+
     const onMessageSent = useCallback(() => {
       trace("ChatSection onMessageSent", { hasRef: !!historyRef.current });
+      setCompose(undefined);
       if (historyRef.current) {
         historyRef.current.snapToBottom();
       }
@@ -989,6 +1477,8 @@ const ChatSection = React.forwardRef(
           displayNames={displayNames}
           selfUser={selfUser}
           huntId={huntId}
+          onReply={onReply}
+          onEdit={onEdit}
         />
         <ChatInput
           huntId={huntId}
@@ -996,6 +1486,9 @@ const ChatSection = React.forwardRef(
           disabled={disabled}
           onHeightChange={scrollHistoryToTarget}
           onMessageSent={onMessageSent}
+          compose={compose}
+          displayNames={displayNames}
+          onCancelCompose={onCancelCompose}
         />
       </ChatSectionDiv>
     );
@@ -1007,6 +1500,7 @@ const PuzzlePageMetadata = ({
   puzzle,
   bookmarked,
   displayNames,
+  documents,
   document,
   isDesktop,
   selfUser,
@@ -1015,6 +1509,8 @@ const PuzzlePageMetadata = ({
   puzzle: PuzzleType;
   bookmarked: boolean;
   displayNames: Map<string, string>;
+  documents: DocumentType[];
+  // The document currently being shown
   document?: DocumentType;
   isDesktop: boolean;
   selfUser: Meteor.User;
@@ -1030,6 +1526,10 @@ const PuzzlePageMetadata = ({
     () => userMayWritePuzzlesForHunt(Meteor.user(), hunt),
     [hunt],
   );
+  const canSubmitGuesses = useTracker(
+    () => userMaySubmitGuessesForHunt(Meteor.user(), hunt),
+    [hunt],
+  );
 
   const allPuzzles = useTracker(
     () => Puzzles.find({ hunt: huntId }).fetch(),
@@ -1141,10 +1641,16 @@ const PuzzlePageMetadata = ({
       <InsertImage documentId={document._id} />
     );
 
-  const documentLink =
-    document && !isDesktop ? (
-      <DocumentDisplay document={document} displayMode="link" user={selfUser} />
-    ) : null;
+  const documentLink = !isDesktop
+    ? documents.map((d) => (
+        <DocumentDisplay
+          key={d._id}
+          document={d}
+          displayMode="link"
+          user={selfUser}
+        />
+      ))
+    : null;
 
   const editButton = canUpdate ? (
     <Button
@@ -1158,7 +1664,7 @@ const PuzzlePageMetadata = ({
   ) : null;
 
   let guessButton = null;
-  if (puzzle.expectedAnswerCount > 0) {
+  if (puzzle.expectedAnswerCount > 0 && canSubmitGuesses) {
     guessButton = hasGuessQueue ? (
       <>
         <Button variant="primary" size="sm" onClick={showGuessModal}>
@@ -1170,6 +1676,7 @@ const PuzzlePageMetadata = ({
         </Button>
         <PuzzleGuessModal
           ref={guessModalRef}
+          hunt={hunt}
           puzzle={puzzle}
           guesses={guesses}
           displayNames={displayNames}
@@ -1230,6 +1737,28 @@ const PuzzlePageMetadata = ({
         </PuzzleMetadataButtons>
       </PuzzleMetadataActionRow>
       <PuzzleMetadataRow>{answersElement}</PuzzleMetadataRow>
+      {computeSolvedness(puzzle) !== "solved" ? (
+        <>
+          <PuzzleMetadataRow>
+            <PuzzleStatusControl puzzle={puzzle} canUpdate={!puzzle.deleted} />
+          </PuzzleMetadataRow>
+          <PuzzleMetadataRow>
+            <PuzzleAssignees
+              puzzle={puzzle}
+              displayNames={displayNames}
+              selfUserId={selfUser._id}
+              canAssignOthers={canUpdate}
+            />
+          </PuzzleMetadataRow>
+        </>
+      ) : null}
+      <PuzzleMetadataRow>
+        <PuzzleMetaStructure
+          puzzle={puzzle}
+          allPuzzles={allPuzzles}
+          canUpdate={canUpdate}
+        />
+      </PuzzleMetadataRow>
       <PuzzleMetadataRow>
         <StyledTagList
           puzzle={puzzle}
@@ -1421,10 +1950,12 @@ type PuzzleGuessModalHandle = {
 const PuzzleGuessModal = React.forwardRef(
   (
     {
+      hunt,
       puzzle,
       guesses,
       displayNames,
     }: {
+      hunt: HuntType | undefined;
       puzzle: PuzzleType;
       guesses: GuessType[];
       displayNames: Map<string, string>;
@@ -1474,15 +2005,29 @@ const PuzzleGuessModal = React.forwardRef(
       return computeSolvedness(puzzle);
     }, [puzzle]);
 
+    const repeatGuess = useMemo(() => {
+      return guessInput
+        ? findDuplicateGuess(guessInput, guesses, hunt?.answerNormalization)
+        : undefined;
+    }, [guessInput, guesses, hunt?.answerNormalization]);
+    const rejectDuplicates = hunt?.duplicateGuessPolicy === "reject";
+
     const onSubmitGuess = useCallback(() => {
-      const strippedGuess = guessInput.replaceAll(/\s/g, "");
-      const repeatGuess = guesses.find((g) => {
-        return g.guess.replaceAll(/\s/g, "") === strippedGuess;
-      });
-      if ((repeatGuess || solvedness !== "unsolved") && !confirmingSubmit) {
-        const repeatGuessStr = repeatGuess
-          ? "This answer has already been submitted. "
-          : "";
+      if (repeatGuess && rejectDuplicates) {
+        setSubmitError(
+          `This is the same answer as the earlier guess ${repeatGuess.guess}, and this hunt does not accept duplicate guesses.`,
+        );
+        setSubmitState(PuzzleGuessSubmitState.FAILED);
+      } else if (
+        (repeatGuess || solvedness !== "unsolved") &&
+        !confirmingSubmit
+      ) {
+        let repeatGuessStr = "";
+        if (repeatGuess?.state === "incorrect") {
+          repeatGuessStr = `This is the same answer as ${repeatGuess.guess}, which was already marked incorrect. `;
+        } else if (repeatGuess) {
+          repeatGuessStr = `This is the same answer as ${repeatGuess.guess}, which has already been submitted. `;
+        }
         const solvednessStr = {
           solved: "This puzzle has already been solved. ",
           noAnswers:
@@ -1522,7 +2067,8 @@ const PuzzleGuessModal = React.forwardRef(
         );
       }
     }, [
-      guesses,
+      repeatGuess,
+      rejectDuplicates,
       puzzle._id,
       solvedness,
       guessInput,
@@ -1578,6 +2124,11 @@ const PuzzleGuessModal = React.forwardRef(
               value={guessInput}
               disabled={puzzle.deleted}
             />
+            {repeatGuess?.state === "incorrect" ? (
+              <FormText className="text-danger">
+                {repeatGuess.guess} has already been marked incorrect.
+              </FormText>
+            ) : null}
           </Col>
         </FormGroup>
 
@@ -1676,6 +2227,13 @@ const PuzzleGuessModal = React.forwardRef(
           </Col>
         </FormGroup>
 
+        {hunt?.guessRateLimit && solvedness === "unsolved" ? (
+          <GuessBudgetNotice
+            policy={hunt.guessRateLimit}
+            puzzle={puzzle}
+            puzzleGuesses={guesses}
+          />
+        ) : null}
         {guesses.length === 0 ? (
           <div>No previous submissions.</div>
         ) : (
@@ -1906,30 +2464,110 @@ const PuzzleDocumentDiv = styled.div`
   position: relative;
 `;
 
+const DocumentTabs = styled.div`
+  flex: none;
+  display: flex;
+  overflow-x: auto;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+  background-color: ${({ theme }) => theme.colors.background};
+`;
+
+const DocumentTab = styled.button<{ $active: boolean }>`
+  padding: 2px 12px;
+  border: none;
+  border-bottom: 2px solid transparent;
+  background: none;
+  color: inherit;
+  white-space: nowrap;
+
+  ${({ $active }) =>
+    $active &&
+    css`
+      border-bottom-color: ${({ theme }) => theme.colors.primary};
+      font-weight: bold;
+    `}
+`;
+
 const PuzzlePageMultiplayerDocument = React.memo(
   ({
+    puzzle,
+    documents,
     document,
     selfUser,
+    onSelectDocument,
   }: {
+    puzzle: PuzzleType;
+    documents: DocumentType[];
+    // The document currently being shown
     document?: DocumentType;
     selfUser: Meteor.User;
+    onSelectDocument: (documentId: string) => void;
   }) => {
-    let inner = (
-      <DocumentMessage>
-        Attempting to load collaborative document...
-      </DocumentMessage>
+    const documentProvider = useTracker(
+      () => Hunts.findOne(puzzle.hunt)?.documentProvider ?? "google",
+      [puzzle.hunt],
     );
-    if (document) {
-      inner = (
-        <DocumentDisplay
-          document={document}
-          displayMode="embed"
-          user={selfUser}
-        />
+    const addDocumentModalRef = useRef<AddPuzzleDocumentModalHandle>(null);
+    const showAddDocumentModal = useCallback(() => {
+      addDocumentModalRef.current?.show();
+    }, []);
+
+    if (!document) {
+      return (
+        <PuzzleDocumentDiv>
+          <DocumentMessage>
+            Attempting to load collaborative document...
+          </DocumentMessage>
+        </PuzzleDocumentDiv>
       );
     }
 
-    return <PuzzleDocumentDiv>{inner}</PuzzleDocumentDiv>;
+    // Deleted puzzles can't get new documents, and there's no need for tabs
+    // if there's nothing to switch between
+    const tabs =
+      documents.length > 1 || !puzzle.deleted ? (
+        <DocumentTabs>
+          {documents.map((d) => (
+            <DocumentTab
+              key={d._id}
+              type="button"
+              $active={d._id === document._id}
+              onClick={() => onSelectDocument(d._id)}
+            >
+              {documentLabel(d)}
+            </DocumentTab>
+          ))}
+          {!puzzle.deleted && (
+            <DocumentTab
+              type="button"
+              $active={false}
+              title="Add document"
+              onClick={showAddDocumentModal}
+            >
+              <FontAwesomeIcon icon={faPlus} />
+            </DocumentTab>
+          )}
+        </DocumentTabs>
+      ) : null;
+
+    // Keep every document loaded, since reloading an embedded document is slow
+    // and loses your place in it
+    return (
+      <>
+        <AddPuzzleDocumentModal
+          ref={addDocumentModalRef}
+          puzzleId={puzzle._id}
+          documentProvider={documentProvider}
+          onAdded={onSelectDocument}
+        />
+        {tabs}
+        {documents.map((d) => (
+          <PuzzleDocumentDiv key={d._id} hidden={d._id !== document._id}>
+            <DocumentDisplay document={d} displayMode="embed" user={selfUser} />
+          </PuzzleDocumentDiv>
+        ))}
+      </>
+    );
   },
 );
 
@@ -2087,13 +2725,19 @@ const PuzzlePage = React.memo(() => {
   }, [puzzleId, chatDataLoading]);
 
   // Sort by created at so that the "first" document always has consistent meaning
-  const document = useTracker(
+  const documents = useTracker(
     () =>
       puzzleDataLoading
-        ? undefined
-        : Documents.findOne({ puzzle: puzzleId }, { sort: { createdAt: 1 } }),
+        ? []
+        : Documents.find(
+            { puzzle: puzzleId },
+            { sort: { createdAt: 1 } },
+          ).fetch(),
     [puzzleDataLoading, puzzleId],
   );
+  const [selectedDocumentId, setSelectedDocumentId] = useState<string>();
+  const document =
+    documents.find((d) => d._id === selectedDocumentId) ?? documents[0];
 
   const activePuzzle = useTracker(
     () => Puzzles.findOneAllowingDeleted(puzzleId),
@@ -2232,10 +2876,20 @@ const PuzzlePage = React.memo(() => {
       </FixedLayout>
     );
   }
+  if (activePuzzle.deleted && activePuzzle.merged && activePuzzle.replacedBy) {
+    // Everything on a merged puzzle lives on the puzzle it was merged into
+    return (
+      <Navigate
+        to={`/hunts/${huntId}/puzzles/${activePuzzle.replacedBy}`}
+        replace
+      />
+    );
+  }
   const metadata = isMetadataMinimized ? null : (
     <PuzzlePageMetadata
       puzzle={activePuzzle}
       bookmarked={bookmarked}
+      documents={documents}
       document={document}
       displayNames={displayNames}
       isDesktop={isDesktop}
@@ -2366,8 +3020,11 @@ const PuzzlePage = React.memo(() => {
               {metadata}
               {showMetadataButton}
               <PuzzlePageMultiplayerDocument
+                puzzle={activePuzzle}
+                documents={documents}
                 document={document}
                 selfUser={selfUser}
+                onSelectDocument={setSelectedDocumentId}
               />
               {debugPane}
             </PuzzleContent>
@@ -0,0 +1,35 @@
+import Badge from "react-bootstrap/Badge";
+import type { PuzzleStatusType } from "../../lib/models/Puzzles";
+import { puzzleStatusLabels } from "../../lib/puzzleStatus";
+
+const statusVariants: Record<PuzzleStatusType, string> = {
+  new: "secondary",
+  inProgress: "info",
+  needsEyes: "warning",
+  stuck: "danger",
+  needsExtraction: "primary",
+  backsolving: "dark",
+};
+
+const PuzzleStatusBadge = ({
+  status,
+  note,
+  className,
+}: {
+  status: PuzzleStatusType | undefined;
+  note?: string;
+  className?: string;
+}) => {
+  const effectiveStatus = status ?? "new";
+  return (
+    <Badge
+      bg={statusVariants[effectiveStatus]}
+      title={note}
+      className={className}
+    >
+      {puzzleStatusLabels[effectiveStatus]}
+    </Badge>
+  );
+};
+
+export default PuzzleStatusBadge;
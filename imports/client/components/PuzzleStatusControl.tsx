@@ -0,0 +1,162 @@
+import { faPen } from "@fortawesome/free-solid-svg-icons/faPen";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type { ChangeEvent } from "react";
+import { useCallback, useId, useRef, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Col from "react-bootstrap/Col";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormSelect from "react-bootstrap/FormSelect";
+import FormText from "react-bootstrap/FormText";
+import Row from "react-bootstrap/Row";
+import styled from "styled-components";
+import type { PuzzleStatusType, PuzzleType } from "../../lib/models/Puzzles";
+import { PuzzleStatuses } from "../../lib/models/Puzzles";
+import {
+  PUZZLE_STATUS_NOTE_MAX_LENGTH,
+  puzzleStatusLabels,
+} from "../../lib/puzzleStatus";
+import setPuzzleStatus from "../../methods/setPuzzleStatus";
+import type { ModalFormHandle } from "./ModalForm";
+import ModalForm from "./ModalForm";
+import PuzzleStatusBadge from "./PuzzleStatusBadge";
+
+const StatusLine = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0 8px;
+`;
+
+const StatusLabel = styled.span`
+  font-weight: bold;
+`;
+
+const StatusNote = styled.span`
+  font-style: italic;
+`;
+
+// Shows the puzzle's working status and note, with a modal for changing them.
+const PuzzleStatusControl = ({
+  puzzle,
+  canUpdate,
+}: {
+  puzzle: PuzzleType;
+  canUpdate: boolean;
+}) => {
+  const formRef = useRef<ModalFormHandle>(null);
+  const [status, setStatus] = useState<PuzzleStatusType>("new");
+  const [note, setNote] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const showModal = useCallback(() => {
+    // Start from the puzzle's current state each time the modal is opened
+    setStatus(puzzle.status ?? "new");
+    setNote(puzzle.statusNote ?? "");
+    setError(undefined);
+    formRef.current?.show();
+  }, [puzzle.status, puzzle.statusNote]);
+
+  const onStatusChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    setStatus(e.currentTarget.value as PuzzleStatusType);
+  }, []);
+
+  const onNoteChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setNote(e.currentTarget.value);
+  }, []);
+
+  const onSubmit = useCallback(
+    (callback: () => void) => {
+      setSubmitting(true);
+      setPuzzleStatus.call(
+        { puzzleId: puzzle._id, status, note: note.trim() || undefined },
+        (err) => {
+          setSubmitting(false);
+          if (err) {
+            setError(err.message);
+          } else {
+            setError(undefined);
+            callback();
+          }
+        },
+      );
+    },
+    [puzzle._id, status, note],
+  );
+
+  const idPrefix = useId();
+
+  return (
+    <StatusLine>
+      {canUpdate ? (
+        <ModalForm
+          ref={formRef}
+          title="Update puzzle status"
+          submitLabel="Save"
+          submitDisabled={submitting}
+          onSubmit={onSubmit}
+        >
+          <FormGroup
+            as={Row}
+            className="mb-3"
+            controlId={`${idPrefix}-puzzle-status`}
+          >
+            <FormLabel column xs={3}>
+              Status
+            </FormLabel>
+            <Col xs={9}>
+              <FormSelect
+                value={status}
+                disabled={submitting}
+                onChange={onStatusChange}
+              >
+                {PuzzleStatuses.options.map((s) => (
+                  <option key={s} value={s}>
+                    {puzzleStatusLabels[s]}
+                  </option>
+                ))}
+              </FormSelect>
+            </Col>
+          </FormGroup>
+          <FormGroup
+            as={Row}
+            className="mb-3"
+            controlId={`${idPrefix}-puzzle-status-note`}
+          >
+            <FormLabel column xs={3}>
+              Note
+            </FormLabel>
+            <Col xs={9}>
+              <FormControl
+                type="text"
+                placeholder="e.g. have the first half of the extraction"
+                maxLength={PUZZLE_STATUS_NOTE_MAX_LENGTH}
+                disabled={submitting}
+                value={note}
+                onChange={onNoteChange}
+              />
+              <FormText>
+                Optional. Everyone working on the puzzle will see this next to
+                the status.
+              </FormText>
+            </Col>
+          </FormGroup>
+          {error && <Alert variant="danger">{error}</Alert>}
+        </ModalForm>
+      ) : null}
+      <StatusLabel>Status:</StatusLabel>
+      <PuzzleStatusBadge status={puzzle.status} note={puzzle.statusNote} />
+      {puzzle.statusNote ? <StatusNote>{puzzle.statusNote}</StatusNote> : null}
+      {canUpdate ? (
+        <Button variant="link" size="sm" onClick={showModal}>
+          <FontAwesomeIcon icon={faPen} /> Update status
+        </Button>
+      ) : null}
+    </StatusLine>
+  );
+};
+
+export default PuzzleStatusControl;
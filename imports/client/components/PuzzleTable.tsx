@@ -5,6 +5,7 @@ import type { PuzzleType } from "../../lib/models/Puzzles";
 import type { Solvedness } from "../../lib/solvedness";
 import { computeSolvedness } from "../../lib/solvedness";
 import PuzzleAnswer from "./PuzzleAnswer";
+import PuzzleStatusBadge from "./PuzzleStatusBadge";
 import Breakable from "./styling/Breakable";
 
 const PuzzleTableEl = styled.table`
@@ -30,6 +31,10 @@ const PuzzleTableCell = styled.td`
   max-width: 43vw;
 `;
 
+const StatusBadge = styled(PuzzleStatusBadge)`
+  margin-left: 4px;
+`;
+
 const PuzzleTableRow = ({
   puzzle,
   segmentAnswers,
@@ -58,6 +63,11 @@ const PuzzleTableRow = ({
         <Breakable>
           <Link to={linkTarget}>{puzzle.title}</Link>
         </Breakable>
+        {solvedness === "unsolved" &&
+          puzzle.status &&
+          puzzle.status !== "new" && (
+            <StatusBadge status={puzzle.status} note={puzzle.statusNote} />
+          )}
       </PuzzleTableCell>
       <PuzzleTableCell>{answers}</PuzzleTableCell>
     </PuzzleTableTr>
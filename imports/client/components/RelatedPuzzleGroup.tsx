@@ -1,8 +1,12 @@
+import { useTracker } from "meteor/react-meteor-data";
 import { faCaretDown } from "@fortawesome/free-solid-svg-icons/faCaretDown";
 import { faCaretRight } from "@fortawesome/free-solid-svg-icons/faCaretRight";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { useCallback, useEffect, useRef, useState } from "react";
 import styled from "styled-components";
+import { indexedById } from "../../lib/listUtils";
+import { metaProgress } from "../../lib/metas";
+import Puzzles from "../../lib/models/Puzzles";
 import type { TagType } from "../../lib/models/Tags";
 import type { PuzzleGroup } from "../../lib/puzzle-sort-and-group";
 import { useHuntPuzzleListCollapseGroup } from "../hooks/persisted-state";
@@ -40,6 +44,22 @@ const NoSharedTagLabel = styled.div`
   color: #808080;
 `;
 
+const MetaLabel = styled.div`
+  display: inline-flex;
+  align-items: center;
+  line-height: 24px;
+  margin: 2px 4px 2px 0;
+  padding: 0 6px;
+  border-radius: 4px;
+  background-color: #ffb0b0;
+  color: #000;
+`;
+
+const MetaProgressLabel = styled.span`
+  margin-left: 4px;
+  color: #505050;
+`;
+
 const RelatedPuzzleGroup = ({
   huntId,
   group,
@@ -65,7 +85,7 @@ const RelatedPuzzleGroup = ({
   const [persistentCollapsed, setPersistentCollapsed] =
     useHuntPuzzleListCollapseGroup(
       huntId,
-      group.sharedTag?._id ?? noSharedTagLabel,
+      group.sharedTag?._id ?? group.meta?._id ?? noSharedTagLabel,
     );
   const [nonPersistentCollapsed, setNonPersistentCollapsed] = useState(false);
   const lastTrackPersistentExpand = useRef(trackPersistentExpand);
@@ -86,7 +106,15 @@ const RelatedPuzzleGroup = ({
     ? persistentCollapsed
     : nonPersistentCollapsed;
 
-  const { puzzles: relatedPuzzles, sharedTag } = group;
+  const { puzzles: relatedPuzzles, sharedTag, meta } = group;
+
+  const progress = useTracker(() => {
+    if (!meta) {
+      return undefined;
+    }
+    const feeders = Puzzles.find({ _id: { $in: meta.feeders ?? [] } }).fetch();
+    return metaProgress(meta, indexedById(feeders));
+  }, [meta]);
 
   const puzzlePlural = relatedPuzzles.length === 1 ? "puzzle" : "puzzles";
   const countString = `(${relatedPuzzles.length} other ${puzzlePlural})`;
@@ -103,9 +131,19 @@ const RelatedPuzzleGroup = ({
         />
         {sharedTag ? (
           <Tag tag={sharedTag} linkToSearch={false} popoverRelated={false} />
-        ) : (
+        ) : null}
+        {meta && progress ? (
+          <MetaLabel>
+            Meta: {meta.title}
+            <MetaProgressLabel>
+              ({progress.solvedFeeders.length}/{progress.feeders.length} feeders
+              solved)
+            </MetaProgressLabel>
+          </MetaLabel>
+        ) : null}
+        {!sharedTag && !meta ? (
           <NoSharedTagLabel>{noSharedTagLabel}</NoSharedTagLabel>
-        )}
+        ) : null}
         {includeCount && <span>{countString}</span>}
       </PuzzleGroupHeader>
       {collapsed ? null : (
@@ -116,6 +154,7 @@ const RelatedPuzzleGroup = ({
             allTags={allTags}
             canUpdate={canUpdate}
             sharedTag={sharedTag}
+            meta={meta}
             suppressedTagIds={allSuppressedTagIds}
           />
           {group.subgroups.map((subgroup) => {
@@ -125,7 +164,9 @@ const RelatedPuzzleGroup = ({
             }
             return (
               <RelatedPuzzleGroup
-                key={subgroup.sharedTag ? subgroup.sharedTag._id : "ungrouped"}
+                key={
+                  subgroup.sharedTag?._id ?? subgroup.meta?._id ?? "ungrouped"
+                }
                 huntId={huntId}
                 group={subgroup}
                 noSharedTagLabel={noSharedTagLabel}
@@ -12,6 +12,7 @@ const RelatedPuzzleList = React.memo(
     allTags,
     canUpdate,
     sharedTag,
+    meta,
     suppressedTagIds,
     segmentAnswers,
   }: {
@@ -20,6 +21,7 @@ const RelatedPuzzleList = React.memo(
     allTags: TagType[];
     canUpdate: boolean;
     sharedTag: TagType | undefined;
+    meta?: PuzzleType;
     suppressedTagIds: string[];
     segmentAnswers?: boolean;
   }) => {
@@ -31,6 +33,7 @@ const RelatedPuzzleList = React.memo(
       relatedPuzzles,
       sharedTag,
       tagIndex,
+      meta,
     );
     return (
       <PuzzleList
@@ -7,30 +7,38 @@ import { BreadcrumbsProvider } from "../hooks/breadcrumb";
 import { useAppThemeState } from "../hooks/persisted-state";
 import useDocumentTitle from "../hooks/useDocumentTitle";
 import { darkTheme, lightTheme } from "../theme";
+import ActivityHeatmapPage from "./ActivityHeatmapPage";
 import AllProfileListPage from "./AllProfileListPage";
 import AnnouncementsPage from "./AnnouncementsPage";
+import AuditLogPage from "./AuditLogPage";
 import { AuthenticatedPage, UnauthenticatedPage } from "./authentication";
 import EnrollForm from "./EnrollForm";
 import FirehosePage from "./FirehosePage";
 import FirstUserForm from "./FirstUserForm";
 import ForgotPasswordForm from "./ForgotPasswordForm";
 import GuessQueuePage from "./GuessQueuePage";
+import HuntAnalyticsPage from "./HuntAnalyticsPage";
 import HuntApp from "./HuntApp";
 import HuntersApp from "./HuntersApp";
 import HuntListApp from "./HuntListApp";
 import HuntListPage from "./HuntListPage";
 import HuntProfileListPage from "./HuntProfileListPage";
+import HuntRosterPage from "./HuntRosterPage";
 import HuntTagManagerPage from "./HuntTagManagerPage";
 import JoinHunt from "./JoinHunt";
 import Loading from "./Loading";
 import LoginForm from "./LoginForm";
+import MetasPage from "./MetasPage";
 import PasswordResetForm from "./PasswordResetForm";
 import ProfilePage from "./ProfilePage";
 import PuzzleListPage from "./PuzzleListPage";
 import PuzzlePage from "./PuzzlePage";
 import RootRedirector from "./RootRedirector";
+import SearchPage from "./SearchPage";
+import TrashPage from "./TrashPage";
 import UserInvitePage from "./UserInvitePage";
 import UsersApp from "./UsersApp";
+import WebhooksPage from "./WebhooksPage";
 
 const HuntEditPage = React.lazy(() => import("./HuntEditPage"));
 const SetupPage = React.lazy(() => import("./SetupPage"));
@@ -46,7 +54,10 @@ export const AuthenticatedRouteList: RouteObject[] = [
         path: ":huntId",
         element: <HuntApp />,
         children: [
+          { path: "activity", element: <ActivityHeatmapPage /> },
+          { path: "analytics", element: <HuntAnalyticsPage /> },
           { path: "announcements", element: <AnnouncementsPage /> },
+          { path: "audit-log", element: <AuditLogPage /> },
           { path: "firehose", element: <FirehosePage /> },
           { path: "guesses", element: <GuessQueuePage /> },
           {
@@ -58,9 +69,14 @@ export const AuthenticatedRouteList: RouteObject[] = [
               { path: ":userId", element: <ProfilePage /> },
             ],
           },
+          { path: "metas", element: <MetasPage /> },
           { path: "puzzles/:puzzleId", element: <PuzzlePage /> },
           { path: "puzzles", element: <PuzzleListPage /> },
+          { path: "roster", element: <HuntRosterPage /> },
+          { path: "search", element: <SearchPage /> },
           { path: "tags", element: <HuntTagManagerPage /> },
+          { path: "trash", element: <TrashPage /> },
+          { path: "webhooks", element: <WebhooksPage /> },
           { path: "edit", element: <HuntEditPage /> },
           { path: "", element: <Navigate to="puzzles" replace /> },
         ],
@@ -78,6 +94,7 @@ export const AuthenticatedRouteList: RouteObject[] = [
     ],
   },
   { path: "/setup", element: <SetupPage /> },
+  { path: "/audit-log", element: <AuditLogPage /> },
   { path: "/rtcdebug", element: <RTCDebugPage /> },
 ].map((r) => {
   return {
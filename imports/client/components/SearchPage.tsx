@@ -0,0 +1,282 @@
+import { useTracker } from "meteor/react-meteor-data";
+import { faSearch } from "@fortawesome/free-solid-svg-icons/faSearch";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type React from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import type { FormProps } from "react-bootstrap/Form";
+import Form from "react-bootstrap/Form";
+import type { FormControlProps } from "react-bootstrap/FormControl";
+import FormControl from "react-bootstrap/FormControl";
+import InputGroup from "react-bootstrap/InputGroup";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import styled from "styled-components";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import type {
+  HuntSearchResultKind,
+  HuntSearchResultType,
+} from "../../lib/huntSearch";
+import { parseSearchQuery, searchTermRegExp } from "../../lib/huntSearch";
+import { indexedById } from "../../lib/listUtils";
+import Puzzles from "../../lib/models/Puzzles";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
+import searchHunt from "../../methods/searchHunt";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useFocusRefOnFindHotkey from "../hooks/useFocusRefOnFindHotkey";
+import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import indexedDisplayNames from "../indexedDisplayNames";
+import Breakable from "./styling/Breakable";
+
+// How much context to show on either side of the first match in long messages
+const SNIPPET_CONTEXT = 80;
+
+const kindLabels: Record<HuntSearchResultKind, string> = {
+  puzzle: "Puzzle",
+  chatMessage: "Chat",
+  guess: "Guess",
+  announcement: "Announcement",
+};
+
+const ResultList = styled.ol`
+  list-style: none;
+  padding: 0;
+`;
+
+const Result = styled.li`
+  padding: 8px 0;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+`;
+
+const ResultHeader = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: baseline;
+  gap: 0 8px;
+`;
+
+const ResultMeta = styled.span`
+  font-size: 0.875em;
+`;
+
+const ResultText = styled.div`
+  white-space: pre-wrap;
+`;
+
+const Highlighted = ({ text, terms }: { text: string; terms: string[] }) => {
+  // Trim long text down to the area around the first match
+  let snippet = text;
+  const firstMatch = Math.min(
+    ...terms.map((term) => text.search(searchTermRegExp(term))),
+  );
+  if (text.length > 2 * SNIPPET_CONTEXT && firstMatch > 0) {
+    const start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, firstMatch + SNIPPET_CONTEXT);
+    snippet = `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+  }
+
+  const pattern = new RegExp(
+    `(${terms.map((term) => searchTermRegExp(term).source).join("|")})`,
+    "gi",
+  );
+  return (
+    <>
+      {snippet.split(pattern).map((part, i) =>
+        // split() puts the captured matches at odd indices
+        i % 2 === 1 ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: the parts have no other identity
+          <mark key={i}>{part}</mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+};
+
+const SearchResult = ({
+  huntId,
+  result,
+  terms,
+  puzzleTitle,
+  userName,
+}: {
+  huntId: string;
+  result: HuntSearchResultType;
+  terms: string[];
+  puzzleTitle: string | undefined;
+  userName: string | undefined;
+}) => {
+  let link;
+  switch (result.kind) {
+    case "announcement":
+      link = `/hunts/${huntId}/announcements`;
+      break;
+    case "chatMessage":
+      // Jump straight to the message in the puzzle's chat
+      link = `/hunts/${huntId}/puzzles/${result.puzzle}?message=${result._id}`;
+      break;
+    default:
+      link = `/hunts/${huntId}/puzzles/${result.puzzle}`;
+      break;
+  }
+
+  return (
+    <Result>
+      <ResultHeader>
+        <Badge bg="secondary">{kindLabels[result.kind]}</Badge>
+        <Link to={link}>
+          {result.kind === "announcement"
+            ? "Announcements"
+            : (puzzleTitle ?? "(unknown puzzle)")}
+        </Link>
+        <ResultMeta className="text-muted">
+          {userName ? `${userName}, ` : null}
+          {calendarTimeFormat(result.timestamp)}
+        </ResultMeta>
+      </ResultHeader>
+      {result.kind === "puzzle" ? null : (
+        <ResultText>
+          <Breakable>
+            <Highlighted text={result.text} terms={terms} />
+          </Breakable>
+        </ResultText>
+      )}
+    </Result>
+  );
+};
+
+const SearchPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+
+  useBreadcrumb({ title: "Search", path: `/hunts/${huntId}/search` });
+
+  const puzzlesLoading = useTypedSubscribe(puzzlesForPuzzleList, {
+    huntId,
+    includeDeleted: true,
+  });
+  const displayNamesLoading = useSubscribeDisplayNames(huntId);
+  const loading = puzzlesLoading() || displayNamesLoading();
+
+  const puzzles = useTracker(
+    () =>
+      indexedById(
+        loading ? [] : Puzzles.findAllowingDeleted({ hunt: huntId }).fetch(),
+      ),
+    [loading, huntId],
+  );
+  const displayNames = useTracker(
+    () => (loading ? new Map<string, string>() : indexedDisplayNames()),
+    [loading],
+  );
+
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<HuntSearchResultType[]>();
+  const [error, setError] = useState<string>();
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query) {
+      setResults(undefined);
+      return undefined;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    searchHunt.call({ huntId, query }, (err, found) => {
+      if (cancelled) return;
+      setSearching(false);
+      if (err) {
+        setError(err.message);
+        setResults(undefined);
+      } else {
+        setError(undefined);
+        setResults(found);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [huntId, query]);
+
+  const searchBarRef = useRef<HTMLInputElement>(null);
+  useFocusRefOnFindHotkey(searchBarRef);
+
+  const onInputChange: NonNullable<FormControlProps["onChange"]> = useCallback(
+    (e) => {
+      setInput(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const onSubmit = useCallback<NonNullable<FormProps["onSubmit"]>>(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const u = new URLSearchParams(searchParams);
+      if (input.trim()) {
+        u.set("q", input.trim());
+      } else {
+        u.delete("q");
+      }
+      setSearchParams(u);
+    },
+    [input, searchParams, setSearchParams],
+  );
+
+  const idPrefix = useId();
+  const terms = parseSearchQuery(query);
+
+  let body;
+  if (error) {
+    body = <Alert variant="danger">{error}</Alert>;
+  } else if (searching || (results && loading)) {
+    body = <div>Searching...</div>;
+  } else if (results?.length === 0) {
+    body = <div>Nothing in this hunt matches that search.</div>;
+  } else if (results) {
+    body = (
+      <ResultList>
+        {results.map((result) => (
+          <SearchResult
+            key={`${result.kind}-${result._id}`}
+            huntId={huntId}
+            result={result}
+            terms={terms}
+            puzzleTitle={
+              result.puzzle ? puzzles.get(result.puzzle)?.title : undefined
+            }
+            userName={result.user ? displayNames.get(result.user) : undefined}
+          />
+        ))}
+      </ResultList>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Search</h1>
+      <Form onSubmit={onSubmit} className="mb-3">
+        <InputGroup>
+          <FormControl
+            id={`${idPrefix}-search`}
+            type="text"
+            ref={searchBarRef}
+            placeholder='Search puzzles, chat, guesses and announcements (use "quotes" for phrases)'
+            value={input}
+            onChange={onInputChange}
+          />
+          <Button type="submit" variant="secondary" disabled={searching}>
+            <FontAwesomeIcon icon={faSearch} />
+          </Button>
+        </InputGroup>
+      </Form>
+      {body}
+    </div>
+  );
+};
+
+export default SearchPage;
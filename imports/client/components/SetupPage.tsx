@@ -31,6 +31,7 @@ import configureDiscordBotGuild from "../../methods/configureDiscordBotGuild";
 import configureDiscordOAuthClient from "../../methods/configureDiscordOAuthClient";
 import configureEmailBranding from "../../methods/configureEmailBranding";
 import configureEnsureGoogleScript from "../../methods/configureEnsureGoogleScript";
+import configureEtherpad from "../../methods/configureEtherpad";
 import configureGdriveCreds from "../../methods/configureGdriveCreds";
 import configureGdriveRoot from "../../methods/configureGdriveRoot";
 import configureGdriveTemplates from "../../methods/configureGdriveTemplates";
@@ -40,6 +41,7 @@ import configureListS3Buckets from "../../methods/configureListS3Buckets";
 import configureOrganizeGoogleDrive from "../../methods/configureOrganizeGoogleDrive";
 import configureS3ImageBucket from "../../methods/configureS3ImageBucket";
 import configureTeamName from "../../methods/configureTeamName";
+import configureWebPush from "../../methods/configureWebPush";
 import generateUploadToken from "../../methods/generateUploadToken";
 import setFeatureFlag from "../../methods/setFeatureFlag";
 import type { DiscordGuildType } from "../discord";
@@ -1207,6 +1209,176 @@ const AWSIntegrationSection = () => {
   );
 };
 
+const EtherpadForm = ({
+  url: initialUrl,
+  apiKey: initialApiKey,
+}: {
+  url?: string;
+  apiKey?: string;
+}) => {
+  const [url, setUrl] = useState<string>(initialUrl ?? "");
+  const [apiKey, setApiKey] = useState<string>(initialApiKey ?? "");
+  const [submitState, setSubmitState] = useState<SubmitState>(SubmitState.IDLE);
+  const [submitError, setSubmitError] = useState<string>("");
+
+  const dismissAlert = useCallback(() => {
+    setSubmitState(SubmitState.IDLE);
+  }, []);
+
+  const onUrlChange: NonNullable<FormControlProps["onChange"]> = useCallback(
+    (e) => {
+      setUrl(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const onApiKeyChange: NonNullable<FormControlProps["onChange"]> = useCallback(
+    (e) => {
+      setApiKey(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const onSubmit = useCallback(
+    (e: React.FormEvent<any>) => {
+      e.preventDefault();
+      const trimmedUrl = url.trim();
+      const trimmedApiKey = apiKey.trim();
+
+      setSubmitState(SubmitState.SUBMITTING);
+      configureEtherpad.call(
+        {
+          url: trimmedUrl !== "" ? trimmedUrl : undefined,
+          apiKey: trimmedApiKey !== "" ? trimmedApiKey : undefined,
+        },
+        (err) => {
+          if (err) {
+            setSubmitError(err.message);
+            setSubmitState(SubmitState.ERROR);
+          } else {
+            setSubmitState(SubmitState.SUCCESS);
+          }
+        },
+      );
+    },
+    [url, apiKey],
+  );
+
+  const idPrefix = useId();
+
+  const shouldDisableForm = submitState === SubmitState.SUBMITTING;
+  return (
+    <div>
+      {submitState === SubmitState.SUBMITTING ? (
+        <Alert variant="info">Saving...</Alert>
+      ) : null}
+      {submitState === SubmitState.SUCCESS ? (
+        <Alert variant="success" dismissible onClose={dismissAlert}>
+          Saved changes.
+        </Alert>
+      ) : null}
+      {submitState === SubmitState.ERROR ? (
+        <Alert variant="danger" dismissible onClose={dismissAlert}>
+          Saving failed: {submitError}
+        </Alert>
+      ) : null}
+
+      <form onSubmit={onSubmit}>
+        <FormGroup className="mb-3" controlId={`${idPrefix}-etherpad-url`}>
+          <FormLabel>Server URL</FormLabel>
+          <FormControl
+            type="text"
+            placeholder="https://pad.example.com"
+            value={url}
+            disabled={shouldDisableForm}
+            onChange={onUrlChange}
+          />
+        </FormGroup>
+        <FormGroup className="mb-3" controlId={`${idPrefix}-etherpad-api-key`}>
+          <FormLabel>API key</FormLabel>
+          <FormControl
+            type="text"
+            placeholder=""
+            value={apiKey}
+            disabled={shouldDisableForm}
+            onChange={onApiKeyChange}
+          />
+          <FormText>
+            Leave both fields blank and save to remove the configuration.
+          </FormText>
+        </FormGroup>
+        <ActionButtonRow>
+          <Button
+            variant="primary"
+            type="submit"
+            onClick={onSubmit}
+            disabled={shouldDisableForm}
+          >
+            Save
+          </Button>
+        </ActionButtonRow>
+      </form>
+    </div>
+  );
+};
+
+const EtherpadIntegrationSection = () => {
+  const enabled = useTracker(() => !Flags.active("disable.etherpad"), []);
+  const server = useTracker(
+    () => Settings.findOne({ name: "etherpad.server" }),
+    [],
+  );
+  const { url, apiKey } =
+    server?.name === "etherpad.server" ? server.value : ({} as const);
+
+  const onToggleEnabled = useCallback(() => {
+    const newValue = !enabled;
+    const ffValue = newValue ? "off" : ("on" as const);
+    setFeatureFlag.call({ name: "disable.etherpad", type: ffValue });
+  }, [enabled]);
+
+  const configured = !!url;
+  const badgeVariant = configured ? "success" : "warning";
+
+  return (
+    // biome-ignore lint/correctness/useUniqueElementIds: id for linking
+    <Section id="etherpad">
+      <SectionHeader>
+        <SectionHeaderLabel>Etherpad integration</SectionHeaderLabel>
+        <Badge bg={badgeVariant}>
+          {configured ? "Configured" : "Unconfigured"}
+        </Badge>
+        {configured && (
+          <SectionHeaderButtons>
+            <FeatureToggle
+              enabled={enabled}
+              onToggleEnabled={onToggleEnabled}
+            />
+          </SectionHeaderButtons>
+        )}
+      </SectionHeader>
+      <p>
+        Instead of Google Drive, hunts can be configured to create a pad on a
+        self-hosted <a href="https://etherpad.org/">Etherpad</a> server for each
+        puzzle. Pads are embedded in the puzzle page, and edits to them show up
+        in the puzzle&apos;s activity just like edits to Google documents.
+      </p>
+      <p>
+        Jolly Roger talks to Etherpad using its HTTP API, so you&apos;ll need
+        the contents of the server&apos;s <code>APIKEY.txt</code> (or the{" "}
+        <code>APIKEY</code> you gave it in its environment). The server URL must
+        be reachable both by this server and by users&apos; browsers.
+      </p>
+      <p>
+        Once the server is configured here, choose Etherpad as the puzzle
+        document provider in each hunt&apos;s settings.
+      </p>
+
+      <EtherpadForm url={url} apiKey={apiKey} />
+    </Section>
+  );
+};
+
 const EmailConfigForm = ({
   initialConfig,
 }: {
@@ -2379,6 +2551,210 @@ const CircuitBreakerControl = ({
   );
 };
 
+const WebPushForm = ({
+  subject: initialSubject,
+  publicKey,
+}: {
+  subject?: string;
+  publicKey?: string;
+}) => {
+  const [subject, setSubject] = useState<string>(initialSubject ?? "");
+  const [newPublicKey, setNewPublicKey] = useState<string>("");
+  const [newPrivateKey, setNewPrivateKey] = useState<string>("");
+  const [submitState, setSubmitState] = useState<SubmitState>(SubmitState.IDLE);
+  const [submitError, setSubmitError] = useState<string>("");
+
+  const dismissAlert = useCallback(() => {
+    setSubmitState(SubmitState.IDLE);
+  }, []);
+
+  const onSubjectChange: NonNullable<FormControlProps["onChange"]> =
+    useCallback((e) => {
+      setSubject(e.currentTarget.value);
+    }, []);
+
+  const onPublicKeyChange: NonNullable<FormControlProps["onChange"]> =
+    useCallback((e) => {
+      setNewPublicKey(e.currentTarget.value);
+    }, []);
+
+  const onPrivateKeyChange: NonNullable<FormControlProps["onChange"]> =
+    useCallback((e) => {
+      setNewPrivateKey(e.currentTarget.value);
+    }, []);
+
+  const onSubmit = useCallback(
+    (e: React.FormEvent<any>) => {
+      e.preventDefault();
+      const trimmedSubject = subject.trim();
+      const trimmedPublicKey = newPublicKey.trim();
+      const trimmedPrivateKey = newPrivateKey.trim();
+
+      setSubmitState(SubmitState.SUBMITTING);
+      configureWebPush.call(
+        {
+          subject: trimmedSubject !== "" ? trimmedSubject : undefined,
+          publicKey: trimmedPublicKey !== "" ? trimmedPublicKey : undefined,
+          privateKey: trimmedPrivateKey !== "" ? trimmedPrivateKey : undefined,
+        },
+        (err) => {
+          if (err) {
+            setSubmitError(err.message);
+            setSubmitState(SubmitState.ERROR);
+          } else {
+            setNewPublicKey("");
+            setNewPrivateKey("");
+            setSubmitState(SubmitState.SUCCESS);
+          }
+        },
+      );
+    },
+    [subject, newPublicKey, newPrivateKey],
+  );
+
+  const idPrefix = useId();
+
+  const shouldDisableForm = submitState === SubmitState.SUBMITTING;
+  return (
+    <div>
+      {submitState === SubmitState.SUBMITTING ? (
+        <Alert variant="info">Saving...</Alert>
+      ) : null}
+      {submitState === SubmitState.SUCCESS ? (
+        <Alert variant="success" dismissible onClose={dismissAlert}>
+          Saved changes.
+        </Alert>
+      ) : null}
+      {submitState === SubmitState.ERROR ? (
+        <Alert variant="danger" dismissible onClose={dismissAlert}>
+          Saving failed: {submitError}
+        </Alert>
+      ) : null}
+
+      <form onSubmit={onSubmit}>
+        <FormGroup className="mb-3" controlId={`${idPrefix}-webpush-subject`}>
+          <FormLabel>Contact</FormLabel>
+          <FormControl
+            type="text"
+            placeholder="mailto:admin@example.com"
+            value={subject}
+            disabled={shouldDisableForm}
+            onChange={onSubjectChange}
+          />
+          <FormText>
+            A <code>mailto:</code> or <code>https:</code> URL that push services
+            can use to contact you. Leave blank and save to remove the
+            configuration.
+          </FormText>
+        </FormGroup>
+        {publicKey ? (
+          <FormGroup
+            className="mb-3"
+            controlId={`${idPrefix}-webpush-current-public-key`}
+          >
+            <FormLabel>Current public key</FormLabel>
+            <FormControl type="text" value={publicKey} disabled />
+          </FormGroup>
+        ) : null}
+        <FormGroup
+          className="mb-3"
+          controlId={`${idPrefix}-webpush-public-key`}
+        >
+          <FormLabel>Public key (optional)</FormLabel>
+          <FormControl
+            type="text"
+            value={newPublicKey}
+            disabled={shouldDisableForm}
+            onChange={onPublicKeyChange}
+          />
+        </FormGroup>
+        <FormGroup
+          className="mb-3"
+          controlId={`${idPrefix}-webpush-private-key`}
+        >
+          <FormLabel>Private key (optional)</FormLabel>
+          <FormControl
+            type="text"
+            value={newPrivateKey}
+            disabled={shouldDisableForm}
+            onChange={onPrivateKeyChange}
+          />
+          <FormText>
+            Only needed to bring over keys from another deployment. Otherwise,
+            keys are generated the first time you save, and kept after that.
+            Changing keys unsubscribes every device.
+          </FormText>
+        </FormGroup>
+        <ActionButtonRow>
+          <Button
+            variant="primary"
+            type="submit"
+            onClick={onSubmit}
+            disabled={shouldDisableForm}
+          >
+            Save
+          </Button>
+        </ActionButtonRow>
+      </form>
+    </div>
+  );
+};
+
+const WebPushIntegrationSection = () => {
+  const enabled = useTracker(() => !Flags.active("disable.webpush"), []);
+  const vapid = useTracker(
+    () => Settings.findOne({ name: "webpush.vapid" }),
+    [],
+  );
+  const { subject, publicKey } =
+    vapid?.name === "webpush.vapid" ? vapid.value : ({} as const);
+
+  const onToggleEnabled = useCallback(() => {
+    const newValue = !enabled;
+    const ffValue = newValue ? "off" : ("on" as const);
+    setFeatureFlag.call({ name: "disable.webpush", type: ffValue });
+  }, [enabled]);
+
+  const configured = !!publicKey;
+  const badgeVariant = configured ? "success" : "warning";
+
+  return (
+    // biome-ignore lint/correctness/useUniqueElementIds: id for linking
+    <Section id="webpush">
+      <SectionHeader>
+        <SectionHeaderLabel>Push notifications</SectionHeaderLabel>
+        <Badge bg={badgeVariant}>
+          {configured ? "Configured" : "Unconfigured"}
+        </Badge>
+        {configured && (
+          <SectionHeaderButtons>
+            <FeatureToggle
+              enabled={enabled}
+              onToggleEnabled={onToggleEnabled}
+            />
+          </SectionHeaderButtons>
+        )}
+      </SectionHeader>
+      <p>
+        With{" "}
+        <a href="https://web.dev/articles/push-notifications-overview">
+          Web Push
+        </a>{" "}
+        configured, hunters who choose browser notifications can get chat
+        mentions, dingwords, bookmarked puzzle solves and announcements pushed
+        to their devices, even when Jolly Roger isn&apos;t open. Each hunter
+        chooses which devices to push to from their profile.
+      </p>
+      <p>
+        Push services identify servers by a VAPID key pair, which Jolly Roger
+        generates for you, and a contact address for the server&apos;s operator.
+      </p>
+
+      <WebPushForm subject={subject} publicKey={publicKey} />
+    </Section>
+  );
+};
+
 const CircuitBreakerSection = () => {
   return (
     //biome-ignore lint/correctness/useUniqueElementIds: id for linking
@@ -2517,7 +2893,9 @@ const SetupPage = () => {
     <PageContainer>
       <GoogleIntegrationSection />
       <AWSIntegrationSection />
+      <EtherpadIntegrationSection />
       <EmailConfigSection />
+      <WebPushIntegrationSection />
       <DiscordIntegrationSection />
       <BrandingSection />
       <CircuitBreakerSection />
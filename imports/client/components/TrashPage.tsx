@@ -0,0 +1,296 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import type { ReactNode } from "react";
+import { useCallback, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Button from "react-bootstrap/Button";
+import Table from "react-bootstrap/Table";
+import { useParams } from "react-router-dom";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import { indexedById } from "../../lib/listUtils";
+import Announcements from "../../lib/models/Announcements";
+import Guesses from "../../lib/models/Guesses";
+import Hunts from "../../lib/models/Hunts";
+import Puzzles from "../../lib/models/Puzzles";
+import Tags from "../../lib/models/Tags";
+import {
+  userMayAddAnnouncementToHunt,
+  userMayUpdateGuessesForHunt,
+  userMayViewTrashForHunt,
+  userMayWritePuzzlesForHunt,
+} from "../../lib/permission_stubs";
+import puzzlesForPuzzleList from "../../lib/publications/puzzlesForPuzzleList";
+import trashForHunt from "../../lib/publications/trashForHunt";
+import undestroyAnnouncement from "../../methods/undestroyAnnouncement";
+import undestroyGuess from "../../methods/undestroyGuess";
+import undestroyPuzzle from "../../methods/undestroyPuzzle";
+import undestroyTag from "../../methods/undestroyTag";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useSubscribeDisplayNames from "../hooks/useSubscribeDisplayNames";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import indexedDisplayNames from "../indexedDisplayNames";
+import PuzzleAnswer from "./PuzzleAnswer";
+
+type TrashItem = {
+  _id: string;
+  description: ReactNode;
+  deletedAt: Date | undefined;
+  deletedBy: string | undefined;
+  restorable: boolean;
+};
+
+function trashItem(
+  record: { _id: string; deletedAt?: Date; deletedBy?: string },
+  description: ReactNode,
+  restorable = true,
+): TrashItem {
+  return {
+    _id: record._id,
+    description,
+    deletedAt: record.deletedAt,
+    deletedBy: record.deletedBy,
+    restorable,
+  };
+}
+
+// Most recently deleted first. Records deleted before we kept track of when
+// go last.
+const byDeletedAt = (a: TrashItem, b: TrashItem) =>
+  (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0);
+
+const TrashSection = ({
+  title,
+  items,
+  displayNames,
+  canRestore,
+  onRestore,
+}: {
+  title: string;
+  items: TrashItem[];
+  displayNames: Map<string, string>;
+  canRestore: boolean;
+  onRestore: (id: string) => void;
+}) => {
+  return (
+    <section className="mb-3">
+      <h2>{title}</h2>
+      {items.length === 0 ? (
+        <p>Nothing has been deleted.</p>
+      ) : (
+        <Table responsive size="sm">
+          <thead>
+            <tr>
+              <th>Deleted</th>
+              <th>By</th>
+              <th>What</th>
+              {canRestore && <th />}
+            </tr>
+          </thead>
+          <tbody>
+            {[...items].sort(byDeletedAt).map((item) => (
+              <tr key={item._id}>
+                <td>
+                  {item.deletedAt ? calendarTimeFormat(item.deletedAt) : "???"}
+                </td>
+                <td>
+                  {(item.deletedBy && displayNames.get(item.deletedBy)) ??
+                    "???"}
+                </td>
+                <td>{item.description}</td>
+                {canRestore && (
+                  <td>
+                    {item.restorable && (
+                      <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        onClick={() => onRestore(item._id)}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </section>
+  );
+};
+
+const TrashPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Trash", path: `/hunts/${huntId}/trash` });
+
+  const trashLoading = useTypedSubscribe(trashForHunt, { huntId });
+  // Guesses show the title of their puzzle, which may or may not be deleted
+  const puzzlesLoading = useTypedSubscribe(puzzlesForPuzzleList, {
+    huntId,
+    includeDeleted: true,
+  });
+  const displayNamesLoading = useSubscribeDisplayNames(huntId);
+  const loading = trashLoading() || puzzlesLoading() || displayNamesLoading();
+
+  const hunt = useTracker(() => Hunts.findOne(huntId), [huntId]);
+  const {
+    canView,
+    canRestorePuzzles,
+    canRestoreGuesses,
+    canRestoreAnnouncements,
+  } = useTracker(
+    () => ({
+      canView: userMayViewTrashForHunt(Meteor.user(), hunt),
+      canRestorePuzzles: userMayWritePuzzlesForHunt(Meteor.user(), hunt),
+      canRestoreGuesses: userMayUpdateGuessesForHunt(Meteor.user(), hunt),
+      canRestoreAnnouncements: userMayAddAnnouncementToHunt(
+        Meteor.user(),
+        hunt,
+      ),
+    }),
+    [hunt],
+  );
+
+  const displayNames = useTracker(
+    () => (loading ? new Map<string, string>() : indexedDisplayNames()),
+    [loading],
+  );
+  const puzzles = useTracker(() => {
+    if (loading) {
+      return [];
+    }
+    const puzzlesById = indexedById(
+      Puzzles.findAllowingDeleted({ hunt: huntId }).fetch(),
+    );
+    return Puzzles.findDeleted({ hunt: huntId }).map((puzzle) =>
+      trashItem(
+        puzzle,
+        puzzle.merged && puzzle.replacedBy
+          ? `${puzzle.title} (merged into ${
+              puzzlesById.get(puzzle.replacedBy)?.title ?? "???"
+            })`
+          : puzzle.title,
+        // Merged puzzles' contents already live on in the puzzle they were
+        // merged into
+        !puzzle.merged,
+      ),
+    );
+  }, [loading, huntId]);
+  const guesses = useTracker(() => {
+    if (loading) {
+      return [];
+    }
+    const puzzlesById = indexedById(
+      Puzzles.findAllowingDeleted({ hunt: huntId }).fetch(),
+    );
+    return Guesses.findDeleted({ hunt: huntId }).map((guess) =>
+      trashItem(
+        guess,
+        <>
+          <PuzzleAnswer answer={guess.guess} /> for{" "}
+          {puzzlesById.get(guess.puzzle)?.title ?? "???"}
+        </>,
+      ),
+    );
+  }, [loading, huntId]);
+  const announcements = useTracker(
+    () =>
+      loading
+        ? []
+        : Announcements.findDeleted({ hunt: huntId }).map((announcement) =>
+            trashItem(announcement, announcement.message),
+          ),
+    [loading, huntId],
+  );
+  const tags = useTracker(
+    () =>
+      loading
+        ? []
+        : Tags.findDeleted({ hunt: huntId }).map((tag) =>
+            trashItem(tag, tag.name),
+          ),
+    [loading, huntId],
+  );
+
+  const [error, setError] = useState<string>();
+  const onRestored = useCallback((err?: Meteor.Error) => {
+    setError(err?.message);
+  }, []);
+  const restorePuzzle = useCallback(
+    (puzzleId: string) => undestroyPuzzle.call({ puzzleId }, onRestored),
+    [onRestored],
+  );
+  const restoreGuess = useCallback(
+    (guessId: string) => undestroyGuess.call({ guessId }, onRestored),
+    [onRestored],
+  );
+  const restoreAnnouncement = useCallback(
+    (announcementId: string) =>
+      undestroyAnnouncement.call({ announcementId }, onRestored),
+    [onRestored],
+  );
+  const restoreTag = useCallback(
+    (tagId: string) => undestroyTag.call({ tagId }, onRestored),
+    [onRestored],
+  );
+
+  if (loading) {
+    return <div>loading...</div>;
+  }
+
+  if (!canView) {
+    return (
+      <Alert variant="danger">
+        You are not permitted to view this hunt&apos;s trash.
+      </Alert>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Trash</h1>
+      <p>
+        Deleted puzzles, guesses, announcements and tags stay here until
+        they&apos;re restored.
+        {hunt?.purgeDeletedAfterDays
+          ? ` They're removed for good ${hunt.purgeDeletedAfterDays} days after they're deleted.`
+          : ""}
+      </p>
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError(undefined)}>
+          {error}
+        </Alert>
+      )}
+      <TrashSection
+        title="Puzzles"
+        items={puzzles}
+        displayNames={displayNames}
+        canRestore={canRestorePuzzles}
+        onRestore={restorePuzzle}
+      />
+      <TrashSection
+        title="Guesses"
+        items={guesses}
+        displayNames={displayNames}
+        canRestore={canRestoreGuesses}
+        onRestore={restoreGuess}
+      />
+      <TrashSection
+        title="Announcements"
+        items={announcements}
+        displayNames={displayNames}
+        canRestore={canRestoreAnnouncements}
+        onRestore={restoreAnnouncement}
+      />
+      <TrashSection
+        title="Tags"
+        items={tags}
+        displayNames={displayNames}
+        canRestore={canRestorePuzzles}
+        onRestore={restoreTag}
+      />
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,419 @@
+import { Meteor } from "meteor/meteor";
+import { useTracker } from "meteor/react-meteor-data";
+import { faCopy } from "@fortawesome/free-solid-svg-icons/faCopy";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type React from "react";
+import { useCallback, useId, useRef, useState } from "react";
+import Alert from "react-bootstrap/Alert";
+import Badge from "react-bootstrap/Badge";
+import Button from "react-bootstrap/Button";
+import Form from "react-bootstrap/Form";
+import FormCheck from "react-bootstrap/FormCheck";
+import FormControl from "react-bootstrap/FormControl";
+import FormGroup from "react-bootstrap/FormGroup";
+import FormLabel from "react-bootstrap/FormLabel";
+import FormText from "react-bootstrap/FormText";
+import Table from "react-bootstrap/Table";
+import type { FormProps } from "react-router-dom";
+import { useParams } from "react-router-dom";
+import styled from "styled-components";
+import { calendarTimeFormat } from "../../lib/calendarTimeFormat";
+import Hunts from "../../lib/models/Hunts";
+import type { WebhookDeliveryType } from "../../lib/models/WebhookDeliveries";
+import WebhookDeliveries from "../../lib/models/WebhookDeliveries";
+import type { WebhookEventType, WebhookType } from "../../lib/models/Webhooks";
+import Webhooks, { WebhookEvents } from "../../lib/models/Webhooks";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import webhooksForHunt from "../../lib/publications/webhooksForHunt";
+import createWebhook from "../../methods/createWebhook";
+import destroyWebhook from "../../methods/destroyWebhook";
+import retryWebhookDelivery from "../../methods/retryWebhookDelivery";
+import updateWebhook from "../../methods/updateWebhook";
+import { useBreadcrumb } from "../hooks/breadcrumb";
+import useTypedSubscribe from "../hooks/useTypedSubscribe";
+import ActionButtonRow from "./ActionButtonRow";
+import CopyToClipboardButton from "./CopyToClipboardButton";
+import ModalForm, { type ModalFormHandle } from "./ModalForm";
+
+enum SubmitState {
+  IDLE = "idle",
+  SUBMITTING = "submitting",
+  FAILED = "failed",
+}
+
+const eventLabels: Record<WebhookEventType, string> = {
+  announcement: "Announcement posted",
+  puzzleCreated: "Puzzle created",
+  puzzleUpdated: "Puzzle updated",
+  puzzleSolved: "Puzzle solved",
+  puzzleNoLongerSolved: "Puzzle unsolved",
+  chatMessageCreated: "Chat message",
+};
+
+const deliveryStateVariants: Record<WebhookDeliveryType["state"], string> = {
+  pending: "warning",
+  succeeded: "success",
+  failed: "danger",
+};
+
+const StyledTable = styled(Table)`
+  tbody tr td {
+    vertical-align: middle;
+  }
+`;
+
+const EventCheckboxes = ({
+  selected,
+  disabled,
+  onChange,
+}: {
+  selected: WebhookEventType[];
+  disabled: boolean;
+  onChange: (events: WebhookEventType[]) => void;
+}) => {
+  const idPrefix = useId();
+  return (
+    <>
+      {WebhookEvents.options.map((event) => (
+        <FormCheck
+          key={event}
+          inline
+          type="checkbox"
+          id={`${idPrefix}-${event}`}
+          label={eventLabels[event]}
+          disabled={disabled}
+          checked={selected.includes(event)}
+          onChange={() => {
+            onChange(
+              selected.includes(event)
+                ? selected.filter((e) => e !== event)
+                : [...selected, event],
+            );
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+const NewWebhookForm = ({ huntId }: { huntId: string }) => {
+  const [url, setUrl] = useState<string>("");
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [submitState, setSubmitState] = useState<SubmitState>(SubmitState.IDLE);
+  const [errorMessage, setErrorMessage] = useState<string>("");
+
+  const onUrlChanged = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setUrl(e.currentTarget.value);
+  }, []);
+
+  const onFormSubmit = useCallback<NonNullable<FormProps["onSubmit"]>>(
+    (e) => {
+      e.preventDefault();
+      setSubmitState(SubmitState.SUBMITTING);
+      createWebhook.call({ huntId, url, events }, (error) => {
+        if (error) {
+          setErrorMessage(error.message);
+          setSubmitState(SubmitState.FAILED);
+        } else {
+          setErrorMessage("");
+          setUrl("");
+          setEvents([]);
+          setSubmitState(SubmitState.IDLE);
+        }
+      });
+    },
+    [huntId, url, events],
+  );
+
+  const disabled = submitState === SubmitState.SUBMITTING;
+  const idPrefix = useId();
+
+  return (
+    <Form onSubmit={onFormSubmit}>
+      {submitState === SubmitState.FAILED ? (
+        <Alert
+          variant="danger"
+          dismissible
+          onClose={() => setSubmitState(SubmitState.IDLE)}
+        >
+          {errorMessage}
+        </Alert>
+      ) : null}
+      <FormGroup className="mb-3" controlId={`${idPrefix}-url`}>
+        <FormLabel>URL</FormLabel>
+        <FormControl
+          type="url"
+          placeholder="https://example.com/jolly-roger-hook"
+          disabled={disabled}
+          value={url}
+          onChange={onUrlChanged}
+        />
+      </FormGroup>
+      <FormGroup className="mb-3">
+        <FormLabel>Events</FormLabel>
+        <div>
+          <EventCheckboxes
+            selected={events}
+            disabled={disabled}
+            onChange={setEvents}
+          />
+        </div>
+      </FormGroup>
+      <ActionButtonRow>
+        <Button
+          variant="primary"
+          type="submit"
+          disabled={disabled || !url || events.length === 0}
+        >
+          Add webhook
+        </Button>
+      </ActionButtonRow>
+    </Form>
+  );
+};
+
+const WebhookRow = ({ webhook }: { webhook: WebhookType }) => {
+  const destroyModalRef = useRef<ModalFormHandle>(null);
+  const [requestState, setRequestState] = useState<
+    "idle" | "in-flight" | "error"
+  >("idle");
+  const [requestError, setRequestError] = useState<string | undefined>(
+    undefined,
+  );
+  const disabled = requestState === "in-flight";
+
+  const onRequestComplete = useCallback((error?: Meteor.Error) => {
+    if (error) {
+      setRequestState("error");
+      setRequestError(error.message);
+    } else {
+      setRequestState("idle");
+    }
+  }, []);
+
+  const onEventsChanged = useCallback(
+    (events: WebhookEventType[]) => {
+      setRequestState("in-flight");
+      updateWebhook.call(
+        { webhookId: webhook._id, url: webhook.url, events },
+        onRequestComplete,
+      );
+    },
+    [webhook._id, webhook.url, onRequestComplete],
+  );
+
+  const destroy = useCallback(() => {
+    setRequestState("in-flight");
+    destroyWebhook.call({ webhookId: webhook._id }, onRequestComplete);
+  }, [webhook._id, onRequestComplete]);
+
+  const onDestroyClicked = useCallback(() => {
+    destroyModalRef.current?.show();
+  }, []);
+
+  return (
+    <>
+      {requestState === "error" ? (
+        <tr>
+          <td colSpan={4}>
+            <Alert
+              variant="danger"
+              onClose={() => setRequestState("idle")}
+              dismissible
+            >
+              Updating webhook failed: {requestError}
+            </Alert>
+          </td>
+        </tr>
+      ) : null}
+      <tr>
+        <td>{webhook.url}</td>
+        <td>
+          <EventCheckboxes
+            selected={webhook.events}
+            disabled={disabled}
+            onChange={onEventsChanged}
+          />
+        </td>
+        <td>
+          <CopyToClipboardButton
+            variant="outline-secondary"
+            aria-label="Copy signing secret to clipboard"
+            text={webhook.secret}
+          >
+            <FontAwesomeIcon icon={faCopy} fixedWidth /> Secret
+          </CopyToClipboardButton>
+        </td>
+        <td>
+          <ModalForm
+            ref={destroyModalRef}
+            onSubmit={destroy}
+            title="Delete webhook"
+            submitLabel="Delete"
+            submitStyle="danger"
+          >
+            Are you sure you want to stop sending events to {webhook.url}?
+          </ModalForm>
+          <Button
+            variant="danger"
+            disabled={disabled}
+            onClick={onDestroyClicked}
+          >
+            Delete
+          </Button>
+        </td>
+      </tr>
+    </>
+  );
+};
+
+const DeliveryRow = ({
+  delivery,
+  webhookUrl,
+}: {
+  delivery: WebhookDeliveryType;
+  webhookUrl: string | undefined;
+}) => {
+  const retry = useCallback(() => {
+    retryWebhookDelivery.call({ deliveryId: delivery._id });
+  }, [delivery._id]);
+
+  return (
+    <tr>
+      <td>{calendarTimeFormat(delivery.createdAt)}</td>
+      <td>{webhookUrl ?? "(deleted)"}</td>
+      <td>{eventLabels[delivery.event]}</td>
+      <td>
+        <Badge bg={deliveryStateVariants[delivery.state]}>
+          {delivery.state}
+        </Badge>
+      </td>
+      <td>{delivery.attempts}</td>
+      <td>
+        {delivery.responseStatus}
+        {delivery.lastError ? ` ${delivery.lastError}` : null}
+      </td>
+      <td>
+        {delivery.state === "failed" && webhookUrl ? (
+          <Button variant="outline-secondary" size="sm" onClick={retry}>
+            Retry
+          </Button>
+        ) : null}
+      </td>
+    </tr>
+  );
+};
+
+const WebhooksPage = () => {
+  const huntId = useParams<"huntId">().huntId!;
+  useBreadcrumb({ title: "Webhooks", path: `/hunts/${huntId}/webhooks` });
+
+  const webhooksLoading = useTypedSubscribe(webhooksForHunt, { huntId });
+  const loading = webhooksLoading();
+
+  const canConfigure = useTracker(
+    () => userMayConfigureWebhooksForHunt(Meteor.user(), Hunts.findOne(huntId)),
+    [huntId],
+  );
+  const webhooks = useTracker(
+    () => (loading ? [] : Webhooks.find({ hunt: huntId }).fetch()),
+    [loading, huntId],
+  );
+  const deliveries = useTracker(
+    () =>
+      loading
+        ? []
+        : WebhookDeliveries.find(
+            { hunt: huntId },
+            { sort: { createdAt: -1 } },
+          ).fetch(),
+    [loading, huntId],
+  );
+
+  if (loading) {
+    return <div>loading...</div>;
+  }
+
+  if (!canConfigure) {
+    return (
+      <Alert variant="danger">
+        You are not permitted to configure webhooks for this hunt.
+      </Alert>
+    );
+  }
+
+  const webhookUrls = new Map(webhooks.map((w) => [w._id, w.url]));
+
+  return (
+    <div>
+      <h1>Webhooks</h1>
+      <p>
+        Each webhook receives an HTTPS <code>POST</code> with a JSON body for
+        every selected event in this hunt. Requests carry an{" "}
+        <code>X-Jolly-Roger-Signature</code> header, which is an HMAC-SHA256
+        (keyed with the webhook&apos;s secret) of the{" "}
+        <code>X-Jolly-Roger-Timestamp</code> header, a period, and the request
+        body. Failed deliveries are retried with backoff for about a day.
+      </p>
+
+      <section className="mb-3">
+        <h2>Add a webhook</h2>
+        <NewWebhookForm huntId={huntId} />
+      </section>
+
+      <section className="mb-3">
+        <h2>Registered webhooks</h2>
+        <StyledTable responsive>
+          <thead>
+            <tr>
+              <th>URL</th>
+              <th>Events</th>
+              <th>Signing secret</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {webhooks.length > 0 ? (
+              webhooks.map((webhook) => (
+                <WebhookRow key={webhook._id} webhook={webhook} />
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4}>No webhooks</td>
+              </tr>
+            )}
+          </tbody>
+        </StyledTable>
+      </section>
+
+      <section>
+        <h2>Recent deliveries</h2>
+        <FormText>Deliveries are kept for 30 days.</FormText>
+        <StyledTable responsive size="sm">
+          <thead>
+            <tr>
+              <th>Queued</th>
+              <th>Webhook</th>
+              <th>Event</th>
+              <th>State</th>
+              <th>Attempts</th>
+              <th>Last response</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map((delivery) => (
+              <DeliveryRow
+                key={delivery._id}
+                delivery={delivery}
+                webhookUrl={webhookUrls.get(delivery.webhook)}
+              />
+            ))}
+          </tbody>
+        </StyledTable>
+      </section>
+    </div>
+  );
+};
+
+export default WebhooksPage;
@@ -0,0 +1,49 @@
+import addPushSubscription from "../methods/addPushSubscription";
+
+const SERVICE_WORKER_PATH = "/push-service-worker.js";
+
+export const webPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window;
+
+// VAPID keys are URL-safe base64, but the Push API wants raw bytes
+function decodeApplicationServerKey(key: string): Uint8Array<ArrayBuffer> {
+  const base64 = (key + "=".repeat((4 - (key.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export async function currentPushSubscription(): Promise<
+  PushSubscription | undefined
+> {
+  if (!webPushSupported()) {
+    return undefined;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? undefined;
+}
+
+export async function subscribeToPush(publicKey: string): Promise<string> {
+  const registration =
+    await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  await navigator.serviceWorker.ready;
+
+  // A subscription made with a different key (e.g. before the server's keys
+  // were regenerated) can't be reused
+  const existing = await registration.pushManager.getSubscription();
+  await existing?.unsubscribe();
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeApplicationServerKey(publicKey),
+  });
+  const { keys } = subscription.toJSON();
+  await addPushSubscription.callPromise({
+    endpoint: subscription.endpoint,
+    p256dh: keys!.p256dh!,
+    auth: keys!.auth!,
+    userAgent: navigator.userAgent,
+  });
+  return subscription.endpoint;
+}
@@ -0,0 +1,109 @@
+import type { ActivityRollupType } from "./models/ActivityRollups";
+import roundedTime from "./roundedTime";
+
+export type ActivityKind = "call" | "chat" | "document";
+
+export type ActivityRecord = {
+  puzzle: string;
+  user?: string;
+  // Rounded to ACTIVITY_GRANULARITY
+  ts: Date;
+  kind: ActivityKind;
+};
+
+export type ActivityRollupCounts = Pick<
+  ActivityRollupType,
+  "activeMinutes" | "callMinutes" | "chatMinutes" | "documentMinutes"
+>;
+
+export type ActivityRollupRow = {
+  puzzle: string;
+  user?: string;
+  ts: Date;
+} & ActivityRollupCounts;
+
+function rowKey(puzzle: string, user: string | undefined, ts: Date) {
+  return `${puzzle}/${user ?? ""}/${ts.getTime()}`;
+}
+
+// Groups raw activity records into periods of periodMs, counting for each
+// puzzle and user how many activity buckets (of bucketMs) they were active in.
+export function rollUpActivity(
+  records: ActivityRecord[],
+  periodMs: number,
+  bucketMs: number,
+): ActivityRollupRow[] {
+  const groups = new Map<
+    string,
+    {
+      puzzle: string;
+      user?: string;
+      ts: Date;
+      buckets: Record<ActivityKind | "active", Set<number>>;
+    }
+  >();
+  for (const { puzzle, user, ts, kind } of records) {
+    const period = roundedTime(periodMs, ts);
+    const key = rowKey(puzzle, user, period);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        puzzle,
+        user,
+        ts: period,
+        buckets: {
+          active: new Set(),
+          call: new Set(),
+          chat: new Set(),
+          document: new Set(),
+        },
+      };
+      groups.set(key, group);
+    }
+    group.buckets[kind].add(ts.getTime());
+    group.buckets.active.add(ts.getTime());
+  }
+
+  const minutes = (buckets: Set<number>) =>
+    (buckets.size * bucketMs) / (60 * 1000);
+  return [...groups.values()].map(({ puzzle, user, ts, buckets }) => ({
+    puzzle,
+    user,
+    ts,
+    activeMinutes: minutes(buckets.active),
+    callMinutes: minutes(buckets.call),
+    chatMinutes: minutes(buckets.chat),
+    documentMinutes: minutes(buckets.document),
+  }));
+}
+
+// Combines rollups into coarser periods of periodMs. Since finer periods don't
+// overlap, their counts can simply be summed.
+export function sumActivityRollups(
+  rows: ActivityRollupRow[],
+  periodMs: number,
+): ActivityRollupRow[] {
+  const sums = new Map<string, ActivityRollupRow>();
+  for (const row of rows) {
+    const ts = roundedTime(periodMs, row.ts);
+    const key = rowKey(row.puzzle, row.user, ts);
+    const sum = sums.get(key);
+    if (sum) {
+      sum.activeMinutes += row.activeMinutes;
+      sum.callMinutes += row.callMinutes;
+      sum.chatMinutes += row.chatMinutes;
+      sum.documentMinutes += row.documentMinutes;
+    } else {
+      sums.set(key, {
+        puzzle: row.puzzle,
+        user: row.user,
+        ts,
+        activeMinutes: row.activeMinutes,
+        callMinutes: row.callMinutes,
+        chatMinutes: row.chatMinutes,
+        documentMinutes: row.documentMinutes,
+      });
+    }
+  }
+  return [...sums.values()];
+}
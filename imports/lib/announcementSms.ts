@@ -0,0 +1,18 @@
+// Longer texts get split across several SMS segments, which some phones
+// reassemble badly, so we keep announcements to a short digest and link to the
+// full text
+export const ANNOUNCEMENT_SMS_MAX_LENGTH = 300;
+
+export default function announcementSmsText(
+  huntName: string,
+  message: string,
+  url: string,
+): string {
+  const prefix = `[${huntName}] `;
+  const suffix = `\n${url}`;
+  const room = ANNOUNCEMENT_SMS_MAX_LENGTH - prefix.length - suffix.length;
+  const text = message.replace(/\s+/g, " ").trim();
+  const digest =
+    text.length > room ? `${text.slice(0, Math.max(room - 1, 0))}…` : text;
+  return `${prefix}${digest}${suffix}`;
+}
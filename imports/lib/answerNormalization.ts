@@ -0,0 +1,38 @@
+import type { AnswerNormalizationRuleType } from "./models/Hunts";
+
+export const DEFAULT_ANSWER_NORMALIZATION: AnswerNormalizationRuleType[] = [
+  "whitespace",
+  "punctuation",
+];
+
+export function normalizeAnswer(
+  answer: string,
+  rules: AnswerNormalizationRuleType[] = DEFAULT_ANSWER_NORMALIZATION,
+): string {
+  let normalized = answer.toUpperCase();
+  if (rules.includes("diacritics")) {
+    normalized = normalized.normalize("NFD").replaceAll(/\p{M}/gu, "");
+  }
+  if (rules.includes("punctuation")) {
+    normalized = normalized.replaceAll(/[\p{P}\p{S}]/gu, "");
+  }
+  if (rules.includes("whitespace")) {
+    normalized = normalized.replaceAll(/\s/g, "");
+  }
+  return normalized;
+}
+
+// Find an earlier guess which is the same answer as `guess` under the given
+// rules. If there are several, prefer one that's known to be wrong, since
+// that's the most useful thing to tell the submitter.
+export function findDuplicateGuess<T extends { guess: string; state: string }>(
+  guess: string,
+  previousGuesses: T[],
+  rules: AnswerNormalizationRuleType[] = DEFAULT_ANSWER_NORMALIZATION,
+): T | undefined {
+  const normalized = normalizeAnswer(guess, rules);
+  const duplicates = previousGuesses.filter(
+    (g) => normalizeAnswer(g.guess, rules) === normalized,
+  );
+  return duplicates.find((g) => g.state === "incorrect") ?? duplicates[0];
+}
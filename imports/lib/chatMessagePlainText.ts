@@ -0,0 +1,31 @@
+import type { ChatMessageContentType } from "./models/ChatMessages";
+import nodeIsGroupMention from "./nodeIsGroupMention";
+import nodeIsImage from "./nodeIsImage";
+import nodeIsMention from "./nodeIsMention";
+import nodeIsRoleMention from "./nodeIsRoleMention";
+
+// Flattens a chat message for places that can't render it, like emails and
+// browser notifications
+export default function chatMessagePlainText(
+  content: ChatMessageContentType,
+  displayNames: Map<string, string>,
+  groupNames: Map<string, string> = new Map(),
+): string {
+  return content.children
+    .map((child) => {
+      if (nodeIsMention(child)) {
+        return `@${displayNames.get(child.userId) ?? child.userId}`;
+      }
+      if (nodeIsRoleMention(child)) {
+        return `@${child.roleId}`;
+      }
+      if (nodeIsGroupMention(child)) {
+        return `@${groupNames.get(child.groupId) ?? "group"}`;
+      }
+      if (nodeIsImage(child)) {
+        return "[image]";
+      }
+      return child.text;
+    })
+    .join("");
+}
@@ -1,5 +1,6 @@
 import type { Meteor } from "meteor/meteor";
 import type { ChatMessageType } from "./models/ChatMessages";
+import nodeIsGroupMention from "./nodeIsGroupMention";
 import nodeIsMention from "./nodeIsMention";
 import nodeIsRoleMention from "./nodeIsRoleMention";
 import nodeIsText from "./nodeIsText";
@@ -38,9 +39,11 @@ export function normalizedMessageDingsUserByDingword(
   });
 }
 
+// groupIds are the hunt groups that the user belongs to
 export function messageDingsUser(
   chatMessage: PartialChatMessageType,
   user: Meteor.User,
+  groupIds: string[] = [],
 ): boolean {
   if (chatMessage.sender === user._id || chatMessage.sender === undefined) {
     // You can never be dinged by yourself, nor by system messages.
@@ -70,5 +73,13 @@ export function messageDingsUser(
       }
     },
   );
-  return dingedByDingwords || dingedByMentions || dingedByRoleMentions;
+  const dingedByGroupMentions = (chatMessage.content?.children ?? []).some(
+    (child) => nodeIsGroupMention(child) && groupIds.includes(child.groupId),
+  );
+  return (
+    dingedByDingwords ||
+    dingedByMentions ||
+    dingedByRoleMentions ||
+    dingedByGroupMentions
+  );
 }
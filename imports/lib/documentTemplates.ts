@@ -0,0 +1,18 @@
+import type { GdriveMimeTypesType } from "./GdriveMimeTypes";
+import type { DocumentTemplateType } from "./models/Hunts";
+
+// Picks the hunt's template for a new document: one for a tag the puzzle has
+// beats one without a tag. Among equally specific templates, the first listed
+// wins. If the hunt has nothing suitable, returns undefined, and the
+// server-wide template (if any) should be used instead.
+export function pickDocumentTemplate(
+  templates: DocumentTemplateType[] | undefined,
+  type: GdriveMimeTypesType,
+  tagNames: string[],
+): DocumentTemplateType | undefined {
+  const candidates = (templates ?? []).filter((t) => t.type === type);
+  return (
+    candidates.find((t) => t.tag !== undefined && tagNames.includes(t.tag)) ??
+    candidates.find((t) => t.tag === undefined)
+  );
+}
@@ -0,0 +1,76 @@
+import type { GuessType } from "./models/Guesses";
+import type { GuessRateLimitType } from "./models/Hunts";
+
+type BudgetedGuess = Pick<
+  GuessType,
+  "puzzle" | "state" | "createdAt" | "updatedAt"
+>;
+
+// Guesses in these states were (presumably) submitted to the hunt, so they
+// count against the rate limit. Rejected guesses never made it that far.
+const submittedStates: GuessType["state"][] = [
+  "correct",
+  "incorrect",
+  "intermediate",
+];
+
+export interface GuessBudget {
+  limit: number;
+  used: number;
+  remaining: number;
+  // Guesses still waiting in the queue, which will use up budget once an
+  // operator submits them
+  pending: number;
+  // If the budget is used up, when the next guess can be submitted
+  availableAt: Date | undefined;
+}
+
+// We don't record when a guess was resolved, but updatedAt gets bumped when
+// the state changes, so it's a reasonable stand-in for when an operator
+// submitted the guess to the hunt.
+function submittedAt(guess: BudgetedGuess) {
+  return guess.updatedAt ?? guess.createdAt;
+}
+
+export function guessesSharingBudget<T extends BudgetedGuess>(
+  policy: GuessRateLimitType,
+  puzzleId: string,
+  guesses: T[],
+): T[] {
+  return policy.scope === "puzzle"
+    ? guesses.filter((g) => g.puzzle === puzzleId)
+    : guesses;
+}
+
+// `guesses` should be the guesses that share a budget (i.e. those for the
+// puzzle or for the whole hunt, depending on the policy's scope)
+export function guessBudget(
+  policy: GuessRateLimitType,
+  guesses: BudgetedGuess[],
+  now: Date = new Date(),
+): GuessBudget {
+  const windowMillis = policy.windowMinutes * 60 * 1000;
+  const windowStart = now.getTime() - windowMillis;
+  const submissionTimes = guesses
+    .filter((g) => submittedStates.includes(g.state))
+    .map((g) => submittedAt(g).getTime())
+    .filter((t) => t > windowStart)
+    .sort((a, b) => a - b);
+
+  const used = submissionTimes.length;
+  const remaining = Math.max(0, policy.limit - used);
+  // Once the budget is exhausted, enough of the submissions in the window need
+  // to age out to bring usage back below the limit
+  const availableAt =
+    remaining === 0
+      ? new Date(submissionTimes[used - policy.limit]! + windowMillis)
+      : undefined;
+
+  return {
+    limit: policy.limit,
+    used,
+    remaining,
+    pending: guesses.filter((g) => g.state === "pending").length,
+    availableAt,
+  };
+}
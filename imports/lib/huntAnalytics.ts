@@ -0,0 +1,77 @@
+export type PuzzleAnalyticsType = {
+  puzzle: string;
+  title: string;
+  // When the puzzle was added, which we treat as when it was unlocked
+  unlockedAt: Date;
+  // When the last of the puzzle's answers was marked correct, if it's solved
+  solvedAt?: Date;
+  guesses: number;
+  incorrectGuesses: number;
+  // Summed over every activity bucket of the number of hunters active in that
+  // bucket, times the length of a bucket
+  personMinutes: number;
+};
+
+export function timeToSolve(entry: PuzzleAnalyticsType): number | undefined {
+  return entry.solvedAt
+    ? entry.solvedAt.getTime() - entry.unlockedAt.getTime()
+    : undefined;
+}
+
+// Returns the running total of unlocked and solved puzzles at each point where
+// either one changes, in chronological order
+export function cumulativeProgress(entries: PuzzleAnalyticsType[]): {
+  ts: Date;
+  unlocked: number;
+  solved: number;
+}[] {
+  const events = entries.flatMap((entry) => [
+    { ts: entry.unlockedAt, unlocked: 1, solved: 0 },
+    ...(entry.solvedAt ? [{ ts: entry.solvedAt, unlocked: 0, solved: 1 }] : []),
+  ]);
+  events.sort((a, b) => a.ts.getTime() - b.ts.getTime());
+
+  let unlocked = 0;
+  let solved = 0;
+  return events.map((event) => {
+    unlocked += event.unlocked;
+    solved += event.solved;
+    return { ts: event.ts, unlocked, solved };
+  });
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function huntAnalyticsCsv(entries: PuzzleAnalyticsType[]): string {
+  const header = [
+    "Puzzle",
+    "Unlocked",
+    "Solved",
+    "Minutes to solve",
+    "Guesses",
+    "Incorrect guesses",
+    "Person-minutes",
+  ];
+  const rows = entries.map((entry) => {
+    const duration = timeToSolve(entry);
+    return [
+      entry.title,
+      entry.unlockedAt.toISOString(),
+      entry.solvedAt?.toISOString(),
+      duration !== undefined ? Math.round(duration / (60 * 1000)) : undefined,
+      entry.guesses,
+      entry.incorrectGuesses,
+      entry.personMinutes,
+    ];
+  });
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
@@ -0,0 +1,68 @@
+import type { HuntCapabilityType, HuntRoleType } from "./models/Hunts";
+
+// The parts of a hunt that decide what its members can do
+type HuntRoleSettings = {
+  customRoles?: HuntRoleType[];
+  memberCapabilities?: HuntCapabilityType[];
+};
+
+export const OPERATOR_ROLE = "operator";
+
+export const huntCapabilityLabels: Record<HuntCapabilityType, string> = {
+  submitGuesses: "Submit guesses and answers",
+  sendChatMessages: "Send chat messages",
+  writePuzzles: "Add and edit puzzles",
+  resolveGuesses: "Mark guesses correct or incorrect",
+  postAnnouncements: "Post announcements",
+  manageMembers: "Add hunters and manage the invitation link",
+  seeUserInfo: "See hunters' contact details and roles",
+  assignRoles: "Give hunters custom roles",
+  configureWebhooks: "Configure webhooks",
+};
+
+const allHuntCapabilities = Object.keys(
+  huntCapabilityLabels,
+) as HuntCapabilityType[];
+
+// What every member of a hunt can do if the hunt doesn't say otherwise
+export const defaultMemberCapabilities: HuntCapabilityType[] = [
+  "submitGuesses",
+  "sendChatMessages",
+];
+
+// Operators can do everything. Anyone else can do whatever their custom roles
+// allow, plus whatever the hunt lets every member do unless one of their roles
+// is restricted.
+export function huntCapabilitiesForRoles(
+  hunt: HuntRoleSettings,
+  roles: string[],
+): Set<HuntCapabilityType> {
+  if (roles.includes(OPERATOR_ROLE)) {
+    return new Set(allHuntCapabilities);
+  }
+
+  const held = (hunt.customRoles ?? []).filter((role) =>
+    roles.includes(role.id),
+  );
+  const capabilities = new Set(held.flatMap((role) => role.capabilities));
+  if (!held.some((role) => role.restricted)) {
+    (hunt.memberCapabilities ?? defaultMemberCapabilities).forEach((c) =>
+      capabilities.add(c),
+    );
+  }
+  return capabilities;
+}
+
+export function huntRoleIdFromName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Role ids that can be @-mentioned in the hunt's chat
+export function mentionableRolesForHunt(
+  hunt: HuntRoleSettings | null | undefined,
+): string[] {
+  return [OPERATOR_ROLE, ...(hunt?.customRoles ?? []).map((role) => role.id)];
+}
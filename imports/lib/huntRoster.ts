@@ -0,0 +1,30 @@
+import type { PuzzleType } from "./models/Puzzles";
+import { computeSolvedness } from "./solvedness";
+
+export type HuntRosterEntryType = {
+  user: string;
+  // The puzzles the hunter currently has open
+  viewing: string[];
+  // The last time we saw the hunter chat, talk, or edit a document, if it was
+  // recent enough for us to still have a record of it
+  lastActive?: Date;
+};
+
+// How long an unsolved puzzle can go without anyone assigned to it before we
+// call it out
+export const UNATTENDED_PUZZLE_THRESHOLD = 60 * 60 * 1000; // milliseconds
+
+export function isUnattendedPuzzle(
+  puzzle: Pick<
+    PuzzleType,
+    "answers" | "expectedAnswerCount" | "assignees" | "createdAt" | "deleted"
+  >,
+  now: number,
+): boolean {
+  return (
+    !puzzle.deleted &&
+    computeSolvedness(puzzle) === "unsolved" &&
+    (puzzle.assignees ?? []).length === 0 &&
+    now - puzzle.createdAt.getTime() >= UNATTENDED_PUZZLE_THRESHOLD
+  );
+}
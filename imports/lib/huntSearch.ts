@@ -0,0 +1,95 @@
+export type HuntSearchResultKind =
+  | "puzzle"
+  | "chatMessage"
+  | "guess"
+  | "announcement";
+
+export type HuntSearchResultType = {
+  kind: HuntSearchResultKind;
+  // The ID of the matching document (of whichever kind)
+  _id: string;
+  // The puzzle the match belongs to (absent for announcements)
+  puzzle?: string;
+  // The text that matched: a puzzle's title, a chat message or announcement's
+  // text, or a guess
+  text: string;
+  // Who sent the message or made the guess or announcement
+  user?: string;
+  timestamp: Date;
+  score: number;
+};
+
+export type SearchField = {
+  text: string;
+  weight: number;
+};
+
+// Splits a query into terms on whitespace, treating anything in double quotes
+// as a single phrase.
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2] ?? "").trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+export function searchTermRegExp(term: string): RegExp {
+  return new RegExp(term.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+}
+
+// How well a single term matches some text: a whole word (or phrase) beats
+// the start of a word, which beats appearing anywhere.
+function termMatchQuality(term: string, text: string): number {
+  const lower = text.toLowerCase();
+  const index = lower.indexOf(term);
+  if (index === -1) {
+    return 0;
+  }
+
+  const isBoundary = (c: string | undefined) => !c || !/[\p{L}\p{N}]/u.test(c);
+  let best = 1;
+  for (let i = index; i !== -1; i = lower.indexOf(term, i + 1)) {
+    if (isBoundary(lower[i - 1])) {
+      if (isBoundary(lower[i + term.length])) {
+        return 3;
+      }
+      best = 2;
+    }
+  }
+  return best;
+}
+
+// Scores a document against the search terms, given its searchable fields.
+// Every term must appear in at least one field; if any doesn't, the document
+// doesn't match and we return undefined.
+export function scoreSearchMatch(
+  terms: string[],
+  fields: SearchField[],
+): number | undefined {
+  let score = 0;
+  for (const term of terms) {
+    const best = Math.max(
+      0,
+      ...fields.map(
+        ({ text, weight }) => weight * termMatchQuality(term, text),
+      ),
+    );
+    if (best === 0) {
+      return undefined;
+    }
+    score += best;
+  }
+  return score;
+}
+
+// Best matches first, breaking ties in favor of more recent results
+export function compareSearchResults(
+  a: HuntSearchResultType,
+  b: HuntSearchResultType,
+): number {
+  return b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime();
+}
@@ -0,0 +1,73 @@
+import type { PuzzleType } from "./models/Puzzles";
+import { computeSolvedness } from "./solvedness";
+
+export interface MetaProgress {
+  meta: PuzzleType;
+  // Feeders that still exist, in the order the meta lists them.
+  feeders: PuzzleType[];
+  solvedFeeders: PuzzleType[];
+  unsolvedFeeders: PuzzleType[];
+}
+
+export function isMeta(puzzle: PuzzleType): boolean {
+  return puzzle.feeders !== undefined;
+}
+
+export function metaProgress(
+  meta: PuzzleType,
+  puzzlesById: Map<string, PuzzleType>,
+): MetaProgress {
+  // Feeders may reference puzzles which have since been deleted (and so
+  // aren't in puzzlesById); skip them.
+  const feeders = (meta.feeders ?? [])
+    .map((id) => puzzlesById.get(id))
+    .filter<PuzzleType>((p): p is PuzzleType => p !== undefined);
+  const solvedFeeders = feeders.filter(
+    (p) => computeSolvedness(p) !== "unsolved",
+  );
+  const unsolvedFeeders = feeders.filter(
+    (p) => computeSolvedness(p) === "unsolved",
+  );
+  return { meta, feeders, solvedFeeders, unsolvedFeeders };
+}
+
+// Returns the metas which the given puzzle feeds into.
+export function metasForPuzzle(
+  puzzleId: string,
+  allPuzzles: PuzzleType[],
+): PuzzleType[] {
+  return allPuzzles.filter((p) => p.feeders?.includes(puzzleId));
+}
+
+function fractionSolved(progress: MetaProgress): number {
+  if (progress.feeders.length === 0) {
+    return 0;
+  }
+  return progress.solvedFeeders.length / progress.feeders.length;
+}
+
+// Returns progress for every meta in allPuzzles. Unsolved metas come first,
+// ordered by how close they are to being solvable: the largest fraction of
+// feeders solved, then the fewest feeders remaining. Solved metas sort last.
+export function metasByReadiness(allPuzzles: PuzzleType[]): MetaProgress[] {
+  const puzzlesById = new Map(allPuzzles.map((p) => [p._id, p]));
+  const progress = allPuzzles
+    .filter(isMeta)
+    .map((meta) => metaProgress(meta, puzzlesById));
+  return progress.sort((a, b) => {
+    const aSolved = computeSolvedness(a.meta) !== "unsolved";
+    const bSolved = computeSolvedness(b.meta) !== "unsolved";
+    if (aSolved !== bSolved) {
+      return aSolved ? 1 : -1;
+    }
+    const fa = fractionSolved(a);
+    const fb = fractionSolved(b);
+    if (fa !== fb) {
+      return fb - fa;
+    }
+    if (a.unsolvedFeeders.length !== b.unsolvedFeeders.length) {
+      return a.unsolvedFeeders.length - b.unsolvedFeeders.length;
+    }
+    return a.meta.createdAt.getTime() - b.meta.createdAt.getTime();
+  });
+}
@@ -4,11 +4,27 @@ import type { ModelType } from "./Model";
 import SoftDeletedModel from "./SoftDeletedModel";
 import withCommon from "./withCommon";
 
+// Scopes limit which REST API calls a key may make. "read" covers every GET
+// request; the remaining scopes each unlock a class of writes.
+export const APIKeyScopes = z.enum([
+  "read",
+  "puzzle-write",
+  "guess-submit",
+  "guess-resolve",
+  "announce",
+]);
+export type APIKeyScopeType = z.infer<typeof APIKeyScopes>;
+
 const APIKey = withCommon(
   z.object({
     user: foreignKey,
     key: z.string().regex(/^[A-Za-z0-9]{32}$/),
     lastUsedAt: z.date().optional(),
+    // If present, the key may only be used against these hunts. If absent, the
+    // key may be used against any hunt its user is a member of.
+    hunts: foreignKey.array().optional(),
+    scopes: APIKeyScopes.array(),
+    expiresAt: z.date().optional(),
   }),
 );
 
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { foreignKey } from "./customTypes";
+import type { ModelType } from "./Model";
+import Model from "./Model";
+
+export const ActivityRollupGranularities = z.enum(["hour", "day"]);
+export type ActivityRollupGranularityType = z.infer<
+  typeof ActivityRollupGranularities
+>;
+
+/* ActivityRollup doesn't inherit from Base because it's created by the server,
+   not by users */
+export const ActivityRollup = z.object({
+  hunt: foreignKey,
+  puzzle: foreignKey,
+  // As with DocumentActivities, user is undefined for document edits we
+  // couldn't attribute to anyone
+  user: foreignKey.optional(),
+  granularity: ActivityRollupGranularities,
+  // The start of the hour or (UTC) day
+  ts: z.date(),
+  // How long the user was active on the puzzle during the period, in any way
+  // and broken down by how. Each is a multiple of ACTIVITY_GRANULARITY, so the
+  // breakdown can add up to more than the total.
+  activeMinutes: z.number().nonnegative(),
+  callMinutes: z.number().nonnegative(),
+  chatMinutes: z.number().nonnegative(),
+  documentMinutes: z.number().nonnegative(),
+});
+
+const ActivityRollups = new Model("jr_activity_rollups", ActivityRollup);
+ActivityRollups.addIndex({ hunt: 1, granularity: 1, ts: 1 });
+export type ActivityRollupType = ModelType<typeof ActivityRollups>;
+
+export default ActivityRollups;
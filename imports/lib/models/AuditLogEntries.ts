@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { foreignKey, nonEmptyString } from "./customTypes";
+import type { ModelType } from "./Model";
+import Model from "./Model";
+import withTimestamps from "./withTimestamps";
+
+// Each of these is named after the method that records it
+export const AuditLogActions = z.enum([
+  "promoteOperator",
+  "demoteOperator",
+  "setUserHuntRoles",
+  "configureHuntRoles",
+  "generateHuntInvitationCode",
+  "clearHuntInvitationCode",
+  "setGuessState",
+  "destroyPuzzle",
+  "undestroyPuzzle",
+  "mergePuzzle",
+  "destroyGuess",
+  "undestroyGuess",
+  "destroyAnnouncement",
+  "undestroyAnnouncement",
+  "destroyTag",
+  "undestroyTag",
+  "updateHunt",
+  "destroyHunt",
+  "undestroyHunt",
+  "setFeatureFlag",
+  "configureClearGdriveCreds",
+  "configureCollectGoogleAccountIds",
+  "configureDiscordBot",
+  "configureDiscordBotGuild",
+  "configureDiscordOAuthClient",
+  "configureEmailBranding",
+  "configureEnsureGoogleScript",
+  "configureEtherpad",
+  "configureGdriveCreds",
+  "configureGdriveRoot",
+  "configureGdriveTemplates",
+  "configureGoogleOAuthClient",
+  "configureGoogleScriptUrl",
+  "configureOrganizeGoogleDrive",
+  "configureS3ImageBucket",
+  "configureTeamName",
+  "configureWebPush",
+]);
+export type AuditLogActionType = z.infer<typeof AuditLogActions>;
+
+/* AuditLogEntries don't inherit from Base because they're append-only and
+   written by the server on behalf of whoever performed the action */
+const AuditLogEntry = withTimestamps(
+  z.object({
+    // Who performed the action
+    user: foreignKey,
+    // Unset for actions that affect the whole server, like settings and feature
+    // flags
+    hunt: foreignKey.optional(),
+    action: AuditLogActions,
+    // What the action was performed on. We keep a description (e.g. the
+    // puzzle's title or hunter's name) as of when the action happened, so the
+    // log still makes sense after things are renamed or deleted.
+    subjectId: nonEmptyString.optional(),
+    subject: nonEmptyString.optional(),
+    // Anything else worth knowing, like a guess's new state. Never includes
+    // credentials or other secrets.
+    details: nonEmptyString.optional(),
+  }),
+);
+
+const AuditLogEntries = new Model("jr_audit_log_entries", AuditLogEntry);
+AuditLogEntries.addIndex({ createdAt: -1 });
+AuditLogEntries.addIndex({ hunt: 1, createdAt: -1 });
+export type AuditLogEntryType = ModelType<typeof AuditLogEntries>;
+
+export default AuditLogEntries;
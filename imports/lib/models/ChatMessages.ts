@@ -1,5 +1,6 @@
+import { Match } from "meteor/check";
 import { z } from "zod";
-import { allowedEmptyString, foreignKey } from "./customTypes";
+import { allowedEmptyString, foreignKey, nonEmptyString } from "./customTypes";
 import type { ModelType } from "./Model";
 import SoftDeletedModel from "./SoftDeletedModel";
 import withCommon from "./withCommon";
@@ -12,10 +13,17 @@ export type ChatMessageMentionNodeType = z.infer<typeof UserMentionBlock>;
 
 const RoleMentionBlock = z.object({
   type: z.literal("role-mention"),
-  roleId: z.literal("operator"), // expand this into a union if we add more roles
+  // "operator", or the id of one of the hunt's custom roles
+  roleId: nonEmptyString,
 });
 export type ChatMessageRoleMentionNodeType = z.infer<typeof RoleMentionBlock>;
 
+const GroupMentionBlock = z.object({
+  type: z.literal("group-mention"),
+  groupId: foreignKey,
+});
+export type ChatMessageGroupMentionNodeType = z.infer<typeof GroupMentionBlock>;
+
 const ImageBlock = z.object({
   type: z.literal("image"),
   url: z.string().url(),
@@ -30,6 +38,7 @@ export type ChatMessageTextNodeType = z.infer<typeof TextBlock>;
 const ContentNode = z.union([
   UserMentionBlock,
   RoleMentionBlock,
+  GroupMentionBlock,
   ImageBlock,
   TextBlock,
 ]);
@@ -41,6 +50,48 @@ export const ChatMessageContent = z.object({
 });
 export type ChatMessageContentType = z.infer<typeof ChatMessageContent>;
 
+// The shape of message content accepted from clients (which send it as a
+// JSON-encoded string)
+export const ChatMessageContentPattern = {
+  type: "message" as const,
+  children: [
+    Match.OneOf(
+      {
+        type: "mention" as const,
+        userId: String,
+      },
+      {
+        type: "role-mention" as const,
+        roleId: String,
+      },
+      {
+        type: "group-mention" as const,
+        groupId: String,
+      },
+      {
+        type: "image" as const,
+        url: String,
+      },
+      {
+        text: String,
+      },
+    ),
+  ],
+};
+
+// The emoji that users can react to chat messages with
+export const ChatReactions = z.enum([
+  "👍",
+  "✅",
+  "👀",
+  "🎉",
+  "❤️",
+  "😂",
+  "❓",
+  "❌",
+]);
+export type ChatReactionType = z.infer<typeof ChatReactions>;
+
 export function contentFromMessage(msg: string): ChatMessageContentType {
   return {
     type: "message" as const,
@@ -59,6 +110,24 @@ const ChatMessage = withCommon(
     sender: foreignKey.optional(),
     // The date this message was sent.  Used for ordering chats in the log.
     timestamp: z.date(),
+    // If present, the message this one is a reply to (which will be in the
+    // same puzzle's chat)
+    parent: foreignKey.optional(),
+    // If the sender has edited this message, when they last did so
+    editedAt: z.date().optional(),
+    // Previous versions of an edited message, oldest first, along with when
+    // each was written. Only published to operators.
+    history: z
+      .object({
+        content: ChatMessageContent,
+        timestamp: z.date(),
+      })
+      .array()
+      .optional(),
+    // Users who have reacted to this message, keyed by reaction. Keys aren't
+    // limited to ChatReactions so that retiring a reaction doesn't invalidate
+    // old messages.
+    reactions: z.record(z.string(), foreignKey.array()).optional(),
   }),
 );
 const ChatMessages = new SoftDeletedModel("jr_chatmessages", ChatMessage);
@@ -19,7 +19,7 @@ const DocumentActivities = new Model(
   "jr_document_activities",
   DocumentActivity,
 );
-DocumentActivities.addIndex({ hunt: 1 });
+DocumentActivities.addIndex({ hunt: 1, ts: 1 });
 DocumentActivities.addIndex(
   {
     document: 1,
@@ -9,17 +9,29 @@ const DocumentSchema = withCommon(
     .object({
       hunt: foreignKey,
       puzzle: foreignKey,
+      // A puzzle's first document is its main one and has no title. Any added
+      // later are named by whoever added them.
+      title: nonEmptyString.optional(),
     })
     .and(
       z.discriminatedUnion("provider", [
         z.object({
           provider: z.literal("google"),
           value: z.object({
-            type: z.enum(["spreadsheet", "document"]),
+            type: z.enum(["spreadsheet", "document", "drawing"]),
             id: nonEmptyString,
             folder: nonEmptyString.optional(),
           }),
         }),
+        z.object({
+          provider: z.literal("etherpad"),
+          value: z.object({
+            // The pad's ID on the Etherpad server
+            id: nonEmptyString,
+            // Where the pad can be opened or embedded
+            url: z.string().url(),
+          }),
+        }),
       ]),
     ),
 );
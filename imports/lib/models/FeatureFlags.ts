@@ -6,10 +6,12 @@ import withCommon from "./withCommon";
 export const FlagNames = [
   "disable.dingwords",
   "disable.discord",
+  "disable.etherpad",
   "disable.gdrive_document_activity",
   "disable.gdrive_permissions",
   "disable.google",
   "disable.spectra",
+  "disable.webpush",
   "disable.webrtc",
   "test",
 ] as const;
@@ -39,6 +39,10 @@ const Guess = withCommon(
     // additional information received from the puzzle (e.g. for an intermediate
     // instruction) or why a guess was rejected.
     additionalNotes: nonEmptyString.optional(),
+    // If this guess normalizes (according to the hunt's answer normalization
+    // rules) to the same answer as an earlier guess for this puzzle, the ID of
+    // that guess.
+    duplicateOf: foreignKey.optional(),
   }),
 );
 
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { foreignKey, nonEmptyString } from "./customTypes";
+import { SavedDiscordObjectFields } from "./Hunts";
+import type { ModelType } from "./Model";
+import SoftDeletedModel from "./SoftDeletedModel";
+import withCommon from "./withCommon";
+
+// A named sub-team within a hunt (e.g. on-campus and remote solvers, or the
+// people working a particular round) that hunters can join themselves.
+const HuntGroup = withCommon(
+  z.object({
+    hunt: foreignKey,
+    name: nonEmptyString,
+    members: foreignKey.array().default([]),
+    // Members who have linked their Discord account are added to this role
+    discordRole: SavedDiscordObjectFields.optional(),
+    // Puzzles with any of these tags are shown when filtering the puzzle list
+    // by this group
+    tags: foreignKey.array().default([]),
+  }),
+);
+
+const HuntGroups = new SoftDeletedModel("jr_hunt_groups", HuntGroup);
+HuntGroups.addIndex({ deleted: 1, hunt: 1 });
+HuntGroups.addIndex({ members: 1 });
+export type HuntGroupType = ModelType<typeof HuntGroups>;
+
+export default HuntGroups;
@@ -12,6 +12,82 @@ export const SavedDiscordObjectFields = z.object({
 
 export type SavedDiscordObjectType = z.infer<typeof SavedDiscordObjectFields>;
 
+// Ways in which two guesses can differ and still be considered the same answer.
+// (Guesses are always upper-cased, so case never matters.)
+export const AnswerNormalizationRules = z.enum([
+  "whitespace",
+  "punctuation",
+  "diacritics",
+]);
+export type AnswerNormalizationRuleType = z.infer<
+  typeof AnswerNormalizationRules
+>;
+
+// What to do with a guess that normalizes to the same answer as an earlier
+// guess for the same puzzle: "flag" accepts it but marks it as a duplicate in
+// the guess queue, "reject" refuses to submit it at all.
+export const DuplicateGuessPolicies = z.enum(["flag", "reject"]);
+export type DuplicateGuessPolicyType = z.infer<typeof DuplicateGuessPolicies>;
+
+// Where collaborative documents for the hunt's puzzles are created: Google
+// Drive, or a self-hosted Etherpad server (configured on the setup page)
+export const DocumentProviders = z.enum(["google", "etherpad"]);
+export type DocumentProviderType = z.infer<typeof DocumentProviders>;
+
+// A Google Drive file to copy when creating a puzzle's document of the given
+// type, instead of the server-wide template. If a tag is given, the template
+// only applies to puzzles with that tag (matched by name).
+export const DocumentTemplateTypes = z.enum([
+  "spreadsheet",
+  "document",
+  "drawing",
+]);
+export const DocumentTemplate = z.object({
+  tag: nonEmptyString.optional(),
+  type: DocumentTemplateTypes,
+  id: nonEmptyString,
+});
+export type DocumentTemplateType = z.infer<typeof DocumentTemplate>;
+
+// A limit on how many guesses the hunt will accept within a sliding window,
+// either for each puzzle separately or across the whole hunt.
+export const GuessRateLimitScopes = z.enum(["puzzle", "hunt"]);
+export const GuessRateLimit = z.object({
+  scope: GuessRateLimitScopes,
+  limit: z.number().int().positive(),
+  windowMinutes: z.number().int().positive(),
+});
+export type GuessRateLimitType = z.infer<typeof GuessRateLimit>;
+
+// Things members of a hunt can be allowed to do. Operators can do all of them;
+// everyone else gets the ones the hunt gives every member, plus those granted
+// by their custom roles (see imports/lib/huntRoles.ts).
+export const HuntCapabilities = z.enum([
+  "submitGuesses",
+  "sendChatMessages",
+  "writePuzzles",
+  "resolveGuesses",
+  "postAnnouncements",
+  "manageMembers",
+  "seeUserInfo",
+  "assignRoles",
+  "configureWebhooks",
+]);
+export type HuntCapabilityType = z.infer<typeof HuntCapabilities>;
+
+// A custom per-hunt role, like "puzzle adder" or "observer". Users hold roles
+// by id, in the same roles.<huntId> list as "operator", and the id is also
+// what's used to @-mention everyone holding the role in chat.
+export const HuntRole = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/),
+  name: nonEmptyString,
+  capabilities: HuntCapabilities.array(),
+  // If true, members with this role don't get the capabilities the hunt gives
+  // every member, only those granted by their roles.
+  restricted: z.boolean().optional(),
+});
+export type HuntRoleType = z.infer<typeof HuntRole>;
+
 const EditableHunt = z.object({
   name: nonEmptyString,
   // Everyone that joins the hunt will be added to these mailing lists
@@ -34,6 +110,19 @@ const EditableHunt = z.object({
   // (https://nodejs.org/api/url.html#url_class_url), which provides variables
   // like "host" and "pathname".
   submitTemplate: nonEmptyString.optional(),
+  // Rules used to decide whether two guesses are the same answer. If not
+  // provided, whitespace and punctuation are ignored.
+  answerNormalization: AnswerNormalizationRules.array().optional(),
+  // If not provided, duplicate guesses are flagged.
+  duplicateGuessPolicy: DuplicateGuessPolicies.optional(),
+  // If provided, the hunt's limit on guess submissions. This isn't enforced,
+  // but the budget is shown to solvers and operators.
+  guessRateLimit: GuessRateLimit.optional(),
+  // If not provided, puzzle documents are created in Google Drive.
+  documentProvider: DocumentProviders.optional(),
+  // Templates for puzzle documents, which take precedence over the server-wide
+  // ones.
+  documentTemplates: DocumentTemplate.array().optional(),
   // If provided, then this is a link to the overall root hunt homepage and will
   // be shown in the PuzzleListPage navbar.
   homepageUrl: nonEmptyString.url().optional(),
@@ -49,11 +138,24 @@ const EditableHunt = z.object({
   // If provided, then members of the hunt who have also linked their Discord
   // profile will be added to this role.
   memberDiscordRole: SavedDiscordObjectFields.optional(),
+  // If provided, deleted puzzles, guesses, announcements and tags are removed
+  // for good this many days after they were deleted. Otherwise they can be
+  // restored from the hunt's trash indefinitely.
+  purgeDeletedAfterDays: z.number().int().positive().optional(),
 });
 export type EditableHuntType = z.infer<typeof EditableHunt>;
-const Hunt = withCommon(EditableHunt);
+const Hunt = withCommon(
+  EditableHunt.extend({
+    // Roles and member capabilities are managed from the hunters page rather
+    // than with the rest of the hunt's settings (and so aren't part of
+    // EditableHunt).
+    customRoles: HuntRole.array().optional(),
+    // If not provided, members can submit guesses and send chat messages.
+    memberCapabilities: HuntCapabilities.array().optional(),
+  }),
+);
 
-const SavedDiscordObjectPattern = {
+export const SavedDiscordObjectPattern = {
   id: String,
   name: String,
 };
@@ -66,11 +168,31 @@ export const HuntPattern = {
   hasGuessQueue: Boolean,
   termsOfUse: Match.Optional(String),
   submitTemplate: Match.Optional(String),
+  answerNormalization: Match.Optional([
+    Match.OneOf(...AnswerNormalizationRules.options),
+  ]),
+  duplicateGuessPolicy: Match.Optional(
+    Match.OneOf(...DuplicateGuessPolicies.options),
+  ),
+  guessRateLimit: Match.Optional({
+    scope: Match.OneOf(...GuessRateLimitScopes.options),
+    limit: Match.Integer,
+    windowMinutes: Match.Integer,
+  }),
+  documentProvider: Match.Optional(Match.OneOf(...DocumentProviders.options)),
+  documentTemplates: Match.Optional([
+    {
+      tag: Match.Optional(String),
+      type: Match.OneOf(...DocumentTemplateTypes.options),
+      id: String,
+    },
+  ]),
   homepageUrl: Match.Optional(String),
   announcementDiscordChannel: Match.Optional(SavedDiscordObjectPattern),
   puzzleHooksDiscordChannel: Match.Optional(SavedDiscordObjectPattern),
   firehoseDiscordChannel: Match.Optional(SavedDiscordObjectPattern),
   memberDiscordRole: Match.Optional(SavedDiscordObjectPattern),
+  purgeDeletedAfterDays: Match.Optional(Match.Integer),
 };
 
 const Hunts = new SoftDeletedModel("jr_hunts", Hunt);
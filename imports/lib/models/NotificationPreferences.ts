@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { nonEmptyString } from "./customTypes";
+
+export const NotificationTypes = z.enum([
+  "guess",
+  "announcement",
+  "discordLink",
+  "chat",
+  "bookmark",
+]);
+export type NotificationType = z.infer<typeof NotificationTypes>;
+
+export const NotificationDeliveries = z.enum([
+  "toast",
+  "browser",
+  "email",
+  "off",
+]);
+export type NotificationDeliveryType = z.infer<typeof NotificationDeliveries>;
+
+// Announcements can also be sent outside of Jolly Roger entirely. Hunters opt
+// into these per hunt, since they're only wanted for the hunts you're actively
+// playing (see announcementChannels on users).
+export const AnnouncementChannels = z.enum(["email", "sms"]);
+export type AnnouncementChannelType = z.infer<typeof AnnouncementChannels>;
+
+// Start and end are minutes after midnight in the given time zone. If end is
+// before start, quiet hours run overnight.
+const QuietHours = z.object({
+  start: z.number().int().min(0).max(1439),
+  end: z.number().int().min(0).max(1439),
+  timeZone: nonEmptyString,
+});
+
+export type QuietHoursType = z.output<typeof QuietHours>;
+
+// Types without a delivery set use the default for that type (see
+// imports/lib/notificationPreferences.ts)
+const NotificationPreferences = z.object({
+  guess: NotificationDeliveries.optional(),
+  announcement: NotificationDeliveries.optional(),
+  discordLink: NotificationDeliveries.optional(),
+  chat: NotificationDeliveries.optional(),
+  bookmark: NotificationDeliveries.optional(),
+  quietHours: QuietHours.optional(),
+});
+
+export type NotificationPreferencesType = z.output<
+  typeof NotificationPreferences
+>;
+
+export default NotificationPreferences;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { foreignKey, nonEmptyString } from "./customTypes";
+import type { ModelType } from "./Model";
+import SoftDeletedModel from "./SoftDeletedModel";
+import withCommon from "./withCommon";
+
+// A browser (on a particular device) that has subscribed to Web Push
+// notifications for a user. The endpoint and keys come from the browser's
+// PushSubscription and are what we need to encrypt and deliver a push to it.
+const PushSubscription = withCommon(
+  z.object({
+    user: foreignKey,
+    endpoint: z.string().url(),
+    p256dh: nonEmptyString,
+    auth: nonEmptyString,
+    // Only used to help users tell their devices apart
+    userAgent: nonEmptyString.optional(),
+  }),
+);
+
+const PushSubscriptions = new SoftDeletedModel(
+  "jr_push_subscriptions",
+  PushSubscription,
+);
+PushSubscriptions.addIndex({ endpoint: 1 }, { unique: true });
+PushSubscriptions.addIndex({ user: 1 });
+export type PushSubscriptionType = ModelType<typeof PushSubscriptions>;
+
+export default PushSubscriptions;
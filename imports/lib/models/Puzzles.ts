@@ -15,6 +15,18 @@ attachCustomJsonSchema(tagList, {
   uniqueItems: true,
 });
 
+// Where solving stands on a puzzle, as reported by the people working on it.
+// This is separate from solvedness, which comes from the puzzle's answers.
+export const PuzzleStatuses = z.enum([
+  "new",
+  "inProgress",
+  "needsEyes",
+  "stuck",
+  "needsExtraction",
+  "backsolving",
+]);
+export type PuzzleStatusType = z.infer<typeof PuzzleStatuses>;
+
 const Puzzle = withCommon(
   z.object({
     hunt: foreignKey,
@@ -24,6 +36,20 @@ const Puzzle = withCommon(
     answers: answer.array(),
     expectedAnswerCount: z.number().int().nonnegative(),
     replacedBy: foreignKey.optional(),
+    // Set on a deleted puzzle whose chat, guesses, bookmarks and documents
+    // were moved to replacedBy, so there's nothing left to see here
+    merged: z.boolean().optional(),
+    // Present only on metas: the puzzles whose answers feed into this one. A
+    // meta whose feeders aren't known yet has an empty list.
+    feeders: foreignKey.array().optional(),
+    // If not provided, the puzzle is "new"
+    status: PuzzleStatuses.optional(),
+    // A short explanation to go with the status, like what's needed to get
+    // unstuck
+    statusNote: nonEmptyString.optional(),
+    // The hunters who have been asked to (or have volunteered to) work on the
+    // puzzle
+    assignees: foreignKey.array().optional(),
   }),
 );
 
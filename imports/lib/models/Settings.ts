@@ -58,6 +58,21 @@ const SettingDiscriminatedUnion = z.discriminatedUnion("name", [
       endpointUrl: nonEmptyString.optional(),
     }),
   }),
+  z.object({
+    name: z.literal("etherpad.server"),
+    value: z.object({
+      url: z.string().url(),
+      apiKey: nonEmptyString,
+    }),
+  }),
+  z.object({
+    name: z.literal("webpush.vapid"),
+    value: z.object({
+      subject: nonEmptyString,
+      publicKey: nonEmptyString,
+      privateKey: nonEmptyString,
+    }),
+  }),
   z.object({
     name: z.literal("s3.image_bucket"),
     value: z.object({
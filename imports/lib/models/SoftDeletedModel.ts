@@ -1,7 +1,7 @@
 import { Mongo } from "meteor/mongo";
 import { z } from "zod";
 import type { stringId } from "./customTypes";
-import { deleted } from "./customTypes";
+import { deleted, foreignKey } from "./customTypes";
 import type { MongoRecordZodType } from "./generateJsonSchema";
 import type { ModelType, Selector, SelectorToResultType } from "./Model";
 import Model from "./Model";
@@ -36,7 +36,12 @@ const injectQuery = <S extends Mongo.Selector<any>>(
 const injectOptions = <Opts extends Mongo.Options<any>>(
   options: Opts | undefined,
 ) => {
-  if (options?.projection) {
+  // An exclusion projection already returns `deleted`, and Mongo won't accept
+  // one that also includes fields
+  if (
+    options?.projection &&
+    !Object.values(options.projection).every((v) => v === 0 || v === false)
+  ) {
     return {
       ...options,
       projection: {
@@ -49,6 +54,14 @@ const injectOptions = <Opts extends Mongo.Options<any>>(
   return options;
 };
 
+const SoftDeletedFields = {
+  deleted,
+  // When and by whom the record was deleted. Records deleted before we started
+  // keeping track of this have neither.
+  deletedAt: z.date().optional(),
+  deletedBy: foreignKey.optional(),
+};
+
 class SoftDeletedModel<
   Schema extends MongoRecordZodType,
   IdSchema extends z.ZodTypeAny = typeof stringId,
@@ -59,33 +72,50 @@ class SoftDeletedModel<
     infer Catchall
   >
     ? z.ZodObject<
-        z.objectUtil.extendShape<Shape, { deleted: typeof deleted }>,
+        z.objectUtil.extendShape<Shape, typeof SoftDeletedFields>,
         UnknownKeys,
         Catchall
       >
-    : z.ZodIntersection<Schema, z.ZodObject<{ deleted: typeof deleted }>>,
+    : z.ZodIntersection<Schema, z.ZodObject<typeof SoftDeletedFields>>,
   IdSchema
 > {
   constructor(name: string, schema: Schema, idSchema?: IdSchema) {
     super(
       name,
       schema instanceof z.ZodObject
-        ? schema.extend({ deleted })
-        : (schema.and(z.object({ deleted })) as any),
+        ? schema.extend(SoftDeletedFields)
+        : (schema.and(z.object(SoftDeletedFields)) as any),
       idSchema,
     );
   }
 
-  destroyAsync(selector: Selector<ModelType<this>>): Promise<number> {
-    return this.updateAsync(selector, { $set: { deleted: true } } as any, {
-      multi: true,
-    });
+  destroyAsync(
+    selector: Selector<ModelType<this>>,
+    deletedBy?: string,
+  ): Promise<number> {
+    return this.updateAsync(
+      selector,
+      {
+        $set: {
+          deleted: true,
+          deletedAt: new Date(),
+          ...(deletedBy ? { deletedBy } : {}),
+        },
+        ...(deletedBy ? {} : { $unset: { deletedBy: 1 } }),
+      } as any,
+      { multi: true },
+    );
   }
 
   undestroyAsync(selector: Selector<ModelType<this>>): Promise<number> {
-    return this.updateAsync(selector, { $set: { deleted: false } } as any, {
-      multi: true,
-    });
+    return this.updateAsync(
+      selector,
+      {
+        $set: { deleted: false },
+        $unset: { deletedAt: 1, deletedBy: 1 },
+      } as any,
+      { multi: true },
+    );
   }
 
   find<
@@ -2,6 +2,13 @@ import { z } from "zod";
 import { foreignKey, nonEmptyString, stringId } from "./customTypes";
 import type { DiscordAccountType } from "./DiscordAccount";
 import DiscordAccount from "./DiscordAccount";
+import type {
+  AnnouncementChannelType,
+  NotificationPreferencesType,
+} from "./NotificationPreferences";
+import NotificationPreferences, {
+  AnnouncementChannels,
+} from "./NotificationPreferences";
 import validateSchema from "./validateSchema";
 
 declare module "meteor/meteor" {
@@ -23,6 +30,8 @@ declare module "meteor/meteor" {
       discordAccount?: DiscordAccountType;
       phoneNumber?: string;
       dingwords?: string[];
+      notificationPreferences?: NotificationPreferencesType;
+      announcementChannels?: Record<string, AnnouncementChannelType[]>; // hunt -> channels
     }
   }
 }
@@ -55,6 +64,10 @@ export const User = z.object({
   discordAccount: DiscordAccount.optional(),
   phoneNumber: nonEmptyString.optional(),
   dingwords: nonEmptyString.array().optional(),
+  notificationPreferences: NotificationPreferences.optional(),
+  announcementChannels: z
+    .record(z.string(), AnnouncementChannels.array())
+    .optional(),
 });
 validateSchema(User);
 
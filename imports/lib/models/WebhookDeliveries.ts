@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { foreignKey, nonEmptyString } from "./customTypes";
+import type { ModelType } from "./Model";
+import Model from "./Model";
+import { WebhookEvents } from "./Webhooks";
+import withTimestamps from "./withTimestamps";
+
+// Delivery state, as managed by the webhook delivery daemon:
+// * "pending" deliveries will be (re)tried once `nextAttemptAt` passes
+// * "succeeded" deliveries got a 2xx response from the receiver
+// * "failed" deliveries ran out of retries
+export const WebhookDeliveryStates = z.enum(["pending", "succeeded", "failed"]);
+
+/* WebhookDeliveries doesn't inherit from Base because they're created by the
+   server, not by users */
+const WebhookDelivery = withTimestamps(
+  z.object({
+    hunt: foreignKey,
+    webhook: foreignKey,
+    event: WebhookEvents,
+    // The JSON-encoded request body. We store the serialized form so that
+    // retries are signed over exactly the same bytes.
+    payload: nonEmptyString,
+    state: WebhookDeliveryStates,
+    attempts: z.number().int().nonnegative(),
+    nextAttemptAt: z.date().optional(),
+    lastAttemptAt: z.date().optional(),
+    // The HTTP status of the most recent attempt, if we got a response at all
+    responseStatus: z.number().int().optional(),
+    lastError: nonEmptyString.optional(),
+  }),
+);
+
+const WebhookDeliveries = new Model("jr_webhook_deliveries", WebhookDelivery);
+WebhookDeliveries.addIndex({ state: 1, nextAttemptAt: 1 });
+WebhookDeliveries.addIndex({ hunt: 1, createdAt: -1 });
+// Keep the delivery log around for a month
+WebhookDeliveries.addIndex(
+  { createdAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 },
+);
+export type WebhookDeliveryType = ModelType<typeof WebhookDeliveries>;
+
+export default WebhookDeliveries;
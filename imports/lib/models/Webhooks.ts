@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { foreignKey, nonEmptyString } from "./customTypes";
+import type { ModelType } from "./Model";
+import SoftDeletedModel from "./SoftDeletedModel";
+import withCommon from "./withCommon";
+
+// The events a webhook can subscribe to. These mirror the events in Hookset.
+export const WebhookEvents = z.enum([
+  "announcement",
+  "puzzleCreated",
+  "puzzleUpdated",
+  "puzzleSolved",
+  "puzzleNoLongerSolved",
+  "chatMessageCreated",
+]);
+export type WebhookEventType = z.infer<typeof WebhookEvents>;
+
+// An operator-registered HTTPS endpoint which receives a POST for each of the
+// selected events in a hunt.
+const Webhook = withCommon(
+  z.object({
+    hunt: foreignKey,
+    url: z.string().url(),
+    events: WebhookEvents.array(),
+    // Used to sign the body of each delivery with HMAC-SHA256, so that the
+    // receiver can verify that it came from us.
+    secret: nonEmptyString,
+  }),
+);
+
+const Webhooks = new SoftDeletedModel("jr_webhooks", Webhook);
+Webhooks.addIndex({ deleted: 1, hunt: 1, events: 1 });
+export type WebhookType = ModelType<typeof Webhooks>;
+
+export default Webhooks;
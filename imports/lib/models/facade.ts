@@ -1,4 +1,6 @@
+import ActivityRollups from "./ActivityRollups";
 import Announcements from "./Announcements";
+import AuditLogEntries from "./AuditLogEntries";
 import BlobMappings from "./BlobMappings";
 import Bookmarks from "./Bookmarks";
 import ChatMessages from "./ChatMessages";
@@ -10,6 +12,7 @@ import Documents from "./Documents";
 import FeatureFlags from "./FeatureFlags";
 import FolderPermissions from "./FolderPermissions";
 import Guesses from "./Guesses";
+import HuntGroups from "./HuntGroups";
 import Hunts from "./Hunts";
 import CallHistories from "./mediasoup/CallHistories";
 import ConnectAcks from "./mediasoup/ConnectAcks";
@@ -26,13 +29,18 @@ import TransportRequests from "./mediasoup/TransportRequests";
 import TransportStates from "./mediasoup/TransportStates";
 import Transports from "./mediasoup/Transports";
 import PendingAnnouncements from "./PendingAnnouncements";
+import PushSubscriptions from "./PushSubscriptions";
 import Puzzles from "./Puzzles";
 import Servers from "./Servers";
 import Settings from "./Settings";
 import Tags from "./Tags";
+import WebhookDeliveries from "./WebhookDeliveries";
+import Webhooks from "./Webhooks";
 
 const Models = {
+  ActivityRollups,
   Announcements,
+  AuditLogEntries,
   BlobMappings,
   Bookmarks,
   ChatMessages,
@@ -44,6 +52,7 @@ const Models = {
   FeatureFlags,
   FolderPermissions,
   Guesses,
+  HuntGroups,
   Hunts,
   MediaSoup: {
     CallHistories,
@@ -62,10 +71,13 @@ const Models = {
     TransportStates,
   },
   PendingAnnouncements,
+  PushSubscriptions,
   Puzzles,
   Servers,
   Settings,
   Tags,
+  WebhookDeliveries,
+  Webhooks,
 };
 
 export default Models;
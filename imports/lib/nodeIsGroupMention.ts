@@ -0,0 +1,10 @@
+import type {
+  ChatMessageContentNodeType,
+  ChatMessageGroupMentionNodeType,
+} from "./models/ChatMessages";
+
+export default function nodeIsGroupMention(
+  node: ChatMessageContentNodeType,
+): node is ChatMessageGroupMentionNodeType {
+  return "type" in node && node.type === "group-mention";
+}
@@ -0,0 +1,94 @@
+import type {
+  NotificationDeliveryType,
+  NotificationPreferencesType,
+  NotificationType,
+  QuietHoursType,
+} from "./models/NotificationPreferences";
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  guess: "Guesses waiting in the queue (operators only)",
+  announcement: "Announcements",
+  discordLink: "Reminders to link your Discord account",
+  chat: "Chat mentions and dingwords",
+  bookmark: "Bookmarked puzzles being solved",
+};
+
+export const notificationDeliveryLabels: Record<
+  NotificationDeliveryType,
+  string
+> = {
+  toast: "In-app",
+  browser: "Browser notification",
+  email: "Email",
+  off: "Off",
+};
+
+// Not every delivery makes sense for every type: guesses need to be resolved
+// in the app and the Discord reminder is only useful in the app, so neither
+// can be emailed. Announcements can additionally be sent by email or text
+// message, but that's chosen per hunt (see announcementChannels on users).
+export const notificationDeliveriesForType: Record<
+  NotificationType,
+  NotificationDeliveryType[]
+> = {
+  guess: ["toast", "browser", "off"],
+  announcement: ["toast", "browser", "off"],
+  discordLink: ["toast", "off"],
+  chat: ["toast", "browser", "email", "off"],
+  bookmark: ["toast", "browser", "email", "off"],
+};
+
+export function notificationDelivery(
+  preferences: NotificationPreferencesType | undefined,
+  type: NotificationType,
+): NotificationDeliveryType {
+  const delivery = preferences?.[type];
+  return delivery && notificationDeliveriesForType[type].includes(delivery)
+    ? delivery
+    : "toast";
+}
+
+function minutesIntoDay(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: "hour" | "minute") =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+export function isInQuietHours(
+  quietHours: QuietHoursType | undefined,
+  now: Date,
+): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) {
+    return false;
+  }
+
+  const { start, end, timeZone } = quietHours;
+  const minutes = minutesIntoDay(now, timeZone);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// During quiet hours we hold back anything that would interrupt (emails and
+// browser notifications) and show it in the app instead, so it's waiting
+// whenever the hunter next looks.
+export function resolveNotificationDelivery(
+  preferences: NotificationPreferencesType | undefined,
+  type: NotificationType,
+  now: Date,
+): NotificationDeliveryType {
+  const delivery = notificationDelivery(preferences, type);
+  if (
+    (delivery === "browser" || delivery === "email") &&
+    isInQuietHours(preferences?.quietHours, now)
+  ) {
+    return "toast";
+  }
+  return delivery;
+}
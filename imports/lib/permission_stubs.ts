@@ -1,7 +1,8 @@
 import { Meteor } from "meteor/meteor";
 import type z from "zod";
+import { huntCapabilitiesForRoles } from "./huntRoles";
 import isAdmin, { GLOBAL_SCOPE } from "./isAdmin";
-import type { HuntType } from "./models/Hunts";
+import type { HuntCapabilityType, HuntType } from "./models/Hunts";
 import MeteorUsers from "./models/MeteorUsers";
 import type { Selector } from "./models/Model";
 import type { User } from "./models/User";
@@ -13,6 +14,40 @@ function isOperatorForHunt(
   return user.roles?.[hunt._id]?.includes("operator") ?? false;
 }
 
+type HuntWithRoles = Pick<
+  HuntType,
+  "_id" | "customRoles" | "memberCapabilities"
+>;
+
+// Admins can do anything. Operators can do anything within their hunt, even if
+// they're not a member of it; everyone else only has capabilities in hunts
+// they've joined.
+function userHasCapabilityForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+  capability: HuntCapabilityType,
+): boolean {
+  if (!user || !hunt) {
+    return false;
+  }
+
+  if (isAdmin(user)) {
+    return true;
+  }
+
+  if (isOperatorForHunt(user, hunt)) {
+    return true;
+  }
+
+  if (!user.hunts?.includes(hunt._id)) {
+    return false;
+  }
+
+  return huntCapabilitiesForRoles(hunt, user.roles?.[hunt._id] ?? []).has(
+    capability,
+  );
+}
+
 export function listAllRolesForHunt(
   user: Pick<Meteor.User, "roles"> | null | undefined,
   hunt: Pick<HuntType, "_id"> | null | undefined,
@@ -61,23 +96,27 @@ export function queryOperatorsForHunt(
   };
 }
 
-// admins and operators are always allowed to join someone to a hunt
-// non-admins can if they are a member of that hunt
-// already and if the hunt allows open signups.
+export function queryUsersWithRoleForHunt(
+  hunt: Pick<HuntType, "_id">,
+  role: string,
+): Selector<z.output<typeof User>> {
+  return {
+    hunts: hunt._id,
+    [`roles.${hunt._id}`]: role,
+  };
+}
+
+// Anyone who can manage the hunt's members is always allowed to join someone
+// to a hunt. Other members can if the hunt allows open signups.
 export function userMayAddUsersToHunt(
   user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
-  hunt: Pick<HuntType, "_id" | "openSignups"> | null | undefined,
+  hunt: (HuntWithRoles & Pick<HuntType, "openSignups">) | null | undefined,
 ): boolean {
   if (!user || !hunt) {
     return false;
   }
 
-  // Admins can always do everything
-  if (isAdmin(user)) {
-    return true;
-  }
-
-  if (isOperatorForHunt(user, hunt)) {
+  if (userHasCapabilityForHunt(user, hunt, "manageMembers")) {
     return true;
   }
 
@@ -95,44 +134,30 @@ export function userMayAddUsersToHunt(
 }
 
 export function userMayUpdateHuntInvitationCode(
-  user: Pick<Meteor.User, "roles"> | null | undefined,
-  hunt: Pick<HuntType, "_id"> | null | undefined,
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
 ): boolean {
-  if (!user || !hunt) {
-    return false;
-  }
-
-  if (isAdmin(user)) {
-    return true;
-  }
-
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
-
-  return false;
+  return userHasCapabilityForHunt(user, hunt, "manageMembers");
 }
 
-// Admins and operators may add announcements to a hunt.
 export function userMayAddAnnouncementToHunt(
-  user: Pick<Meteor.User, "roles"> | null | undefined,
-  hunt: Pick<HuntType, "_id"> | null | undefined,
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
 ): boolean {
-  if (!user || !hunt) {
-    return false;
-  }
-
-  if (isAdmin(user)) {
-    return true;
-  }
-
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
+  return userHasCapabilityForHunt(user, hunt, "postAnnouncements");
+}
 
-  return false;
+// Manage a hunt's outgoing webhooks.
+export function userMayConfigureWebhooksForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "configureWebhooks");
 }
 
+// Only admins and operators may make someone an operator, or change which roles
+// a hunt has. Since roles grant capabilities, anyone who could do either could
+// give themselves any capability.
 export function userMayMakeOperatorForHunt(
   user: Pick<Meteor.User, "roles"> | null | undefined,
   hunt: Pick<HuntType, "_id"> | null | undefined,
@@ -152,42 +177,74 @@ export function userMayMakeOperatorForHunt(
   return false;
 }
 
-export function userMaySeeUserInfoForHunt(
+export function userMayConfigureRolesForHunt(
   user: Pick<Meteor.User, "roles"> | null | undefined,
   hunt: Pick<HuntType, "_id"> | null | undefined,
 ): boolean {
-  if (!user || !hunt) {
-    return false;
-  }
+  return userMayMakeOperatorForHunt(user, hunt);
+}
 
-  if (isAdmin(user)) {
-    return true;
-  }
+// The audit log records what operators and admins have done, so only they may
+// read it
+export function userMayViewAuditLogForHunt(
+  user: Pick<Meteor.User, "roles"> | null | undefined,
+  hunt: Pick<HuntType, "_id"> | null | undefined,
+): boolean {
+  return userMayMakeOperatorForHunt(user, hunt);
+}
 
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
+export function userMayViewServerAuditLog(
+  user: Pick<Meteor.User, "roles"> | null | undefined,
+): boolean {
+  return isAdmin(user);
+}
 
-  return false;
+// Give hunters (or take away) the hunt's custom roles.
+export function userMayAssignRolesForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "assignRoles");
 }
 
-export function userMayBulkAddToHunt(
-  user: Pick<Meteor.User, "roles"> | null | undefined,
-  hunt: Pick<HuntType, "_id"> | null | undefined,
+// Hunters who can assign roles can only give (or take away) roles that don't
+// allow anything they couldn't already do themselves.
+export function userMayAssignRoleForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+  roleId: string,
 ): boolean {
-  if (!user || !hunt) {
+  const role = hunt?.customRoles?.find((r) => r.id === roleId);
+  if (!role || !userMayAssignRolesForHunt(user, hunt)) {
     return false;
   }
 
-  if (isAdmin(user)) {
-    return true;
-  }
+  return role.capabilities.every((capability) =>
+    userHasCapabilityForHunt(user, hunt, capability),
+  );
+}
 
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
+export function userMaySeeUserInfoForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "seeUserInfo");
+}
 
-  return false;
+export function userMayBulkAddToHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "manageMembers");
+}
+
+// Anyone in a hunt can join or leave its groups; this is for creating, editing
+// and removing them
+export function userMayManageGroupsForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "manageMembers");
 }
 
 export function userMayUseDiscordBotAPIs(
@@ -222,6 +279,18 @@ export function userMayConfigureAWS(
   return isAdmin(user);
 }
 
+export function userMayConfigureEtherpad(
+  user: Pick<Meteor.User, "roles"> | null | undefined,
+): boolean {
+  return isAdmin(user);
+}
+
+export function userMayConfigureWebPush(
+  user: Pick<Meteor.User, "roles"> | null | undefined,
+): boolean {
+  return isAdmin(user);
+}
+
 export function userMayConfigureDiscordOAuth(
   user: Pick<Meteor.User, "roles"> | null | undefined,
 ): boolean {
@@ -253,35 +322,44 @@ export function userMayConfigureAssets(
 }
 
 export function userMayUpdateGuessesForHunt(
-  user: Pick<Meteor.User, "roles"> | null | undefined,
-  hunt: Pick<HuntType, "_id"> | null | undefined,
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
 ): boolean {
-  if (!user || !hunt) {
-    return false;
-  }
-  if (isAdmin(user)) {
-    return true;
-  }
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
-  return false;
+  return userHasCapabilityForHunt(user, hunt, "resolveGuesses");
 }
 
 export function userMayWritePuzzlesForHunt(
-  user: Pick<Meteor.User, "roles"> | null | undefined,
-  hunt: Pick<HuntType, "_id"> | null | undefined,
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
 ): boolean {
-  if (!user || !hunt) {
-    return false;
-  }
-  if (isAdmin(user)) {
-    return true;
-  }
-  if (isOperatorForHunt(user, hunt)) {
-    return true;
-  }
-  return false;
+  return userHasCapabilityForHunt(user, hunt, "writePuzzles");
+}
+
+// Whether the hunt's trash is worth showing at all. Each kind of deleted record
+// can only be restored by those who could have deleted it.
+export function userMayViewTrashForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return (
+    userMayWritePuzzlesForHunt(user, hunt) ||
+    userMayUpdateGuessesForHunt(user, hunt) ||
+    userMayAddAnnouncementToHunt(user, hunt)
+  );
+}
+
+export function userMaySubmitGuessesForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "submitGuesses");
+}
+
+export function userMaySendChatMessagesForHunt(
+  user: Pick<Meteor.User, "roles" | "hunts"> | null | undefined,
+  hunt: HuntWithRoles | null | undefined,
+): boolean {
+  return userHasCapabilityForHunt(user, hunt, "sendChatMessages");
 }
 
 export function userMayCreateHunt(
@@ -0,0 +1,7 @@
+import type { ActivityRollupGranularityType } from "../models/ActivityRollups";
+import TypedPublication from "./TypedPublication";
+
+export default new TypedPublication<{
+  huntId: string;
+  granularity: ActivityRollupGranularityType;
+}>("ActivityRollups.publications.forHunt");
@@ -0,0 +1,5 @@
+import TypedPublication from "./TypedPublication";
+
+export default new TypedPublication<{ huntId: string }>(
+  "HuntGroups.publications.forHunt",
+);
@@ -0,0 +1,5 @@
+import TypedPublication from "./TypedPublication";
+
+export default new TypedPublication<void>(
+  "PushSubscriptions.publications.forSelf",
+);
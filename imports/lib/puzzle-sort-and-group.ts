@@ -1,10 +1,13 @@
 import { indexedById } from "./listUtils";
+import { isMeta } from "./metas";
 import type { PuzzleType } from "./models/Puzzles";
 import type { TagType } from "./models/Tags";
 import { computeSolvedness } from "./solvedness";
 
 interface PuzzleGroup {
   sharedTag?: TagType;
+  // Set if this group is (or coincides with) a meta and its feeders.
+  meta?: PuzzleType;
   puzzles: PuzzleType[];
   subgroups: PuzzleGroup[];
 }
@@ -12,7 +15,10 @@ interface PuzzleGroup {
 // Used with interior mutability for preparing `PuzzleGroup`s suitable for
 // returning to users.
 interface InternalPuzzleGroup {
+  // Tag ID or meta puzzle ID, unique among groups
+  key: string;
   sharedTag?: TagType;
+  meta?: PuzzleType;
   puzzles: PuzzleType[];
   subgroups: InternalPuzzleGroup[];
   puzzleIdCache: Set<string>;
@@ -23,6 +29,7 @@ function puzzleInterestingness(
   puzzle: PuzzleType,
   indexedTags: Map<string, TagType>,
   group: string | undefined,
+  metaId?: string,
 ): number {
   // If the shared tag for this group is group:<something>, then group will equal '<something>', and
   // we wish to sort a puzzle named 'meta-for:<something>' at the top.
@@ -66,6 +73,12 @@ function puzzleInterestingness(
       }
     }
   });
+  if (metaId && puzzle._id === metaId) {
+    // The group's own meta gets sorted top.
+    minScore = Math.min(-3, minScore);
+  } else if (isMeta(puzzle)) {
+    minScore = Math.min(-1, minScore);
+  }
   // Sort general administrivia above administrivia with a group
   if (isAdministrivia && !isGroup) {
     minScore = Math.min(-5, minScore);
@@ -78,6 +91,7 @@ function interestingnessOfGroup(
   puzzles: PuzzleType[],
   sharedTag: TagType | undefined,
   indexedTags: Map<string, TagType>,
+  meta?: PuzzleType,
 ) {
   // Rough idea: sort, from top to bottom:
   // -3 administrivia always floats to the top
@@ -90,10 +104,10 @@ function interestingnessOfGroup(
   //  3 Groups with no unsolved puzzles
 
   // ungrouped puzzles go after groups, esp. after groups with a known unsolved meta.
-  // Guarantees that if ia === ib, then sharedTag exists.
-  if (!sharedTag) return 1;
+  // Guarantees that if ia === ib, then sharedTag or meta exists.
+  if (!sharedTag && !meta) return 1;
 
-  if (sharedTag.name === "administrivia") {
+  if (sharedTag?.name === "administrivia") {
     return -3;
   }
 
@@ -112,6 +126,16 @@ function interestingnessOfGroup(
     if (solvedness === "unsolved") {
       hasUnsolvedPuzzles = true;
     }
+    if (meta && puzzle._id === meta._id) {
+      // This puzzle is the meta the group was built from.
+      if (solvedness === "solved") {
+        hasSolvedMetaForSharedGroup = true;
+      } else {
+        hasUnsolvedMetaForSharedGroup = true;
+      }
+    } else if (isMeta(puzzle) && solvedness === "unsolved") {
+      hasUnsolvedOtherMeta = true;
+    }
     puzzle.tags.forEach((tagId) => {
       const tag = indexedTags.get(tagId);
 
@@ -149,9 +173,11 @@ function compareGroups(a: InternalPuzzleGroup, b: InternalPuzzleGroup): number {
   const ia = a.interestingness;
   const ib = b.interestingness;
   if (ia !== ib) return ia - ib;
-  // Within an interestingness class, sort tags by creation date, which should
-  // roughly match hunt order.
-  return a.sharedTag!.createdAt.getTime() - b.sharedTag!.createdAt.getTime();
+  // Within an interestingness class, sort tags (or metas) by creation date,
+  // which should roughly match hunt order.
+  const ca = (a.sharedTag ?? a.meta)!.createdAt;
+  const cb = (b.sharedTag ?? b.meta)!.createdAt;
+  return ca.getTime() - cb.getTime();
 }
 
 function sortGroups(groups: InternalPuzzleGroup[]) {
@@ -201,6 +227,7 @@ function dedupedGroup(g: InternalPuzzleGroup): PuzzleGroup {
 
   return {
     sharedTag: g.sharedTag,
+    ...(g.meta ? { meta: g.meta } : {}),
     puzzles: dedupedPuzzles,
     subgroups: dedupedSubgroups,
   };
@@ -229,6 +256,7 @@ function filteredPuzzleGroup(
   // Otherwise, propagate what's left.
   return {
     sharedTag: group.sharedTag,
+    ...(group.meta ? { meta: group.meta } : {}),
     puzzles: retainedPuzzles,
     subgroups: retainedSubgroups,
   };
@@ -251,11 +279,10 @@ function puzzleGroupsByRelevance(
 ): PuzzleGroup[] {
   // Maps tag id to list of puzzles holding that tag.
   const groupsMap: Map<string, PuzzleType[]> = new Map();
-  // For collecting puzzles that are not included in any group.
-  const ungroupedPuzzles: PuzzleType[] = [];
   const tagsByIndex = indexedById(allTags);
+  const puzzlesById = indexedById(allPuzzles);
+  const groupedPuzzleIds: Set<string> = new Set();
   allPuzzles.forEach((puzzle) => {
-    let grouped = false;
     puzzle.tags.forEach((tagId) => {
       const tag = tagsByIndex.get(tagId);
       // On new puzzle creation, if a tag is new as well, we can receive the
@@ -267,7 +294,7 @@ function puzzleGroupsByRelevance(
         (tag.name === "administrivia" ||
           tag.name.lastIndexOf("group:", 0) === 0)
       ) {
-        grouped = true;
+        groupedPuzzleIds.add(puzzle._id);
         if (!groupsMap.has(tag._id)) {
           groupsMap.set(tag._id, []);
         }
@@ -275,10 +302,6 @@ function puzzleGroupsByRelevance(
         groupsMap.get(tag._id)!.push(puzzle);
       }
     });
-
-    if (!grouped) {
-      ungroupedPuzzles.push(puzzle);
-    }
   });
 
   // Collect groups into a list.
@@ -286,20 +309,69 @@ function puzzleGroupsByRelevance(
     const puzzles = groupsMap.get(key)!;
     const sharedTag = tagsByIndex.get(key);
     const puzzleIdCache = new Set(puzzles.map((p) => p._id));
-    const interestingness = interestingnessOfGroup(
-      puzzles,
-      sharedTag,
-      tagsByIndex,
-    );
     return {
+      key,
       sharedTag,
       puzzles,
       subgroups: [],
       puzzleIdCache,
-      interestingness,
+      interestingness: 0,
     };
   });
 
+  // Each meta with known feeders also forms a group. If a tag already groups
+  // exactly the same puzzles (as with hunts that also tag their rounds), mark
+  // that group as the meta's rather than presenting both.
+  allPuzzles.forEach((meta) => {
+    if (!meta.feeders || meta.feeders.length === 0) {
+      return;
+    }
+
+    const puzzles = [
+      meta,
+      ...meta.feeders
+        .map((id) => puzzlesById.get(id))
+        .filter<PuzzleType>(
+          (p): p is PuzzleType => p !== undefined && p._id !== meta._id,
+        ),
+    ];
+    const puzzleIdCache = new Set(puzzles.map((p) => p._id));
+    puzzleIdCache.forEach((id) => groupedPuzzleIds.add(id));
+
+    const matchingTagGroup = groups.find(
+      (g) =>
+        !g.meta &&
+        g.puzzleIdCache.size === puzzleIdCache.size &&
+        [...puzzleIdCache].every((id) => g.puzzleIdCache.has(id)),
+    );
+    if (matchingTagGroup) {
+      matchingTagGroup.meta = meta;
+    } else {
+      groups.push({
+        key: meta._id,
+        meta,
+        puzzles,
+        subgroups: [],
+        puzzleIdCache,
+        interestingness: 0,
+      });
+    }
+  });
+
+  groups.forEach((group) => {
+    group.interestingness = interestingnessOfGroup(
+      group.puzzles,
+      group.sharedTag,
+      tagsByIndex,
+      group.meta,
+    );
+  });
+
+  // For collecting puzzles that are not included in any group.
+  const ungroupedPuzzles = allPuzzles.filter(
+    (puzzle) => !groupedPuzzleIds.has(puzzle._id),
+  );
+
   // For each group, from smallest to largest (by puzzle count), try to find
   // groups which contain it entirely and at least one other puzzle.  Nest
   // the smaller group under each such larger group, deduplicating shared
@@ -349,10 +421,7 @@ function puzzleGroupsByRelevance(
         parentGroup.subgroups = parentGroup.subgroups.filter(
           (parentSubgroup) => {
             return currentGroup.subgroups.every((childSubgroup) => {
-              // sharedTag is guaranteed to be set in each group
-              return (
-                parentSubgroup.sharedTag!._id !== childSubgroup.sharedTag!._id
-              );
+              return parentSubgroup.key !== childSubgroup.key;
             });
           },
         );
@@ -377,6 +446,7 @@ function puzzleGroupsByRelevance(
       tagsByIndex,
     );
     groups.push({
+      key: "ungrouped",
       puzzles: ungroupedPuzzles,
       subgroups: [],
       puzzleIdCache: ungroupedPuzzleIdCache,
@@ -397,6 +467,7 @@ function sortPuzzlesByRelevanceWithinPuzzleGroup(
   puzzles: PuzzleType[],
   sharedTag: TagType | undefined,
   indexedTags: Map<string, TagType>,
+  meta?: PuzzleType,
 ) {
   let group: string;
   if (sharedTag && sharedTag.name.lastIndexOf("group:", 0) === 0) {
@@ -404,8 +475,8 @@ function sortPuzzlesByRelevanceWithinPuzzleGroup(
   }
   const sortedPuzzles = puzzles.slice(0);
   sortedPuzzles.sort((a, b) => {
-    const ia = puzzleInterestingness(a, indexedTags, group);
-    const ib = puzzleInterestingness(b, indexedTags, group);
+    const ia = puzzleInterestingness(a, indexedTags, group, meta?._id);
+    const ib = puzzleInterestingness(b, indexedTags, group, meta?._id);
     if (ia !== ib) {
       return ia - ib;
     } else {
@@ -0,0 +1,14 @@
+import type { PuzzleStatusType } from "./models/Puzzles";
+
+export const puzzleStatusLabels: Record<PuzzleStatusType, string> = {
+  new: "New",
+  inProgress: "In progress",
+  needsEyes: "Needs eyes",
+  stuck: "Stuck",
+  needsExtraction: "Needs extraction",
+  backsolving: "Backsolving",
+};
+
+// Notes are meant to be a glance-able summary; longer discussion belongs in
+// chat
+export const PUZZLE_STATUS_NOTE_MAX_LENGTH = 140;
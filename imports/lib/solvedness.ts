@@ -1,7 +1,9 @@
 import type { PuzzleType } from "./models/Puzzles";
 
 export type Solvedness = "noAnswers" | "solved" | "unsolved";
-export const computeSolvedness = (puzzle: PuzzleType): Solvedness => {
+export const computeSolvedness = (
+  puzzle: Pick<PuzzleType, "answers" | "expectedAnswerCount">,
+): Solvedness => {
   if (puzzle.expectedAnswerCount === 0) {
     return "noAnswers";
   } else if (puzzle.answers.length < puzzle.expectedAnswerCount) {
@@ -0,0 +1,11 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    userAgent?: string;
+  },
+  void
+>("PushSubscriptions.methods.add");
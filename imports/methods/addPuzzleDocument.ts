@@ -0,0 +1,12 @@
+import type { GdriveMimeTypesType } from "../lib/GdriveMimeTypes";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    puzzleId: string;
+    title: string;
+    // Required for Google Drive; pads only come in one type
+    type?: GdriveMimeTypesType;
+  },
+  string
+>("Puzzles.methods.addDocument");
@@ -0,0 +1,7 @@
+import TypedMethod from "./TypedMethod";
+
+// Hunters can always assign themselves; assigning anyone else requires
+// operator permissions.
+export default new TypedMethod<{ puzzleId: string; userId: string }, void>(
+  "Puzzles.methods.assign",
+);
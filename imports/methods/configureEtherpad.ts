@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ url?: string; apiKey?: string }, void>(
+  "Setup.methods.configureEtherpad",
+);
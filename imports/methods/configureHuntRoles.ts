@@ -0,0 +1,11 @@
+import type { HuntCapabilityType, HuntRoleType } from "../lib/models/Hunts";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    huntId: string;
+    customRoles: HuntRoleType[];
+    memberCapabilities: HuntCapabilityType[];
+  },
+  void
+>("Hunts.methods.configureRoles");
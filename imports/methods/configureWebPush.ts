@@ -0,0 +1,6 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  { subject?: string; publicKey?: string; privateKey?: string },
+  void
+>("Setup.methods.configureWebPush");
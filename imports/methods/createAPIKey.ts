@@ -1,5 +1,11 @@
+import type { APIKeyScopeType } from "../lib/models/APIKeys";
 import TypedMethod from "./TypedMethod";
 
-export default new TypedMethod<Record<string, never>, string>(
-  "APIKeys.method.create",
-);
+export default new TypedMethod<
+  {
+    hunts?: string[]; // If omitted, the key may be used with any of the user's hunts
+    scopes: APIKeyScopeType[];
+    expiresAt?: Date;
+  },
+  string
+>("APIKeys.method.create");
@@ -0,0 +1,12 @@
+import type { SavedDiscordObjectType } from "../lib/models/Hunts";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    huntId: string;
+    name: string;
+    tags: string[];
+    discordRole?: SavedDiscordObjectType;
+  },
+  string
+>("HuntGroups.methods.create");
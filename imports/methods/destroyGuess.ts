@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ guessId: string }, void>(
+  "Guesses.methods.destroy",
+);
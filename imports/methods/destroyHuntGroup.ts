@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ groupId: string }, void>(
+  "HuntGroups.methods.destroy",
+);
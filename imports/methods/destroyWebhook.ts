@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ webhookId: string }, void>(
+  "Webhooks.methods.destroy",
+);
@@ -0,0 +1,6 @@
+import TypedMethod from "./TypedMethod";
+
+// Returns the hunt archive, serialized as EJSON
+export default new TypedMethod<{ huntId: string }, string>(
+  "Hunts.methods.export",
+);
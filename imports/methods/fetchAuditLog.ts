@@ -0,0 +1,25 @@
+import type {
+  AuditLogActionType,
+  AuditLogEntryType,
+} from "../lib/models/AuditLogEntries";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    // Without a hunt, fetches the log for the whole server
+    huntId?: string;
+    action?: AuditLogActionType;
+    user?: string;
+    // Fetch entries from before this, for paging back through the log
+    before?: Date;
+  },
+  {
+    entries: AuditLogEntryType[];
+    // Display names of the users in entries
+    displayNames: Record<string, string>;
+    // Names of the hunts in entries
+    huntNames: Record<string, string>;
+    // Whether there are older entries that weren't included
+    hasMore: boolean;
+  }
+>("AuditLogEntries.methods.fetch");
@@ -0,0 +1,6 @@
+import type { PuzzleAnalyticsType } from "../lib/huntAnalytics";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ huntId: string }, PuzzleAnalyticsType[]>(
+  "Hunts.methods.analytics",
+);
@@ -0,0 +1,6 @@
+import type { HuntRosterEntryType } from "../lib/huntRoster";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ huntId: string }, HuntRosterEntryType[]>(
+  "Hunts.methods.roster",
+);
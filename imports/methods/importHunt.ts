@@ -0,0 +1,7 @@
+import TypedMethod from "./TypedMethod";
+
+// Takes a serialized hunt archive (as produced by exportHunt) and returns the
+// ID of the newly created hunt
+export default new TypedMethod<{ archive: string }, string>(
+  "Hunts.methods.import",
+);
@@ -0,0 +1,6 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  { puzzleId: string; intoPuzzleId: string },
+  void
+>("Puzzles.methods.merge");
@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ pushSubscriptionId: string }, void>(
+  "PushSubscriptions.methods.remove",
+);
@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ deliveryId: string }, void>(
+  "Webhooks.methods.retryDelivery",
+);
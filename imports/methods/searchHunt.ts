@@ -0,0 +1,7 @@
+import type { HuntSearchResultType } from "../lib/huntSearch";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  { huntId: string; query: string },
+  HuntSearchResultType[]
+>("Hunts.methods.search");
@@ -4,6 +4,8 @@ export default new TypedMethod<
   {
     puzzleId: string;
     content: string;
+    // The message being replied to, if any
+    parent?: string;
   },
   void
 >("ChatMessages.methods.send");
@@ -0,0 +1,7 @@
+import type { AnnouncementChannelType } from "../lib/models/NotificationPreferences";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  { huntId: string; channels: AnnouncementChannelType[] },
+  void
+>("Users.methods.setAnnouncementChannels");
@@ -0,0 +1,10 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    puzzleId: string;
+    // Omit to mark the puzzle as not being a meta
+    feeders?: string[];
+  },
+  void
+>("Puzzles.methods.setFeeders");
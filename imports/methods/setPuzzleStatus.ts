@@ -0,0 +1,12 @@
+import type { PuzzleStatusType } from "../lib/models/Puzzles";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    puzzleId: string;
+    status: PuzzleStatusType;
+    // Omit to clear the note
+    note?: string;
+  },
+  void
+>("Puzzles.methods.setStatus");
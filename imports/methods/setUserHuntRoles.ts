@@ -0,0 +1,8 @@
+import TypedMethod from "./TypedMethod";
+
+// Sets which of the hunt's custom roles the user holds. Whether they're an
+// operator is managed separately (with promoteOperator and demoteOperator).
+export default new TypedMethod<
+  { targetUserId: string; huntId: string; roles: string[] },
+  void
+>("Users.methods.setHuntRoles");
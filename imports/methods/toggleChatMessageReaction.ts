@@ -0,0 +1,10 @@
+import type { ChatReactionType } from "../lib/models/ChatMessages";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    chatMessageId: string;
+    reaction: ChatReactionType;
+  },
+  void
+>("ChatMessages.methods.toggleReaction");
@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ puzzleId: string; userId: string }, void>(
+  "Puzzles.methods.unassign",
+);
@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ announcementId: string }, void>(
+  "Announcements.methods.undestroy",
+);
@@ -0,0 +1,5 @@
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<{ tagId: string }, void>(
+  "Tags.methods.undestroy",
+);
@@ -0,0 +1,9 @@
+import type { NotificationPreferencesType } from "../lib/models/NotificationPreferences";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  {
+    notificationPreferences: NotificationPreferencesType;
+  },
+  void
+>("Users.methods.updateNotificationPreferences");
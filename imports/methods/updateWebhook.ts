@@ -0,0 +1,7 @@
+import type { WebhookEventType } from "../lib/models/Webhooks";
+import TypedMethod from "./TypedMethod";
+
+export default new TypedMethod<
+  { webhookId: string; url: string; events: WebhookEventType[] },
+  void
+>("Webhooks.methods.update");
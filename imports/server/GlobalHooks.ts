@@ -1,9 +1,11 @@
+import AnnouncementDeliveryHooks from "./hooks/AnnouncementDeliveryHooks";
 import BookmarkNotificationHooks from "./hooks/BookmarkNotificationHooks";
 import ChatHooks from "./hooks/ChatHooks";
 import ChatNotificationHooks from "./hooks/ChatNotificationHooks";
 import DiscordHooks from "./hooks/DiscordHooks";
 import HooksRegistry from "./hooks/HooksRegistry";
 import TagCleanupHooks from "./hooks/TagCleanupHooks";
+import WebhookHooks from "./hooks/WebhookHooks";
 
 // Instantiate the application-global hookset list.
 const GlobalHooks = new HooksRegistry();
@@ -13,5 +15,7 @@ GlobalHooks.addHookSet(ChatNotificationHooks);
 GlobalHooks.addHookSet(TagCleanupHooks);
 GlobalHooks.addHookSet(ChatHooks);
 GlobalHooks.addHookSet(BookmarkNotificationHooks);
+GlobalHooks.addHookSet(WebhookHooks);
+GlobalHooks.addHookSet(AnnouncementDeliveryHooks);
 
 export default GlobalHooks;
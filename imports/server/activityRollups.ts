@@ -0,0 +1,201 @@
+import { setTimeout } from "node:timers/promises";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import type { ActivityRecord } from "../lib/activityRollups";
+import { rollUpActivity, sumActivityRollups } from "../lib/activityRollups";
+import {
+  ACTIVITY_GRANULARITY,
+  ACTIVITY_SEGMENTS,
+} from "../lib/config/activityTracking";
+import type { ActivityRollupGranularityType } from "../lib/models/ActivityRollups";
+import ActivityRollups from "../lib/models/ActivityRollups";
+import ChatMessages from "../lib/models/ChatMessages";
+import DocumentActivities from "../lib/models/DocumentActivities";
+import Hunts from "../lib/models/Hunts";
+import roundedTime from "../lib/roundedTime";
+import CallActivities from "./models/CallActivities";
+import withLock from "./withLock";
+
+// The raw activity records behind the puzzle activity sparklines are too
+// fine-grained to render a whole hunt's worth of history, so we periodically
+// roll them up into hourly and daily totals per puzzle and per hunter. We only
+// roll up hours that have fallen out of the sparkline window, by which point
+// we don't expect any more activity to be recorded for them. The raw records
+// are left in place (hunt analytics still count them directly).
+
+const HOUR = 60 * 60 * 1000;
+// Days are UTC days
+const DAY = 24 * HOUR;
+
+async function earliestActivitySince(huntId: string, since: Date) {
+  const [call, document, chat] = await Promise.all([
+    CallActivities.findOneAsync(
+      { hunt: huntId, ts: { $gte: since } },
+      { sort: { ts: 1 } },
+    ),
+    DocumentActivities.findOneAsync(
+      { hunt: huntId, ts: { $gte: since } },
+      { sort: { ts: 1 } },
+    ),
+    ChatMessages.findOneAsync(
+      { hunt: huntId, createdAt: { $gte: since }, sender: { $exists: true } },
+      { sort: { createdAt: 1 } },
+    ),
+  ]);
+  const times = [call?.ts, document?.ts, chat?.createdAt].flatMap(
+    (ts) => ts?.getTime() ?? [],
+  );
+  return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+}
+
+async function fetchActivityRecords(
+  huntId: string,
+  start: Date,
+  end: Date,
+): Promise<ActivityRecord[]> {
+  const range = { $gte: start, $lt: end };
+  const [callActivities, documentActivities, chatMessages] = await Promise.all([
+    CallActivities.find(
+      { hunt: huntId, ts: range },
+      { projection: { call: 1, ts: 1, user: 1 } },
+    ).fetchAsync(),
+    DocumentActivities.find(
+      { hunt: huntId, ts: range },
+      { projection: { puzzle: 1, ts: 1, user: 1 } },
+    ).fetchAsync(),
+    ChatMessages.find(
+      { hunt: huntId, createdAt: range, sender: { $exists: true } },
+      { projection: { puzzle: 1, createdAt: 1, sender: 1 } },
+    ).fetchAsync(),
+  ]);
+
+  return [
+    ...callActivities.map(({ call, ts, user }) => ({
+      puzzle: call,
+      user,
+      ts,
+      kind: "call" as const,
+    })),
+    ...documentActivities.map(({ puzzle, ts, user }) => ({
+      puzzle,
+      user,
+      ts,
+      kind: "document" as const,
+    })),
+    ...chatMessages.map(({ puzzle, createdAt, sender }) => ({
+      puzzle,
+      user: sender,
+      ts: roundedTime(ACTIVITY_GRANULARITY, createdAt),
+      kind: "chat" as const,
+    })),
+  ];
+}
+
+// Replaces all rollups of the given granularity in [start, end)
+async function replaceRollups(
+  huntId: string,
+  granularity: ActivityRollupGranularityType,
+  start: Date,
+  end: Date,
+  rows: ReturnType<typeof rollUpActivity>,
+) {
+  await ActivityRollups.removeAsync({
+    hunt: huntId,
+    granularity,
+    ts: { $gte: start, $lt: end },
+  });
+  for (const row of rows) {
+    await ActivityRollups.insertAsync({ hunt: huntId, granularity, ...row });
+  }
+}
+
+async function rollUpRange(huntId: string, start: Date, end: Date) {
+  const records = await fetchActivityRecords(huntId, start, end);
+  await replaceRollups(
+    huntId,
+    "hour",
+    start,
+    end,
+    rollUpActivity(records, HOUR, ACTIVITY_GRANULARITY),
+  );
+
+  // Recompute every day the range touches from its hourly rollups, since the
+  // range may only cover part of a day
+  const dayStart = roundedTime(DAY, start);
+  const dayEnd = new Date(
+    roundedTime(DAY, new Date(end.getTime() - 1)).getTime() + DAY,
+  );
+  const hourly = await ActivityRollups.find({
+    hunt: huntId,
+    granularity: "hour",
+    ts: { $gte: dayStart, $lt: dayEnd },
+  }).fetchAsync();
+  await replaceRollups(
+    huntId,
+    "day",
+    dayStart,
+    dayEnd,
+    sumActivityRollups(hourly, DAY),
+  );
+}
+
+async function rollUpHunt(huntId: string, renew: () => Promise<void>) {
+  const end = roundedTime(
+    HOUR,
+    new Date(Date.now() - ACTIVITY_GRANULARITY * ACTIVITY_SEGMENTS),
+  );
+
+  const latest = await ActivityRollups.findOneAsync(
+    { hunt: huntId, granularity: "hour" },
+    { sort: { ts: -1 } },
+  );
+  let cursor = latest ? new Date(latest.ts.getTime() + HOUR) : new Date(0);
+
+  // Skip straight to the next hour with any activity, so that quiet periods
+  // (and hunts that ended long ago) don't cost anything. Work a day at a time
+  // to bound how much we load at once.
+  while (cursor < end) {
+    const next = await earliestActivitySince(huntId, cursor);
+    if (!next || next >= end) {
+      break;
+    }
+
+    const start = roundedTime(HOUR, next);
+    const stop = new Date(Math.min(start.getTime() + DAY, end.getTime()));
+    await rollUpRange(huntId, start, stop);
+    await renew();
+    cursor = stop;
+  }
+}
+
+async function rollUpActivityLoop() {
+  while (true) {
+    try {
+      // Every server runs this loop, but only one at a time needs to do the
+      // work; whoever gets the lock second will usually find nothing left
+      await withLock("activity-rollups", async (renew) => {
+        const huntIds = await Hunts.find(
+          {},
+          { projection: { _id: 1 } },
+        ).mapAsync((hunt) => hunt._id);
+        for (const huntId of huntIds) {
+          await rollUpHunt(huntId, renew);
+        }
+      });
+    } catch (error) {
+      Logger.error("Error rolling up activity", { error });
+    }
+
+    // Wake up every 10 minutes (+/- 1 minute of jitter)
+    await setTimeout(9 * 60 * 1000 + Math.random() * 2 * 60 * 1000);
+  }
+}
+
+Meteor.startup(() => {
+  if (Meteor.isTest || Meteor.isAppTest) {
+    return;
+  }
+
+  // rollUpActivityLoop catches its own errors, so voiding this promise is safe.
+  void rollUpActivityLoop();
+});
@@ -0,0 +1,100 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import Announcements from "../lib/models/Announcements";
+import Hunts from "../lib/models/Hunts";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import PendingAnnouncements from "../lib/models/PendingAnnouncements";
+import { resolveNotificationDelivery } from "../lib/notificationPreferences";
+import { userMayAddAnnouncementToHunt } from "../lib/permission_stubs";
+import GlobalHooks from "./GlobalHooks";
+import sendPushNotification from "./webPush";
+
+export default async function addAnnouncement({
+  huntId,
+  message,
+}: {
+  huntId: string;
+  message: string;
+}): Promise<string> {
+  const userId = Meteor.userId();
+
+  check(userId, String);
+  check(huntId, String);
+  check(message, String);
+
+  const hunt = await Hunts.findOneAsync(huntId);
+  if (
+    !userMayAddAnnouncementToHunt(await MeteorUsers.findOneAsync(userId), hunt)
+  ) {
+    throw new Meteor.Error(
+      401,
+      `User ${userId} may not create announcements for hunt ${huntId}`,
+    );
+  }
+
+  Logger.info("Creating an announcement", { hunt: huntId, message });
+  const id = await Announcements.insertAsync({
+    hunt: huntId,
+    message,
+  });
+
+  const now = new Date();
+  const subject = `Announcement for ${hunt!.name}`;
+  const path = `hunts/${huntId}/announcements`;
+  const addPending = (user: string) =>
+    PendingAnnouncements.insertAsync({
+      hunt: huntId,
+      announcement: id,
+      user,
+    });
+  const pushUserIds: string[] = [];
+  for await (const user of MeteorUsers.find({ hunts: huntId })) {
+    const delivery = resolveNotificationDelivery(
+      user.notificationPreferences,
+      "announcement",
+      now,
+    );
+    if (delivery === "off") {
+      continue;
+    }
+
+    if (delivery === "browser") {
+      pushUserIds.push(user._id);
+      continue;
+    }
+
+    await addPending(user._id);
+  }
+
+  // Pushes can be slow, so send them all at once after we've returned. Anyone
+  // whose push doesn't arrive sees the announcement in the app instead.
+  Meteor.defer(() => {
+    void Promise.allSettled(
+      pushUserIds.map(async (user) => {
+        const delivered = await sendPushNotification(user, {
+          title: subject,
+          body: message,
+          url: `/${path}`,
+          tag: `announcement-${id}`,
+        });
+        if (!delivered) {
+          await addPending(user);
+        }
+      }),
+    ).then((results) => {
+      results.forEach((result) => {
+        if (result.status === "rejected") {
+          Logger.warn("Error delivering announcement", {
+            announcement: id,
+            error: result.reason,
+          });
+        }
+      });
+    });
+  });
+
+  await GlobalHooks.runAnnouncementHooks(id);
+
+  return id;
+}
@@ -0,0 +1,103 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import { findDuplicateGuess } from "../lib/answerNormalization";
+import Guesses from "../lib/models/Guesses";
+import Hunts from "../lib/models/Hunts";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import Puzzles from "../lib/models/Puzzles";
+import { userMaySubmitGuessesForHunt } from "../lib/permission_stubs";
+import sendChatMessageInternal from "./sendChatMessageInternal";
+
+export default async function addGuess({
+  puzzleId,
+  guess,
+  direction,
+  confidence,
+}: {
+  puzzleId: string;
+  guess: string;
+  direction: number;
+  confidence: number;
+}): Promise<string> {
+  const userId = Meteor.userId();
+
+  check(userId, String);
+  check(puzzleId, String);
+  check(guess, String);
+  check(direction, Number);
+  check(confidence, Number);
+
+  const puzzle = await Puzzles.findOneAsync(puzzleId);
+
+  if (!puzzle) {
+    throw new Meteor.Error(404, "No such puzzle");
+  }
+
+  const hunt = await Hunts.findOneAsync(puzzle.hunt);
+
+  if (!hunt) {
+    throw new Meteor.Error(404, "No such hunt");
+  }
+
+  if (
+    !userMaySubmitGuessesForHunt(await MeteorUsers.findOneAsync(userId), hunt)
+  ) {
+    throw new Meteor.Error(
+      401,
+      `User ${userId} may not submit guesses for hunt ${hunt._id}`,
+    );
+  }
+
+  if (!hunt.hasGuessQueue) {
+    throw new Meteor.Error(
+      404,
+      "Hunt does not allow you to submit guesses, only answers",
+    );
+  }
+
+  const duplicate = findDuplicateGuess(
+    guess,
+    await Guesses.find({ puzzle: puzzleId }).fetchAsync(),
+    hunt.answerNormalization,
+  );
+  if (duplicate && hunt.duplicateGuessPolicy === "reject") {
+    throw new Meteor.Error(
+      409,
+      `This is the same answer as the earlier guess "${duplicate.guess}", which is ${duplicate.state}`,
+    );
+  }
+
+  Logger.info("New guess", {
+    hunt: puzzle.hunt,
+    puzzle: puzzleId,
+    guess,
+    direction,
+    confidence,
+    duplicateOf: duplicate?._id,
+  });
+  const guessId = await Guesses.insertAsync({
+    hunt: puzzle.hunt,
+    puzzle: puzzleId,
+    guess,
+    direction,
+    confidence,
+    state: "pending",
+    duplicateOf: duplicate?._id,
+  });
+
+  const content = {
+    type: "message" as const,
+    children: [
+      { text: "" },
+      {
+        type: "mention" as const,
+        userId,
+      },
+      { text: ` submitted guess \`${guess}\`` },
+    ],
+  };
+  await sendChatMessageInternal({ puzzleId, content, sender: undefined });
+
+  return guessId;
+}
@@ -5,10 +5,12 @@ import Flags from "../Flags";
 import Logger from "../Logger";
 import type { GdriveMimeTypesType } from "../lib/GdriveMimeTypes";
 import GdriveMimeTypes from "../lib/GdriveMimeTypes";
+import type { DocumentProviderType } from "../lib/models/Hunts";
 import Hunts from "../lib/models/Hunts";
 import MeteorUsers from "../lib/models/MeteorUsers";
 import Puzzles from "../lib/models/Puzzles";
 import { userMayWritePuzzlesForHunt } from "../lib/permission_stubs";
+import { ensureEtherpadDocument } from "./etherpad";
 import GlobalHooks from "./GlobalHooks";
 import { ensureDocument } from "./gdrive";
 import getOrCreateTagByName from "./getOrCreateTagByName";
@@ -32,6 +34,7 @@ async function createDocumentAndInsertPuzzle(
   tags: string[],
   url: string | undefined,
   docType: GdriveMimeTypesType,
+  documentProvider: DocumentProviderType,
 ): Promise<string> {
   // Look up each tag by name and map them to tag IDs.
   const tagIds = await Promise.all(
@@ -54,7 +57,13 @@ async function createDocumentAndInsertPuzzle(
   // else has a chance to create a document with the wrong config. (This
   // requires us to have an _id for the puzzle, which is why we generate it
   // manually above instead of letting Meteor do it)
-  if (GoogleClient.ready() && !(await Flags.activeAsync("disable.google"))) {
+  if (documentProvider === "etherpad") {
+    // Pads are just text, so there's no distinction between document types
+    await ensureEtherpadDocument(fullPuzzle);
+  } else if (
+    GoogleClient.ready() &&
+    !(await Flags.activeAsync("disable.google"))
+  ) {
     await ensureDocument(fullPuzzle, docType);
   }
 
@@ -128,6 +137,7 @@ export default async function addPuzzle({
       tags,
       url,
       docType,
+      hunt.documentProvider ?? "google",
     );
   } else {
     // With a lock, look for a puzzle with the same URL. If present, we reject the insertion
@@ -143,6 +153,7 @@ export default async function addPuzzle({
         tags,
         url,
         docType,
+        hunt.documentProvider ?? "google",
       );
     });
   }
@@ -2,6 +2,7 @@ import { setTimeout } from "node:timers/promises";
 import Flags from "../Flags";
 import Logger from "../Logger";
 import DiscordRoleGrants from "../lib/models/DiscordRoleGrants";
+import HuntGroups from "../lib/models/HuntGroups";
 import Hunts from "../lib/models/Hunts";
 import MeteorUsers from "../lib/models/MeteorUsers";
 import Settings from "../lib/models/Settings";
@@ -44,14 +45,18 @@ export default async (
     return;
   }
 
-  if (!hunt.memberDiscordRole) {
+  // Members get the hunt's role, plus the role of each group they're in
+  const groups = await HuntGroups.find({
+    hunt: huntId,
+    discordRole: { $exists: true },
+  }).fetchAsync();
+  if (!hunt.memberDiscordRole && groups.length === 0) {
     Logger.info(
       "Can not add users to Discord role because hunt does not configure a Discord role",
       { userIds, huntId },
     );
     return;
   }
-  const roleId = hunt.memberDiscordRole.id;
 
   const discord = new DiscordBot(botToken);
 
@@ -65,47 +70,59 @@ export default async (
       continue;
     }
 
-    if (
-      !force &&
-      (await DiscordRoleGrants.findOneAsync({
-        guild: guild.id,
-        role: roleId,
-        user: userId,
-        discordAccountId: user.discordAccount.id,
-      }))
-    ) {
-      Logger.info("User already has Discord role", { userId, huntId, roleId });
-      continue;
-    }
-
-    try {
-      await discord.addUserToRole(user.discordAccount.id, guild.id, roleId);
-      Logger.info("Successfully added user to Discord role", {
-        userId,
-        huntId,
-        roleId,
-      });
-      // Upsert so that if the record already exists we'll touch updatedAt
-      await DiscordRoleGrants.upsertAsync(
-        {
+    const roleIds = [
+      ...(hunt.memberDiscordRole ? [hunt.memberDiscordRole.id] : []),
+      ...groups.flatMap((g) =>
+        g.discordRole && g.members.includes(userId) ? [g.discordRole.id] : [],
+      ),
+    ];
+    for (const roleId of roleIds) {
+      if (
+        !force &&
+        (await DiscordRoleGrants.findOneAsync({
           guild: guild.id,
           role: roleId,
           user: userId,
           discordAccountId: user.discordAccount.id,
-        },
-        {},
-      );
+        }))
+      ) {
+        Logger.info("User already has Discord role", {
+          userId,
+          huntId,
+          roleId,
+        });
+        continue;
+      }
+
+      try {
+        await discord.addUserToRole(user.discordAccount.id, guild.id, roleId);
+        Logger.info("Successfully added user to Discord role", {
+          userId,
+          huntId,
+          roleId,
+        });
+        // Upsert so that if the record already exists we'll touch updatedAt
+        await DiscordRoleGrants.upsertAsync(
+          {
+            guild: guild.id,
+            role: roleId,
+            user: userId,
+            discordAccountId: user.discordAccount.id,
+          },
+          {},
+        );
 
-      // Discord seems to start rate limiting at around 20 requests per second;
-      // to be safe, we'll limit to 2 per second
-      await setTimeout(500);
-    } catch (error) {
-      Logger.warn("Error while adding user to Discord role", {
-        error,
-        userId,
-        huntId,
-        roleId,
-      });
+        // Discord seems to start rate limiting at around 20 requests per second;
+        // to be safe, we'll limit to 2 per second
+        await setTimeout(500);
+      } catch (error) {
+        Logger.warn("Error while adding user to Discord role", {
+          error,
+          userId,
+          huntId,
+          roleId,
+        });
+      }
     }
   }
 };
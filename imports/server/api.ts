@@ -1,11 +1,21 @@
 import express from "express";
 import authenticator from "./api/authenticator";
+import errorHandler from "./api/errorHandler";
+import announcements from "./api/resources/announcements";
+import guesses from "./api/resources/guesses";
 import hunts from "./api/resources/hunts";
+import puzzles from "./api/resources/puzzles";
+import tags from "./api/resources/tags";
 import users from "./api/resources/users";
 
 const api = express();
 api.use(authenticator);
 api.use("/users", users);
 api.use("/hunts", hunts);
+api.use("/hunts", announcements);
+api.use("/hunts", guesses);
+api.use("/hunts", puzzles);
+api.use("/hunts", tags);
+api.use(errorHandler);
 
 export default api;
@@ -0,0 +1,46 @@
+import type { APIKeyScopeType } from "../../lib/models/APIKeys";
+
+// Non-GET routes and the scope each requires. Paths are relative to the API
+// mount point, and are matched case-insensitively, as Express routes are.
+// Anything not listed here is refused, so new write endpoints must be added
+// before keys can reach them.
+const writeRoutes: {
+  methods: string[];
+  path: RegExp;
+  scope: APIKeyScopeType;
+}[] = [
+  {
+    methods: ["POST"],
+    path: /^\/hunts\/[^/]+\/puzzles\/[^/]+\/guesses\/?$/i,
+    scope: "guess-submit",
+  },
+  {
+    methods: ["PATCH"],
+    path: /^\/hunts\/[^/]+\/guesses\/[^/]+\/?$/i,
+    scope: "guess-resolve",
+  },
+  {
+    methods: ["POST"],
+    path: /^\/hunts\/[^/]+\/announcements\/?$/i,
+    scope: "announce",
+  },
+  {
+    methods: ["POST", "PATCH", "DELETE"],
+    path: /^\/hunts\/[^/]+\/puzzles(\/.*)?$/i,
+    scope: "puzzle-write",
+  },
+];
+
+export function requiredScope(
+  method: string,
+  path: string,
+): APIKeyScopeType | undefined {
+  const upperMethod = method.toUpperCase();
+  if (upperMethod === "GET" || upperMethod === "HEAD") {
+    return "read";
+  }
+
+  return writeRoutes.find(
+    (route) => route.methods.includes(upperMethod) && route.path.test(path),
+  )?.scope;
+}
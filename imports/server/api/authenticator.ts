@@ -3,6 +3,7 @@ import type express from "express";
 import Logger from "../../Logger";
 import APIKeys from "../../lib/models/APIKeys";
 import expressAsyncWrapper from "../expressAsyncWrapper";
+import { requiredScope } from "./apiKeyScopes";
 
 // Update last used time only once every 60 seconds.
 const API_KEY_LAST_USED_MINIMUM_TIME_DELTA_MSEC = 60000;
@@ -30,6 +31,21 @@ const authenticator: express.Handler = expressAsyncWrapper(
     }
 
     const now = new Date();
+    if (key.expiresAt && key.expiresAt.getTime() <= now.getTime()) {
+      res.status(403).json({ error: "API key has expired" });
+      return;
+    }
+
+    const scope = requiredScope(req.method, req.path);
+    if (!scope || !key.scopes.includes(scope)) {
+      res.status(403).json({
+        error: scope
+          ? `API key lacks the ${scope} scope`
+          : "API key may not be used for this request",
+      });
+      return;
+    }
+
     if (
       key.lastUsedAt === undefined ||
       now.getTime() - key.lastUsedAt.getTime() >=
@@ -49,6 +65,11 @@ const authenticator: express.Handler = expressAsyncWrapper(
       });
     }
 
+    // Resources enforce the key's hunt restrictions as they resolve the hunt a
+    // request is for (see huntForMember), and lists of hunts are filtered to
+    // the ones the key can see.
+    res.locals.apiKey = key;
+
     DDP._CurrentInvocation.withValue(
       {
         userId: key.user,
@@ -0,0 +1,28 @@
+import { Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import type express from "express";
+
+// Resources share their business logic with Meteor methods, which report
+// failures by throwing a Meteor.Error with an HTTP status code. Translate those
+// (and argument validation failures) into responses; anything else falls
+// through to Express's default handling.
+const errorHandler: express.ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (error instanceof Match.Error) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+
+  if (error instanceof Meteor.Error && typeof error.error === "number") {
+    res.status(error.error).json({ error: error.reason });
+    return;
+  }
+
+  next(error);
+};
+
+export default errorHandler;
@@ -0,0 +1,62 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import type express from "express";
+import type { APIKeyType } from "../../lib/models/APIKeys";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+
+function apiKeyMayUseHunt(apiKey: APIKeyType, huntId: string) {
+  return !apiKey.hunts || apiKey.hunts.includes(huntId);
+}
+
+// Registered as the `huntId` param handler on every router with hunt-scoped
+// routes, so a key restricted to some hunts is refused for any other hunt no
+// matter how Express matched the route (e.g. case-insensitively).
+export const restrictAPIKeyToHunt: express.RequestParamHandler = (
+  _req,
+  res,
+  next,
+  huntId,
+) => {
+  const apiKey: APIKeyType = res.locals.apiKey;
+  if (!apiKeyMayUseHunt(apiKey, huntId)) {
+    res
+      .status(403)
+      .json({ error: `API key may not be used with hunt ${huntId}` });
+    return;
+  }
+  next();
+};
+
+// Look up the hunt named by an API request, making sure that the user the API
+// key belongs to is a member of it and that the key may be used with it.
+export default async function huntForMember(
+  apiKey: APIKeyType,
+  huntId: string | undefined,
+) {
+  const userId = Meteor.userId();
+
+  check(userId, String);
+  check(huntId, String);
+
+  if (!apiKeyMayUseHunt(apiKey, huntId)) {
+    throw new Meteor.Error(403, `API key may not be used with hunt ${huntId}`);
+  }
+
+  const user = await MeteorUsers.findOneAsync({ _id: userId });
+  if (!user) {
+    // Should never happen if the API key passed authentication.
+    throw new Meteor.Error(500, "Unknown user");
+  }
+
+  if (!user.hunts?.includes(huntId)) {
+    throw new Meteor.Error(403, `User ${userId} is not a member of ${huntId}`);
+  }
+
+  const hunt = await Hunts.findOneAsync(huntId);
+  if (!hunt) {
+    throw new Meteor.Error(404, "Unknown hunt id");
+  }
+
+  return { user, hunt };
+}
@@ -0,0 +1,60 @@
+import { check } from "meteor/check";
+import bodyParser from "body-parser";
+import express from "express";
+import type { AnnouncementType } from "../../../lib/models/Announcements";
+import Announcements from "../../../lib/models/Announcements";
+import addAnnouncement from "../../addAnnouncement";
+import expressAsyncWrapper from "../../expressAsyncWrapper";
+import huntForMember, { restrictAPIKeyToHunt } from "../huntForMember";
+
+const announcements = express.Router();
+announcements.use(bodyParser.json());
+announcements.param("huntId", restrictAPIKeyToHunt);
+
+// GET /hunts/:huntId/announcements - list announcements, newest first
+announcements.get(
+  "/:huntId/announcements",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+
+    const huntAnnouncements = await Announcements.find(
+      { hunt: hunt._id },
+      { sort: { createdAt: -1 } },
+    ).mapAsync((announcement) => renderAnnouncement(announcement));
+    res.json({
+      announcements: huntAnnouncements,
+    });
+  }),
+);
+
+// POST /hunts/:huntId/announcements - post a new announcement
+announcements.post(
+  "/:huntId/announcements",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.body, {
+      message: String,
+    });
+
+    const id = await addAnnouncement({
+      huntId: hunt._id,
+      message: req.body.message,
+    });
+    res.json({
+      id,
+    });
+  }),
+);
+
+const renderAnnouncement = function renderAnnouncement(
+  announcement: AnnouncementType,
+) {
+  return {
+    _id: announcement._id,
+    message: announcement.message,
+    createdAt: announcement.createdAt,
+    createdBy: announcement.createdBy,
+  };
+};
+
+export default announcements;
@@ -0,0 +1,175 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import bodyParser from "body-parser";
+import express from "express";
+import type { GuessType } from "../../../lib/models/Guesses";
+import Guesses, { GuessStates } from "../../../lib/models/Guesses";
+import Puzzles from "../../../lib/models/Puzzles";
+import { userMayUpdateGuessesForHunt } from "../../../lib/permission_stubs";
+import addGuess from "../../addGuess";
+import expressAsyncWrapper from "../../expressAsyncWrapper";
+import markGuess from "../../markGuess";
+import huntForMember, { restrictAPIKeyToHunt } from "../huntForMember";
+
+const guesses = express.Router();
+guesses.use(bodyParser.json());
+guesses.param("huntId", restrictAPIKeyToHunt);
+
+// GET /hunts/:huntId/guesses - list guesses for a hunt, oldest first. Pass
+// ?state=pending to get the guess queue.
+guesses.get(
+  "/:huntId/guesses",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    const { state } = req.query;
+    check(state, Match.Optional(Match.OneOf(...GuessStates.options)));
+
+    const huntGuesses = await Guesses.find(
+      { hunt: hunt._id, ...(state ? { state } : {}) },
+      { sort: { createdAt: 1 } },
+    ).mapAsync((guess) => renderGuess(guess));
+    res.json({
+      guesses: huntGuesses,
+    });
+  }),
+);
+
+// GET /hunts/:huntId/guesses/:guessId - fetch a single guess
+guesses.get(
+  "/:huntId/guesses/:guessId",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.params.guessId, String);
+
+    const guess = await Guesses.findOneAsync({
+      _id: req.params.guessId,
+      hunt: hunt._id,
+    });
+    if (!guess) {
+      res.sendStatus(404);
+      return;
+    }
+
+    res.json(renderGuess(guess));
+  }),
+);
+
+// PATCH /hunts/:huntId/guesses/:guessId - mark a guess as correct, incorrect,
+// etc.
+guesses.patch(
+  "/:huntId/guesses/:guessId",
+  expressAsyncWrapper(async (req, res) => {
+    const { user, hunt } = await huntForMember(
+      res.locals.apiKey,
+      req.params.huntId,
+    );
+    check(req.body, {
+      state: Match.OneOf(...GuessStates.options),
+      additionalNotes: Match.Optional(String),
+    });
+    check(req.params.guessId, String);
+
+    const guess = await Guesses.findOneAsync({
+      _id: req.params.guessId,
+      hunt: hunt._id,
+    });
+    if (!guess) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const puzzle = await Puzzles.findOneAsync(guess.puzzle);
+    if (!puzzle) {
+      throw new Meteor.Error(404, "Puzzle is deleted");
+    }
+
+    if (!userMayUpdateGuessesForHunt(user, hunt)) {
+      throw new Meteor.Error(401, "Must be permitted to update guesses");
+    }
+
+    const { state, additionalNotes } = req.body;
+    await markGuess({
+      guess,
+      puzzle,
+      state,
+      additionalNotes,
+      userId: user._id,
+    });
+
+    res.json(renderGuess((await Guesses.findOneAsync(guess._id)) ?? guess));
+  }),
+);
+
+// GET /hunts/:huntId/puzzles/:puzzleId/guesses - list guesses for a puzzle
+guesses.get(
+  "/:huntId/puzzles/:puzzleId/guesses",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.params.puzzleId, String);
+
+    const puzzle = await Puzzles.findOneAsync({
+      _id: req.params.puzzleId,
+      hunt: hunt._id,
+    });
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const puzzleGuesses = await Guesses.find(
+      { puzzle: puzzle._id },
+      { sort: { createdAt: 1 } },
+    ).mapAsync((guess) => renderGuess(guess));
+    res.json({
+      guesses: puzzleGuesses,
+    });
+  }),
+);
+
+// POST /hunts/:huntId/puzzles/:puzzleId/guesses - submit a guess
+guesses.post(
+  "/:huntId/puzzles/:puzzleId/guesses",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.body, {
+      guess: String,
+      direction: Number,
+      confidence: Number,
+    });
+    check(req.params.puzzleId, String);
+
+    const puzzle = await Puzzles.findOneAsync({
+      _id: req.params.puzzleId,
+      hunt: hunt._id,
+    });
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const id = await addGuess({
+      puzzleId: puzzle._id,
+      ...req.body,
+    });
+    res.json({
+      id,
+    });
+  }),
+);
+
+const renderGuess = function renderGuess(guess: GuessType) {
+  return {
+    _id: guess._id,
+    puzzle: guess.puzzle,
+    guess: guess.guess,
+    direction: guess.direction,
+    confidence: guess.confidence,
+    state: guess.state,
+    additionalNotes: guess.additionalNotes,
+    duplicateOf: guess.duplicateOf,
+    createdAt: guess.createdAt,
+    createdBy: guess.createdBy,
+  };
+};
+
+export default guesses;
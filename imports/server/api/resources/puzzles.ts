@@ -0,0 +1,196 @@
+import { check, Match } from "meteor/check";
+import bodyParser from "body-parser";
+import express from "express";
+import Logger from "../../../Logger";
+import type { GdriveMimeTypesType } from "../../../lib/GdriveMimeTypes";
+import GdriveMimeTypes from "../../../lib/GdriveMimeTypes";
+import type { PuzzleType } from "../../../lib/models/Puzzles";
+import Puzzles from "../../../lib/models/Puzzles";
+import Tags from "../../../lib/models/Tags";
+import { computeSolvedness } from "../../../lib/solvedness";
+import addPuzzle from "../../addPuzzle";
+import editPuzzle from "../../editPuzzle";
+import expressAsyncWrapper from "../../expressAsyncWrapper";
+import getOrCreateTagByName from "../../getOrCreateTagByName";
+import huntForMember, { restrictAPIKeyToHunt } from "../huntForMember";
+
+const puzzles = express.Router();
+puzzles.use(bodyParser.json());
+puzzles.param("huntId", restrictAPIKeyToHunt);
+
+async function findPuzzle(huntId: string, puzzleId: string | undefined) {
+  check(puzzleId, String);
+  return Puzzles.findOneAsync({ _id: puzzleId, hunt: huntId });
+}
+
+// GET /hunts/:huntId/puzzles - list puzzles for a hunt, with their tags and
+// answers
+puzzles.get(
+  "/:huntId/puzzles",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+
+    const huntPuzzles = await Puzzles.find(
+      { hunt: hunt._id },
+      { sort: { createdAt: 1 } },
+    ).fetchAsync();
+    res.json({
+      puzzles: await renderPuzzles(hunt._id, huntPuzzles),
+    });
+  }),
+);
+
+// POST /hunts/:huntId/puzzles - create a new puzzle
+puzzles.post(
+  "/:huntId/puzzles",
+  expressAsyncWrapper(async (req, res) => {
+    check(req.params.huntId, String);
+    check(req.body, {
+      title: String,
+      url: Match.Optional(String),
+      tags: [String],
+      expectedAnswerCount: Number,
+      docType: Match.OneOf(
+        ...(Object.keys(GdriveMimeTypes) as GdriveMimeTypesType[]),
+      ),
+      allowDuplicateUrls: Match.Optional(Boolean),
+    });
+
+    const id = await addPuzzle({
+      huntId: req.params.huntId,
+      ...req.body,
+    });
+    res.json({
+      id,
+    });
+  }),
+);
+
+// GET /hunts/:huntId/puzzles/:puzzleId - fetch a single puzzle
+puzzles.get(
+  "/:huntId/puzzles/:puzzleId",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+
+    const puzzle = await findPuzzle(hunt._id, req.params.puzzleId);
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const [rendered] = await renderPuzzles(hunt._id, [puzzle]);
+    res.json(rendered);
+  }),
+);
+
+// PATCH /hunts/:huntId/puzzles/:puzzleId - update a puzzle. Any fields that
+// are omitted are left unchanged; pass a null url to clear it.
+puzzles.patch(
+  "/:huntId/puzzles/:puzzleId",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.body, {
+      title: Match.Optional(String),
+      url: Match.Optional(Match.OneOf(String, null)),
+      tags: Match.Optional([String]),
+      expectedAnswerCount: Match.Optional(Number),
+    });
+
+    const puzzle = await findPuzzle(hunt._id, req.params.puzzleId);
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const { title, url, tags, expectedAnswerCount } = req.body;
+    const currentTags = await Tags.find({
+      _id: { $in: puzzle.tags },
+    }).mapAsync((tag) => tag.name);
+    await editPuzzle({
+      puzzleId: puzzle._id,
+      title: title ?? puzzle.title,
+      url: url === null ? undefined : (url ?? puzzle.url),
+      tags: tags ?? currentTags,
+      expectedAnswerCount: expectedAnswerCount ?? puzzle.expectedAnswerCount,
+    });
+
+    const updated = await findPuzzle(hunt._id, puzzle._id);
+    const [rendered] = await renderPuzzles(hunt._id, [updated ?? puzzle]);
+    res.json(rendered);
+  }),
+);
+
+// POST /hunts/:huntId/puzzles/:puzzleId/tags - add a tag (by name) to a
+// puzzle, creating the tag if necessary
+puzzles.post(
+  "/:huntId/puzzles/:puzzleId/tags",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.body, {
+      name: String,
+    });
+
+    const puzzle = await findPuzzle(hunt._id, req.params.puzzleId);
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const tagId = await getOrCreateTagByName(hunt._id, req.body.name);
+    Logger.info("Tagging puzzle", { puzzle: puzzle._id, tag: req.body.name });
+    await Puzzles.updateAsync(puzzle._id, { $addToSet: { tags: tagId } });
+    res.sendStatus(204);
+  }),
+);
+
+// DELETE /hunts/:huntId/puzzles/:puzzleId/tags/:tagName - remove a tag from a
+// puzzle
+puzzles.delete(
+  "/:huntId/puzzles/:puzzleId/tags/:tagName",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+    check(req.params.tagName, String);
+
+    const puzzle = await findPuzzle(hunt._id, req.params.puzzleId);
+    if (!puzzle) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const tag = await Tags.findOneAsync({
+      hunt: hunt._id,
+      name: req.params.tagName,
+    });
+    if (tag) {
+      Logger.info("Untagging puzzle", { puzzle: puzzle._id, tag: tag._id });
+      await Puzzles.updateAsync(puzzle._id, { $pull: { tags: tag._id } });
+    }
+    res.sendStatus(204);
+  }),
+);
+
+const renderPuzzles = async function renderPuzzles(
+  huntId: string,
+  puzzleList: PuzzleType[],
+) {
+  const tagNames = new Map(
+    await Tags.find({ hunt: huntId }).mapAsync((tag) => [tag._id, tag.name]),
+  );
+
+  return puzzleList.map((puzzle) => ({
+    _id: puzzle._id,
+    title: puzzle.title,
+    url: puzzle.url,
+    tags: puzzle.tags.flatMap((tagId) => tagNames.get(tagId) ?? []),
+    answers: puzzle.answers,
+    expectedAnswerCount: puzzle.expectedAnswerCount,
+    solvedness: computeSolvedness(puzzle),
+    feeders: puzzle.feeders,
+    status: puzzle.status ?? "new",
+    statusNote: puzzle.statusNote,
+    assignees: puzzle.assignees ?? [],
+    createdAt: puzzle.createdAt,
+  }));
+};
+
+export default puzzles;
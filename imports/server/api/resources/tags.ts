@@ -0,0 +1,23 @@
+import express from "express";
+import type { TagType } from "../../../lib/models/Tags";
+import Tags from "../../../lib/models/Tags";
+import expressAsyncWrapper from "../../expressAsyncWrapper";
+import huntForMember, { restrictAPIKeyToHunt } from "../huntForMember";
+
+const tags = express.Router();
+tags.param("huntId", restrictAPIKeyToHunt);
+
+// GET /hunts/:huntId/tags - list tags for a hunt
+tags.get(
+  "/:huntId/tags",
+  expressAsyncWrapper(async (req, res) => {
+    const { hunt } = await huntForMember(res.locals.apiKey, req.params.huntId);
+
+    const huntTags = Tags.find({ hunt: hunt._id });
+    res.json({
+      tags: await huntTags.mapAsync((tag: TagType) => tag.name),
+    });
+  }),
+);
+
+export default tags;
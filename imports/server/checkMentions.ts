@@ -0,0 +1,42 @@
+import { Meteor } from "meteor/meteor";
+import { OPERATOR_ROLE } from "../lib/huntRoles";
+import type { ChatMessageContentType } from "../lib/models/ChatMessages";
+import HuntGroups from "../lib/models/HuntGroups";
+import type { HuntType } from "../lib/models/Hunts";
+import nodeIsGroupMention from "../lib/nodeIsGroupMention";
+import nodeIsRoleMention from "../lib/nodeIsRoleMention";
+
+// Makes sure every role and group mentioned in a chat message belongs to the
+// hunt the message is being posted in.
+export default async function checkMentions(
+  content: ChatMessageContentType,
+  hunt: Pick<HuntType, "_id" | "customRoles">,
+) {
+  const roleIds = new Set([
+    OPERATOR_ROLE,
+    ...(hunt.customRoles ?? []).map((role) => role.id),
+  ]);
+  const unknownRole = content.children.find(
+    (child) => nodeIsRoleMention(child) && !roleIds.has(child.roleId),
+  );
+  if (unknownRole) {
+    throw new Meteor.Error(400, `Unknown role mentioned in hunt ${hunt._id}`);
+  }
+
+  const groupIds = new Set(
+    content.children.flatMap((child) =>
+      nodeIsGroupMention(child) ? [child.groupId] : [],
+    ),
+  );
+  if (groupIds.size === 0) {
+    return;
+  }
+
+  const found = await HuntGroups.find({
+    _id: { $in: [...groupIds] },
+    hunt: hunt._id,
+  }).countAsync();
+  if (found !== groupIds.size) {
+    throw new Meteor.Error(400, `Unknown group mentioned in hunt ${hunt._id}`);
+  }
+}
@@ -1 +1,2 @@
 import "./discord";
+import "./webhooks";
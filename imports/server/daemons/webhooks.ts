@@ -0,0 +1,41 @@
+import { setTimeout } from "node:timers/promises";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import WebhookDeliveries from "../../lib/models/WebhookDeliveries";
+import onExit from "../onExit";
+import { attemptWebhookDelivery } from "../webhooks";
+
+// Every server polls for due deliveries. attemptWebhookDelivery claims each
+// delivery before sending it, so they won't be sent twice, and deliveries
+// that were in flight when a server died get picked up again once their claim
+// expires.
+async function deliverWebhooksLoop(abort: AbortSignal) {
+  while (!abort.aborted) {
+    try {
+      const due = await WebhookDeliveries.find(
+        { state: "pending", nextAttemptAt: { $lte: new Date() } },
+        { sort: { nextAttemptAt: 1 }, limit: 50 },
+      ).fetchAsync();
+      await Promise.all(due.map((d) => attemptWebhookDelivery(d)));
+    } catch (error) {
+      Logger.error("Error delivering webhooks", { error });
+    }
+
+    // Wake up every 5 seconds (+/- 1 second of jitter)
+    await setTimeout(4 * 1000 + Math.random() * 2 * 1000, undefined, {
+      signal: abort,
+    }).catch(() => {
+      // aborted
+    });
+  }
+}
+
+Meteor.startup(() => {
+  if (Meteor.isTest || Meteor.isAppTest) {
+    return;
+  }
+
+  const abort = new AbortController();
+  onExit(() => abort.abort());
+  void deliverWebhooksLoop(abort.signal);
+});
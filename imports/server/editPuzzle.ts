@@ -0,0 +1,109 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import type { Mongo } from "meteor/mongo";
+import Logger from "../Logger";
+import Documents from "../lib/models/Documents";
+import Hunts from "../lib/models/Hunts";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import type { PuzzleType } from "../lib/models/Puzzles";
+import Puzzles from "../lib/models/Puzzles";
+import { userMayWritePuzzlesForHunt } from "../lib/permission_stubs";
+import GlobalHooks from "./GlobalHooks";
+import { ensureDocument, puzzleDocumentName, renameDocument } from "./gdrive";
+import getOrCreateTagByName from "./getOrCreateTagByName";
+
+export default async function editPuzzle({
+  puzzleId,
+  title,
+  url,
+  tags,
+  expectedAnswerCount,
+}: {
+  puzzleId: string;
+  title: string;
+  url?: string;
+  tags: string[];
+  expectedAnswerCount: number;
+}) {
+  const userId = Meteor.userId();
+
+  check(userId, String);
+  check(puzzleId, String);
+  check(title, String);
+  check(url, Match.Optional(String));
+  check(tags, [String]);
+  check(expectedAnswerCount, Number);
+
+  const oldPuzzle = await Puzzles.findOneAllowingDeletedAsync(puzzleId);
+  if (!oldPuzzle) {
+    throw new Meteor.Error(404, "Unknown puzzle id");
+  }
+  const hunt = await Hunts.findOneAsync(oldPuzzle.hunt);
+  if (
+    !userMayWritePuzzlesForHunt(await MeteorUsers.findOneAsync(userId), hunt)
+  ) {
+    throw new Meteor.Error(
+      401,
+      `User ${userId} may not modify puzzles from hunt ${oldPuzzle.hunt}`,
+    );
+  }
+
+  // Look up each tag by name and map them to tag IDs.
+  const tagIds = await Promise.all(
+    tags.map(async (tagName) => {
+      return getOrCreateTagByName(oldPuzzle.hunt, tagName);
+    }),
+  );
+
+  Logger.info("Updating a puzzle", {
+    hunt: oldPuzzle.hunt,
+    puzzle: puzzleId,
+    title,
+    expectedAnswerCount,
+  });
+
+  const update: Mongo.Modifier<PuzzleType> = {
+    $set: {
+      title,
+      expectedAnswerCount,
+      tags: [...new Set(tagIds)],
+    },
+  };
+  if (url) {
+    update.$set = { ...update.$set, url };
+  } else {
+    update.$unset = { url: "" };
+  }
+  await Puzzles.updateAsync(puzzleId, update);
+
+  // Run any puzzle update hooks
+  Meteor.defer(() => {
+    void GlobalHooks.runPuzzleUpdatedHooks(puzzleId, oldPuzzle);
+  });
+
+  // Pads don't have names, so only Google documents need renaming
+  if (oldPuzzle.title !== title && hunt?.documentProvider !== "etherpad") {
+    Meteor.defer(
+      Meteor.bindEnvironment(async () => {
+        await ensureDocument({
+          _id: puzzleId,
+          title,
+          hunt: oldPuzzle.hunt,
+        });
+        const docs = await Documents.find({
+          puzzle: puzzleId,
+          provider: "google",
+        }).fetchAsync();
+        for (const doc of docs) {
+          if (doc.provider !== "google") {
+            continue;
+          }
+          await renameDocument(
+            doc.value.id,
+            await puzzleDocumentName(title, doc.title),
+          );
+        }
+      }),
+    );
+  }
+}
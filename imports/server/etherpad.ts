@@ -0,0 +1,206 @@
+import { fetch } from "meteor/fetch";
+import { Meteor } from "meteor/meteor";
+import { Random } from "meteor/random";
+import Flags from "../Flags";
+import Logger from "../Logger";
+import Documents from "../lib/models/Documents";
+import Settings from "../lib/models/Settings";
+import withLock from "./withLock";
+
+// The version of the Etherpad HTTP API we use. Any Etherpad release from 1.8
+// onwards supports it.
+const API_VERSION = "1.2.13";
+
+type EtherpadResponse<T> = {
+  // 0 means success; anything else is an error described by message
+  code: number;
+  message: string;
+  data: T | null;
+};
+
+export type EtherpadPadUser = {
+  id: string;
+  // The name the user gave when joining the pad (we pass their display name
+  // in the embed URL)
+  name: string | null;
+};
+
+export class EtherpadClient {
+  private baseUrl: string;
+
+  private apiKey: string;
+
+  constructor(baseUrl: string, apiKey: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+  }
+
+  private request = async <T>(
+    method: string,
+    params: Record<string, string>,
+  ): Promise<EtherpadResponse<T>> => {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/${API_VERSION}/${method}`, {
+        method: "POST",
+        body: new URLSearchParams({ apikey: this.apiKey, ...params }),
+      });
+    } catch (e) {
+      throw new Meteor.Error(
+        `Failed to call Etherpad API ${method}. ${
+          e instanceof Error ? e.message : e
+        }`,
+      );
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw Object.assign(
+        new Meteor.Error(
+          `Failed to call Etherpad API ${method}. ${response.statusText}`,
+        ),
+        { response: text },
+      );
+    }
+
+    return response.json();
+  };
+
+  private call = async <T>(
+    method: string,
+    params: Record<string, string>,
+  ): Promise<T> => {
+    const response = await this.request<T>(method, params);
+    if (response.code !== 0) {
+      throw new Meteor.Error(
+        `Etherpad API ${method} failed. ${response.message}`,
+      );
+    }
+    return response.data as T;
+  };
+
+  padUrl = (padId: string) => {
+    return `${this.baseUrl}/p/${encodeURIComponent(padId)}`;
+  };
+
+  // Verifies that the server is reachable and the API key is valid
+  checkToken = async () => {
+    await this.call("checkToken", {});
+  };
+
+  createPad = async (padId: string) => {
+    const response = await this.request("createPad", { padID: padId });
+    // If a previous attempt created the pad but didn't manage to record it,
+    // just pick up where it left off
+    if (response.code !== 0 && !/already exist/i.test(response.message)) {
+      throw new Meteor.Error(
+        `Etherpad API createPad failed. ${response.message}`,
+      );
+    }
+  };
+
+  // Returns the time of the pad's last edit, in milliseconds since the epoch
+  getLastEdited = async (padId: string) => {
+    const data = await this.call<{ lastEdited: number }>("getLastEdited", {
+      padID: padId,
+    });
+    return data.lastEdited;
+  };
+
+  // Returns the users who currently have the pad open
+  padUsers = async (padId: string) => {
+    const data = await this.call<{ padUsers: EtherpadPadUser[] }>("padUsers", {
+      padID: padId,
+    });
+    return data.padUsers;
+  };
+}
+
+export async function makeEtherpadClientFromSettings(): Promise<
+  EtherpadClient | undefined
+> {
+  if (await Flags.activeAsync("disable.etherpad")) {
+    return undefined;
+  }
+
+  const setting = await Settings.findOneAsync({ name: "etherpad.server" });
+  if (setting?.name !== "etherpad.server") {
+    return undefined;
+  }
+
+  return new EtherpadClient(setting.value.url, setting.value.apiKey);
+}
+
+// Creates a pad and records it as one of the puzzle's documents
+async function createPadDocument(
+  client: EtherpadClient,
+  puzzle: { _id: string; hunt: string },
+  padId: string,
+  title?: string,
+) {
+  await client.createPad(padId);
+  return Documents.insertAsync({
+    hunt: puzzle.hunt,
+    puzzle: puzzle._id,
+    title,
+    provider: "etherpad" as const,
+    value: { id: padId, url: client.padUrl(padId) },
+  });
+}
+
+export async function ensureEtherpadDocument(puzzle: {
+  _id: string;
+  hunt: string;
+}) {
+  let doc = await Documents.findOneAsync(
+    { puzzle: puzzle._id },
+    { sort: { createdAt: 1 } },
+  );
+  if (doc) {
+    return doc;
+  }
+
+  // Like with Google Drive, puzzles just go without documents if Etherpad
+  // isn't set up
+  const client = await makeEtherpadClientFromSettings();
+  if (!client) {
+    return undefined;
+  }
+
+  await withLock(`puzzle:${puzzle._id}:documents`, async () => {
+    doc = await Documents.findOneAsync(
+      { puzzle: puzzle._id },
+      { sort: { createdAt: 1 } },
+    );
+    if (!doc) {
+      Logger.info("Creating missing pad for puzzle", {
+        puzzle: puzzle._id,
+      });
+
+      // Pad IDs are global to the Etherpad server, so namespace them in case
+      // the server is shared with other users
+      const docId = await createPadDocument(client, puzzle, `jr-${puzzle._id}`);
+      doc = (await Documents.findOneAsync(docId))!;
+    }
+  });
+
+  return doc;
+}
+
+export async function addEtherpadDocument(
+  puzzle: { _id: string; hunt: string },
+  title: string,
+) {
+  const client = await makeEtherpadClientFromSettings();
+  if (!client) {
+    throw new Meteor.Error(500, "Etherpad is not configured.");
+  }
+
+  Logger.info("Creating additional pad for puzzle", { puzzle: puzzle._id });
+  return createPadDocument(
+    client,
+    puzzle,
+    `jr-${puzzle._id}-${Random.id()}`,
+    title,
+  );
+}
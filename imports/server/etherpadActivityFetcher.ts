@@ -0,0 +1,123 @@
+import { setTimeout } from "node:timers/promises";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import {
+  ACTIVITY_GRANULARITY,
+  ACTIVITY_SEGMENTS,
+} from "../lib/config/activityTracking";
+import DocumentActivities from "../lib/models/DocumentActivities";
+import type { DocumentType } from "../lib/models/Documents";
+import Documents from "../lib/models/Documents";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import roundedTime from "../lib/roundedTime";
+import type { EtherpadClient } from "./etherpad";
+import { makeEtherpadClientFromSettings } from "./etherpad";
+import { serverId } from "./garbage-collection";
+import ignoringDuplicateKeyErrors from "./ignoringDuplicateKeyErrors";
+import Subscribers from "./models/Subscribers";
+
+// Etherpad has nothing like the Drive Activity API, so instead we poll pads
+// for their last edit time. Pads only get edited while someone has them open,
+// so each server only polls the pads for puzzles that its own clients are
+// viewing, which also spreads the work across servers without needing a lock.
+
+// The most recent edit we've recorded for each pad
+const lastRecordedEdits = new Map<string, number>();
+
+async function recordPadChanges(
+  client: EtherpadClient,
+  document: DocumentType & { provider: "etherpad" },
+) {
+  const padId = document.value.id;
+  const lastEdited = await client.getLastEdited(padId);
+  if (
+    lastEdited < Date.now() - ACTIVITY_GRANULARITY * ACTIVITY_SEGMENTS ||
+    lastEdited <= (lastRecordedEdits.get(padId) ?? 0)
+  ) {
+    return;
+  }
+  lastRecordedEdits.set(padId, lastEdited);
+
+  // Etherpad doesn't tell us who made an edit, so we attribute it to everyone
+  // who has the pad open, matched by the display name we pass when embedding
+  // it. If we can't match anyone, record it as user=undefined, which we'll
+  // count as a separate user.
+  const names = (await client.padUsers(padId)).flatMap((u) => u.name ?? []);
+  const userIds =
+    names.length > 0
+      ? await MeteorUsers.find(
+          { hunts: document.hunt, displayName: { $in: names } },
+          { projection: { _id: 1 } },
+        ).mapAsync((u) => u._id)
+      : [];
+
+  const ts = roundedTime(ACTIVITY_GRANULARITY, new Date(lastEdited));
+  for (const user of userIds.length > 0 ? userIds : [undefined]) {
+    await ignoringDuplicateKeyErrors(async () => {
+      await DocumentActivities.insertAsync({
+        ts,
+        document: document._id,
+        hunt: document.hunt,
+        puzzle: document.puzzle,
+        user,
+      });
+    });
+  }
+}
+
+async function fetchEtherpadActivity() {
+  const client = await makeEtherpadClientFromSettings();
+  if (!client) {
+    return;
+  }
+
+  const puzzleIds = await Subscribers.find({
+    server: serverId,
+    name: /^puzzle:/,
+  }).mapAsync((s) => s.name.substring("puzzle:".length));
+  if (puzzleIds.length === 0) {
+    return;
+  }
+
+  const documents = await Documents.find({
+    provider: "etherpad",
+    puzzle: { $in: [...new Set(puzzleIds)] },
+  }).fetchAsync();
+  for (const document of documents) {
+    if (document.provider !== "etherpad") {
+      continue;
+    }
+
+    try {
+      await recordPadChanges(client, document);
+    } catch (error) {
+      // Don't let one broken pad stop us from checking the rest
+      Logger.warn("Error fetching pad activity", {
+        document: document._id,
+        error,
+      });
+    }
+  }
+}
+
+async function fetchActivityLoop() {
+  while (true) {
+    try {
+      await fetchEtherpadActivity();
+    } catch (error) {
+      Logger.error("Error fetching Etherpad activity", { error });
+    }
+
+    // Wake up every 15 seconds (+/- 2 seconds of jitter)
+    await setTimeout(13 * 1000 + Math.random() * 4 * 1000);
+  }
+}
+
+Meteor.startup(() => {
+  if (Meteor.isTest || Meteor.isAppTest) {
+    return;
+  }
+
+  // fetchActivityLoop catches its own errors, so voiding this promise is safe.
+  void fetchActivityLoop();
+});
@@ -2,13 +2,16 @@ import { Meteor } from "meteor/meteor";
 import type { drive_v3 as drive } from "@googleapis/drive";
 import Flags from "../Flags";
 import Logger from "../Logger";
+import { pickDocumentTemplate } from "../lib/documentTemplates";
 import type { GdriveMimeTypesType } from "../lib/GdriveMimeTypes";
 import GdriveMimeTypes from "../lib/GdriveMimeTypes";
 import Documents from "../lib/models/Documents";
 import FolderPermissions from "../lib/models/FolderPermissions";
+import type { HuntType } from "../lib/models/Hunts";
 import Hunts from "../lib/models/Hunts";
 import type { SettingType } from "../lib/models/Settings";
 import Settings from "../lib/models/Settings";
+import Tags from "../lib/models/Tags";
 import getTeamName from "./getTeamName";
 import GoogleClient from "./googleClientRefresher";
 import ignoringDuplicateKeyErrors from "./ignoringDuplicateKeyErrors";
@@ -48,6 +51,8 @@ async function createDocument(
   name: string,
   type: GdriveMimeTypesType,
   parentId?: string,
+  // If not provided, the server-wide template for the type is used (if any)
+  templateId?: string,
 ) {
   if (!Object.hasOwn(GdriveMimeTypes, type)) {
     throw new Meteor.Error(400, `Invalid document type ${type}`);
@@ -56,21 +61,25 @@ async function createDocument(
   if (!GoogleClient.drive)
     throw new Meteor.Error(500, "Google integration is disabled");
 
-  const template = (await Settings.findOneAsync({
-    name: `gdrive.template.${type}` as any,
-  })) as
-    | undefined
-    | (SettingType &
-        (
-          | { name: "gdrive.template.document" }
-          | { name: "gdrive.template.spreadsheet" }
-        ));
+  const template =
+    templateId ??
+    (
+      (await Settings.findOneAsync({
+        name: `gdrive.template.${type}` as any,
+      })) as
+        | undefined
+        | (SettingType &
+            (
+              | { name: "gdrive.template.document" }
+              | { name: "gdrive.template.spreadsheet" }
+            ))
+    )?.value.id;
   const mimeType = GdriveMimeTypes[type];
   const parents = parentId ? [parentId] : undefined;
 
   const file = await (template
     ? GoogleClient.drive.files.copy({
-        fileId: template.value.id,
+        fileId: template,
         requestBody: { name, mimeType, parents },
       })
     : GoogleClient.drive.files.create({
@@ -110,8 +119,14 @@ export async function huntFolderName(huntName: string) {
   return `${huntName}: ${await getTeamName()}`;
 }
 
-export async function puzzleDocumentName(puzzleTitle: string) {
-  return `${puzzleTitle}: ${await getTeamName()}`;
+export async function puzzleDocumentName(
+  puzzleTitle: string,
+  documentTitle?: string,
+) {
+  const name = documentTitle
+    ? `${puzzleTitle} (${documentTitle})`
+    : puzzleTitle;
+  return `${name}: ${await getTeamName()}`;
 }
 
 export async function renameDocument(id: string, name: string) {
@@ -254,23 +269,48 @@ export async function ensureHuntFolderPermission(
   });
 }
 
+// Finds the hunt's most specific template for a new document for the puzzle,
+// if it has one
+async function huntDocumentTemplate(
+  hunt: HuntType | undefined,
+  puzzle: { tags?: string[] },
+  type: GdriveMimeTypesType,
+) {
+  if (!hunt?.documentTemplates?.length) {
+    return undefined;
+  }
+
+  const tagNames = puzzle.tags?.length
+    ? await Tags.find({ _id: { $in: puzzle.tags } }).mapAsync((t) => t.name)
+    : [];
+  return pickDocumentTemplate(hunt.documentTemplates, type, tagNames)?.id;
+}
+
 export async function ensureDocument(
   puzzle: {
     _id: string;
     title: string;
     hunt: string;
+    tags?: string[];
   },
   type: GdriveMimeTypesType = "spreadsheet",
 ) {
   const hunt = await Hunts.findOneAllowingDeletedAsync(puzzle.hunt);
   const folderId = hunt ? await ensureHuntFolder(hunt) : undefined;
 
-  let doc = await Documents.findOneAsync({ puzzle: puzzle._id });
+  // A puzzle's main document is the first one created for it
+  let doc = await Documents.findOneAsync(
+    { puzzle: puzzle._id },
+    { sort: { createdAt: 1 } },
+  );
   if (!doc) {
     await checkClientOk();
 
     await withLock(`puzzle:${puzzle._id}:documents`, async () => {
-      doc = await Documents.findOneAsync({ puzzle: puzzle._id });
+      doc = await Documents.findOneAsync(
+        { puzzle: puzzle._id },
+        { sort: { createdAt: 1 } },
+      );
       if (!doc) {
         Logger.info("Creating missing document for puzzle", {
           puzzle: puzzle._id,
@@ -280,6 +320,7 @@ export async function ensureDocument(
           await puzzleDocumentName(puzzle.title),
           type,
           folderId,
+          await huntDocumentTemplate(hunt, puzzle, type),
         );
         const newDoc = {
           hunt: puzzle.hunt,
@@ -293,7 +334,7 @@ export async function ensureDocument(
     });
   }
 
-  if (doc && folderId && doc.value.folder !== folderId) {
+  if (doc?.provider === "google" && folderId && doc.value.folder !== folderId) {
     await moveDocument(doc.value.id, folderId);
     await Documents.updateAsync(doc._id, {
       $set: { "value.folder": folderId },
@@ -303,3 +344,37 @@ export async function ensureDocument(
 
   return doc!;
 }
+
+// Unlike ensureDocument, this always creates a new document, for puzzles which
+// need more than just their main one
+export async function addDocument(
+  puzzle: {
+    _id: string;
+    title: string;
+    hunt: string;
+    tags?: string[];
+  },
+  type: GdriveMimeTypesType,
+  title: string,
+) {
+  const hunt = await Hunts.findOneAllowingDeletedAsync(puzzle.hunt);
+  const folderId = hunt ? await ensureHuntFolder(hunt) : undefined;
+
+  Logger.info("Creating additional document for puzzle", {
+    puzzle: puzzle._id,
+    type,
+  });
+  const googleDocId = await createDocument(
+    await puzzleDocumentName(puzzle.title, title),
+    type,
+    folderId,
+    await huntDocumentTemplate(hunt, puzzle, type),
+  );
+  return Documents.insertAsync({
+    hunt: puzzle.hunt,
+    puzzle: puzzle._id,
+    title,
+    provider: "google" as const,
+    value: { type, id: googleDocId, folder: folderId },
+  });
+}
@@ -26,7 +26,10 @@ async function recordDriveChanges(
   // In all likelihood, we will only have one of each of these, but for
   // completeness we'll record the full cartesian product
   for (const fileId of fileIds) {
-    const document = await Documents.findOneAsync({ "value.id": fileId });
+    const document = await Documents.findOneAsync({
+      provider: "google",
+      "value.id": fileId,
+    });
     if (!document) {
       continue;
     }
@@ -0,0 +1,69 @@
+import { Meteor } from "meteor/meteor";
+import announcementSmsText from "../../lib/announcementSms";
+import Announcements from "../../lib/models/Announcements";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { isInQuietHours } from "../../lib/notificationPreferences";
+import sendNotificationEmail from "../sendNotificationEmail";
+import sendSms from "../sms";
+import type Hookset from "./Hookset";
+
+// Sends announcements by email and text message to hunters who have opted in
+// for the announcement's hunt. This is on top of the usual in-app delivery, so
+// hunters in their quiet hours are skipped rather than queued.
+const AnnouncementDeliveryHooks: Hookset = {
+  name: "AnnouncementDeliveryHooks",
+
+  async onAnnouncement(announcementId: string) {
+    const announcement = await Announcements.findOneAsync(announcementId);
+    if (!announcement) {
+      return;
+    }
+    const hunt = await Hunts.findOneAsync(announcement.hunt);
+    if (!hunt) {
+      return;
+    }
+
+    const sender = await MeteorUsers.findOneAsync(announcement.createdBy);
+    const senderName = sender?.displayName ?? "someone";
+    const url = Meteor.absoluteUrl(`hunts/${hunt._id}/announcements`);
+    const now = new Date();
+
+    const recipients = MeteorUsers.find(
+      {
+        hunts: hunt._id,
+        [`announcementChannels.${hunt._id}.0`]: { $exists: true },
+      },
+      {
+        projection: {
+          emails: 1,
+          phoneNumber: 1,
+          announcementChannels: 1,
+          notificationPreferences: 1,
+        },
+      },
+    );
+    for await (const user of recipients) {
+      if (isInQuietHours(user.notificationPreferences?.quietHours, now)) {
+        continue;
+      }
+
+      const channels = user.announcementChannels?.[hunt._id] ?? [];
+      if (channels.includes("email")) {
+        await sendNotificationEmail(
+          user,
+          `Announcement for ${hunt.name}`,
+          `${senderName} posted an announcement:\n\n${announcement.message}\n\n${url}\n`,
+        );
+      }
+      if (channels.includes("sms") && user.phoneNumber) {
+        await sendSms(
+          user.phoneNumber,
+          announcementSmsText(hunt.name, announcement.message, url),
+        );
+      }
+    }
+  },
+};
+
+export default AnnouncementDeliveryHooks;
@@ -1,7 +1,12 @@
+import { Meteor } from "meteor/meteor";
 import BookmarkNotifications from "../../lib/models/BookmarkNotifications";
 import Bookmarks from "../../lib/models/Bookmarks";
+import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
+import { resolveNotificationDelivery } from "../../lib/notificationPreferences";
 import { computeSolvedness } from "../../lib/solvedness";
+import sendNotificationEmail from "../sendNotificationEmail";
+import sendPushNotification from "../webPush";
 import type Hookset from "./Hookset";
 
 const BookmarkNotificationHooks: Hookset = {
@@ -11,11 +16,54 @@ const BookmarkNotificationHooks: Hookset = {
     const puzzle = (await Puzzles.findOneAsync(puzzleId))!;
     const solvedness = computeSolvedness(puzzle);
     const bookmarked = await Bookmarks.find({ puzzle: puzzleId }).fetchAsync();
+    const users = await MeteorUsers.find(
+      { _id: { $in: bookmarked.map((bookmark) => bookmark.user) } },
+      { projection: { _id: 1, emails: 1, notificationPreferences: 1 } },
+    ).fetchAsync();
+
+    const now = new Date();
+    const describeState =
+      solvedness === "solved" ? "has been solved" : "has a new answer";
+    const subject = `${puzzle.title} ${describeState}`;
+    const path = `hunts/${puzzle.hunt}/puzzles/${puzzle._id}`;
+    const text = `A puzzle you have bookmarked, ${puzzle.title}, ${describeState}: ${answer}`;
 
     await Promise.all(
-      bookmarked.map(async (bookmark) => {
+      users.map(async (user) => {
+        const delivery = resolveNotificationDelivery(
+          user.notificationPreferences,
+          "bookmark",
+          now,
+        );
+        if (delivery === "off") {
+          return;
+        }
+
+        if (
+          delivery === "email" &&
+          (await sendNotificationEmail(
+            user,
+            subject,
+            `${text}\n\n${Meteor.absoluteUrl(path)}\n`,
+          ))
+        ) {
+          return;
+        }
+
+        if (
+          delivery === "browser" &&
+          (await sendPushNotification(user._id, {
+            title: subject,
+            body: text,
+            url: `/${path}`,
+            tag: `bookmark-${puzzleId}`,
+          }))
+        ) {
+          return;
+        }
+
         await BookmarkNotifications.insertAsync({
-          user: bookmark.user,
+          user: user._id,
           puzzle: puzzleId,
           hunt: puzzle.hunt,
           solvedness,
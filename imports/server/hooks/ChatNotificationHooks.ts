@@ -1,17 +1,221 @@
+import { Meteor } from "meteor/meteor";
 import Flags from "../../Flags";
+import chatMessagePlainText from "../../lib/chatMessagePlainText";
 import {
   normalizedForDingwordSearch,
   normalizedMessageDingsUserByDingword,
 } from "../../lib/dingwordLogic";
+import type {
+  ChatMessageContentNodeType,
+  ChatMessageType,
+} from "../../lib/models/ChatMessages";
 import ChatMessages from "../../lib/models/ChatMessages";
 import ChatNotifications from "../../lib/models/ChatNotifications";
+import HuntGroups from "../../lib/models/HuntGroups";
+import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
 import nodeIsMention from "../../lib/nodeIsMention";
 import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
-import { queryOperatorsForHunt } from "../../lib/permission_stubs";
+import { resolveNotificationDelivery } from "../../lib/notificationPreferences";
+import {
+  queryOperatorsForHunt,
+  queryUsersWithRoleForHunt,
+} from "../../lib/permission_stubs";
 import Subscribers from "../models/Subscribers";
+import sendNotificationEmail from "../sendNotificationEmail";
+import sendPushNotification from "../webPush";
 import type Hookset from "./Hookset";
 
+// Describes a chat message for notifications delivered outside the app
+async function describeChatMessage(
+  chatMessage: ChatMessageType,
+  sender: string,
+) {
+  const puzzle = await Puzzles.findOneAsync(chatMessage.puzzle);
+  const userIds = [
+    sender,
+    ...chatMessage.content.children.flatMap((child) =>
+      nodeIsMention(child) ? [child.userId] : [],
+    ),
+  ];
+  const displayNames = new Map(
+    await MeteorUsers.find(
+      { _id: { $in: userIds } },
+      { projection: { displayName: 1 } },
+    ).mapAsync((u) => [u._id, u.displayName ?? u._id] as const),
+  );
+
+  const groupIds = chatMessage.content.children.flatMap((child) =>
+    nodeIsGroupMention(child) ? [child.groupId] : [],
+  );
+  const groupNames = new Map(
+    await HuntGroups.find({
+      _id: { $in: groupIds },
+      hunt: chatMessage.hunt,
+    }).mapAsync((g) => [g._id, g.name] as const),
+  );
+
+  return {
+    title: `${displayNames.get(sender) ?? sender} on ${puzzle?.title ?? "a puzzle"}`,
+    body: chatMessagePlainText(chatMessage.content, displayNames, groupNames),
+    path: `hunts/${chatMessage.hunt}/puzzles/${chatMessage.puzzle}`,
+  };
+}
+
+// Identifies who a mention refers to, so that edits can tell which mentions
+// are new
+function mentionKey(child: ChatMessageContentNodeType) {
+  if (nodeIsMention(child)) {
+    return `user:${child.userId}`;
+  }
+  if (nodeIsRoleMention(child)) {
+    return `role:${child.roleId}`;
+  }
+  if (nodeIsGroupMention(child)) {
+    return `group:${child.groupId}`;
+  }
+  return undefined;
+}
+
+// Resolves the user, role and group mentions among `children` to the users
+// they should notify, leaving out the sender
+async function usersMentioned(
+  chatMessage: ChatMessageType,
+  sender: string,
+  children: ChatMessageContentNodeType[],
+) {
+  const usersToNotify = new Set<string>();
+  await Promise.all(
+    children.map(async (child) => {
+      if (nodeIsMention(child)) {
+        const mentionedUserId = child.userId;
+        // Don't have messages notify yourself.
+        if (mentionedUserId !== sender) {
+          // Only create mentions for users that are in the current hunt.
+          const mentionedUser = await MeteorUsers.findOneAsync(mentionedUserId);
+          if (mentionedUser?.hunts?.includes(chatMessage.hunt)) {
+            usersToNotify.add(mentionedUserId);
+          }
+        }
+      }
+      if (nodeIsRoleMention(child)) {
+        const roleId = child.roleId;
+        if (roleId === "operator") {
+          // First check for all active operators
+          const subscribed = await Subscribers.find({
+            name: "operators",
+            [`context.${chatMessage.hunt}`]: true,
+          }).mapAsync((l) => l.user as string);
+
+          const allOperators = await MeteorUsers.find(
+            queryOperatorsForHunt({ _id: chatMessage.hunt }),
+          ).mapAsync((u) => u._id);
+
+          const active = new Set(allOperators).intersection(
+            new Set(subscribed),
+          );
+          active.delete(sender); // don't notify self
+          if (active.size > 0) {
+            active.forEach((userId) => usersToNotify.add(userId));
+          } else {
+            // No active operators; fall back to all operators
+            allOperators.forEach((userId) => {
+              if (userId !== sender) {
+                usersToNotify.add(userId);
+              }
+            });
+          }
+        } else {
+          // Custom roles notify everyone in the hunt who holds them
+          const hunt = await Hunts.findOneAsync(chatMessage.hunt);
+          if (hunt?.customRoles?.some((role) => role.id === roleId)) {
+            const holders = await MeteorUsers.find(
+              queryUsersWithRoleForHunt(hunt, roleId),
+            ).mapAsync((u) => u._id);
+            holders.forEach((userId) => {
+              if (userId !== sender) {
+                usersToNotify.add(userId);
+              }
+            });
+          }
+        }
+      }
+      if (nodeIsGroupMention(child)) {
+        // Group mentions notify everyone in the group
+        const group = await HuntGroups.findOneAsync({
+          _id: child.groupId,
+          hunt: chatMessage.hunt,
+        });
+        group?.members.forEach((userId) => {
+          if (userId !== sender) {
+            usersToNotify.add(userId);
+          }
+        });
+      }
+    }),
+  );
+  return usersToNotify;
+}
+
+async function notifyUsers(
+  chatMessage: ChatMessageType,
+  sender: string,
+  usersToNotify: Set<string>,
+) {
+  // Create notifications for each user who should be dinged by this message,
+  // unless they've turned them off or would rather get them elsewhere.
+  const now = new Date();
+  const recipients = await MeteorUsers.find(
+    { _id: { $in: [...usersToNotify] } },
+    { projection: { _id: 1, emails: 1, notificationPreferences: 1 } },
+  ).fetchAsync();
+  let description: ReturnType<typeof describeChatMessage> | undefined;
+  await Promise.all(
+    recipients.map(async (user) => {
+      const delivery = resolveNotificationDelivery(
+        user.notificationPreferences,
+        "chat",
+        now,
+      );
+      if (delivery === "off") {
+        return;
+      }
+
+      if (delivery === "email" || delivery === "browser") {
+        description ??= describeChatMessage(chatMessage, sender);
+        const { title, body, path } = await description;
+        const delivered =
+          delivery === "email"
+            ? await sendNotificationEmail(
+                user,
+                title,
+                `${body}\n\n${Meteor.absoluteUrl(path)}\n`,
+              )
+            : await sendPushNotification(user._id, {
+                title,
+                body,
+                url: `/${path}`,
+                tag: `chat-${chatMessage._id}`,
+              });
+        if (delivered) {
+          return;
+        }
+      }
+
+      await ChatNotifications.insertAsync({
+        user: user._id,
+        sender,
+        puzzle: chatMessage.puzzle,
+        hunt: chatMessage.hunt,
+        content: chatMessage.content,
+        timestamp: chatMessage.timestamp,
+      });
+    }),
+  );
+}
+
 const ChatNotificationHooks: Hookset = {
   name: "ChatNotificationHooks",
 
@@ -26,61 +230,16 @@ const ChatNotificationHooks: Hookset = {
     const chatMessage = (await ChatMessages.findOneAsync(chatMessageId))!;
     const { sender } = chatMessage;
 
-    // Collect users to notify into a set, and then create notifications at the end.
-    const usersToNotify = new Set<string>();
     if (!sender) {
       // Don't notify for system messages.
       return;
     }
 
-    // Notify for @-mentions in message.
-    await Promise.all(
-      chatMessage.content.children.map(async (child) => {
-        if (nodeIsMention(child)) {
-          const mentionedUserId = child.userId;
-          // Don't have messages notify yourself.
-          if (mentionedUserId !== sender) {
-            // Only create mentions for users that are in the current hunt.
-            const mentionedUser =
-              await MeteorUsers.findOneAsync(mentionedUserId);
-            if (mentionedUser?.hunts?.includes(chatMessage.hunt)) {
-              usersToNotify.add(mentionedUserId);
-            }
-          }
-        }
-        if (nodeIsRoleMention(child)) {
-          const roleId = child.roleId;
-          if (roleId === "operator") {
-            // First check for all active operators
-            const subscribed = await Subscribers.find({
-              name: "operators",
-              [`context.${chatMessage.hunt}`]: true,
-            }).mapAsync((l) => l.user as string);
-
-            const allOperators = await MeteorUsers.find(
-              queryOperatorsForHunt({ _id: chatMessage.hunt }),
-            ).mapAsync((u) => u._id);
-
-            const active = new Set(allOperators).intersection(
-              new Set(subscribed),
-            );
-            active.delete(sender); // don't notify self
-            if (active.size > 0) {
-              active.forEach((userId) => usersToNotify.add(userId));
-            } else {
-              // No active operators; fall back to all operators
-              allOperators.forEach((userId) => {
-                if (userId !== sender) {
-                  usersToNotify.add(userId);
-                }
-              });
-            }
-          } else {
-            // biome-ignore lint/nursery/noUnusedExpressions: exhaustive check
-            roleId satisfies never;
-          }
-        }
-      }),
+    // Collect users to notify into a set, and then create notifications at the end.
+    const usersToNotify = await usersMentioned(
+      chatMessage,
+      sender,
+      chatMessage.content.children,
     );
 
     // Respect feature flag.
@@ -108,22 +267,34 @@ const ChatNotificationHooks: Hookset = {
       }
     }
 
-    // Create notifications for each user who should be dinged by this message.
-    const collected: string[] = [];
-    usersToNotify.forEach((userId) => {
-      collected.push(userId);
+    await notifyUsers(chatMessage, sender, usersToNotify);
+  },
+
+  async onChatMessageUpdated(chatMessageId: string) {
+    // Only mentions that weren't in the previous version of the message notify
+    // anyone, so that fixing a typo doesn't ding everyone again. Dingwords
+    // aren't rechecked.
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    const previous = chatMessage?.history?.at(-1)?.content;
+    if (!chatMessage?.sender || !previous) {
+      return;
+    }
+
+    const previousMentions = new Set(
+      previous.children.map(mentionKey).filter((key) => key !== undefined),
+    );
+    const addedMentions = chatMessage.content.children.filter((child) => {
+      const key = mentionKey(child);
+      return key !== undefined && !previousMentions.has(key);
     });
-    await Promise.all(
-      collected.map(async (userId: string) => {
-        await ChatNotifications.insertAsync({
-          user: userId,
-          sender,
-          puzzle: chatMessage.puzzle,
-          hunt: chatMessage.hunt,
-          content: chatMessage.content,
-          timestamp: chatMessage.timestamp,
-        });
-      }),
+    if (addedMentions.length === 0) {
+      return;
+    }
+
+    await notifyUsers(
+      chatMessage,
+      chatMessage.sender,
+      await usersMentioned(chatMessage, chatMessage.sender, addedMentions),
     );
   },
 };
@@ -3,12 +3,14 @@ import Flags from "../../Flags";
 import Announcements from "../../lib/models/Announcements";
 import type { ChatMessageContentType } from "../../lib/models/ChatMessages";
 import ChatMessages from "../../lib/models/ChatMessages";
+import HuntGroups from "../../lib/models/HuntGroups";
 import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import type { PuzzleType } from "../../lib/models/Puzzles";
 import Puzzles from "../../lib/models/Puzzles";
 import Settings from "../../lib/models/Settings";
 import Tags from "../../lib/models/Tags";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
 import nodeIsImage from "../../lib/nodeIsImage";
 import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
 import nodeIsText from "../../lib/nodeIsText";
@@ -40,6 +42,7 @@ type ImageContent = { image: { url: string } };
 type Content = DescriptionContent | ImageContent;
 async function renderChatMessageContent(
   content: ChatMessageContentType,
+  huntId: string,
 ): Promise<Content> {
   if (content.children.length === 1 && nodeIsImage(content.children[0]!)) {
     return { image: { url: content.children[0].url } };
@@ -56,6 +59,17 @@ async function renderChatMessageContent(
       if (nodeIsRoleMention(child)) {
         return ` @${child.roleId} `;
       }
+      if (nodeIsGroupMention(child)) {
+        // Mention the group's Discord role if it has one, so it reads the
+        // same way it would if it had been written in Discord
+        const group = await HuntGroups.findOneAsync({
+          _id: child.groupId,
+          hunt: huntId,
+        });
+        return group?.discordRole
+          ? ` <@&${group.discordRole.id}> `
+          : ` @${group?.name ?? "group"} `;
+      }
       const user = await MeteorUsers.findOneAsync(child.userId);
       return ` @${user?.displayName ?? child.userId} `;
     }),
@@ -64,6 +78,94 @@ async function renderChatMessageContent(
   return { description: chunks.join("") };
 }
 
+async function chatSenderName(sender: string | undefined): Promise<string> {
+  if (!sender) {
+    return "Jolly Roger";
+  }
+
+  const user = await MeteorUsers.findOneAsync(sender);
+  return user?.discordAccount?.username ?? user?.displayName ?? sender;
+}
+
+// Mirrors a chat message to the hunt's firehose channel. Since we don't keep
+// track of the Discord messages we post, edits are posted as a new message
+// marked as such.
+async function postChatMessageToFirehose(
+  chatMessageId: string,
+  edited: boolean,
+) {
+  const bot = await makeDiscordBotFromSettings();
+  if (!bot) {
+    return;
+  }
+
+  const chatMessage = (await ChatMessages.findOneAsync(chatMessageId))!;
+  const puzzle = (await Puzzles.findOneAsync(chatMessage.puzzle))!;
+  const hunt = (await Hunts.findOneAsync(chatMessage.hunt))!;
+  if (!hunt.firehoseDiscordChannel) {
+    return;
+  }
+
+  const channel = hunt.firehoseDiscordChannel.id;
+  const name = await chatSenderName(chatMessage.sender);
+  const url = Meteor.absoluteUrl(
+    `hunts/${chatMessage.hunt}/puzzles/${chatMessage.puzzle}`,
+  );
+  let title = puzzle.title;
+  if (title.length > 25) {
+    title = `${title.substring(0, 24)}…`;
+  }
+
+  const description = await renderChatMessageContent(
+    chatMessage.content,
+    chatMessage.hunt,
+  );
+
+  // Quote the message being replied to, if it's still around
+  let fields;
+  const parent = chatMessage.parent
+    ? await ChatMessages.findOneAsync(chatMessage.parent)
+    : undefined;
+  if (parent) {
+    const parentContent = await renderChatMessageContent(
+      parent.content,
+      parent.hunt,
+    );
+    let quoted =
+      "description" in parentContent
+        ? parentContent.description
+        : parentContent.image.url;
+    if (quoted.length > 100) {
+      quoted = `${quoted.substring(0, 99)}…`;
+    }
+    fields = [
+      {
+        name: `Replying to ${await chatSenderName(parent.sender)}`,
+        value: quoted || "…",
+      },
+    ];
+  }
+
+  const msg = {
+    embed: {
+      author: {
+        name,
+      },
+      url,
+      title,
+      ...description,
+      fields,
+      footer: edited ? { text: "(edited)" } : undefined,
+    },
+    nonce: edited ? undefined : chatMessageId,
+    allowed_mentions: {
+      parse: [],
+    },
+  };
+
+  void bot.postMessageToChannel(channel, msg);
+}
+
 const DiscordHooks: Hookset = {
   name: "DiscordHooks",
 
@@ -208,56 +310,11 @@ const DiscordHooks: Hookset = {
   },
 
   async onChatMessageCreated(chatMessageId: string) {
-    const bot = await makeDiscordBotFromSettings();
-    if (!bot) {
-      return;
-    }
-
-    const chatMessage = (await ChatMessages.findOneAsync(chatMessageId))!;
-    const puzzle = (await Puzzles.findOneAsync(chatMessage.puzzle))!;
-    const hunt = (await Hunts.findOneAsync(chatMessage.hunt))!;
-    if (hunt.firehoseDiscordChannel) {
-      const channel = hunt.firehoseDiscordChannel.id;
-
-      let name: string;
-      if (!chatMessage.sender) {
-        name = "Jolly Roger";
-      } else {
-        name = chatMessage.sender;
-        const user = await MeteorUsers.findOneAsync(chatMessage.sender);
-        if (user?.discordAccount) {
-          name = user.discordAccount.username;
-        } else if (user?.displayName) {
-          name = user.displayName;
-        }
-      }
-
-      const url = Meteor.absoluteUrl(
-        `hunts/${chatMessage.hunt}/puzzles/${chatMessage.puzzle}`,
-      );
-      let title = puzzle.title;
-      if (title.length > 25) {
-        title = `${title.substring(0, 24)}…`;
-      }
-
-      const description = await renderChatMessageContent(chatMessage.content);
-      const msg = {
-        embed: {
-          author: {
-            name,
-          },
-          url,
-          title,
-          ...description,
-        },
-        nonce: chatMessageId,
-        allowed_mentions: {
-          parse: [],
-        },
-      };
+    await postChatMessageToFirehose(chatMessageId, false);
+  },
 
-      void bot.postMessageToChannel(channel, msg);
-    }
+  async onChatMessageUpdated(chatMessageId: string) {
+    await postChatMessageToFirehose(chatMessageId, true);
   },
 };
 
@@ -109,6 +109,22 @@ class HooksRegistry {
       }
     }
   }
+
+  async runChatMessageUpdatedHooks(chatMessageId: string) {
+    for (const hook of this.registeredHooks) {
+      if (hook.onChatMessageUpdated) {
+        try {
+          await hook.onChatMessageUpdated(chatMessageId);
+        } catch (error) {
+          Logger.error("Error while running hook", {
+            hook: "onChatMessageUpdated",
+            hookSet: hook.name,
+            error,
+          });
+        }
+      }
+    }
+  }
 }
 
 export default HooksRegistry;
@@ -40,6 +40,10 @@ interface Hookset {
   // Triggered when a new message is added to a puzzle's chat (either from a
   // user or e.g. in response to a guess transitioning state).
   onChatMessageCreated?: (chatMessageId: string) => void | Promise<void>;
+
+  // Triggered when the sender of a chat message edits it. The message will
+  // already contain the new content.
+  onChatMessageUpdated?: (chatMessageId: string) => void | Promise<void>;
 }
 
 export default Hookset;
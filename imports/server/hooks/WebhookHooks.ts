@@ -0,0 +1,147 @@
+import { Meteor } from "meteor/meteor";
+import Announcements from "../../lib/models/Announcements";
+import ChatMessages from "../../lib/models/ChatMessages";
+import HuntGroups from "../../lib/models/HuntGroups";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import type { PuzzleType } from "../../lib/models/Puzzles";
+import Puzzles from "../../lib/models/Puzzles";
+import Tags from "../../lib/models/Tags";
+import nodeIsGroupMention from "../../lib/nodeIsGroupMention";
+import nodeIsImage from "../../lib/nodeIsImage";
+import nodeIsRoleMention from "../../lib/nodeIsRoleMention";
+import nodeIsText from "../../lib/nodeIsText";
+import { computeSolvedness } from "../../lib/solvedness";
+import { enqueueWebhookDeliveries } from "../webhooks";
+import type Hookset from "./Hookset";
+
+async function renderPuzzle(puzzle: PuzzleType) {
+  const tags = await Tags.find({ _id: { $in: puzzle.tags } }).mapAsync(
+    (t) => t.name,
+  );
+  return {
+    _id: puzzle._id,
+    title: puzzle.title,
+    url: puzzle.url,
+    link: Meteor.absoluteUrl(`hunts/${puzzle.hunt}/puzzles/${puzzle._id}`),
+    tags,
+    answers: puzzle.answers,
+    expectedAnswerCount: puzzle.expectedAnswerCount,
+    solvedness: computeSolvedness(puzzle),
+  };
+}
+
+async function displayName(userId: string | undefined) {
+  if (!userId) {
+    return undefined;
+  }
+  const user = await MeteorUsers.findOneAsync(userId);
+  return user?.displayName ?? userId;
+}
+
+const WebhookHooks: Hookset = {
+  name: "WebhookHooks",
+
+  async onAnnouncement(announcementId: string) {
+    const announcement = await Announcements.findOneAsync(announcementId);
+    if (!announcement) {
+      return;
+    }
+
+    await enqueueWebhookDeliveries(announcement.hunt, "announcement", {
+      announcement: {
+        _id: announcement._id,
+        message: announcement.message,
+        createdAt: announcement.createdAt,
+        createdBy: await displayName(announcement.createdBy),
+      },
+    });
+  },
+
+  async onPuzzleCreated(puzzleId: string) {
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      return;
+    }
+
+    await enqueueWebhookDeliveries(puzzle.hunt, "puzzleCreated", {
+      puzzle: await renderPuzzle(puzzle),
+    });
+  },
+
+  async onPuzzleUpdated(puzzleId: string, oldPuzzle: PuzzleType) {
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      return;
+    }
+
+    await enqueueWebhookDeliveries(puzzle.hunt, "puzzleUpdated", {
+      puzzle: await renderPuzzle(puzzle),
+      oldPuzzle: await renderPuzzle(oldPuzzle),
+    });
+  },
+
+  async onPuzzleSolved(puzzleId: string, answer: string) {
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      return;
+    }
+
+    await enqueueWebhookDeliveries(puzzle.hunt, "puzzleSolved", {
+      puzzle: await renderPuzzle(puzzle),
+      answer,
+    });
+  },
+
+  async onPuzzleNoLongerSolved(puzzleId: string, answer: string) {
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      return;
+    }
+
+    await enqueueWebhookDeliveries(puzzle.hunt, "puzzleNoLongerSolved", {
+      puzzle: await renderPuzzle(puzzle),
+      answer,
+    });
+  },
+
+  async onChatMessageCreated(chatMessageId: string) {
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    if (!chatMessage) {
+      return;
+    }
+
+    const chunks = await Promise.all(
+      chatMessage.content.children.map(async (child) => {
+        if (nodeIsImage(child)) {
+          return child.url;
+        }
+        if (nodeIsText(child)) {
+          return child.text;
+        }
+        if (nodeIsRoleMention(child)) {
+          return `@${child.roleId}`;
+        }
+        if (nodeIsGroupMention(child)) {
+          const group = await HuntGroups.findOneAsync({
+            _id: child.groupId,
+            hunt: chatMessage.hunt,
+          });
+          return `@${group?.name ?? "group"}`;
+        }
+        return `@${await displayName(child.userId)}`;
+      }),
+    );
+
+    await enqueueWebhookDeliveries(chatMessage.hunt, "chatMessageCreated", {
+      chatMessage: {
+        _id: chatMessage._id,
+        puzzle: chatMessage.puzzle,
+        sender: await displayName(chatMessage.sender),
+        text: chunks.join(""),
+        timestamp: chatMessage.timestamp,
+      },
+    });
+  },
+};
+
+export default WebhookHooks;
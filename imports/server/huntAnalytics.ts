@@ -0,0 +1,94 @@
+import { ACTIVITY_GRANULARITY } from "../lib/config/activityTracking";
+import type { PuzzleAnalyticsType } from "../lib/huntAnalytics";
+import { groupedBy } from "../lib/listUtils";
+import ChatMessages from "../lib/models/ChatMessages";
+import DocumentActivities from "../lib/models/DocumentActivities";
+import Guesses from "../lib/models/Guesses";
+import Puzzles from "../lib/models/Puzzles";
+import roundedTime from "../lib/roundedTime";
+import { computeSolvedness } from "../lib/solvedness";
+import CallActivities from "./models/CallActivities";
+
+// Person-minutes are counted the same way as the puzzle activity sparklines
+// (see the puzzleActivityForHunt publication): each hunter who chatted, talked
+// or edited a document counts once per activity bucket, and document edits we
+// can't attribute to anyone count as one extra hunter. Unlike the sparklines,
+// we count every bucket, not just recent ones.
+export default async function huntAnalytics(
+  huntId: string,
+): Promise<PuzzleAnalyticsType[]> {
+  const activity = new Map<string, Set<string>>();
+  const recordActivity = (puzzle: string, ts: Date, user: string) => {
+    let users = activity.get(puzzle);
+    if (!users) {
+      users = new Set();
+      activity.set(puzzle, users);
+    }
+    users.add(`${ts.getTime()}:${user}`);
+  };
+
+  const [puzzles, guesses, callActivities, documentActivities, chatMessages] =
+    await Promise.all([
+      Puzzles.find({ hunt: huntId }).fetchAsync(),
+      Guesses.find(
+        { hunt: huntId },
+        { projection: { puzzle: 1, state: 1, createdAt: 1, updatedAt: 1 } },
+      ).fetchAsync(),
+      CallActivities.find(
+        { hunt: huntId },
+        { projection: { call: 1, ts: 1, user: 1 } },
+      ).fetchAsync(),
+      DocumentActivities.find(
+        { hunt: huntId },
+        { projection: { puzzle: 1, ts: 1, user: 1 } },
+      ).fetchAsync(),
+      ChatMessages.find(
+        { hunt: huntId, sender: { $exists: true } },
+        { projection: { puzzle: 1, createdAt: 1, sender: 1 } },
+      ).fetchAsync(),
+    ]);
+
+  for (const { call, ts, user } of callActivities) {
+    recordActivity(call, ts, user);
+  }
+  for (const { puzzle, ts, user } of documentActivities) {
+    recordActivity(puzzle, ts, user ?? "__document__");
+  }
+  for (const { puzzle, createdAt, sender } of chatMessages) {
+    if (sender) {
+      recordActivity(
+        puzzle,
+        roundedTime(ACTIVITY_GRANULARITY, createdAt),
+        sender,
+      );
+    }
+  }
+
+  const guessesByPuzzle = groupedBy(guesses, (guess) => guess.puzzle);
+
+  return puzzles.map((puzzle) => {
+    const puzzleGuesses = guessesByPuzzle.get(puzzle._id) ?? [];
+    const correctTimes = puzzleGuesses
+      .filter((guess) => guess.state === "correct")
+      .map((guess) => (guess.updatedAt ?? guess.createdAt).getTime());
+    const solved = computeSolvedness(puzzle) === "solved";
+
+    return {
+      puzzle: puzzle._id,
+      title: puzzle.title,
+      unlockedAt: puzzle.createdAt,
+      solvedAt:
+        solved && correctTimes.length > 0
+          ? new Date(Math.max(...correctTimes))
+          : undefined,
+      guesses: puzzleGuesses.length,
+      incorrectGuesses: puzzleGuesses.filter(
+        (guess) => guess.state === "incorrect",
+      ).length,
+      personMinutes: Math.round(
+        ((activity.get(puzzle._id)?.size ?? 0) * ACTIVITY_GRANULARITY) /
+          (60 * 1000),
+      ),
+    };
+  });
+}
@@ -0,0 +1,403 @@
+import { Accounts } from "meteor/accounts-base";
+import { EJSON } from "meteor/ejson";
+import { Meteor } from "meteor/meteor";
+import { Random } from "meteor/random";
+import { z } from "zod";
+import Logger from "../Logger";
+import Announcements from "../lib/models/Announcements";
+import ChatMessages from "../lib/models/ChatMessages";
+import { IsInsert } from "../lib/models/customTypes";
+import Documents from "../lib/models/Documents";
+import Guesses from "../lib/models/Guesses";
+import type { MongoRecordZodType } from "../lib/models/generateJsonSchema";
+import HuntGroups from "../lib/models/HuntGroups";
+import Hunts from "../lib/models/Hunts";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import type Model from "../lib/models/Model";
+import Puzzles from "../lib/models/Puzzles";
+import Tags from "../lib/models/Tags";
+import { addUserToRole } from "../lib/permission_stubs";
+
+// A hunt archive is an EJSON-serialized snapshot of everything that belongs to
+// a hunt (so that dates survive the round trip). Bump the version whenever the
+// envelope changes in a way that older importers can't understand; the records
+// themselves are validated against the current model schemas on import.
+export const HUNT_ARCHIVE_FORMAT = "jolly-roger-hunt-archive";
+export const HUNT_ARCHIVE_VERSION = 1;
+
+// Records are only checked for an _id here - everything else is checked
+// against the model schema once IDs have been remapped.
+const ArchiveRecord = z.object({ _id: z.string() }).passthrough();
+type ArchiveRecordType = z.infer<typeof ArchiveRecord>;
+
+// Users are exported with just enough information to find them again on the
+// importing deployment.
+const ArchiveUser = z.object({
+  _id: z.string(),
+  displayName: z.string().optional(),
+  emails: z.string().array(),
+  googleAccount: z.string().optional(),
+  // Whether this user was a member of the hunt when it was exported
+  member: z.boolean(),
+});
+type ArchiveUserType = z.infer<typeof ArchiveUser>;
+
+const HuntArchive = z.object({
+  format: z.literal(HUNT_ARCHIVE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.date(),
+  hunt: ArchiveRecord,
+  users: ArchiveUser.array(),
+  tags: ArchiveRecord.array(),
+  // Added without a version bump, so older archives may not have any
+  groups: ArchiveRecord.array().default([]),
+  puzzles: ArchiveRecord.array(),
+  documents: ArchiveRecord.array(),
+  guesses: ArchiveRecord.array(),
+  chatMessages: ArchiveRecord.array(),
+  announcements: ArchiveRecord.array(),
+});
+
+export async function exportHuntArchive(huntId: string): Promise<string> {
+  const hunt = await Hunts.findOneAsync(huntId);
+  if (!hunt) {
+    throw new Meteor.Error(404, `Unknown hunt id ${huntId}`);
+  }
+
+  // Discord channels and roles and mailing lists belong to the deployment the
+  // hunt was run on, so they aren't carried along.
+  const {
+    mailingLists: _mailingLists,
+    announcementDiscordChannel: _announcementDiscordChannel,
+    puzzleHooksDiscordChannel: _puzzleHooksDiscordChannel,
+    firehoseDiscordChannel: _firehoseDiscordChannel,
+    memberDiscordRole: _memberDiscordRole,
+    ...portableHunt
+  } = hunt;
+
+  const [
+    tags,
+    groups,
+    puzzles,
+    documents,
+    guesses,
+    chatMessages,
+    announcements,
+  ] = await Promise.all([
+    Tags.find({ hunt: huntId }).fetchAsync(),
+    HuntGroups.find({ hunt: huntId }).fetchAsync(),
+    Puzzles.find({ hunt: huntId }, { sort: { createdAt: 1 } }).fetchAsync(),
+    Documents.find({ hunt: huntId }).fetchAsync(),
+    Guesses.find({ hunt: huntId }, { sort: { createdAt: 1 } }).fetchAsync(),
+    ChatMessages.find(
+      { hunt: huntId },
+      { sort: { timestamp: 1 } },
+    ).fetchAsync(),
+    Announcements.find(
+      { hunt: huntId },
+      { sort: { createdAt: 1 } },
+    ).fetchAsync(),
+  ]);
+
+  const referencedUserIds = new Set<string>();
+  [
+    hunt,
+    ...tags,
+    ...groups,
+    ...puzzles,
+    ...documents,
+    ...guesses,
+    ...announcements,
+  ]
+    .flatMap((r) => [r.createdBy, r.updatedBy])
+    .forEach((u) => u && referencedUserIds.add(u));
+  groups.forEach((g) => g.members.forEach((u) => referencedUserIds.add(u)));
+  puzzles.forEach((p) => p.assignees?.forEach((u) => referencedUserIds.add(u)));
+  chatMessages.forEach((m) => {
+    if (m.sender) referencedUserIds.add(m.sender);
+    m.content.children.forEach((child) => {
+      if ("type" in child && child.type === "mention") {
+        referencedUserIds.add(child.userId);
+      }
+    });
+  });
+
+  const users = await MeteorUsers.find(
+    { $or: [{ _id: { $in: [...referencedUserIds] } }, { hunts: huntId }] },
+    { projection: { displayName: 1, emails: 1, googleAccount: 1, hunts: 1 } },
+  ).mapAsync((u): ArchiveUserType => {
+    return {
+      _id: u._id,
+      displayName: u.displayName,
+      emails: u.emails?.map((e) => e.address) ?? [],
+      googleAccount: u.googleAccount,
+      member: u.hunts?.includes(huntId) ?? false,
+    };
+  });
+
+  return EJSON.stringify(
+    {
+      format: HUNT_ARCHIVE_FORMAT,
+      version: HUNT_ARCHIVE_VERSION,
+      exportedAt: new Date(),
+      hunt: portableHunt,
+      users,
+      tags,
+      // Like the hunt's, groups' Discord roles aren't carried along
+      groups: groups.map(({ discordRole: _discordRole, ...group }) => group),
+      puzzles,
+      documents,
+      guesses,
+      chatMessages,
+      announcements,
+    },
+    { indent: true },
+  );
+}
+
+function parseArchive(serialized: string) {
+  let raw: unknown;
+  try {
+    raw = EJSON.parse(serialized);
+  } catch {
+    throw new Meteor.Error(400, "Hunt archive is not valid JSON");
+  }
+
+  const result = HuntArchive.safeParse(raw);
+  if (!result.success) {
+    throw new Meteor.Error(
+      400,
+      `Not a valid hunt archive: ${result.error.issues
+        .map((i) => `${i.path.join(".")}: ${i.message}`)
+        .join("; ")}`,
+    );
+  }
+  if (result.data.version > HUNT_ARCHIVE_VERSION) {
+    throw new Meteor.Error(
+      400,
+      `Hunt archive version ${result.data.version} is newer than this server supports (${HUNT_ARCHIVE_VERSION})`,
+    );
+  }
+  return result.data;
+}
+
+// Match archived users against accounts on this deployment, first by email
+// address and then by linked Google account.
+async function matchUsers(users: ArchiveUserType[]) {
+  const matched = new Map<string, string>();
+  for (const user of users) {
+    for (const address of [
+      ...user.emails,
+      ...(user.googleAccount ? [user.googleAccount] : []),
+    ]) {
+      const local =
+        (await Accounts.findUserByEmail(address)) ??
+        (await MeteorUsers.findOneAsync({ googleAccount: address }));
+      if (local) {
+        matched.set(user._id, local._id);
+        break;
+      }
+    }
+  }
+  return matched;
+}
+
+function newIds(records: ArchiveRecordType[]) {
+  return new Map(records.map((r) => [r._id, Random.id()]));
+}
+
+// Parses every record with the model's schema before anything is written, so
+// that a bad archive doesn't leave a partially-imported hunt behind.
+async function validateRecords<S extends MongoRecordZodType>(
+  model: Model<S>,
+  records: Record<string, unknown>[],
+): Promise<z.output<S>[]> {
+  const parsed: z.output<S>[] = [];
+  for (const record of records) {
+    try {
+      parsed.push(
+        await IsInsert.withValue(true, () => model.schema.parseAsync(record)),
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Meteor.Error(
+          400,
+          `Invalid ${model.name} record in hunt archive: ${error.issues
+            .map((i) => `${i.path.join(".")}: ${i.message}`)
+            .join("; ")}`,
+        );
+      }
+      throw error;
+    }
+  }
+  return parsed;
+}
+
+export async function importHuntArchive(
+  serialized: string,
+  importingUserId: string,
+): Promise<string> {
+  const archive = parseArchive(serialized);
+
+  const userIds = await matchUsers(archive.users);
+  const displayNames = new Map(
+    archive.users.map((u) => [u._id, u.displayName]),
+  );
+  // Anything done by a user who doesn't exist on this deployment is attributed
+  // to whoever is running the import.
+  const requiredUser = (id: unknown) =>
+    (typeof id === "string" && userIds.get(id)) || importingUserId;
+  const optionalUser = (id: unknown) =>
+    typeof id === "string" ? userIds.get(id) : undefined;
+
+  const huntId = Random.id();
+  const tagIds = newIds(archive.tags);
+  const groupIds = newIds(archive.groups);
+  const puzzleIds = newIds(archive.puzzles);
+  const guessIds = newIds(archive.guesses);
+  const chatMessageIds = newIds(archive.chatMessages);
+  const lookup = (ids: Map<string, string>, id: unknown) =>
+    typeof id === "string" ? ids.get(id) : undefined;
+  const lookupAll = (ids: Map<string, string>, list: unknown) =>
+    Array.isArray(list) ? list.flatMap((id) => lookup(ids, id) ?? []) : list;
+
+  const common = (record: ArchiveRecordType) => ({
+    ...record,
+    _id: Random.id(),
+    createdBy: requiredUser(record.createdBy),
+    updatedBy: optionalUser(record.updatedBy),
+  });
+  const huntRecord = (record: ArchiveRecordType) => ({
+    ...common(record),
+    hunt: huntId,
+  });
+  const puzzleRecord = (record: ArchiveRecordType) => ({
+    ...huntRecord(record),
+    puzzle: lookup(puzzleIds, record.puzzle),
+  });
+
+  const hunt = await validateRecords(Hunts, [
+    { ...common(archive.hunt), _id: huntId },
+  ]);
+  const tags = await validateRecords(
+    Tags,
+    archive.tags.map((r) => ({ ...huntRecord(r), _id: tagIds.get(r._id) })),
+  );
+  const groups = await validateRecords(
+    HuntGroups,
+    archive.groups.map((r) => ({
+      ...huntRecord(r),
+      _id: groupIds.get(r._id),
+      members: lookupAll(userIds, r.members),
+      tags: lookupAll(tagIds, r.tags),
+    })),
+  );
+  const puzzles = await validateRecords(
+    Puzzles,
+    archive.puzzles.map((r) => ({
+      ...huntRecord(r),
+      _id: puzzleIds.get(r._id),
+      tags: lookupAll(tagIds, r.tags),
+      // Replacements and feeders that weren't exported (e.g. because they
+      // were deleted) are dropped rather than left dangling
+      replacedBy: lookup(puzzleIds, r.replacedBy),
+      feeders: lookupAll(puzzleIds, r.feeders),
+      // So are assignees we couldn't match
+      assignees: lookupAll(userIds, r.assignees),
+    })),
+  );
+  const documents = await validateRecords(
+    Documents,
+    archive.documents.map(puzzleRecord),
+  );
+  const guesses = await validateRecords(
+    Guesses,
+    archive.guesses.map((r) => ({
+      ...puzzleRecord(r),
+      _id: guessIds.get(r._id),
+      duplicateOf: lookup(guessIds, r.duplicateOf),
+    })),
+  );
+  const chatMessages = await validateRecords(
+    ChatMessages,
+    archive.chatMessages.map((r) => {
+      const content = r.content as { children?: unknown } | undefined;
+      return {
+        ...puzzleRecord(r),
+        _id: chatMessageIds.get(r._id),
+        parent: lookup(chatMessageIds, r.parent),
+        // Reactions from users we couldn't match are dropped
+        reactions:
+          r.reactions && typeof r.reactions === "object"
+            ? Object.fromEntries(
+                Object.entries(r.reactions).map(([reaction, users]) => [
+                  reaction,
+                  Array.isArray(users)
+                    ? users.flatMap((u) => optionalUser(u) ?? [])
+                    : users,
+                ]),
+              )
+            : r.reactions,
+        sender: r.sender === undefined ? undefined : requiredUser(r.sender),
+        content: Array.isArray(content?.children)
+          ? {
+              ...content,
+              // Mentions of users we couldn't match (or groups that weren't
+              // exported) are kept as plain text
+              children: content.children.map((child) => {
+                if (child?.type === "group-mention") {
+                  const groupId = lookup(groupIds, child.groupId);
+                  return groupId
+                    ? { ...child, groupId }
+                    : { text: "@unknown group" };
+                }
+                if (child?.type !== "mention") return child;
+                const userId = optionalUser(child.userId);
+                return userId
+                  ? { ...child, userId }
+                  : {
+                      text: `@${displayNames.get(child.userId) ?? "unknown user"}`,
+                    };
+              }),
+            }
+          : content,
+      };
+    }),
+  );
+  const announcements = await validateRecords(
+    Announcements,
+    archive.announcements.map(huntRecord),
+  );
+
+  Logger.info("Importing hunt archive", {
+    hunt: huntId,
+    name: archive.hunt.name,
+    exportedAt: archive.exportedAt,
+    puzzles: puzzles.length,
+    unmatchedUsers: archive.users.length - userIds.size,
+  });
+
+  // Like the fixture hunt, don't bother running hooks for any of this.
+  await Hunts.insertAsync(hunt[0]!);
+  for (const tag of tags) await Tags.insertAsync(tag);
+  for (const group of groups) await HuntGroups.insertAsync(group);
+  for (const puzzle of puzzles) await Puzzles.insertAsync(puzzle);
+  for (const document of documents) await Documents.insertAsync(document);
+  for (const guess of guesses) await Guesses.insertAsync(guess);
+  for (const message of chatMessages) await ChatMessages.insertAsync(message);
+  for (const announcement of announcements) {
+    await Announcements.insertAsync(announcement);
+  }
+
+  const memberIds = archive.users.flatMap((u) =>
+    u.member ? (userIds.get(u._id) ?? []) : [],
+  );
+  await MeteorUsers.updateAsync(
+    { _id: { $in: [...memberIds, importingUserId] } },
+    { $addToSet: { hunts: huntId } },
+    { multi: true },
+  );
+  await addUserToRole(importingUserId, huntId, "operator");
+
+  return huntId;
+}
@@ -0,0 +1,75 @@
+import {
+  ACTIVITY_GRANULARITY,
+  ACTIVITY_SEGMENTS,
+} from "../lib/config/activityTracking";
+import type { HuntRosterEntryType } from "../lib/huntRoster";
+import ChatMessages from "../lib/models/ChatMessages";
+import DocumentActivities from "../lib/models/DocumentActivities";
+import MeteorUsers from "../lib/models/MeteorUsers";
+import CallActivities from "./models/CallActivities";
+import Subscribers from "./models/Subscribers";
+
+// Builds a snapshot of what each member of a hunt is up to, based on which
+// puzzle pages they have open and the same activity records that feed the
+// puzzle activity sparklines. We only look back as far as those sparklines do,
+// since older activity records aren't guaranteed to be around.
+export default async function huntRoster(
+  huntId: string,
+): Promise<HuntRosterEntryType[]> {
+  const cutoff = new Date(
+    Date.now() - ACTIVITY_GRANULARITY * ACTIVITY_SEGMENTS,
+  );
+
+  const viewing = new Map<string, Set<string>>();
+  const subscribers = await Subscribers.find({
+    "context.hunt": huntId,
+    name: /^puzzle:/,
+  }).fetchAsync();
+  for (const { user, name } of subscribers) {
+    let puzzles = viewing.get(user);
+    if (!puzzles) {
+      puzzles = new Set();
+      viewing.set(user, puzzles);
+    }
+    puzzles.add(name.substring("puzzle:".length));
+  }
+
+  const lastActive = new Map<string, Date>();
+  const recordActivity = (user: string | undefined, ts: Date) => {
+    if (!user) return;
+    const previous = lastActive.get(user);
+    if (!previous || previous < ts) {
+      lastActive.set(user, ts);
+    }
+  };
+  const [callActivities, documentActivities, chatMessages] = await Promise.all([
+    CallActivities.find(
+      { hunt: huntId, ts: { $gte: cutoff } },
+      { projection: { user: 1, ts: 1 } },
+    ).fetchAsync(),
+    DocumentActivities.find(
+      { hunt: huntId, ts: { $gte: cutoff } },
+      { projection: { user: 1, ts: 1 } },
+    ).fetchAsync(),
+    ChatMessages.find(
+      { hunt: huntId, createdAt: { $gte: cutoff } },
+      { projection: { sender: 1, createdAt: 1 } },
+    ).fetchAsync(),
+  ]);
+  for (const { user, ts } of [...callActivities, ...documentActivities]) {
+    recordActivity(user, ts);
+  }
+  for (const { sender, createdAt } of chatMessages) {
+    recordActivity(sender, createdAt);
+  }
+
+  const members = await MeteorUsers.find(
+    { hunts: huntId },
+    { projection: { _id: 1 } },
+  ).fetchAsync();
+  return members.map(({ _id }) => ({
+    user: _id,
+    viewing: [...(viewing.get(_id) ?? [])],
+    lastActive: lastActive.get(_id),
+  }));
+}
@@ -0,0 +1,132 @@
+import type { HuntSearchResultType, SearchField } from "../lib/huntSearch";
+import {
+  compareSearchResults,
+  scoreSearchMatch,
+  searchTermRegExp,
+} from "../lib/huntSearch";
+import Announcements from "../lib/models/Announcements";
+import ChatMessages from "../lib/models/ChatMessages";
+import Guesses from "../lib/models/Guesses";
+import Puzzles from "../lib/models/Puzzles";
+import Tags from "../lib/models/Tags";
+import nodeIsText from "../lib/nodeIsText";
+
+// We narrow down candidates in the database with case-insensitive regexes
+// (which Mongo can't use an index for, beyond the hunt), so cap how many
+// candidates of each kind we'll consider, preferring the most recent.
+const CANDIDATE_LIMIT = 500;
+const RESULT_LIMIT = 100;
+
+// Puzzle titles and answers are much more likely to be what people are
+// looking for than a passing mention in chat.
+const TITLE_WEIGHT = 4;
+const ANSWER_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const GUESS_WEIGHT = 2;
+const TEXT_WEIGHT = 1;
+
+export default async function searchHuntContent(
+  huntId: string,
+  terms: string[],
+): Promise<HuntSearchResultType[]> {
+  const regexes = terms.map(searchTermRegExp);
+  const results: HuntSearchResultType[] = [];
+
+  // Puzzles can match on any combination of title, answers and tags, so
+  // there's no single field to query on. There aren't that many puzzles in a
+  // hunt, so just score all of them.
+  const tagNames = new Map(
+    await Tags.find({ hunt: huntId }).mapAsync((t) => [t._id, t.name]),
+  );
+  const puzzles = await Puzzles.find({ hunt: huntId }).fetchAsync();
+  for (const puzzle of puzzles) {
+    const score = scoreSearchMatch(terms, [
+      { text: puzzle.title, weight: TITLE_WEIGHT },
+      ...puzzle.answers.map((text) => ({ text, weight: ANSWER_WEIGHT })),
+      ...puzzle.tags.flatMap((tagId): SearchField[] => {
+        const text = tagNames.get(tagId);
+        return text ? [{ text, weight: TAG_WEIGHT }] : [];
+      }),
+    ]);
+    if (score !== undefined) {
+      results.push({
+        kind: "puzzle",
+        _id: puzzle._id,
+        puzzle: puzzle._id,
+        text: puzzle.title,
+        user: puzzle.createdBy,
+        timestamp: puzzle.createdAt,
+        score,
+      });
+    }
+  }
+
+  const chatMessages = await ChatMessages.find(
+    {
+      hunt: huntId,
+      $and: regexes.map((r) => ({ "content.children.text": r })),
+    },
+    { sort: { timestamp: -1 }, limit: CANDIDATE_LIMIT },
+  ).fetchAsync();
+  for (const message of chatMessages) {
+    const text = message.content.children
+      .filter(nodeIsText)
+      .map((child) => child.text)
+      .join("");
+    const score = scoreSearchMatch(terms, [{ text, weight: TEXT_WEIGHT }]);
+    if (score !== undefined) {
+      results.push({
+        kind: "chatMessage",
+        _id: message._id,
+        puzzle: message.puzzle,
+        text,
+        user: message.sender,
+        timestamp: message.timestamp,
+        score,
+      });
+    }
+  }
+
+  const guesses = await Guesses.find(
+    { hunt: huntId, $and: regexes.map((r) => ({ guess: r })) },
+    { sort: { createdAt: -1 }, limit: CANDIDATE_LIMIT },
+  ).fetchAsync();
+  for (const guess of guesses) {
+    const score = scoreSearchMatch(terms, [
+      { text: guess.guess, weight: GUESS_WEIGHT },
+    ]);
+    if (score !== undefined) {
+      results.push({
+        kind: "guess",
+        _id: guess._id,
+        puzzle: guess.puzzle,
+        text: guess.guess,
+        user: guess.createdBy,
+        timestamp: guess.createdAt,
+        score,
+      });
+    }
+  }
+
+  const announcements = await Announcements.find(
+    { hunt: huntId, $and: regexes.map((r) => ({ message: r })) },
+    { sort: { createdAt: -1 }, limit: CANDIDATE_LIMIT },
+  ).fetchAsync();
+  for (const announcement of announcements) {
+    const score = scoreSearchMatch(terms, [
+      { text: announcement.message, weight: TEXT_WEIGHT },
+    ]);
+    if (score !== undefined) {
+      results.push({
+        kind: "announcement",
+        _id: announcement._id,
+        text: announcement.message,
+        user: announcement.createdBy,
+        timestamp: announcement.createdAt,
+        score,
+      });
+    }
+  }
+
+  return results.sort(compareSearchResults).slice(0, RESULT_LIMIT);
+}
@@ -0,0 +1,37 @@
+import Logger from "../Logger";
+import type { GuessType } from "../lib/models/Guesses";
+import type { PuzzleType } from "../lib/models/Puzzles";
+import recordAuditLogEntry from "./recordAuditLogEntry";
+import transitionGuess from "./transitionGuess";
+
+// Resolves a guess on behalf of a user, recording it in the audit log. Shared
+// by the setGuessState method and the REST API; callers are responsible for
+// checking that the user is allowed to update guesses.
+export default async function markGuess({
+  guess,
+  puzzle,
+  state,
+  additionalNotes,
+  userId,
+}: {
+  guess: GuessType;
+  puzzle: PuzzleType;
+  state: GuessType["state"];
+  additionalNotes?: string;
+  userId: string;
+}) {
+  Logger.info("Transitioning guess to new state", {
+    guess: guess._id,
+    state,
+    additionalNotes,
+  });
+  await transitionGuess(guess, state, additionalNotes);
+  await recordAuditLogEntry({
+    user: userId,
+    hunt: guess.hunt,
+    action: "setGuessState",
+    subjectId: guess._id,
+    subject: puzzle.title,
+    details: `Marked ${guess.guess} as ${state}`,
+  });
+}
@@ -0,0 +1,33 @@
+import { check, Match } from "meteor/check";
+import Logger from "../../Logger";
+import PushSubscriptions from "../../lib/models/PushSubscriptions";
+import addPushSubscription from "../../methods/addPushSubscription";
+import defineMethod from "./defineMethod";
+
+defineMethod(addPushSubscription, {
+  validate(arg) {
+    check(arg, {
+      endpoint: String,
+      p256dh: String,
+      auth: String,
+      userAgent: Match.Optional(String),
+    });
+    return arg;
+  },
+
+  async run({ endpoint, p256dh, auth, userAgent }) {
+    check(this.userId, String);
+
+    // A browser keeps its endpoint across logins, so whoever subscribed it
+    // most recently gets its notifications
+    await PushSubscriptions.removeAsync({ endpoint });
+    await PushSubscriptions.insertAsync({
+      user: this.userId,
+      endpoint,
+      p256dh,
+      auth,
+      userAgent: userAgent || undefined,
+    });
+    Logger.info("Added push subscription", { userAgent });
+  },
+});
@@ -4,7 +4,9 @@ import Logger from "../../Logger";
 import { contentFromMessage } from "../../lib/models/ChatMessages";
 import Guesses from "../../lib/models/Guesses";
 import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
+import { userMaySubmitGuessesForHunt } from "../../lib/permission_stubs";
 import addPuzzleAnswer from "../../methods/addPuzzleAnswer";
 import GlobalHooks from "../GlobalHooks";
 import sendChatMessageInternal from "../sendChatMessageInternal";
@@ -34,6 +36,18 @@ defineMethod(addPuzzleAnswer, {
       throw new Meteor.Error(404, "No such hunt");
     }
 
+    if (
+      !userMaySubmitGuessesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not submit answers for hunt ${hunt._id}`,
+      );
+    }
+
     if (hunt.hasGuessQueue) {
       throw new Meteor.Error(
         404,
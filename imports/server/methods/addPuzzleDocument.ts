@@ -0,0 +1,55 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import type { GdriveMimeTypesType } from "../../lib/GdriveMimeTypes";
+import GdriveMimeTypes from "../../lib/GdriveMimeTypes";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import addPuzzleDocument from "../../methods/addPuzzleDocument";
+import { addEtherpadDocument } from "../etherpad";
+import { addDocument } from "../gdrive";
+import defineMethod from "./defineMethod";
+
+defineMethod(addPuzzleDocument, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      title: String,
+      type: Match.Optional(
+        Match.OneOf(...(Object.keys(GdriveMimeTypes) as GdriveMimeTypesType[])),
+      ),
+    });
+    return arg;
+  },
+
+  async run({ puzzleId, title, type }) {
+    check(this.userId, String);
+
+    const user = (await MeteorUsers.findOneAsync(this.userId))!;
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle || !user.hunts?.includes(puzzle.hunt)) {
+      throw new Meteor.Error(404, "Unknown puzzle");
+    }
+
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      throw new Meteor.Error(400, "Documents must have a title");
+    }
+
+    Logger.info("Adding document to puzzle", {
+      puzzle: puzzleId,
+      type,
+    });
+
+    const hunt = await Hunts.findOneAsync(puzzle.hunt);
+    if (hunt?.documentProvider === "etherpad") {
+      return addEtherpadDocument(puzzle, trimmedTitle);
+    }
+
+    if (!type) {
+      throw new Meteor.Error(400, "Missing document type");
+    }
+    return addDocument(puzzle, type, trimmedTitle);
+  },
+});
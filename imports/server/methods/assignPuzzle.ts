@@ -0,0 +1,53 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import assignPuzzle from "../../methods/assignPuzzle";
+import defineMethod from "./defineMethod";
+
+defineMethod(assignPuzzle, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      userId: String,
+    });
+    return arg;
+  },
+
+  async run({ puzzleId, userId }) {
+    check(this.userId, String);
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle || !user?.hunts?.includes(puzzle.hunt)) {
+      throw new Meteor.Error(404, `No puzzle known with id ${puzzleId}`);
+    }
+
+    if (
+      userId !== this.userId &&
+      !userMayWritePuzzlesForHunt(user, await Hunts.findOneAsync(puzzle.hunt))
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not assign other hunters to puzzles in hunt ${puzzle.hunt}`,
+      );
+    }
+
+    const assignee = await MeteorUsers.findOneAsync(userId);
+    if (!assignee?.hunts?.includes(puzzle.hunt)) {
+      throw new Meteor.Error(
+        400,
+        `User ${userId} is not a member of hunt ${puzzle.hunt}`,
+      );
+    }
+
+    Logger.info("Assigning hunter to puzzle", {
+      puzzle: puzzleId,
+      assignee: userId,
+    });
+    await Puzzles.updateAsync(puzzleId, { $addToSet: { assignees: userId } });
+  },
+});
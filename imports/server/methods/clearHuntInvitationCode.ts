@@ -5,6 +5,7 @@ import InvitationCodes from "../../lib/models/InvitationCodes";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { userMayUpdateHuntInvitationCode } from "../../lib/permission_stubs";
 import clearHuntInvitationCode from "../../methods/clearHuntInvitationCode";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import withLock from "../withLock";
 import defineMethod from "./defineMethod";
 
@@ -36,8 +37,14 @@ defineMethod(clearHuntInvitationCode, {
 
     await withLock(`invitation_code:${huntId}`, async () => {
       for await (const code of InvitationCodes.find({ hunt: huntId })) {
-        await InvitationCodes.destroyAsync(code._id);
+        await InvitationCodes.destroyAsync(code._id, this.userId);
       }
     });
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "clearHuntInvitationCode",
+    });
   },
 });
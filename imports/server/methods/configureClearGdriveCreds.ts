@@ -5,6 +5,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureGdrive } from "../../lib/permission_stubs";
 import configureClearGdriveCreds from "../../methods/configureClearGdriveCreds";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureClearGdriveCreds, {
@@ -17,5 +18,9 @@ defineMethod(configureClearGdriveCreds, {
       user: this.userId,
     });
     await Settings.removeAsync({ name: "gdrive.credential" });
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureClearGdriveCreds",
+    });
   },
 });
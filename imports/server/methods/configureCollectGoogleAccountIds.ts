@@ -5,6 +5,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import { checkAdmin } from "../../lib/permission_stubs";
 import configureCollectGoogleAccountIds from "../../methods/configureCollectGoogleAccountIds";
 import GoogleClient from "../googleClientRefresher";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureCollectGoogleAccountIds, {
@@ -56,5 +57,10 @@ defineMethod(configureCollectGoogleAccountIds, {
         );
       }
     } while (pageToken);
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureCollectGoogleAccountIds",
+    });
   },
 });
@@ -5,6 +5,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureDiscordBot } from "../../lib/permission_stubs";
 import configureDiscordBot from "../../methods/configureDiscordBot";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureDiscordBot, {
@@ -34,5 +35,11 @@ defineMethod(configureDiscordBot, {
       Logger.info("Discarding discord bot token");
       await Settings.removeAsync({ name: "discord.bot" });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureDiscordBot",
+      details: token ? "Updated" : "Cleared",
+    });
   },
 });
@@ -5,6 +5,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureDiscordBot } from "../../lib/permission_stubs";
 import configureDiscordBotGuild from "../../methods/configureDiscordBotGuild";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureDiscordBotGuild, {
@@ -38,5 +39,13 @@ defineMethod(configureDiscordBotGuild, {
     } else {
       await Settings.removeAsync({ name: "discord.guild" });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureDiscordBotGuild",
+      subjectId: guild?.id,
+      subject: guild?.name,
+      details: guild ? "Updated" : "Cleared",
+    });
   },
 });
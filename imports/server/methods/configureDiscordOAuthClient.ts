@@ -6,6 +6,7 @@ import { API_BASE } from "../../lib/discord";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { userMayConfigureDiscordOAuth } from "../../lib/permission_stubs";
 import configureDiscordOAuthClient from "../../methods/configureDiscordOAuthClient";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureDiscordOAuthClient, {
@@ -31,6 +32,11 @@ defineMethod(configureDiscordOAuthClient, {
       await ServiceConfiguration.configurations.removeAsync({
         service: "discord",
       });
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureDiscordOAuthClient",
+        details: "Cleared",
+      });
       return;
     }
 
@@ -61,6 +67,11 @@ defineMethod(configureDiscordOAuthClient, {
           },
         },
       );
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureDiscordOAuthClient",
+        details: "Updated",
+      });
     } else {
       const text = await resp.text();
       throw new Meteor.Error(`Discord credential test failed: ${text}`);
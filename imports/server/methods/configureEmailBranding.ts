@@ -4,6 +4,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureEmailBranding } from "../../lib/permission_stubs";
 import configureEmailBranding from "../../methods/configureEmailBranding";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureEmailBranding, {
@@ -45,5 +46,9 @@ defineMethod(configureEmailBranding, {
         },
       },
     );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureEmailBranding",
+    });
   },
 });
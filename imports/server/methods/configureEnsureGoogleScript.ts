@@ -9,6 +9,7 @@ import { checkAdmin } from "../../lib/permission_stubs";
 import configureEnsureGoogleScript from "../../methods/configureEnsureGoogleScript";
 import GoogleClient from "../googleClientRefresher";
 import googleScriptContent from "../googleScriptContent";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureEnsureGoogleScript, {
@@ -113,5 +114,10 @@ defineMethod(configureEnsureGoogleScript, {
         },
       );
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureEnsureGoogleScript",
+    });
   },
 });
@@ -0,0 +1,64 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Settings from "../../lib/models/Settings";
+import { userMayConfigureEtherpad } from "../../lib/permission_stubs";
+import configureEtherpad from "../../methods/configureEtherpad";
+import { EtherpadClient } from "../etherpad";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(configureEtherpad, {
+  validate(arg) {
+    check(arg, {
+      url: Match.Optional(String),
+      apiKey: Match.Optional(String),
+    });
+    return arg;
+  },
+
+  async run({ url, apiKey }) {
+    check(this.userId, String);
+
+    if (
+      !userMayConfigureEtherpad(await MeteorUsers.findOneAsync(this.userId))
+    ) {
+      throw new Meteor.Error(401, "Must be admin to configure Etherpad");
+    }
+
+    if (!url || !apiKey) {
+      Logger.info("Discarding Etherpad configuration");
+      await Settings.removeAsync({ name: "etherpad.server" });
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureEtherpad",
+        details: "Cleared",
+      });
+      return;
+    }
+
+    // Make sure we can actually talk to the server before saving
+    try {
+      await new EtherpadClient(url, apiKey).checkToken();
+    } catch (e) {
+      Logger.warn("Error while checking Etherpad API key", { error: e });
+      throw new Meteor.Error(
+        400,
+        "Unable to connect to Etherpad. Check the URL and API key.",
+      );
+    }
+
+    Logger.info("Configuring Etherpad server (API key redacted)", { url });
+    await Settings.upsertAsync(
+      { name: "etherpad.server" },
+      { $set: { "value.url": url, "value.apiKey": apiKey } },
+    );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureEtherpad",
+      subject: url,
+      details: "Updated",
+    });
+  },
+});
@@ -6,6 +6,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureGdrive } from "../../lib/permission_stubs";
 import configureGdriveCreds from "../../methods/configureGdriveCreds";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureGdriveCreds, {
@@ -31,5 +32,10 @@ defineMethod(configureGdriveCreds, {
       { name: "gdrive.credential" },
       { $set: { value: { refreshToken, email, id } } },
     );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureGdriveCreds",
+      subject: email,
+    });
   },
 });
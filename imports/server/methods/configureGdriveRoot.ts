@@ -4,6 +4,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureGdrive } from "../../lib/permission_stubs";
 import configureGdriveRoot from "../../methods/configureGdriveRoot";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureGdriveRoot, {
@@ -31,5 +32,12 @@ defineMethod(configureGdriveRoot, {
     } else {
       await Settings.removeAsync({ name: "gdrive.root" });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureGdriveRoot",
+      subjectId: root,
+      details: root ? "Updated" : "Cleared",
+    });
   },
 });
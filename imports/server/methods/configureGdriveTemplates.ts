@@ -4,6 +4,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureGdrive } from "../../lib/permission_stubs";
 import configureGdriveTemplates from "../../methods/configureGdriveTemplates";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureGdriveTemplates, {
@@ -43,5 +44,10 @@ defineMethod(configureGdriveTemplates, {
     } else {
       await Settings.removeAsync({ name: "gdrive.template.document" });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureGdriveTemplates",
+    });
   },
 });
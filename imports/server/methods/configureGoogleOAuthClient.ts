@@ -5,6 +5,7 @@ import Logger from "../../Logger";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { userMayConfigureGoogleOAuth } from "../../lib/permission_stubs";
 import configureGoogleOAuthClient from "../../methods/configureGoogleOAuthClient";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureGoogleOAuthClient, {
@@ -50,5 +51,11 @@ defineMethod(configureGoogleOAuthClient, {
         service: "google",
       });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureGoogleOAuthClient",
+      details: clientId ? "Updated" : "Cleared",
+    });
   },
 });
@@ -5,6 +5,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { checkAdmin } from "../../lib/permission_stubs";
 import configureGoogleScriptUrl from "../../methods/configureGoogleScriptUrl";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureGoogleScriptUrl, {
@@ -34,6 +35,11 @@ defineMethod(configureGoogleScriptUrl, {
           },
         },
       );
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureGoogleScriptUrl",
+        details: "Cleared",
+      });
       return;
     }
 
@@ -70,5 +76,10 @@ defineMethod(configureGoogleScriptUrl, {
         },
       },
     );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureGoogleScriptUrl",
+      details: "Updated",
+    });
   },
 });
@@ -0,0 +1,98 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import { OPERATOR_ROLE } from "../../lib/huntRoles";
+import Hunts, { HuntCapabilities, HuntRole } from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayConfigureRolesForHunt } from "../../lib/permission_stubs";
+import configureHuntRoles from "../../methods/configureHuntRoles";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+const Capability = Match.OneOf(...HuntCapabilities.options);
+
+defineMethod(configureHuntRoles, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      customRoles: [
+        {
+          id: String,
+          name: String,
+          capabilities: [Capability],
+          restricted: Match.Optional(Boolean),
+        },
+      ],
+      memberCapabilities: [Capability],
+    });
+
+    return arg;
+  },
+
+  async run({ huntId, customRoles, memberCapabilities }) {
+    check(this.userId, String);
+
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (!hunt) {
+      throw new Meteor.Error(404, "Unknown hunt");
+    }
+
+    if (
+      !userMayConfigureRolesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure roles for hunt ${huntId}`,
+      );
+    }
+
+    const ids = new Set<string>();
+    for (const role of customRoles) {
+      if (!HuntRole.safeParse(role).success) {
+        throw new Meteor.Error(400, `Invalid role ${role.name}`);
+      }
+      if (role.id === OPERATOR_ROLE || ids.has(role.id)) {
+        throw new Meteor.Error(
+          400,
+          `There's already a role called ${role.name}`,
+        );
+      }
+      ids.add(role.id);
+    }
+
+    Logger.info("Configuring hunt roles", {
+      hunt: huntId,
+      roles: [...ids],
+      memberCapabilities,
+    });
+    await Hunts.updateAsync(
+      { _id: huntId },
+      { $set: { customRoles, memberCapabilities } },
+    );
+
+    // Nobody can hold a role that no longer exists
+    const removed = (hunt.customRoles ?? [])
+      .map((role) => role.id)
+      .filter((id) => !ids.has(id));
+    if (removed.length > 0) {
+      await MeteorUsers.updateAsync(
+        { [`roles.${huntId}`]: { $in: removed } },
+        { $pullAll: { [`roles.${huntId}`]: removed } },
+        { multi: true },
+      );
+    }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "configureHuntRoles",
+      details:
+        customRoles.length > 0
+          ? `Roles: ${customRoles.map((role) => role.name).join(", ")}`
+          : "No roles",
+    });
+  },
+});
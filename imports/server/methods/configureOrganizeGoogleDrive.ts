@@ -11,6 +11,7 @@ import { userMayConfigureGdrive } from "../../lib/permission_stubs";
 import configureOrganizeGoogleDrive from "../../methods/configureOrganizeGoogleDrive";
 import { ensureDocument, ensureHuntFolder, moveDocument } from "../gdrive";
 import HuntFolders from "../models/HuntFolders";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureOrganizeGoogleDrive, {
@@ -42,7 +43,14 @@ defineMethod(configureOrganizeGoogleDrive, {
     const puzzles = indexedById(await Puzzles.find().fetchAsync());
     for (const d of Documents.find()) {
       const puzzle = puzzles.get(d.puzzle);
-      if (puzzle && !d.value.folder) await ensureDocument(puzzle);
+      if (puzzle && d.provider === "google" && !d.value.folder) {
+        await ensureDocument(puzzle);
+      }
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureOrganizeGoogleDrive",
+    });
   },
 });
@@ -11,6 +11,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureAWS } from "../../lib/permission_stubs";
 import configureS3ImageBucket from "../../methods/configureS3ImageBucket";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureS3ImageBucket, {
@@ -31,6 +32,11 @@ defineMethod(configureS3ImageBucket, {
     if (!bucketName) {
       Logger.info("Clearing configured S3 image bucket");
       await Settings.removeAsync({ name: "s3.image_bucket" });
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureS3ImageBucket",
+        details: "Cleared",
+      });
       return;
     }
 
@@ -105,5 +111,11 @@ defineMethod(configureS3ImageBucket, {
         },
       },
     );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureS3ImageBucket",
+      subject: bucketName,
+      details: "Updated",
+    });
   },
 });
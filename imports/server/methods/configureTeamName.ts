@@ -4,6 +4,7 @@ import MeteorUsers from "../../lib/models/MeteorUsers";
 import Settings from "../../lib/models/Settings";
 import { userMayConfigureTeamName } from "../../lib/permission_stubs";
 import configureTeamName from "../../methods/configureTeamName";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(configureTeamName, {
@@ -36,5 +37,12 @@ defineMethod(configureTeamName, {
     } else {
       await Settings.removeAsync({ name: "teamname" });
     }
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureTeamName",
+      subject: teamName,
+      details: teamName ? "Updated" : "Cleared",
+    });
   },
 });
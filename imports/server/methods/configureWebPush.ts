@@ -0,0 +1,105 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import { generateVAPIDKeys, getVapidHeaders } from "web-push";
+import Logger from "../../Logger";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import PushSubscriptions from "../../lib/models/PushSubscriptions";
+import Settings from "../../lib/models/Settings";
+import { userMayConfigureWebPush } from "../../lib/permission_stubs";
+import configureWebPush from "../../methods/configureWebPush";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(configureWebPush, {
+  validate(arg) {
+    check(arg, {
+      subject: Match.Optional(String),
+      publicKey: Match.Optional(String),
+      privateKey: Match.Optional(String),
+    });
+    return arg;
+  },
+
+  async run({ subject, publicKey, privateKey }) {
+    check(this.userId, String);
+
+    if (!userMayConfigureWebPush(await MeteorUsers.findOneAsync(this.userId))) {
+      throw new Meteor.Error(401, "Must be admin to configure Web Push");
+    }
+
+    const existing = await Settings.findOneAsync({ name: "webpush.vapid" });
+    const existingKeys =
+      existing?.name === "webpush.vapid" ? existing.value : undefined;
+
+    if (!subject) {
+      Logger.info("Discarding Web Push configuration");
+      await Settings.removeAsync({ name: "webpush.vapid" });
+      // Subscriptions are tied to the key they were made with, so they're no
+      // use without it
+      await PushSubscriptions.removeAsync({});
+      await recordAuditLogEntry({
+        user: this.userId,
+        action: "configureWebPush",
+        details: "Cleared",
+      });
+      return;
+    }
+
+    if (!!publicKey !== !!privateKey) {
+      throw new Meteor.Error(
+        400,
+        "Provide both the public and private key, or neither",
+      );
+    }
+
+    // Keep the existing keys unless we're given new ones, and generate keys
+    // the first time through
+    const keys =
+      publicKey && privateKey
+        ? { publicKey, privateKey }
+        : (existingKeys ?? generateVAPIDKeys());
+
+    try {
+      getVapidHeaders(
+        "https://push.example.com",
+        subject,
+        keys.publicKey,
+        keys.privateKey,
+        "aes128gcm",
+      );
+    } catch (error) {
+      throw new Meteor.Error(
+        400,
+        `Invalid Web Push configuration: ${(error as Error).message}`,
+      );
+    }
+
+    if (existingKeys && existingKeys.publicKey !== keys.publicKey) {
+      Logger.info("Web Push keys changed; discarding existing subscriptions");
+      await PushSubscriptions.removeAsync({});
+    }
+
+    Logger.info("Configuring Web Push (private key redacted)", {
+      subject,
+      publicKey: keys.publicKey,
+    });
+    await Settings.upsertAsync(
+      { name: "webpush.vapid" },
+      {
+        $set: {
+          "value.subject": subject,
+          "value.publicKey": keys.publicKey,
+          "value.privateKey": keys.privateKey,
+        },
+      },
+    );
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "configureWebPush",
+      details:
+        existingKeys && existingKeys.publicKey !== keys.publicKey
+          ? "Updated and replaced keys"
+          : "Updated",
+    });
+  },
+});
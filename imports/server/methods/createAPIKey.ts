@@ -1,21 +1,56 @@
-import { check } from "meteor/check";
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
 import { Random } from "meteor/random";
-import APIKeys from "../../lib/models/APIKeys";
+import APIKeys, { APIKeyScopes } from "../../lib/models/APIKeys";
+import MeteorUsers from "../../lib/models/MeteorUsers";
 import createAPIKey from "../../methods/createAPIKey";
 import defineMethod from "./defineMethod";
 
 defineMethod(createAPIKey, {
   validate(arg) {
-    check(arg, {});
+    check(arg, {
+      hunts: Match.Optional([String]),
+      scopes: [Match.OneOf(...APIKeyScopes.options)],
+      expiresAt: Match.Optional(Date),
+    });
     return arg;
   },
 
-  async run() {
+  async run({ hunts, scopes, expiresAt }) {
     check(this.userId, String);
 
+    if (scopes.length === 0) {
+      throw new Meteor.Error(400, "API keys must have at least one scope");
+    }
+
+    if (hunts) {
+      if (hunts.length === 0) {
+        throw new Meteor.Error(
+          400,
+          "API keys restricted to hunts must name at least one hunt",
+        );
+      }
+
+      const user = await MeteorUsers.findOneAsync(this.userId);
+      const nonMemberHunt = hunts.find((h) => !user?.hunts?.includes(h));
+      if (nonMemberHunt) {
+        throw new Meteor.Error(
+          403,
+          `User ${this.userId} is not a member of hunt ${nonMemberHunt}`,
+        );
+      }
+    }
+
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new Meteor.Error(400, "API key expiry must be in the future");
+    }
+
     const key = await APIKeys.insertAsync({
       user: this.userId,
       key: Random.id(32),
+      hunts: hunts && [...new Set(hunts)],
+      scopes: [...new Set(scopes)],
+      expiresAt,
     });
 
     return key;
@@ -0,0 +1,68 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import HuntGroups from "../../lib/models/HuntGroups";
+import Hunts, { SavedDiscordObjectPattern } from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Tags from "../../lib/models/Tags";
+import {
+  userMayManageGroupsForHunt,
+  userMayUseDiscordBotAPIs,
+} from "../../lib/permission_stubs";
+import createHuntGroup from "../../methods/createHuntGroup";
+import defineMethod from "./defineMethod";
+
+defineMethod(createHuntGroup, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      name: String,
+      tags: [String],
+      discordRole: Match.Optional(SavedDiscordObjectPattern),
+    });
+    return arg;
+  },
+
+  async run({ huntId, name, tags, discordRole }) {
+    check(this.userId, String);
+
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (!hunt) {
+      throw new Meteor.Error(404, "Unknown hunt id");
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!userMayManageGroupsForHunt(user, hunt)) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not manage groups for hunt ${huntId}`,
+      );
+    }
+
+    // Picking a Discord role needs the same access as the rest of the Discord
+    // configuration, since members get whatever role is chosen
+    if (discordRole && !userMayUseDiscordBotAPIs(user)) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure Discord roles`,
+      );
+    }
+
+    const tagIds = [...new Set(tags)];
+    if (
+      (await Tags.find({ _id: { $in: tagIds }, hunt: huntId }).countAsync()) !==
+      tagIds.length
+    ) {
+      throw new Meteor.Error(400, "Unknown tag");
+    }
+
+    Logger.info("Creating hunt group", { hunt: huntId, name });
+    return HuntGroups.insertAsync({
+      hunt: huntId,
+      name,
+      members: [],
+      discordRole,
+      tags: tagIds,
+    });
+  },
+});
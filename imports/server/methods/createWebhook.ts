@@ -0,0 +1,53 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import { Random } from "meteor/random";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Webhooks, { WebhookEvents } from "../../lib/models/Webhooks";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import createWebhook from "../../methods/createWebhook";
+import { checkWebhookUrl } from "../webhooks";
+import defineMethod from "./defineMethod";
+
+defineMethod(createWebhook, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      url: String,
+      events: [Match.OneOf(...WebhookEvents.options)],
+    });
+    return arg;
+  },
+
+  async run({ huntId, url, events }) {
+    check(this.userId, String);
+
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (!hunt) {
+      throw new Meteor.Error(404, "Unknown hunt id");
+    }
+
+    if (
+      !userMayConfigureWebhooksForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure webhooks for hunt ${huntId}`,
+      );
+    }
+
+    checkWebhookUrl(url);
+
+    Logger.info("Creating webhook", { hunt: huntId, url, events });
+    return Webhooks.insertAsync({
+      hunt: huntId,
+      url,
+      events: [...new Set(events)],
+      secret: Random.secret(),
+    });
+  },
+});
@@ -0,0 +1,39 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import ChatMessages from "../../lib/models/ChatMessages";
+import deleteChatMessage from "../../methods/deleteChatMessage";
+import defineMethod from "./defineMethod";
+
+defineMethod(deleteChatMessage, {
+  validate(arg) {
+    check(arg, {
+      chatMessageId: String,
+    });
+    return arg;
+  },
+
+  async run({ chatMessageId }) {
+    check(this.userId, String);
+
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    if (!chatMessage) {
+      throw new Meteor.Error(404, "Unknown chat message");
+    }
+
+    if (chatMessage.sender !== this.userId) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} may not delete chat message ${chatMessageId}`,
+      );
+    }
+
+    // Deleted messages (and their edit history) are kept around, but are no
+    // longer published
+    Logger.info("Deleting chat message", {
+      chatMessage: chatMessageId,
+      puzzle: chatMessage.puzzle,
+    });
+    await ChatMessages.destroyAsync(chatMessageId, this.userId);
+  },
+});
@@ -8,6 +8,7 @@ import {
   userMayMakeOperatorForHunt,
 } from "../../lib/permission_stubs";
 import demoteOperator from "../../methods/demoteOperator";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(demoteOperator, {
@@ -48,5 +49,12 @@ defineMethod(demoteOperator, {
       demoter: this.userId,
     });
     await removeUserFromRole(targetUserId, huntId, "operator");
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "demoteOperator",
+      subjectId: targetUserId,
+      subject: targetUser.displayName,
+    });
   },
 });
@@ -25,6 +25,6 @@ defineMethod(destroyAPIKey, {
       throw new Meteor.Error(403, `No API key owned by with id ${apiKeyId}`);
     }
 
-    await APIKeys.destroyAsync({ _id: apiKey._id });
+    await APIKeys.destroyAsync({ _id: apiKey._id }, this.userId);
   },
 });
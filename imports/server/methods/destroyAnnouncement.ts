@@ -0,0 +1,52 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Announcements from "../../lib/models/Announcements";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayAddAnnouncementToHunt } from "../../lib/permission_stubs";
+import destroyAnnouncement from "../../methods/destroyAnnouncement";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(destroyAnnouncement, {
+  validate(arg) {
+    check(arg, {
+      announcementId: String,
+    });
+    return arg;
+  },
+
+  async run({ announcementId }) {
+    check(this.userId, String);
+
+    const announcement = await Announcements.findOneAsync(announcementId);
+    if (!announcement) {
+      throw new Meteor.Error(404, "Unknown announcement id");
+    }
+
+    if (
+      !userMayAddAnnouncementToHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(announcement.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not delete announcements from hunt ${announcement.hunt}`,
+      );
+    }
+
+    // Anyone who hasn't dismissed the announcement yet stops seeing it, but
+    // anything already sent by email, SMS or Discord stays sent
+    Logger.info("Deleting announcement", { announcement: announcementId });
+    await Announcements.destroyAsync(announcementId, this.userId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: announcement.hunt,
+      action: "destroyAnnouncement",
+      subjectId: announcementId,
+      details: announcement.message,
+    });
+  },
+});
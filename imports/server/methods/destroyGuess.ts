@@ -0,0 +1,63 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Guesses from "../../lib/models/Guesses";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayUpdateGuessesForHunt } from "../../lib/permission_stubs";
+import destroyGuess from "../../methods/destroyGuess";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(destroyGuess, {
+  validate(arg) {
+    check(arg, {
+      guessId: String,
+    });
+    return arg;
+  },
+
+  async run({ guessId }) {
+    check(this.userId, String);
+
+    const guess = await Guesses.findOneAsync(guessId);
+    if (!guess) {
+      throw new Meteor.Error(404, "Unknown guess id");
+    }
+
+    if (
+      !userMayUpdateGuessesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(guess.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not delete guesses from hunt ${guess.hunt}`,
+      );
+    }
+
+    // A correct guess is what marks its puzzle as solved, so it needs to be
+    // marked as something else (which un-solves the puzzle) before it goes
+    if (guess.state === "correct") {
+      throw new Meteor.Error(
+        400,
+        "Mark the guess as something other than correct before deleting it",
+      );
+    }
+
+    Logger.info("Deleting guess", { guess: guessId });
+    await Guesses.destroyAsync(guessId, this.userId);
+
+    const puzzle = await Puzzles.findOneAllowingDeletedAsync(guess.puzzle);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: guess.hunt,
+      action: "destroyGuess",
+      subjectId: guessId,
+      subject: puzzle?.title,
+      details: `Deleted ${guess.guess}`,
+    });
+  },
+});
@@ -3,6 +3,7 @@ import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { checkAdmin } from "../../lib/permission_stubs";
 import destroyHunt from "../../methods/destroyHunt";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(destroyHunt, {
@@ -15,6 +16,13 @@ defineMethod(destroyHunt, {
     check(this.userId, String);
     checkAdmin(await MeteorUsers.findOneAsync(this.userId));
 
-    await Hunts.destroyAsync(huntId);
+    const hunt = await Hunts.findOneAsync(huntId);
+    await Hunts.destroyAsync(huntId, this.userId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "destroyHunt",
+      subject: hunt?.name,
+    });
   },
 });
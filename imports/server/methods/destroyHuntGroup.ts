@@ -0,0 +1,42 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import HuntGroups from "../../lib/models/HuntGroups";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayManageGroupsForHunt } from "../../lib/permission_stubs";
+import destroyHuntGroup from "../../methods/destroyHuntGroup";
+import defineMethod from "./defineMethod";
+
+defineMethod(destroyHuntGroup, {
+  validate(arg) {
+    check(arg, {
+      groupId: String,
+    });
+    return arg;
+  },
+
+  async run({ groupId }) {
+    check(this.userId, String);
+
+    const group = await HuntGroups.findOneAsync(groupId);
+    if (!group) {
+      throw new Meteor.Error(404, "Unknown group id");
+    }
+
+    if (
+      !userMayManageGroupsForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(group.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not manage groups for hunt ${group.hunt}`,
+      );
+    }
+
+    Logger.info("Destroying hunt group", { group: groupId });
+    await HuntGroups.destroyAsync(groupId, this.userId);
+  },
+});
@@ -8,6 +8,7 @@ import Puzzles from "../../lib/models/Puzzles";
 import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
 import destroyPuzzle from "../../methods/destroyPuzzle";
 import { makeReadOnly } from "../gdrive";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(destroyPuzzle, {
@@ -38,19 +39,31 @@ defineMethod(destroyPuzzle, {
       );
     }
 
-    if (replacedBy) {
-      const replacedByPuzzle = await Puzzles.findOneAsync(replacedBy);
-      if (!replacedByPuzzle || replacedByPuzzle.hunt !== puzzle.hunt) {
-        throw new Meteor.Error(400, "Invalid replacement puzzle");
-      }
+    const replacedByPuzzle = replacedBy
+      ? await Puzzles.findOneAsync(replacedBy)
+      : undefined;
+    if (replacedBy && replacedByPuzzle?.hunt !== puzzle.hunt) {
+      throw new Meteor.Error(400, "Invalid replacement puzzle");
     }
 
     await Puzzles.updateAsync(puzzleId, {
       $set: {
         replacedBy,
         deleted: true,
+        deletedAt: new Date(),
+        deletedBy: this.userId,
       },
     });
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: puzzle.hunt,
+      action: "destroyPuzzle",
+      subjectId: puzzleId,
+      subject: puzzle.title,
+      details: replacedByPuzzle
+        ? `Replaced by ${replacedByPuzzle.title}`
+        : undefined,
+    });
 
     if (await Flags.activeAsync("disable.google")) {
       return;
@@ -60,10 +73,15 @@ defineMethod(destroyPuzzle, {
       return;
     }
 
-    const document = await Documents.findOneAsync({ puzzle: puzzleId });
+    const documents = await Documents.find({
+      puzzle: puzzleId,
+      provider: "google",
+    }).fetchAsync();
 
-    if (document) {
-      await makeReadOnly(document.value.id);
+    for (const document of documents) {
+      if (document.provider === "google") {
+        await makeReadOnly(document.value.id);
+      }
     }
   },
 });
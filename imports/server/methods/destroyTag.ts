@@ -0,0 +1,52 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Tags from "../../lib/models/Tags";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import destroyTag from "../../methods/destroyTag";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(destroyTag, {
+  validate(arg) {
+    check(arg, {
+      tagId: String,
+    });
+    return arg;
+  },
+
+  async run({ tagId }) {
+    check(this.userId, String);
+
+    const tag = await Tags.findOneAsync(tagId);
+    if (!tag) {
+      throw new Meteor.Error(404, "Unknown tag id");
+    }
+
+    if (
+      !userMayWritePuzzlesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(tag.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not delete tags from hunt ${tag.hunt}`,
+      );
+    }
+
+    // Puzzles keep the tag's ID, so that they get the tag back if it's
+    // restored. Until then, lookups won't find it and it's ignored.
+    Logger.info("Deleting tag", { tag: tagId });
+    await Tags.destroyAsync(tagId, this.userId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: tag.hunt,
+      action: "destroyTag",
+      subjectId: tagId,
+      subject: tag.name,
+    });
+  },
+});
@@ -0,0 +1,42 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Webhooks from "../../lib/models/Webhooks";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import destroyWebhook from "../../methods/destroyWebhook";
+import defineMethod from "./defineMethod";
+
+defineMethod(destroyWebhook, {
+  validate(arg) {
+    check(arg, {
+      webhookId: String,
+    });
+    return arg;
+  },
+
+  async run({ webhookId }) {
+    check(this.userId, String);
+
+    const webhook = await Webhooks.findOneAsync(webhookId);
+    if (!webhook) {
+      throw new Meteor.Error(404, "Unknown webhook id");
+    }
+
+    if (
+      !userMayConfigureWebhooksForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(webhook.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure webhooks for hunt ${webhook.hunt}`,
+      );
+    }
+
+    Logger.info("Destroying webhook", { webhook: webhookId });
+    await Webhooks.destroyAsync(webhookId, this.userId);
+  },
+});
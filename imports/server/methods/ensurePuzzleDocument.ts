@@ -1,9 +1,11 @@
 import { check } from "meteor/check";
 import { Meteor } from "meteor/meteor";
 import Flags from "../../Flags";
+import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
 import ensurePuzzleDocument from "../../methods/ensurePuzzleDocument";
+import { ensureEtherpadDocument } from "../etherpad";
 import { ensureDocument, ensureHuntFolderPermission } from "../gdrive";
 import defineMethod from "./defineMethod";
 
@@ -26,6 +28,12 @@ defineMethod(ensurePuzzleDocument, {
 
     this.unblock();
 
+    const hunt = await Hunts.findOneAsync(puzzle.hunt);
+    if (hunt?.documentProvider === "etherpad") {
+      await ensureEtherpadDocument(puzzle);
+      return;
+    }
+
     await ensureDocument(puzzle);
 
     if (await Flags.activeAsync("disable.google")) {
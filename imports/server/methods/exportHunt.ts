@@ -0,0 +1,34 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayUpdateHunt } from "../../lib/permission_stubs";
+import exportHunt from "../../methods/exportHunt";
+import { exportHuntArchive } from "../huntArchive";
+import defineMethod from "./defineMethod";
+
+defineMethod(exportHunt, {
+  validate(arg) {
+    check(arg, { huntId: String });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    check(this.userId, String);
+
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (!hunt) {
+      throw new Meteor.Error(404, `Unknown hunt id ${huntId}`);
+    }
+    if (!userMayUpdateHunt(await MeteorUsers.findOneAsync(this.userId), hunt)) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not export hunt ${huntId}`,
+      );
+    }
+
+    Logger.info("Exporting hunt archive", { hunt: huntId });
+    return exportHuntArchive(huntId);
+  },
+});
@@ -0,0 +1,80 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import AuditLogEntries, {
+  AuditLogActions,
+} from "../../lib/models/AuditLogEntries";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import {
+  userMayViewAuditLogForHunt,
+  userMayViewServerAuditLog,
+} from "../../lib/permission_stubs";
+import fetchAuditLog from "../../methods/fetchAuditLog";
+import defineMethod from "./defineMethod";
+
+// How many entries to return at a time
+const PAGE_SIZE = 100;
+
+defineMethod(fetchAuditLog, {
+  validate(arg) {
+    check(arg, {
+      huntId: Match.Optional(String),
+      action: Match.Optional(Match.OneOf(...AuditLogActions.options)),
+      user: Match.Optional(String),
+      before: Match.Optional(Date),
+    });
+    return arg;
+  },
+
+  async run({ huntId, action, user, before }) {
+    check(this.userId, String);
+
+    const self = await MeteorUsers.findOneAsync(this.userId);
+    if (huntId) {
+      // Operators can still see what happened to a hunt after it's deleted
+      const hunt =
+        (await Hunts.findOneAsync(huntId)) ??
+        (await Hunts.findOneDeletedAsync(huntId));
+      if (!userMayViewAuditLogForHunt(self, hunt)) {
+        throw new Meteor.Error(
+          401,
+          `User ${this.userId} may not view the audit log for hunt ${huntId}`,
+        );
+      }
+    } else if (!userMayViewServerAuditLog(self)) {
+      throw new Meteor.Error(401, "Must be admin to view the audit log");
+    }
+
+    const entries = await AuditLogEntries.find(
+      {
+        ...(huntId ? { hunt: huntId } : {}),
+        ...(action ? { action } : {}),
+        ...(user ? { user } : {}),
+        ...(before ? { createdAt: { $lt: before } } : {}),
+      },
+      { sort: { createdAt: -1 }, limit: PAGE_SIZE + 1 },
+    ).fetchAsync();
+    const hasMore = entries.length > PAGE_SIZE;
+    const page = entries.slice(0, PAGE_SIZE);
+
+    const userIds = [...new Set(page.map((entry) => entry.user))];
+    const displayNames = Object.fromEntries(
+      await MeteorUsers.find(
+        { _id: { $in: userIds } },
+        { projection: { displayName: 1 } },
+      ).mapAsync((u) => [u._id, u.displayName ?? u._id]),
+    );
+
+    const huntIds = [
+      ...new Set(page.flatMap((entry) => (entry.hunt ? [entry.hunt] : []))),
+    ];
+    const huntNames = Object.fromEntries(
+      await Hunts.findAllowingDeleted(
+        { _id: { $in: huntIds } },
+        { projection: { name: 1 } },
+      ).mapAsync((h) => [h._id, h.name]),
+    );
+
+    return { entries: page, displayNames, huntNames, hasMore };
+  },
+});
@@ -0,0 +1,35 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import fetchHuntAnalytics from "../../methods/fetchHuntAnalytics";
+import huntAnalytics from "../huntAnalytics";
+import defineMethod from "./defineMethod";
+
+defineMethod(fetchHuntAnalytics, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    check(this.userId, String);
+
+    if (
+      !userMayWritePuzzlesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(huntId),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not view analytics for hunt ${huntId}`,
+      );
+    }
+
+    return huntAnalytics(huntId);
+  },
+});
@@ -0,0 +1,29 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import fetchHuntRoster from "../../methods/fetchHuntRoster";
+import huntRoster from "../huntRoster";
+import defineMethod from "./defineMethod";
+
+defineMethod(fetchHuntRoster, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    check(this.userId, String);
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(huntId)) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} is not a member of hunt ${huntId}`,
+      );
+    }
+
+    return huntRoster(huntId);
+  },
+});
@@ -6,6 +6,7 @@ import InvitationCodes from "../../lib/models/InvitationCodes";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { userMayUpdateHuntInvitationCode } from "../../lib/permission_stubs";
 import generateHuntInvitationCode from "../../methods/generateHuntInvitationCode";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import withLock from "../withLock";
 import defineMethod from "./defineMethod";
 
@@ -39,7 +40,7 @@ defineMethod(generateHuntInvitationCode, {
 
     await withLock(`invitation_code:${huntId}`, async () => {
       for await (const code of InvitationCodes.find({ hunt: huntId })) {
-        await InvitationCodes.destroyAsync(code._id);
+        await InvitationCodes.destroyAsync(code._id, this.userId);
       }
 
       await InvitationCodes.insertAsync({
@@ -48,6 +49,12 @@ defineMethod(generateHuntInvitationCode, {
       });
     });
 
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "generateHuntInvitationCode",
+    });
+
     return newInvitationCode;
   },
 });
@@ -0,0 +1,24 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayCreateHunt } from "../../lib/permission_stubs";
+import importHunt from "../../methods/importHunt";
+import { importHuntArchive } from "../huntArchive";
+import defineMethod from "./defineMethod";
+
+defineMethod(importHunt, {
+  validate(arg) {
+    check(arg, { archive: String });
+    return arg;
+  },
+
+  async run({ archive }) {
+    check(this.userId, String);
+
+    if (!userMayCreateHunt(await MeteorUsers.findOneAsync(this.userId))) {
+      throw new Meteor.Error(401, "Must be allowed to create hunt");
+    }
+
+    return importHuntArchive(archive, this.userId);
+  },
+});
@@ -1,8 +1,11 @@
 import "./acceptHuntInvitationCode";
 import "./acceptUserHuntTerms";
 import "./addHuntUser";
+import "./addPushSubscription";
 import "./addPuzzleAnswer";
+import "./addPuzzleDocument";
 import "./addPuzzleTag";
+import "./assignPuzzle";
 import "./bookmarkPuzzle";
 import "./bulkAddHuntUsers";
 import "./clearHuntInvitationCode";
@@ -13,32 +16,48 @@ import "./configureDiscordBotGuild";
 import "./configureDiscordOAuthClient";
 import "./configureEmailBranding";
 import "./configureEnsureGoogleScript";
+import "./configureEtherpad";
 import "./configureGdriveCreds";
 import "./configureGdriveRoot";
 import "./configureGdriveTemplates";
 import "./configureGoogleOAuthClient";
+import "./configureHuntRoles";
 import "./configureListS3Buckets";
 import "./configureOrganizeGoogleDrive";
 import "./configureS3ImageBucket";
 import "./configureTeamName";
 import "./configureGoogleScriptUrl";
+import "./configureWebPush";
 import "./createAPIKey";
 import "./createChatImageUpload";
 import "./createDocumentImageUpload";
 import "./createFixtureHunt";
 import "./createGuess";
 import "./createHunt";
+import "./createHuntGroup";
 import "./createPuzzle";
+import "./createWebhook";
+import "./deleteChatMessage";
 import "./demoteOperator";
+import "./destroyAnnouncement";
 import "./destroyAPIKey";
+import "./destroyGuess";
 import "./destroyHunt";
+import "./destroyHuntGroup";
 import "./destroyPuzzle";
+import "./destroyTag";
+import "./destroyWebhook";
 import "./dismissBookmarkNotification";
 import "./dismissChatNotification";
 import "./dismissPendingAnnouncement";
 import "./ensurePuzzleDocument";
+import "./exportHunt";
+import "./fetchAuditLog";
+import "./fetchHuntAnalytics";
+import "./fetchHuntRoster";
 import "./generateUploadToken";
 import "./generateHuntInvitationCode";
+import "./importHunt";
 import "./insertDocumentImage";
 import "./linkUserDiscordAccount";
 import "./linkUserGoogleAccount";
@@ -49,21 +68,39 @@ import "./mediasoupConnectTransport";
 import "./mediasoupRemoteMutePeer";
 import "./mediasoupSetPeerState";
 import "./mediasoupSetProducerPaused";
+import "./mergePuzzle";
 import "./postAnnouncement";
 import "./promoteOperator";
 import "./provisionFirstUser";
+import "./removePushSubscription";
 import "./removePuzzleAnswer";
 import "./removePuzzleTag";
 import "./renameTag";
+import "./retryWebhookDelivery";
+import "./searchHunt";
 import "./sendChatMessage";
+import "./setAnnouncementChannels";
 import "./setFeatureFlag";
 import "./setGuessState";
+import "./setHuntGroupMembership";
+import "./setPuzzleFeeders";
+import "./setPuzzleStatus";
+import "./setUserHuntRoles";
 import "./syncHuntDiscordRole";
+import "./toggleChatMessageReaction";
+import "./unassignPuzzle";
+import "./undestroyAnnouncement";
+import "./undestroyGuess";
 import "./undestroyHunt";
 import "./undestroyPuzzle";
+import "./undestroyTag";
 import "./unlinkUserDiscordAccount";
 import "./unlinkUserGoogleAccount";
+import "./updateChatMessage";
 import "./updateHunt";
+import "./updateHuntGroup";
+import "./updateNotificationPreferences";
 import "./updateProfile";
 import "./updatePuzzle";
+import "./updateWebhook";
 import "./userLoginOptions";
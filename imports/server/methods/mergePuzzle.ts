@@ -0,0 +1,183 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Bookmarks from "../../lib/models/Bookmarks";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../lib/models/ChatMessages";
+import ChatNotifications from "../../lib/models/ChatNotifications";
+import Documents from "../../lib/models/Documents";
+import Guesses from "../../lib/models/Guesses";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import mergePuzzle from "../../methods/mergePuzzle";
+import GlobalHooks from "../GlobalHooks";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import sendChatMessageInternal from "../sendChatMessageInternal";
+import withLock from "../withLock";
+import defineMethod from "./defineMethod";
+
+// Does the actual merging. Callers must hold the hunt's merge lock.
+async function mergeLocked(
+  puzzleId: string,
+  intoPuzzleId: string,
+  userId: string,
+) {
+  // Look both puzzles up again now that we hold the lock, in case either was
+  // merged or deleted in the meantime
+  const puzzle = await Puzzles.findOneAsync(puzzleId);
+  if (!puzzle) {
+    throw new Meteor.Error(404, "Unknown puzzle id");
+  }
+  const into = await Puzzles.findOneAsync(intoPuzzleId);
+  if (!into || into.hunt !== puzzle.hunt || into._id === puzzle._id) {
+    throw new Meteor.Error(400, "Invalid puzzle to merge into");
+  }
+
+  // Chat is displayed in timestamp order, so moving the messages is enough to
+  // interleave them with the surviving puzzle's
+  await ChatMessages.updateAsync(
+    { puzzle: puzzleId },
+    { $set: { puzzle: intoPuzzleId } },
+    { multi: true },
+  );
+  await ChatNotifications.updateAsync(
+    { puzzle: puzzleId },
+    { $set: { puzzle: intoPuzzleId } },
+    { multi: true },
+  );
+
+  // Any correct answers come along with their guesses. The solve hooks already
+  // ran when they were first accepted, so we don't run them again.
+  await Guesses.updateAsync(
+    { puzzle: puzzleId },
+    { $set: { puzzle: intoPuzzleId } },
+    { multi: true },
+  );
+
+  // Bookmarks are unique per user and puzzle, so drop the ones belonging to
+  // users who've already bookmarked the surviving puzzle
+  const alreadyBookmarked = await Bookmarks.findAllowingDeleted({
+    puzzle: intoPuzzleId,
+  }).mapAsync((b) => b.user);
+  await Bookmarks.removeAsync({
+    puzzle: puzzleId,
+    user: { $in: alreadyBookmarked },
+  });
+  await Bookmarks.updateAsync(
+    { puzzle: puzzleId },
+    { $set: { puzzle: intoPuzzleId } },
+    { multi: true },
+  );
+
+  // The merged puzzle's main document becomes an additional document on the
+  // surviving puzzle, named after the puzzle it came from
+  await Documents.updateAsync(
+    { puzzle: puzzleId, title: { $exists: false } },
+    { $set: { puzzle: intoPuzzleId, title: puzzle.title } },
+    { multi: true },
+  );
+  await Documents.updateAsync(
+    { puzzle: puzzleId },
+    { $set: { puzzle: intoPuzzleId } },
+    { multi: true },
+  );
+
+  // The surviving puzzle should expect at least as many answers as it ends up
+  // with
+  const answers = [...new Set([...into.answers, ...puzzle.answers])];
+  const feeders = puzzle.feeders?.filter((id) => id !== intoPuzzleId);
+  await Puzzles.updateAsync(intoPuzzleId, {
+    $set: {
+      answers,
+      expectedAnswerCount: Math.max(into.expectedAnswerCount, answers.length),
+    },
+    $addToSet: {
+      tags: { $each: puzzle.tags },
+      assignees: { $each: puzzle.assignees ?? [] },
+      ...(feeders ? { feeders: { $each: feeders } } : {}),
+    },
+  });
+  // Metas fed by the merged puzzle are now fed by the surviving one instead
+  await Puzzles.updateAsync(
+    { hunt: puzzle.hunt, feeders: puzzleId, _id: { $ne: intoPuzzleId } },
+    { $addToSet: { feeders: intoPuzzleId } },
+    { multi: true },
+  );
+  await Puzzles.updateAsync(
+    { hunt: puzzle.hunt, feeders: puzzleId },
+    { $pull: { feeders: puzzleId } },
+    { multi: true },
+  );
+
+  await Puzzles.updateAsync(puzzleId, {
+    $set: {
+      replacedBy: intoPuzzleId,
+      merged: true,
+      deleted: true,
+      deletedAt: new Date(),
+      deletedBy: userId,
+    },
+  });
+
+  return into;
+}
+
+defineMethod(mergePuzzle, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      intoPuzzleId: String,
+    });
+    return arg;
+  },
+
+  async run({ puzzleId, intoPuzzleId }) {
+    check(this.userId, String);
+
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      throw new Meteor.Error(404, "Unknown puzzle id");
+    }
+    if (
+      !userMayWritePuzzlesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(puzzle.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not modify puzzles from hunt ${puzzle.hunt}`,
+      );
+    }
+
+    // Merges within a hunt are serialized, so that two puzzles being merged
+    // into each other at the same time can't both end up deleted
+    const into = await withLock(`hunt:${puzzle.hunt}:merge-puzzles`, () =>
+      mergeLocked(puzzleId, intoPuzzleId, this.userId!),
+    );
+
+    Meteor.defer(() => {
+      void GlobalHooks.runPuzzleUpdatedHooks(intoPuzzleId, into);
+    });
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    await sendChatMessageInternal({
+      puzzleId: intoPuzzleId,
+      content: contentFromMessage(
+        `${user?.displayName ?? "Someone"} merged ${puzzle.title} into this puzzle`,
+      ),
+      sender: undefined,
+    });
+
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: puzzle.hunt,
+      action: "mergePuzzle",
+      subjectId: puzzleId,
+      subject: puzzle.title,
+      details: `Merged into ${into.title}`,
+    });
+  },
+});
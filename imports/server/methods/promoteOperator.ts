@@ -8,6 +8,7 @@ import {
   userMayMakeOperatorForHunt,
 } from "../../lib/permission_stubs";
 import promoteOperator from "../../methods/promoteOperator";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(promoteOperator, {
@@ -47,5 +48,12 @@ defineMethod(promoteOperator, {
     }
 
     await addUserToRole(targetUserId, huntId, "operator");
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "promoteOperator",
+      subjectId: targetUserId,
+      subject: targetUser.displayName,
+    });
   },
 });
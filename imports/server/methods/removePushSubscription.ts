@@ -0,0 +1,26 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import PushSubscriptions from "../../lib/models/PushSubscriptions";
+import removePushSubscription from "../../methods/removePushSubscription";
+import defineMethod from "./defineMethod";
+
+defineMethod(removePushSubscription, {
+  validate(arg) {
+    check(arg, { pushSubscriptionId: String });
+    return arg;
+  },
+
+  async run({ pushSubscriptionId }) {
+    check(this.userId, String);
+
+    const subscription = await PushSubscriptions.findOneAsync({
+      _id: pushSubscriptionId,
+      user: this.userId,
+    });
+    if (!subscription) {
+      throw new Meteor.Error(404, "Unknown push subscription");
+    }
+
+    await PushSubscriptions.removeAsync(pushSubscriptionId);
+  },
+});
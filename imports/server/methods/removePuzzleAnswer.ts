@@ -2,7 +2,9 @@ import { check } from "meteor/check";
 import { Meteor } from "meteor/meteor";
 import Guesses from "../../lib/models/Guesses";
 import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
+import { userMaySubmitGuessesForHunt } from "../../lib/permission_stubs";
 import removePuzzleAnswer from "../../methods/removePuzzleAnswer";
 import transitionGuess from "../transitionGuess";
 import defineMethod from "./defineMethod";
@@ -43,6 +45,18 @@ defineMethod(removePuzzleAnswer, {
       );
     }
 
+    if (
+      !userMaySubmitGuessesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not submit answers for hunt ${hunt._id}`,
+      );
+    }
+
     const guess = await Guesses.findOneAsync({
       puzzle: puzzleId,
       _id: guessId,
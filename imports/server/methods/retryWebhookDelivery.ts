@@ -0,0 +1,53 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import WebhookDeliveries from "../../lib/models/WebhookDeliveries";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import retryWebhookDelivery from "../../methods/retryWebhookDelivery";
+import defineMethod from "./defineMethod";
+
+defineMethod(retryWebhookDelivery, {
+  validate(arg) {
+    check(arg, {
+      deliveryId: String,
+    });
+    return arg;
+  },
+
+  async run({ deliveryId }) {
+    check(this.userId, String);
+
+    const delivery = await WebhookDeliveries.findOneAsync(deliveryId);
+    if (!delivery) {
+      throw new Meteor.Error(404, "Unknown webhook delivery id");
+    }
+
+    if (
+      !userMayConfigureWebhooksForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(delivery.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure webhooks for hunt ${delivery.hunt}`,
+      );
+    }
+
+    if (delivery.state !== "failed") {
+      throw new Meteor.Error(400, "Only failed deliveries can be retried");
+    }
+
+    // Give it a fresh set of attempts, starting now
+    Logger.info("Retrying webhook delivery", { delivery: deliveryId });
+    await WebhookDeliveries.updateAsync(deliveryId, {
+      $set: {
+        state: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+  },
+});
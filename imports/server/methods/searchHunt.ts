@@ -0,0 +1,36 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import { parseSearchQuery } from "../../lib/huntSearch";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import searchHunt from "../../methods/searchHunt";
+import searchHuntContent from "../huntSearch";
+import defineMethod from "./defineMethod";
+
+defineMethod(searchHunt, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      query: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId, query }) {
+    check(this.userId, String);
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(huntId)) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} is not a member of hunt ${huntId}`,
+      );
+    }
+
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    return searchHuntContent(huntId, terms);
+  },
+});
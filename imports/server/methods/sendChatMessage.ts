@@ -1,5 +1,12 @@
 import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import { ChatMessageContentPattern } from "../../lib/models/ChatMessages";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMaySendChatMessagesForHunt } from "../../lib/permission_stubs";
 import sendChatMessage from "../../methods/sendChatMessage";
+import checkMentions from "../checkMentions";
 import sendChatMessageInternal from "../sendChatMessageInternal";
 import defineMethod from "./defineMethod";
 
@@ -8,41 +15,50 @@ defineMethod(sendChatMessage, {
     check(arg, {
       puzzleId: String,
       content: String,
+      parent: Match.Optional(String),
     });
 
     return arg;
   },
 
-  async run({ puzzleId, content }: { puzzleId: string; content: string }) {
+  async run({
+    puzzleId,
+    content,
+    parent,
+  }: {
+    puzzleId: string;
+    content: string;
+    parent?: string;
+  }) {
     check(this.userId, String);
+
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle) {
+      throw new Meteor.Error(404, "Unknown puzzle");
+    }
+    const hunt = await Hunts.findOneAsync(puzzle.hunt);
+    if (
+      !hunt ||
+      !userMaySendChatMessagesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not send chat messages for hunt ${puzzle.hunt}`,
+      );
+    }
+
     const contentObj = JSON.parse(content);
-    check(contentObj, {
-      type: "message" as const,
-      children: [
-        Match.OneOf(
-          {
-            type: "mention" as const,
-            userId: String,
-          },
-          {
-            type: "role-mention" as const,
-            roleId: "operator" as const,
-          },
-          {
-            type: "image" as const,
-            url: String,
-          },
-          {
-            text: String,
-          },
-        ),
-      ],
-    });
+    check(contentObj, ChatMessageContentPattern);
+    await checkMentions(contentObj, hunt);
 
     await sendChatMessageInternal({
       puzzleId,
       content: contentObj,
       sender: this.userId,
+      parent,
     });
   },
 });
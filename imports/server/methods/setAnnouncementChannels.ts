@@ -0,0 +1,51 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { AnnouncementChannels } from "../../lib/models/NotificationPreferences";
+import setAnnouncementChannels from "../../methods/setAnnouncementChannels";
+import defineMethod from "./defineMethod";
+
+defineMethod(setAnnouncementChannels, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      channels: [Match.OneOf(...AnnouncementChannels.options)],
+    });
+
+    return arg;
+  },
+
+  async run({ huntId, channels }) {
+    check(this.userId, String);
+
+    const user = (await MeteorUsers.findOneAsync(this.userId))!;
+    if (!user.hunts?.includes(huntId)) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} is not a member of hunt ${huntId}`,
+      );
+    }
+
+    if (channels.includes("sms") && !user.phoneNumber) {
+      throw new Meteor.Error(
+        400,
+        "Add a phone number to your profile to get announcements by text message",
+      );
+    }
+
+    Logger.info("Setting announcement channels for hunt", {
+      hunt: huntId,
+      channels,
+    });
+    if (channels.length > 0) {
+      await MeteorUsers.updateAsync(this.userId, {
+        $set: { [`announcementChannels.${huntId}`]: [...new Set(channels)] },
+      });
+    } else {
+      await MeteorUsers.updateAsync(this.userId, {
+        $unset: { [`announcementChannels.${huntId}`]: 1 },
+      });
+    }
+  },
+});
@@ -3,6 +3,7 @@ import FeatureFlags, { FlagNames } from "../../lib/models/FeatureFlags";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { checkAdmin } from "../../lib/permission_stubs";
 import setFeatureFlag from "../../methods/setFeatureFlag";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(setFeatureFlag, {
@@ -21,5 +22,11 @@ defineMethod(setFeatureFlag, {
     checkAdmin(await MeteorUsers.findOneAsync(this.userId));
 
     await FeatureFlags.upsertAsync({ name }, { $set: { type } });
+    await recordAuditLogEntry({
+      user: this.userId,
+      action: "setFeatureFlag",
+      subject: name,
+      details: `Turned ${type}`,
+    });
   },
 });
@@ -1,13 +1,12 @@
 import { check, Match } from "meteor/check";
 import { Meteor } from "meteor/meteor";
-import Logger from "../../Logger";
 import Guesses, { GuessStates } from "../../lib/models/Guesses";
 import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
 import { userMayUpdateGuessesForHunt } from "../../lib/permission_stubs";
 import setGuessState from "../../methods/setGuessState";
-import transitionGuess from "../transitionGuess";
+import markGuess from "../markGuess";
 import defineMethod from "./defineMethod";
 
 defineMethod(setGuessState, {
@@ -42,11 +41,12 @@ defineMethod(setGuessState, {
       throw new Meteor.Error(401, "Must be permitted to update guesses");
     }
 
-    Logger.info("Transitioning guess to new state", {
-      guess: guess._id,
+    await markGuess({
+      guess,
+      puzzle,
       state,
       additionalNotes,
+      userId: this.userId,
     });
-    await transitionGuess(guess, state, additionalNotes);
   },
 });
@@ -0,0 +1,50 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import HuntGroups from "../../lib/models/HuntGroups";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import setHuntGroupMembership from "../../methods/setHuntGroupMembership";
+import addUsersToDiscordRole from "../addUsersToDiscordRole";
+import defineMethod from "./defineMethod";
+
+defineMethod(setHuntGroupMembership, {
+  validate(arg) {
+    check(arg, {
+      groupId: String,
+      member: Boolean,
+    });
+    return arg;
+  },
+
+  async run({ groupId, member }) {
+    check(this.userId, String);
+
+    const group = await HuntGroups.findOneAsync(groupId);
+    if (!group) {
+      throw new Meteor.Error(404, "Unknown group id");
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(group.hunt)) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} is not a member of hunt ${group.hunt}`,
+      );
+    }
+
+    if (member) {
+      await HuntGroups.updateAsync(groupId, {
+        $addToSet: { members: this.userId },
+      });
+      if (group.discordRole) {
+        await addUsersToDiscordRole([this.userId], group.hunt, {
+          force: false,
+        });
+      }
+    } else {
+      // We never take Discord roles away, so leaving keeps the group's role
+      await HuntGroups.updateAsync(groupId, {
+        $pull: { members: this.userId },
+      });
+    }
+  },
+});
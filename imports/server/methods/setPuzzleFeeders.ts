@@ -0,0 +1,78 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import setPuzzleFeeders from "../../methods/setPuzzleFeeders";
+import GlobalHooks from "../GlobalHooks";
+import defineMethod from "./defineMethod";
+
+defineMethod(setPuzzleFeeders, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      feeders: Match.Optional([String]),
+    });
+
+    return arg;
+  },
+
+  async run({ puzzleId, feeders }) {
+    check(this.userId, String);
+
+    const oldPuzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!oldPuzzle) {
+      throw new Meteor.Error(404, `No puzzle known with id ${puzzleId}`);
+    }
+
+    const hunt = await Hunts.findOneAsync(oldPuzzle.hunt);
+    if (
+      !userMayWritePuzzlesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not modify puzzles from hunt ${oldPuzzle.hunt}`,
+      );
+    }
+
+    if (feeders) {
+      if (feeders.includes(puzzleId)) {
+        throw new Meteor.Error(400, "A meta cannot feed into itself");
+      }
+
+      const feederCount = await Puzzles.find({
+        _id: { $in: feeders },
+        hunt: oldPuzzle.hunt,
+      }).countAsync();
+      if (feederCount !== new Set(feeders).size) {
+        throw new Meteor.Error(
+          400,
+          "Feeders must be puzzles from the same hunt",
+        );
+      }
+    }
+
+    Logger.info("Setting puzzle feeders", {
+      hunt: oldPuzzle.hunt,
+      puzzle: puzzleId,
+      feeders,
+    });
+
+    if (feeders) {
+      await Puzzles.updateAsync(puzzleId, {
+        $set: { feeders: [...new Set(feeders)] },
+      });
+    } else {
+      await Puzzles.updateAsync(puzzleId, { $unset: { feeders: 1 } });
+    }
+
+    Meteor.defer(() => {
+      void GlobalHooks.runPuzzleUpdatedHooks(puzzleId, oldPuzzle);
+    });
+  },
+});
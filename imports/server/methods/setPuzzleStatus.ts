@@ -0,0 +1,88 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles, { PuzzleStatuses } from "../../lib/models/Puzzles";
+import {
+  PUZZLE_STATUS_NOTE_MAX_LENGTH,
+  puzzleStatusLabels,
+} from "../../lib/puzzleStatus";
+import setPuzzleStatus from "../../methods/setPuzzleStatus";
+import GlobalHooks from "../GlobalHooks";
+import sendChatMessageInternal from "../sendChatMessageInternal";
+import defineMethod from "./defineMethod";
+
+defineMethod(setPuzzleStatus, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      status: Match.OneOf(...PuzzleStatuses.options),
+      note: Match.Optional(String),
+    });
+    return arg;
+  },
+
+  async run({ puzzleId, status, note }) {
+    check(this.userId, String);
+
+    // Anyone working on the puzzle can report on it, not just operators
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    const oldPuzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!oldPuzzle || !user?.hunts?.includes(oldPuzzle.hunt)) {
+      throw new Meteor.Error(404, `No puzzle known with id ${puzzleId}`);
+    }
+
+    const trimmedNote = note?.trim() || undefined;
+    if (trimmedNote && trimmedNote.length > PUZZLE_STATUS_NOTE_MAX_LENGTH) {
+      throw new Meteor.Error(
+        400,
+        `Status notes can be at most ${PUZZLE_STATUS_NOTE_MAX_LENGTH} characters`,
+      );
+    }
+
+    if (
+      (oldPuzzle.status ?? "new") === status &&
+      oldPuzzle.statusNote === trimmedNote
+    ) {
+      return;
+    }
+
+    Logger.info("Setting puzzle status", {
+      hunt: oldPuzzle.hunt,
+      puzzle: puzzleId,
+      status,
+    });
+
+    if (trimmedNote) {
+      await Puzzles.updateAsync(puzzleId, {
+        $set: { status, statusNote: trimmedNote },
+      });
+    } else {
+      await Puzzles.updateAsync(puzzleId, {
+        $set: { status },
+        $unset: { statusNote: 1 },
+      });
+    }
+
+    await sendChatMessageInternal({
+      puzzleId,
+      content: {
+        type: "message" as const,
+        children: [
+          { text: "" },
+          { type: "mention" as const, userId: this.userId },
+          {
+            text: ` set the status to ${puzzleStatusLabels[status]}${
+              trimmedNote ? `: ${trimmedNote}` : ""
+            }`,
+          },
+        ],
+      },
+      sender: undefined,
+    });
+
+    Meteor.defer(() => {
+      void GlobalHooks.runPuzzleUpdatedHooks(puzzleId, oldPuzzle);
+    });
+  },
+});
@@ -0,0 +1,91 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import {
+  userMayAssignRoleForHunt,
+  userMayAssignRolesForHunt,
+} from "../../lib/permission_stubs";
+import setUserHuntRoles from "../../methods/setUserHuntRoles";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(setUserHuntRoles, {
+  validate(arg) {
+    check(arg, {
+      targetUserId: String,
+      huntId: String,
+      roles: [String],
+    });
+    return arg;
+  },
+
+  async run({ targetUserId, huntId, roles }) {
+    check(this.userId, String);
+
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (!hunt) {
+      throw new Meteor.Error(404, "Unknown hunt");
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!userMayAssignRolesForHunt(user, hunt)) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not assign roles for hunt ${huntId}`,
+      );
+    }
+
+    const targetUser = await MeteorUsers.findOneAsync(targetUserId);
+    if (!targetUser?.hunts?.includes(huntId)) {
+      throw new Meteor.Error(404, "User not found");
+    }
+
+    const customRoleIds = (hunt.customRoles ?? []).map((role) => role.id);
+    const unknownRole = roles.find((role) => !customRoleIds.includes(role));
+    if (unknownRole) {
+      throw new Meteor.Error(400, `Unknown role ${unknownRole}`);
+    }
+
+    const heldRoles = targetUser.roles?.[huntId] ?? [];
+    const changedRoles = customRoleIds.filter(
+      (role) => roles.includes(role) !== heldRoles.includes(role),
+    );
+    const forbiddenRole = changedRoles.find(
+      (role) => !userMayAssignRoleForHunt(user, hunt, role),
+    );
+    if (forbiddenRole) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not assign role ${forbiddenRole} for hunt ${huntId}`,
+      );
+    }
+
+    Logger.info("Setting user's hunt roles", {
+      user: targetUserId,
+      hunt: huntId,
+      roles,
+      assigner: this.userId,
+    });
+    // Keep any roles that aren't custom roles (like operator) as they are
+    const otherRoles = heldRoles.filter(
+      (role) => !customRoleIds.includes(role),
+    );
+    await MeteorUsers.updateAsync(targetUserId, {
+      $set: { [`roles.${huntId}`]: [...otherRoles, ...new Set(roles)] },
+    });
+    const roleNames = (hunt.customRoles ?? [])
+      .filter((role) => roles.includes(role.id))
+      .map((role) => role.name);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "setUserHuntRoles",
+      subjectId: targetUserId,
+      subject: targetUser.displayName,
+      details:
+        roleNames.length > 0 ? `Roles: ${roleNames.join(", ")}` : "No roles",
+    });
+  },
+});
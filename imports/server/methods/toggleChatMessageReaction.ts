@@ -0,0 +1,44 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import ChatMessages, { ChatReactions } from "../../lib/models/ChatMessages";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import toggleChatMessageReaction from "../../methods/toggleChatMessageReaction";
+import defineMethod from "./defineMethod";
+
+defineMethod(toggleChatMessageReaction, {
+  validate(arg) {
+    check(arg, {
+      chatMessageId: String,
+      reaction: Match.OneOf(...ChatReactions.options),
+    });
+    return arg;
+  },
+
+  async run({ chatMessageId, reaction }) {
+    check(this.userId, String);
+
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    if (!chatMessage) {
+      throw new Meteor.Error(404, "Unknown chat message");
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(chatMessage.hunt)) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} is not a member of hunt ${chatMessage.hunt}`,
+      );
+    }
+
+    const key = `reactions.${reaction}`;
+    if (chatMessage.reactions?.[reaction]?.includes(this.userId)) {
+      await ChatMessages.updateAsync(chatMessageId, {
+        $pull: { [key]: this.userId },
+      });
+    } else {
+      await ChatMessages.updateAsync(chatMessageId, {
+        $addToSet: { [key]: this.userId },
+      });
+    }
+  },
+});
@@ -0,0 +1,45 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import unassignPuzzle from "../../methods/unassignPuzzle";
+import defineMethod from "./defineMethod";
+
+defineMethod(unassignPuzzle, {
+  validate(arg) {
+    check(arg, {
+      puzzleId: String,
+      userId: String,
+    });
+    return arg;
+  },
+
+  async run({ puzzleId, userId }) {
+    check(this.userId, String);
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    if (!puzzle || !user?.hunts?.includes(puzzle.hunt)) {
+      throw new Meteor.Error(404, `No puzzle known with id ${puzzleId}`);
+    }
+
+    if (
+      userId !== this.userId &&
+      !userMayWritePuzzlesForHunt(user, await Hunts.findOneAsync(puzzle.hunt))
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not unassign other hunters from puzzles in hunt ${puzzle.hunt}`,
+      );
+    }
+
+    Logger.info("Unassigning hunter from puzzle", {
+      puzzle: puzzleId,
+      assignee: userId,
+    });
+    await Puzzles.updateAsync(puzzleId, { $pull: { assignees: userId } });
+  },
+});
@@ -0,0 +1,53 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Announcements from "../../lib/models/Announcements";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMayAddAnnouncementToHunt } from "../../lib/permission_stubs";
+import undestroyAnnouncement from "../../methods/undestroyAnnouncement";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(undestroyAnnouncement, {
+  validate(arg) {
+    check(arg, {
+      announcementId: String,
+    });
+    return arg;
+  },
+
+  async run({ announcementId }) {
+    check(this.userId, String);
+
+    const announcement =
+      await Announcements.findOneDeletedAsync(announcementId);
+    if (!announcement) {
+      throw new Meteor.Error(404, "Unknown announcement id");
+    }
+
+    if (
+      !userMayAddAnnouncementToHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(announcement.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not restore announcements to hunt ${announcement.hunt}`,
+      );
+    }
+
+    // This only puts the announcement back on the announcements page; nobody is
+    // notified about it again
+    Logger.info("Restoring announcement", { announcement: announcementId });
+    await Announcements.undestroyAsync(announcementId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: announcement.hunt,
+      action: "undestroyAnnouncement",
+      subjectId: announcementId,
+      details: announcement.message,
+    });
+  },
+});
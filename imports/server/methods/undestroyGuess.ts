@@ -0,0 +1,54 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Guesses from "../../lib/models/Guesses";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import { userMayUpdateGuessesForHunt } from "../../lib/permission_stubs";
+import undestroyGuess from "../../methods/undestroyGuess";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(undestroyGuess, {
+  validate(arg) {
+    check(arg, {
+      guessId: String,
+    });
+    return arg;
+  },
+
+  async run({ guessId }) {
+    check(this.userId, String);
+
+    const guess = await Guesses.findOneDeletedAsync(guessId);
+    if (!guess) {
+      throw new Meteor.Error(404, "Unknown guess id");
+    }
+
+    if (
+      !userMayUpdateGuessesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(guess.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not restore guesses to hunt ${guess.hunt}`,
+      );
+    }
+
+    Logger.info("Restoring guess", { guess: guessId });
+    await Guesses.undestroyAsync(guessId);
+
+    const puzzle = await Puzzles.findOneAllowingDeletedAsync(guess.puzzle);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: guess.hunt,
+      action: "undestroyGuess",
+      subjectId: guessId,
+      subject: puzzle?.title,
+      details: `Restored ${guess.guess}`,
+    });
+  },
+});
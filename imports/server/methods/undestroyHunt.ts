@@ -3,6 +3,7 @@ import Hunts from "../../lib/models/Hunts";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import { checkAdmin } from "../../lib/permission_stubs";
 import undestroyHunt from "../../methods/undestroyHunt";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(undestroyHunt, {
@@ -18,5 +19,11 @@ defineMethod(undestroyHunt, {
     checkAdmin(await MeteorUsers.findOneAsync(this.userId));
 
     await Hunts.undestroyAsync(huntId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "undestroyHunt",
+      subject: (await Hunts.findOneAsync(huntId))?.name,
+    });
   },
 });
@@ -8,6 +8,7 @@ import Puzzles from "../../lib/models/Puzzles";
 import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
 import undestroyPuzzle from "../../methods/undestroyPuzzle";
 import { makeReadWrite } from "../gdrive";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(undestroyPuzzle, {
@@ -37,14 +38,29 @@ defineMethod(undestroyPuzzle, {
       );
     }
 
+    // A merged puzzle's chat, guesses and documents now belong to the puzzle it
+    // was merged into, so there's nothing to bring back
+    if (puzzle.merged) {
+      throw new Meteor.Error(400, "Merged puzzles can't be restored");
+    }
+
     await Puzzles.updateAsync(puzzleId, {
       $set: {
         deleted: false,
       },
       $unset: {
         replacedBy: 1,
+        deletedAt: 1,
+        deletedBy: 1,
       },
     });
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: puzzle.hunt,
+      action: "undestroyPuzzle",
+      subjectId: puzzleId,
+      subject: puzzle.title,
+    });
 
     if (await Flags.activeAsync("disable.google")) {
       return;
@@ -54,10 +70,15 @@ defineMethod(undestroyPuzzle, {
       return;
     }
 
-    const document = await Documents.findOneAsync({ puzzle: puzzleId });
+    const documents = await Documents.find({
+      puzzle: puzzleId,
+      provider: "google",
+    }).fetchAsync();
 
-    if (document) {
-      await makeReadWrite(document.value.id);
+    for (const document of documents) {
+      if (document.provider === "google") {
+        await makeReadWrite(document.value.id);
+      }
     }
   },
 });
@@ -0,0 +1,59 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Tags from "../../lib/models/Tags";
+import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
+import undestroyTag from "../../methods/undestroyTag";
+import recordAuditLogEntry from "../recordAuditLogEntry";
+import defineMethod from "./defineMethod";
+
+defineMethod(undestroyTag, {
+  validate(arg) {
+    check(arg, {
+      tagId: String,
+    });
+    return arg;
+  },
+
+  async run({ tagId }) {
+    check(this.userId, String);
+
+    const tag = await Tags.findOneDeletedAsync(tagId);
+    if (!tag) {
+      throw new Meteor.Error(404, "Unknown tag id");
+    }
+
+    if (
+      !userMayWritePuzzlesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(tag.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not restore tags to hunt ${tag.hunt}`,
+      );
+    }
+
+    // Adding a tag by name while it was deleted will have created a new one
+    // with the same name, and we don't want two
+    if (await Tags.findOneAsync({ hunt: tag.hunt, name: tag.name })) {
+      throw new Meteor.Error(
+        400,
+        `There's already a tag named ${tag.name}; rename it first`,
+      );
+    }
+
+    Logger.info("Restoring tag", { tag: tagId });
+    await Tags.undestroyAsync(tagId);
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: tag.hunt,
+      action: "undestroyTag",
+      subjectId: tagId,
+      subject: tag.name,
+    });
+  },
+});
@@ -0,0 +1,72 @@
+import { check } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import ChatMessages, {
+  ChatMessageContentPattern,
+} from "../../lib/models/ChatMessages";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userMaySendChatMessagesForHunt } from "../../lib/permission_stubs";
+import updateChatMessage from "../../methods/updateChatMessage";
+import checkMentions from "../checkMentions";
+import GlobalHooks from "../GlobalHooks";
+import defineMethod from "./defineMethod";
+
+defineMethod(updateChatMessage, {
+  validate(arg) {
+    check(arg, {
+      chatMessageId: String,
+      content: String,
+    });
+    return arg;
+  },
+
+  async run({ chatMessageId, content }) {
+    check(this.userId, String);
+    const contentObj = JSON.parse(content);
+    check(contentObj, ChatMessageContentPattern);
+
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    if (!chatMessage) {
+      throw new Meteor.Error(404, "Unknown chat message");
+    }
+
+    // Only the sender can edit a message (which also rules out system
+    // messages)
+    if (chatMessage.sender !== this.userId) {
+      throw new Meteor.Error(
+        403,
+        `User ${this.userId} may not edit chat message ${chatMessageId}`,
+      );
+    }
+
+    // Editing is sending a new version of the message, so the sender has to
+    // still be allowed to send messages in the hunt
+    const hunt = await Hunts.findOneAsync(chatMessage.hunt);
+    if (
+      !hunt ||
+      !userMaySendChatMessagesForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        hunt,
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not send chat messages for hunt ${chatMessage.hunt}`,
+      );
+    }
+    await checkMentions(contentObj, hunt);
+
+    const editedAt = new Date();
+    await ChatMessages.updateAsync(chatMessageId, {
+      $set: { content: contentObj, editedAt },
+      $push: {
+        history: {
+          content: chatMessage.content,
+          timestamp: chatMessage.editedAt ?? chatMessage.timestamp,
+        },
+      },
+    });
+
+    await GlobalHooks.runChatMessageUpdatedHooks(chatMessageId);
+  },
+});
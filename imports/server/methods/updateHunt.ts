@@ -1,3 +1,4 @@
+import { isDeepStrictEqual } from "node:util";
 import { check } from "meteor/check";
 import { Meteor } from "meteor/meteor";
 import Logger from "../../Logger";
@@ -8,6 +9,7 @@ import { checkAdmin } from "../../lib/permission_stubs";
 import updateHunt from "../../methods/updateHunt";
 import addUsersToDiscordRole from "../addUsersToDiscordRole";
 import { ensureHuntFolder, huntFolderName, renameDocument } from "../gdrive";
+import recordAuditLogEntry from "../recordAuditLogEntry";
 import defineMethod from "./defineMethod";
 
 defineMethod(updateHunt, {
@@ -49,6 +51,21 @@ defineMethod(updateHunt, {
       },
     );
 
+    const changed = Object.keys(HuntPattern).filter(
+      (key) =>
+        !isDeepStrictEqual(
+          oldHunt[key as keyof HuntType],
+          value[key as keyof typeof HuntPattern],
+        ),
+    );
+    await recordAuditLogEntry({
+      user: this.userId,
+      hunt: huntId,
+      action: "updateHunt",
+      subject: value.name,
+      details: changed.length > 0 ? `Changed ${changed.join(", ")}` : undefined,
+    });
+
     Meteor.defer(async () => {
       // Sync discord roles
       const userIds = (
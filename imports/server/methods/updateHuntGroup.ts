@@ -0,0 +1,81 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import HuntGroups from "../../lib/models/HuntGroups";
+import Hunts, { SavedDiscordObjectPattern } from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Tags from "../../lib/models/Tags";
+import {
+  userMayManageGroupsForHunt,
+  userMayUseDiscordBotAPIs,
+} from "../../lib/permission_stubs";
+import updateHuntGroup from "../../methods/updateHuntGroup";
+import addUsersToDiscordRole from "../addUsersToDiscordRole";
+import defineMethod from "./defineMethod";
+
+defineMethod(updateHuntGroup, {
+  validate(arg) {
+    check(arg, {
+      groupId: String,
+      name: String,
+      tags: [String],
+      discordRole: Match.Optional(SavedDiscordObjectPattern),
+    });
+    return arg;
+  },
+
+  async run({ groupId, name, tags, discordRole }) {
+    check(this.userId, String);
+
+    const group = await HuntGroups.findOneAsync(groupId);
+    if (!group) {
+      throw new Meteor.Error(404, "Unknown group id");
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (
+      !userMayManageGroupsForHunt(user, await Hunts.findOneAsync(group.hunt))
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not manage groups for hunt ${group.hunt}`,
+      );
+    }
+
+    const discordRoleChanged = discordRole?.id !== group.discordRole?.id;
+    if (discordRoleChanged && !userMayUseDiscordBotAPIs(user)) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure Discord roles`,
+      );
+    }
+
+    const tagIds = [...new Set(tags)];
+    if (
+      (await Tags.find({
+        _id: { $in: tagIds },
+        hunt: group.hunt,
+      }).countAsync()) !== tagIds.length
+    ) {
+      throw new Meteor.Error(400, "Unknown tag");
+    }
+
+    Logger.info("Updating hunt group", { group: groupId, name });
+    await HuntGroups.updateAsync(
+      groupId,
+      discordRole
+        ? { $set: { name, tags: tagIds, discordRole } }
+        : { $set: { name, tags: tagIds }, $unset: { discordRole: 1 } },
+    );
+
+    // As with the hunt's member role, we don't take the old role away from
+    // anyone, but make sure everyone in the group has the new one
+    if (discordRole && discordRoleChanged) {
+      Meteor.defer(async () => {
+        await addUsersToDiscordRole(group.members, group.hunt, {
+          force: false,
+        });
+      });
+    }
+  },
+});
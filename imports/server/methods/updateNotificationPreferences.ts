@@ -0,0 +1,57 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import { NotificationDeliveries } from "../../lib/models/NotificationPreferences";
+import updateNotificationPreferences from "../../methods/updateNotificationPreferences";
+import defineMethod from "./defineMethod";
+
+const Delivery = Match.Optional(Match.OneOf(...NotificationDeliveries.options));
+const MinutesIntoDay = Match.Where(
+  (minutes: unknown): minutes is number =>
+    typeof minutes === "number" &&
+    Number.isInteger(minutes) &&
+    minutes >= 0 &&
+    minutes < 24 * 60,
+);
+
+defineMethod(updateNotificationPreferences, {
+  validate(arg) {
+    check(arg, {
+      notificationPreferences: {
+        guess: Delivery,
+        announcement: Delivery,
+        discordLink: Delivery,
+        chat: Delivery,
+        bookmark: Delivery,
+        quietHours: Match.Optional({
+          start: MinutesIntoDay,
+          end: MinutesIntoDay,
+          timeZone: String,
+        }),
+      },
+    });
+
+    return arg;
+  },
+
+  async run({ notificationPreferences }) {
+    check(this.userId, String);
+
+    const timeZone = notificationPreferences.quietHours?.timeZone;
+    if (timeZone !== undefined) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+      } catch {
+        throw new Meteor.Error(400, `Unknown time zone ${timeZone}`);
+      }
+    }
+
+    Logger.info("Updating notification preferences for user", {
+      notificationPreferences,
+    });
+    await MeteorUsers.updateAsync(this.userId, {
+      $set: { notificationPreferences },
+    });
+  },
+});
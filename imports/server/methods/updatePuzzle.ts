@@ -1,17 +1,6 @@
 import { check, Match } from "meteor/check";
-import { Meteor } from "meteor/meteor";
-import type { Mongo } from "meteor/mongo";
-import Logger from "../../Logger";
-import Hunts from "../../lib/models/Hunts";
-import MeteorUsers from "../../lib/models/MeteorUsers";
-import type { PuzzleType } from "../../lib/models/Puzzles";
-import Puzzles from "../../lib/models/Puzzles";
-import { userMayWritePuzzlesForHunt } from "../../lib/permission_stubs";
 import updatePuzzle from "../../methods/updatePuzzle";
-import GlobalHooks from "../GlobalHooks";
-import { ensureDocument, renameDocument } from "../gdrive";
-import getOrCreateTagByName from "../getOrCreateTagByName";
-import getTeamName from "../getTeamName";
+import editPuzzle from "../editPuzzle";
 import defineMethod from "./defineMethod";
 
 defineMethod(updatePuzzle, {
@@ -33,68 +22,6 @@ defineMethod(updatePuzzle, {
   async run({ puzzleId, title, url, tags, expectedAnswerCount }) {
     check(this.userId, String);
 
-    const oldPuzzle = await Puzzles.findOneAllowingDeletedAsync(puzzleId);
-    if (!oldPuzzle) {
-      throw new Meteor.Error(404, "Unknown puzzle id");
-    }
-    const hunt = await Hunts.findOneAsync(oldPuzzle.hunt);
-    if (
-      !userMayWritePuzzlesForHunt(
-        await MeteorUsers.findOneAsync(this.userId),
-        hunt,
-      )
-    ) {
-      throw new Meteor.Error(
-        401,
-        `User ${this.userId} may not modify puzzles from hunt ${oldPuzzle.hunt}`,
-      );
-    }
-
-    // Look up each tag by name and map them to tag IDs.
-    const tagIds = await Promise.all(
-      tags.map(async (tagName) => {
-        return getOrCreateTagByName(oldPuzzle.hunt, tagName);
-      }),
-    );
-
-    Logger.info("Updating a puzzle", {
-      hunt: oldPuzzle.hunt,
-      puzzle: puzzleId,
-      title,
-      expectedAnswerCount,
-    });
-
-    const update: Mongo.Modifier<PuzzleType> = {
-      $set: {
-        title,
-        expectedAnswerCount,
-        tags: [...new Set(tagIds)],
-      },
-    };
-    if (url) {
-      update.$set = { ...update.$set, url };
-    } else {
-      update.$unset = { url: "" };
-    }
-    await Puzzles.updateAsync(puzzleId, update);
-
-    // Run any puzzle update hooks
-    Meteor.defer(() => {
-      void GlobalHooks.runPuzzleUpdatedHooks(puzzleId, oldPuzzle);
-    });
-
-    if (oldPuzzle.title !== title) {
-      Meteor.defer(
-        Meteor.bindEnvironment(async () => {
-          const doc = await ensureDocument({
-            _id: puzzleId,
-            title,
-            hunt: oldPuzzle.hunt,
-          });
-          const teamName = await getTeamName();
-          await renameDocument(doc.value.id, `${title}: ${teamName}`);
-        }),
-      );
-    }
+    await editPuzzle({ puzzleId, title, url, tags, expectedAnswerCount });
   },
 });
@@ -0,0 +1,52 @@
+import { check, Match } from "meteor/check";
+import { Meteor } from "meteor/meteor";
+import Logger from "../../Logger";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Webhooks, { WebhookEvents } from "../../lib/models/Webhooks";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import updateWebhook from "../../methods/updateWebhook";
+import { checkWebhookUrl } from "../webhooks";
+import defineMethod from "./defineMethod";
+
+defineMethod(updateWebhook, {
+  validate(arg) {
+    check(arg, {
+      webhookId: String,
+      url: String,
+      events: [Match.OneOf(...WebhookEvents.options)],
+    });
+    return arg;
+  },
+
+  async run({ webhookId, url, events }) {
+    check(this.userId, String);
+
+    const webhook = await Webhooks.findOneAsync(webhookId);
+    if (!webhook) {
+      throw new Meteor.Error(404, "Unknown webhook id");
+    }
+
+    if (
+      !userMayConfigureWebhooksForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(webhook.hunt),
+      )
+    ) {
+      throw new Meteor.Error(
+        401,
+        `User ${this.userId} may not configure webhooks for hunt ${webhook.hunt}`,
+      );
+    }
+
+    checkWebhookUrl(url);
+
+    Logger.info("Updating webhook", { webhook: webhookId, url, events });
+    await Webhooks.updateAsync(webhookId, {
+      $set: {
+        url,
+        events: [...new Set(events)],
+      },
+    });
+  },
+});
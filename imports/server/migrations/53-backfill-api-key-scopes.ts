@@ -0,0 +1,16 @@
+import APIKeys, { APIKeyScopes } from "../../lib/models/APIKeys";
+import Migrations from "./Migrations";
+
+Migrations.add({
+  version: 53,
+  name: "Grant all scopes to pre-existing API keys",
+  async up() {
+    // Keys created before scopes existed were unrestricted, so preserve that
+    // until their owners replace them.
+    await APIKeys.updateAsync(
+      { scopes: { $exists: false } },
+      { $set: { scopes: APIKeyScopes.options } },
+      { multi: true, bypassSchema: true },
+    );
+  },
+});
@@ -0,0 +1,66 @@
+import Hunts from "../../lib/models/Hunts";
+import Puzzles from "../../lib/models/Puzzles";
+import Tags from "../../lib/models/Tags";
+import Migrations from "./Migrations";
+
+Migrations.add({
+  version: 54,
+  name: "Backfill meta feeders from tag conventions",
+  async up() {
+    for await (const hunt of Hunts.find({})) {
+      const tagNames = new Map(
+        await Tags.find({ hunt: hunt._id }).mapAsync((t) => [t._id, t.name]),
+      );
+      const puzzles = await Puzzles.find({ hunt: hunt._id }).fetchAsync();
+      const namesFor = (tags: string[]) =>
+        tags.flatMap((tagId) => tagNames.get(tagId) ?? []);
+
+      // Puzzle IDs for each group:<name> tag
+      const groupMembers = new Map<string, string[]>();
+      puzzles.forEach((p) => {
+        namesFor(p.tags).forEach((name) => {
+          if (name.startsWith("group:")) {
+            const group = name.slice("group:".length);
+            groupMembers.set(group, [
+              ...(groupMembers.get(group) ?? []),
+              p._id,
+            ]);
+          }
+        });
+      });
+
+      const feedersByMeta = new Map<string, Set<string>>();
+      puzzles.forEach((p) => {
+        namesFor(p.tags).forEach((name) => {
+          if (name.startsWith("meta-for:")) {
+            const group = name.slice("meta-for:".length);
+            const feeders = feedersByMeta.get(p._id) ?? new Set();
+            (groupMembers.get(group) ?? []).forEach((id) => feeders.add(id));
+            feedersByMeta.set(p._id, feeders);
+          } else if (name === "is:meta") {
+            feedersByMeta.set(p._id, feedersByMeta.get(p._id) ?? new Set());
+          }
+        });
+      });
+
+      // A metameta is fed by every other meta in the hunt
+      const metametas = puzzles.filter((p) =>
+        namesFor(p.tags).includes("is:metameta"),
+      );
+      const metaIds = [...feedersByMeta.keys()];
+      metametas.forEach((p) => {
+        const feeders = feedersByMeta.get(p._id) ?? new Set();
+        metaIds.forEach((id) => feeders.add(id));
+        feedersByMeta.set(p._id, feeders);
+      });
+
+      for (const [metaId, feeders] of feedersByMeta) {
+        feeders.delete(metaId);
+        await Puzzles.updateAsync(
+          { _id: metaId, feeders: { $exists: false } },
+          { $set: { feeders: [...feeders] } },
+        );
+      }
+    }
+  },
+});
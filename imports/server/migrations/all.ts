@@ -51,3 +51,5 @@ import "./49-schema-fixups";
 import "./50-upconvert-chatmessage-content";
 import "./51-backfill-updated-at";
 import "./52-remove-discord-discriminator";
+import "./53-backfill-api-key-scopes";
+import "./54-backfill-puzzle-feeders";
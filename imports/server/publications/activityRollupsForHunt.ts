@@ -0,0 +1,30 @@
+import { check, Match } from "meteor/check";
+import ActivityRollups, {
+  ActivityRollupGranularities,
+} from "../../lib/models/ActivityRollups";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import activityRollupsForHunt from "../../lib/publications/activityRollupsForHunt";
+import definePublication from "./definePublication";
+
+definePublication(activityRollupsForHunt, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+      granularity: Match.OneOf(...ActivityRollupGranularities.options),
+    });
+    return arg;
+  },
+
+  async run({ huntId, granularity }) {
+    if (!this.userId) {
+      return [];
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(huntId)) {
+      return [];
+    }
+
+    return ActivityRollups.find({ hunt: huntId, granularity });
+  },
+});
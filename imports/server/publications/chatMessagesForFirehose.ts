@@ -2,6 +2,7 @@ import { check } from "meteor/check";
 import ChatMessages from "../../lib/models/ChatMessages";
 import MeteorUsers from "../../lib/models/MeteorUsers";
 import Puzzles from "../../lib/models/Puzzles";
+import { userIsOperatorForHunt } from "../../lib/permission_stubs";
 import chatMessagesForFirehose from "../../lib/publications/chatMessagesForFirehose";
 import definePublication from "./definePublication";
 
@@ -24,7 +25,12 @@ definePublication(chatMessagesForFirehose, {
     }
 
     return [
-      ChatMessages.find({ hunt: huntId }),
+      ChatMessages.find(
+        { hunt: huntId },
+        userIsOperatorForHunt(user, { _id: huntId })
+          ? {}
+          : { projection: { history: 0 } },
+      ),
       Puzzles.findAllowingDeleted({ hunt: huntId }),
     ];
   },
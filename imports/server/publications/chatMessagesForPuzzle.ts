@@ -1,6 +1,7 @@
 import { check } from "meteor/check";
 import ChatMessages from "../../lib/models/ChatMessages";
 import MeteorUsers from "../../lib/models/MeteorUsers";
+import { userIsOperatorForHunt } from "../../lib/permission_stubs";
 import chatMessagesForPuzzle from "../../lib/publications/chatMessagesForPuzzle";
 import definePublication from "./definePublication";
 
@@ -23,9 +24,15 @@ definePublication(chatMessagesForPuzzle, {
       return [];
     }
 
-    return ChatMessages.find({
-      puzzle: puzzleId,
-      hunt: huntId,
-    });
+    // Edit history is only for operators
+    return ChatMessages.find(
+      {
+        puzzle: puzzleId,
+        hunt: huntId,
+      },
+      userIsOperatorForHunt(user, { _id: huntId })
+        ? {}
+        : { projection: { history: 0 } },
+    );
   },
 });
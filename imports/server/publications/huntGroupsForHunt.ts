@@ -0,0 +1,27 @@
+import { check } from "meteor/check";
+import HuntGroups from "../../lib/models/HuntGroups";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import huntGroupsForHunt from "../../lib/publications/huntGroupsForHunt";
+import definePublication from "./definePublication";
+
+definePublication(huntGroupsForHunt, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    if (!this.userId) {
+      return [];
+    }
+
+    const user = await MeteorUsers.findOneAsync(this.userId);
+    if (!user?.hunts?.includes(huntId)) {
+      return [];
+    }
+
+    return HuntGroups.find({ hunt: huntId });
+  },
+});
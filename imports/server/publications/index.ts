@@ -1,3 +1,4 @@
+import "./activityRollupsForHunt";
 import "./announcementsForAnnouncementsPage";
 import "./apiKeysForSelf";
 import "./blobMappingsAll";
@@ -11,13 +12,17 @@ import "./featureFlagsAll";
 import "./guessesForGuessQueue";
 import "./huntForHuntApp";
 import "./huntForInvitationCode";
+import "./huntGroupsForHunt";
 import "./huntsAll";
 import "./invitationCodesForHunt";
 import "./pendingAnnouncementsForSelf";
 import "./pendingGuessesForSelf";
+import "./pushSubscriptionsForSelf";
 import "./puzzleActivityForHunt";
 import "./puzzleForPuzzlePage";
 import "./puzzlesForHunt";
 import "./puzzlesForPuzzleList";
 import "./settingsAll";
 import "./settingsByName";
+import "./trashForHunt";
+import "./webhooksForHunt";
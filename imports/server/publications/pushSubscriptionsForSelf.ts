@@ -0,0 +1,27 @@
+import PushSubscriptions from "../../lib/models/PushSubscriptions";
+import pushSubscriptionsForSelf from "../../lib/publications/pushSubscriptionsForSelf";
+import definePublication from "./definePublication";
+
+definePublication(pushSubscriptionsForSelf, {
+  run() {
+    if (!this.userId) {
+      return [];
+    }
+
+    // The keys are only needed to send pushes, so they stay on the server
+    return PushSubscriptions.find(
+      { user: this.userId },
+      {
+        projection: {
+          user: 1,
+          endpoint: 1,
+          userAgent: 1,
+          createdAt: 1,
+          createdBy: 1,
+          updatedAt: 1,
+          updatedBy: 1,
+        },
+      },
+    );
+  },
+});
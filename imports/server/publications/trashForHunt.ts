@@ -0,0 +1,41 @@
+import { check } from "meteor/check";
+import Announcements from "../../lib/models/Announcements";
+import Guesses from "../../lib/models/Guesses";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import Puzzles from "../../lib/models/Puzzles";
+import Tags from "../../lib/models/Tags";
+import { userMayViewTrashForHunt } from "../../lib/permission_stubs";
+import trashForHunt from "../../lib/publications/trashForHunt";
+import definePublication from "./definePublication";
+
+definePublication(trashForHunt, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    if (!this.userId) {
+      return [];
+    }
+
+    if (
+      !userMayViewTrashForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(huntId),
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      Puzzles.findDeleted({ hunt: huntId }),
+      Guesses.findDeleted({ hunt: huntId }),
+      Announcements.findDeleted({ hunt: huntId }),
+      Tags.findDeleted({ hunt: huntId }),
+    ];
+  },
+});
@@ -0,0 +1,43 @@
+import { check } from "meteor/check";
+import Hunts from "../../lib/models/Hunts";
+import MeteorUsers from "../../lib/models/MeteorUsers";
+import WebhookDeliveries from "../../lib/models/WebhookDeliveries";
+import Webhooks from "../../lib/models/Webhooks";
+import { userMayConfigureWebhooksForHunt } from "../../lib/permission_stubs";
+import webhooksForHunt from "../../lib/publications/webhooksForHunt";
+import definePublication from "./definePublication";
+
+// How much of the delivery log to show
+const DELIVERY_LOG_LIMIT = 100;
+
+definePublication(webhooksForHunt, {
+  validate(arg) {
+    check(arg, {
+      huntId: String,
+    });
+    return arg;
+  },
+
+  async run({ huntId }) {
+    if (!this.userId) {
+      return [];
+    }
+
+    if (
+      !userMayConfigureWebhooksForHunt(
+        await MeteorUsers.findOneAsync(this.userId),
+        await Hunts.findOneAsync(huntId),
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      Webhooks.find({ hunt: huntId }),
+      WebhookDeliveries.find(
+        { hunt: huntId },
+        { sort: { createdAt: -1 }, limit: DELIVERY_LOG_LIMIT },
+      ),
+    ];
+  },
+});
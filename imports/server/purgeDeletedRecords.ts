@@ -0,0 +1,140 @@
+import { setTimeout } from "node:timers/promises";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import Announcements from "../lib/models/Announcements";
+import BookmarkNotifications from "../lib/models/BookmarkNotifications";
+import Bookmarks from "../lib/models/Bookmarks";
+import ChatMessages from "../lib/models/ChatMessages";
+import ChatNotifications from "../lib/models/ChatNotifications";
+import DocumentActivities from "../lib/models/DocumentActivities";
+import Documents from "../lib/models/Documents";
+import Guesses from "../lib/models/Guesses";
+import HuntGroups from "../lib/models/HuntGroups";
+import Hunts from "../lib/models/Hunts";
+import PendingAnnouncements from "../lib/models/PendingAnnouncements";
+import Puzzles from "../lib/models/Puzzles";
+import Tags from "../lib/models/Tags";
+import withLock from "./withLock";
+
+// Hunts can choose to have their trash emptied automatically, in which case
+// deleted puzzles, guesses, announcements and tags are removed for good once
+// they've been deleted for purgeDeletedAfterDays. Records deleted before we
+// started keeping track of when never qualify, since we can't tell how long
+// they've been in the trash.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export async function purgeHunt(huntId: string, before: Date) {
+  const selector = { hunt: huntId, deletedAt: { $lt: before } };
+
+  // Merged puzzles are kept so that links to them keep redirecting to the
+  // puzzle they were merged into
+  const puzzleIds = await Puzzles.findDeleted(
+    { ...selector, merged: { $ne: true } },
+    { projection: { _id: 1 } },
+  ).mapAsync((puzzle) => puzzle._id);
+  if (puzzleIds.length > 0) {
+    // A puzzle's guesses, chat and documents have no other way to be reached,
+    // so they go with it, as does anything tracking people's interest in or
+    // activity on it. Google Drive files are left where they are.
+    const puzzle = { $in: puzzleIds };
+    await Guesses.removeAsync({ puzzle });
+    await ChatMessages.removeAsync({ puzzle });
+    await ChatNotifications.removeAsync({ puzzle });
+    await Documents.removeAsync({ puzzle });
+    await DocumentActivities.removeAsync({ puzzle });
+    await Bookmarks.removeAsync({ puzzle });
+    await BookmarkNotifications.removeAsync({ puzzle });
+
+    // Other puzzles stop pointing at them. A puzzle merged into one of them
+    // has nothing left to redirect to, so it becomes an ordinary deleted
+    // puzzle (and is purged in turn).
+    await Puzzles.updateAsync(
+      { hunt: huntId, feeders: puzzle },
+      { $pullAll: { feeders: puzzleIds } },
+      { multi: true },
+    );
+    await Puzzles.updateAsync(
+      { hunt: huntId, replacedBy: puzzle },
+      { $unset: { replacedBy: 1, merged: 1 } },
+      { multi: true },
+    );
+    await Puzzles.removeAsync({ _id: puzzle });
+  }
+
+  const tagIds = await Tags.findDeleted(selector, {
+    projection: { _id: 1 },
+  }).mapAsync((tag) => tag._id);
+  if (tagIds.length > 0) {
+    // Puzzles and groups hold on to deleted tags in case they're restored, so
+    // now they have to let go
+    await Puzzles.updateAsync(
+      { hunt: huntId, tags: { $in: tagIds } },
+      { $pullAll: { tags: tagIds } },
+      { multi: true },
+    );
+    await HuntGroups.updateAsync(
+      { hunt: huntId, tags: { $in: tagIds } },
+      { $pullAll: { tags: tagIds } },
+      { multi: true },
+    );
+    await Tags.removeAsync({ _id: { $in: tagIds } });
+  }
+
+  const announcementIds = await Announcements.findDeleted(selector, {
+    projection: { _id: 1 },
+  }).mapAsync((announcement) => announcement._id);
+  if (announcementIds.length > 0) {
+    await PendingAnnouncements.removeAsync({
+      announcement: { $in: announcementIds },
+    });
+    await Announcements.removeAsync({ _id: { $in: announcementIds } });
+  }
+
+  const guesses = await Guesses.removeAsync({ ...selector, deleted: true });
+
+  if (puzzleIds.length + tagIds.length + announcementIds.length + guesses > 0) {
+    Logger.info("Purged deleted records", {
+      hunt: huntId,
+      puzzles: puzzleIds.length,
+      tags: tagIds.length,
+      announcements: announcementIds.length,
+      guesses,
+    });
+  }
+}
+
+async function purgeDeletedRecordsLoop() {
+  while (true) {
+    try {
+      await withLock("purge-deleted-records", async (renew) => {
+        const hunts = await Hunts.find(
+          { purgeDeletedAfterDays: { $exists: true } },
+          { projection: { _id: 1, purgeDeletedAfterDays: 1 } },
+        ).fetchAsync();
+        for (const hunt of hunts) {
+          const before = new Date(
+            Date.now() - hunt.purgeDeletedAfterDays! * DAY,
+          );
+          await purgeHunt(hunt._id, before);
+          await renew();
+        }
+      });
+    } catch (error) {
+      Logger.error("Error purging deleted records", { error });
+    }
+
+    // Wake up every hour (+/- 5 minutes of jitter)
+    await setTimeout(55 * 60 * 1000 + Math.random() * 10 * 60 * 1000);
+  }
+}
+
+Meteor.startup(() => {
+  if (Meteor.isTest || Meteor.isAppTest) {
+    return;
+  }
+
+  // purgeDeletedRecordsLoop catches its own errors, so voiding this promise is
+  // safe.
+  void purgeDeletedRecordsLoop();
+});
@@ -0,0 +1,15 @@
+import type { AuditLogActionType } from "../lib/models/AuditLogEntries";
+import AuditLogEntries from "../lib/models/AuditLogEntries";
+
+// Appends to the audit log. Methods call this once the action has actually
+// happened, so that rejected attempts aren't recorded.
+export default async function recordAuditLogEntry(entry: {
+  user: string;
+  hunt?: string;
+  action: AuditLogActionType;
+  subjectId?: string;
+  subject?: string;
+  details?: string;
+}) {
+  await AuditLogEntries.insertAsync(entry);
+}
@@ -8,22 +8,32 @@ export default async function sendChatMessageInternal({
   puzzleId,
   content,
   sender,
+  parent,
 }: {
   puzzleId: string;
   content: ChatMessageContentType;
   sender: string | undefined;
+  parent?: string;
 }) {
   const puzzle = await Puzzles.findOneAsync(puzzleId);
   if (!puzzle) {
     throw new Meteor.Error(404, "Unknown puzzle");
   }
 
+  if (
+    parent &&
+    !(await ChatMessages.findOneAsync({ _id: parent, puzzle: puzzleId }))
+  ) {
+    throw new Meteor.Error(404, "Unknown message to reply to");
+  }
+
   const msgId = await ChatMessages.insertAsync({
     puzzle: puzzleId,
     hunt: puzzle.hunt,
     content,
     sender,
     timestamp: new Date(),
+    parent,
   });
 
   await GlobalHooks.runChatMessageCreatedHooks(msgId);
@@ -0,0 +1,34 @@
+import { Accounts } from "meteor/accounts-base";
+import { Email } from "meteor/email";
+import type { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+
+// Emails a notification to a user who has asked for that type of notification
+// by email. Returns false if we couldn't, in which case callers should fall
+// back to showing the notification in the app.
+export default async function sendNotificationEmail(
+  user: Pick<Meteor.User, "_id" | "emails">,
+  subject: string,
+  text: string,
+): Promise<boolean> {
+  const to = user.emails?.[0]?.address;
+  if (!to) {
+    return false;
+  }
+
+  try {
+    await Email.sendAsync({
+      from: Accounts.emailTemplates.from,
+      to,
+      subject,
+      text,
+    });
+    return true;
+  } catch (error) {
+    Logger.error("Error sending notification email", {
+      error,
+      user: user._id,
+    });
+    return false;
+  }
+}
@@ -99,6 +99,35 @@ Meteor.publish("enabledChatImage", async function () {
   this.ready();
 });
 
+Meteor.publish("webPushPublicKey", async function () {
+  // Browsers need the public half of the VAPID key pair to subscribe to pushes
+  const cursor = Settings.find({ name: "webpush.vapid" });
+  let tracked = false;
+  const handle: Meteor.LiveQueryHandle = await cursor.observeAsync({
+    added: (doc) => {
+      tracked = true;
+      this.added("webPushPublicKey", "webPushPublicKey", {
+        publicKey: doc.value.publicKey,
+      });
+    },
+    changed: (newDoc) => {
+      this.changed("webPushPublicKey", "webPushPublicKey", {
+        publicKey: newDoc.value.publicKey,
+      });
+    },
+    removed: () => {
+      if (tracked) {
+        this.removed("webPushPublicKey", "webPushPublicKey");
+      }
+    },
+  });
+  this.onStop(() => {
+    handle.stop();
+  });
+
+  this.ready();
+});
+
 Meteor.publish("googleScriptInfo", async function () {
   if (!this.userId) {
     return [];
@@ -0,0 +1,39 @@
+import Logger from "../Logger";
+
+// Jolly Roger doesn't talk to any particular SMS gateway. Deployments that
+// want to send real text messages can install a provider for their gateway of
+// choice (e.g. from a file in server/ that's only present in that deployment)
+// with setSmsProvider. Until then, messages are only logged.
+export interface SmsProvider {
+  name: string;
+  // Sends body to the phone number `to`. Should throw if the message wasn't
+  // accepted for delivery.
+  send(to: string, body: string): Promise<void>;
+}
+
+const loggingSmsProvider: SmsProvider = {
+  name: "log",
+  async send(to, body) {
+    Logger.info("Not sending SMS (no SMS provider configured)", { to, body });
+  },
+};
+
+let provider: SmsProvider = loggingSmsProvider;
+
+export function setSmsProvider(newProvider: SmsProvider) {
+  provider = newProvider;
+}
+
+// Returns false if the message couldn't be sent
+export default async function sendSms(
+  to: string,
+  body: string,
+): Promise<boolean> {
+  try {
+    await provider.send(to, body);
+    return true;
+  } catch (error) {
+    Logger.error("Error sending SMS", { error, provider: provider.name });
+    return false;
+  }
+}
@@ -8,7 +8,10 @@ import { GLOBAL_SCOPE } from "../lib/isAdmin";
 import Hunts from "../lib/models/Hunts";
 import MeteorUsers from "../lib/models/MeteorUsers";
 import type { ProfileFields } from "../lib/models/User";
-import { userMaySeeUserInfoForHunt } from "../lib/permission_stubs";
+import {
+  userMayAssignRolesForHunt,
+  userMaySeeUserInfoForHunt,
+} from "../lib/permission_stubs";
 import type { SubSubscription } from "./PublicationMerger";
 import PublicationMerger from "./PublicationMerger";
 import publishCursor from "./publications/publishCursor";
@@ -29,6 +32,9 @@ Accounts.setDefaultPublishFields({
   roles: 1,
   hunts: 1,
   huntTermsAcceptedAt: 1,
+  // Unlike the rest of the profile, only published to the user themselves
+  notificationPreferences: 1,
+  announcementChannels: 1,
   ...profileFields,
 });
 
@@ -237,8 +243,13 @@ Meteor.publish("huntRoles", async function (huntId: unknown) {
   check(huntId, String);
 
   await republishOnUserChange(this, { hunts: 1, roles: 1 }, async (u) => {
-    // Only publish other users' roles to admins and other operators.
-    if (!userMaySeeUserInfoForHunt(u, await Hunts.findOneAsync(huntId))) {
+    // Only publish other users' roles to those who can see hunters' details or
+    // assign them roles.
+    const hunt = await Hunts.findOneAsync(huntId);
+    if (
+      !userMaySeeUserInfoForHunt(u, hunt) &&
+      !userMayAssignRolesForHunt(u, hunt)
+    ) {
       return undefined;
     }
 
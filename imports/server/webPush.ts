@@ -0,0 +1,77 @@
+import { sendNotification, WebPushError } from "web-push";
+import Flags from "../Flags";
+import Logger from "../Logger";
+import PushSubscriptions from "../lib/models/PushSubscriptions";
+import Settings from "../lib/models/Settings";
+
+// What the service worker (public/push-service-worker.js) expects to find in
+// each push
+export type PushNotificationPayload = {
+  title: string;
+  body: string;
+  // Path within Jolly Roger to open when the notification is clicked
+  url: string;
+  // Notifications with the same tag replace each other, rather than stacking
+  tag: string;
+};
+
+// Pushes that can't be delivered within this long aren't worth delivering
+const PUSH_TTL = 60 * 60; // seconds
+
+// Sends a push to every device the user has subscribed. Returns false if none
+// of them received it (including when Web Push isn't configured), in which
+// case callers should fall back to showing the notification in the app.
+export default async function sendPushNotification(
+  userId: string,
+  payload: PushNotificationPayload,
+): Promise<boolean> {
+  if (await Flags.activeAsync("disable.webpush")) {
+    return false;
+  }
+
+  const vapid = await Settings.findOneAsync({ name: "webpush.vapid" });
+  if (vapid?.name !== "webpush.vapid") {
+    return false;
+  }
+
+  const subscriptions = await PushSubscriptions.find({
+    user: userId,
+  }).fetchAsync();
+  const results = await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        await sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          JSON.stringify(payload),
+          { vapidDetails: vapid.value, TTL: PUSH_TTL },
+        );
+        return true;
+      } catch (error) {
+        // The push service tells us when a subscription has expired or been
+        // revoked (e.g. the user blocked notifications), so stop using it
+        if (
+          error instanceof WebPushError &&
+          (error.statusCode === 404 || error.statusCode === 410)
+        ) {
+          Logger.info("Removing expired push subscription", {
+            user: userId,
+            pushSubscription: subscription._id,
+          });
+          await PushSubscriptions.removeAsync(subscription._id);
+        } else {
+          Logger.warn("Error sending push notification", {
+            error,
+            user: userId,
+            pushSubscription: subscription._id,
+          });
+        }
+        return false;
+      }
+    }),
+  );
+
+  return results.includes(true);
+}
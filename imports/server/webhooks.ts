@@ -0,0 +1,186 @@
+import { createHmac } from "node:crypto";
+import { Meteor } from "meteor/meteor";
+import Logger from "../Logger";
+import type { WebhookDeliveryType } from "../lib/models/WebhookDeliveries";
+import WebhookDeliveries from "../lib/models/WebhookDeliveries";
+import type { WebhookEventType } from "../lib/models/Webhooks";
+import Webhooks from "../lib/models/Webhooks";
+
+// A delivery is retried with exponential backoff (30s, 1m, 2m, ...) capped at
+// an hour, and given up on after this many attempts (roughly a day).
+const MAX_ATTEMPTS = 30;
+const INITIAL_BACKOFF = 30 * 1000;
+const MAX_BACKOFF = 60 * 60 * 1000;
+
+// How long a server gets to finish an attempt before another server assumes
+// it crashed and tries again.
+const ATTEMPT_TIMEOUT = 30 * 1000;
+
+// How long to wait before retrying a delivery that has failed `attempts` times,
+// or undefined if it's time to give up on it.
+export function webhookRetryDelay(attempts: number): number | undefined {
+  if (attempts >= MAX_ATTEMPTS) {
+    return undefined;
+  }
+  return Math.min(INITIAL_BACKOFF * 2 ** (attempts - 1), MAX_BACKOFF);
+}
+
+export function checkWebhookUrl(url: string) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Meteor.Error(400, `Invalid webhook URL ${url}`);
+  }
+  if (parsed.protocol !== "https:") {
+    throw new Meteor.Error(400, "Webhook URLs must use https");
+  }
+}
+
+// Receivers should recompute this over the X-Jolly-Roger-Timestamp header and
+// the raw request body, and reject deliveries with stale timestamps.
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  payload: string,
+) {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(`${timestamp}.${payload}`);
+  return `sha256=${hmac.digest("hex")}`;
+}
+
+export async function enqueueWebhookDeliveries(
+  huntId: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+) {
+  const webhooks = await Webhooks.find({
+    hunt: huntId,
+    events: event,
+  }).fetchAsync();
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const payload = JSON.stringify({
+    event,
+    hunt: huntId,
+    timestamp: new Date(),
+    data,
+  });
+  for (const webhook of webhooks) {
+    await WebhookDeliveries.insertAsync({
+      hunt: huntId,
+      webhook: webhook._id,
+      event,
+      payload,
+      state: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+  }
+}
+
+export async function attemptWebhookDelivery(delivery: WebhookDeliveryType) {
+  // Claim the delivery by pushing out its next attempt. If someone else got
+  // there first, leave it to them.
+  const now = new Date();
+  const claimed = await WebhookDeliveries.updateAsync(
+    {
+      _id: delivery._id,
+      state: "pending",
+      nextAttemptAt: { $lte: now },
+    },
+    {
+      $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_TIMEOUT) },
+    },
+  );
+  if (claimed === 0) {
+    return;
+  }
+
+  const webhook = await Webhooks.findOneAsync(delivery.webhook);
+  if (!webhook) {
+    await WebhookDeliveries.updateAsync(delivery._id, {
+      $set: {
+        state: "failed",
+        lastError: "Webhook was deleted",
+      },
+      $unset: { nextAttemptAt: 1 },
+    });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(now.getTime() / 1000).toString();
+  let responseStatus: number | undefined;
+  let succeeded = false;
+  // Overwritten with something more specific whenever we have it
+  let error = "Delivery failed";
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Jolly Roger webhooks",
+        "X-Jolly-Roger-Delivery": delivery._id,
+        "X-Jolly-Roger-Event": delivery.event,
+        "X-Jolly-Roger-Timestamp": timestamp,
+        "X-Jolly-Roger-Signature": signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload,
+        ),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(ATTEMPT_TIMEOUT / 2),
+    });
+    responseStatus = response.status;
+    if (response.ok) {
+      succeeded = true;
+    } else {
+      error =
+        `Receiver responded with ${response.status} ${response.statusText}`.trimEnd();
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (message) {
+      error = message;
+    }
+  }
+
+  if (succeeded) {
+    await WebhookDeliveries.updateAsync(delivery._id, {
+      $set: {
+        state: "succeeded",
+        attempts,
+        lastAttemptAt: now,
+        responseStatus,
+      },
+      $unset: { nextAttemptAt: 1, lastError: 1 },
+    });
+    return;
+  }
+
+  Logger.info("Webhook delivery failed", {
+    delivery: delivery._id,
+    webhook: webhook._id,
+    attempts,
+    error,
+  });
+  const backoff = webhookRetryDelay(attempts);
+  await WebhookDeliveries.updateAsync(delivery._id, {
+    $set: {
+      state: backoff === undefined ? "failed" : "pending",
+      attempts,
+      lastAttemptAt: now,
+      lastError: error,
+      ...(responseStatus !== undefined ? { responseStatus } : {}),
+      ...(backoff === undefined
+        ? {}
+        : { nextAttemptAt: new Date(now.getTime() + backoff) }),
+    },
+    ...(backoff === undefined ? { $unset: { nextAttemptAt: 1 } } : {}),
+  });
+}
@@ -0,0 +1,56 @@
+// This is served as-is (without going through Meteor's build), so it's plain
+// JavaScript that runs in the browser's service worker environment. It only
+// handles Web Push; see imports/server/webPush.ts for the payload format.
+
+/* global clients */
+
+// Take control of already-open tabs, so that clicking a notification can
+// navigate them
+self.addEventListener("activate", (event) => {
+  event.waitUntil(clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  const { title, body, url, tag } = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      icon: "/favicon.ico",
+      data: { url },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin)
+    .href;
+
+  event.waitUntil(
+    (async () => {
+      // Prefer reusing a tab that's already open to Jolly Roger
+      const windows = await clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+      const existing = windows.find(
+        (client) => new URL(client.url).origin === self.location.origin,
+      );
+      if (existing) {
+        try {
+          const navigated = await existing.navigate(url);
+          await (navigated ?? existing).focus();
+          return;
+        } catch {
+          // Tabs we don't control can't be navigated; open a new one instead
+        }
+      }
+      await clients.openWindow(url);
+    })(),
+  );
+});
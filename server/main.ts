@@ -29,10 +29,13 @@ import "../imports/server/daemons/index";
 
 // Other stuff in the server folder
 import "../imports/server/accounts";
+import "../imports/server/activityRollups";
 import "../imports/server/api-init";
 import "../imports/server/chat-notifications";
 import "../imports/server/discord";
+import "../imports/server/etherpadActivityFetcher";
 import "../imports/server/gdriveActivityFetcher";
+import "../imports/server/purgeDeletedRecords";
 import "../imports/server/assets";
 import "../imports/server/browserconfig";
 import "../imports/server/site-manifest";
@@ -0,0 +1,7 @@
+import { DDP } from "meteor/ddp";
+
+// Runs `fn` as though it were part of a method invoked by `userId`, so that
+// any methods it calls (or `Meteor.userId()`) see that user.
+export default function runAsUser<T>(userId: string, fn: () => Promise<T>) {
+  return DDP._CurrentInvocation.withValue({ userId }, fn);
+}
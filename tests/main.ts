@@ -5,7 +5,18 @@ import chaiAsPromised from "chai-as-promised";
 
 chai.use(chaiAsPromised);
 
+import "./unit/imports/lib/activityRollups";
+import "./unit/imports/lib/announcementSms";
+import "./unit/imports/lib/answerNormalization";
 import "./unit/imports/lib/calendarTimeFormat";
+import "./unit/imports/lib/chatMessagePlainText";
+import "./unit/imports/lib/documentTemplates";
+import "./unit/imports/lib/guessRateLimit";
+import "./unit/imports/lib/huntAnalytics";
+import "./unit/imports/lib/huntRoles";
+import "./unit/imports/lib/huntRoster";
+import "./unit/imports/lib/huntSearch";
+import "./unit/imports/lib/notificationPreferences";
 import "./unit/imports/lib/puzzle-sort-and-group";
 import "./unit/imports/lib/relativeTimeFormat";
 import "./unit/imports/lib/ValidateShape";
@@ -18,12 +29,26 @@ if (Meteor.isServer) {
 
   Accounts.removeDefaultRateLimit();
 
+  require("./unit/imports/server/api");
+  require("./unit/imports/server/apiKeyScopes");
+  require("./unit/imports/server/checkMentions");
+  require("./unit/imports/server/etherpad");
   require("./unit/imports/server/Flags");
   require("./unit/imports/server/generateJsonSchema");
+  require("./unit/imports/server/huntArchive");
+  require("./unit/imports/server/methods/deleteChatMessage");
+  require("./unit/imports/server/methods/mergePuzzle");
+  require("./unit/imports/server/methods/setUserHuntRoles");
+  require("./unit/imports/server/methods/undestroyPuzzle");
+  require("./unit/imports/server/methods/updateChatMessage");
   require("./unit/imports/server/MigrationRegistry");
   require("./unit/imports/server/Model");
+  require("./unit/imports/server/publications/chatMessagesForPuzzle");
   require("./unit/imports/server/publishJoinedQuery");
+  require("./unit/imports/server/purgeDeletedRecords");
+  require("./unit/imports/server/SoftDeletedModel");
   require("./unit/imports/server/validateSchema");
+  require("./unit/imports/server/webhooks");
 }
 
 import "./acceptance/authentication";
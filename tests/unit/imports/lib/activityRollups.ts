@@ -0,0 +1,91 @@
+import { assert } from "chai";
+import type { ActivityRecord } from "../../../../imports/lib/activityRollups";
+import {
+  rollUpActivity,
+  sumActivityRollups,
+} from "../../../../imports/lib/activityRollups";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe("activityRollups", function () {
+  const base = Date.UTC(2026, 0, 16, 17);
+  const at = (minutes: number) => new Date(base + minutes * MINUTE);
+
+  describe("rollUpActivity", function () {
+    it("counts each bucket once per user, however they were active", function () {
+      const records: ActivityRecord[] = [
+        { puzzle: "p1", user: "u1", ts: at(0), kind: "chat" },
+        { puzzle: "p1", user: "u1", ts: at(0), kind: "call" },
+        { puzzle: "p1", user: "u1", ts: at(5), kind: "call" },
+        { puzzle: "p1", user: "u2", ts: at(5), kind: "document" },
+      ];
+      const rows = rollUpActivity(records, HOUR, 5 * MINUTE);
+      assert.sameDeepMembers(rows, [
+        {
+          puzzle: "p1",
+          user: "u1",
+          ts: at(0),
+          activeMinutes: 10,
+          callMinutes: 10,
+          chatMinutes: 5,
+          documentMinutes: 0,
+        },
+        {
+          puzzle: "p1",
+          user: "u2",
+          ts: at(0),
+          activeMinutes: 5,
+          callMinutes: 0,
+          chatMinutes: 0,
+          documentMinutes: 5,
+        },
+      ]);
+    });
+
+    it("splits activity into periods", function () {
+      const records: ActivityRecord[] = [
+        { puzzle: "p1", user: "u1", ts: at(55), kind: "chat" },
+        { puzzle: "p1", user: "u1", ts: at(60), kind: "chat" },
+      ];
+      const rows = rollUpActivity(records, HOUR, 5 * MINUTE);
+      assert.sameMembers(
+        rows.map((row) => row.ts.getTime()),
+        [at(0).getTime(), at(60).getTime()],
+      );
+    });
+
+    it("keeps unattributed activity separate", function () {
+      const records: ActivityRecord[] = [
+        { puzzle: "p1", ts: at(0), kind: "document" },
+        { puzzle: "p1", user: "u1", ts: at(0), kind: "document" },
+      ];
+      assert.lengthOf(rollUpActivity(records, HOUR, 5 * MINUTE), 2);
+    });
+  });
+
+  describe("sumActivityRollups", function () {
+    it("adds up finer periods", function () {
+      const hourly = rollUpActivity(
+        [
+          { puzzle: "p1", user: "u1", ts: at(0), kind: "chat" },
+          { puzzle: "p1", user: "u1", ts: at(120), kind: "call" },
+        ],
+        HOUR,
+        5 * MINUTE,
+      );
+      assert.deepEqual(sumActivityRollups(hourly, DAY), [
+        {
+          puzzle: "p1",
+          user: "u1",
+          ts: new Date(Date.UTC(2026, 0, 16)),
+          activeMinutes: 10,
+          callMinutes: 5,
+          chatMinutes: 5,
+          documentMinutes: 0,
+        },
+      ]);
+    });
+  });
+});
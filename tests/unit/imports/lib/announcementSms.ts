@@ -0,0 +1,29 @@
+import { assert } from "chai";
+import announcementSmsText, {
+  ANNOUNCEMENT_SMS_MAX_LENGTH,
+} from "../../../../imports/lib/announcementSms";
+
+describe("announcementSmsText", function () {
+  const url = "https://example.com/hunts/abc/announcements";
+
+  it("includes the hunt, message, and link", function () {
+    assert.equal(
+      announcementSmsText("Mystery Hunt", "Lunch is here", url),
+      `[Mystery Hunt] Lunch is here\n${url}`,
+    );
+  });
+
+  it("collapses whitespace", function () {
+    assert.equal(
+      announcementSmsText("Mystery Hunt", "  Lunch\n\nis  here ", url),
+      `[Mystery Hunt] Lunch is here\n${url}`,
+    );
+  });
+
+  it("truncates long messages", function () {
+    const text = announcementSmsText("Mystery Hunt", "a".repeat(1000), url);
+    assert.lengthOf(text, ANNOUNCEMENT_SMS_MAX_LENGTH);
+    assert.include(text, "a…\n");
+    assert.isTrue(text.endsWith(url));
+  });
+});
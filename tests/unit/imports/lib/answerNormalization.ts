@@ -0,0 +1,45 @@
+import { assert } from "chai";
+import {
+  findDuplicateGuess,
+  normalizeAnswer,
+} from "../../../../imports/lib/answerNormalization";
+
+describe("normalizeAnswer", function () {
+  it("ignores case, whitespace and punctuation by default", function () {
+    assert.equal(normalizeAnswer("Don't  panic!"), "DONTPANIC");
+  });
+
+  it("only applies the rules it is given", function () {
+    assert.equal(normalizeAnswer("Don't panic", ["whitespace"]), "DON'TPANIC");
+    assert.equal(normalizeAnswer("Don't panic", []), "DON'T PANIC");
+  });
+
+  it("strips accents only when asked to", function () {
+    assert.equal(normalizeAnswer("Café"), "CAFÉ");
+    assert.equal(normalizeAnswer("Café", ["diacritics"]), "CAFE");
+  });
+});
+
+describe("findDuplicateGuess", function () {
+  const guesses = [
+    { guess: "DONT PANIC", state: "pending" },
+    { guess: "DON'T PANIC", state: "incorrect" },
+    { guess: "TOWEL", state: "correct" },
+  ];
+
+  it("returns nothing for a new answer", function () {
+    assert.isUndefined(findDuplicateGuess("FORTY TWO", guesses));
+  });
+
+  it("prefers guesses that were marked incorrect", function () {
+    assert.strictEqual(findDuplicateGuess("dontpanic", guesses), guesses[1]);
+  });
+
+  it("matches according to the rules", function () {
+    assert.strictEqual(
+      findDuplicateGuess("DONT PANIC", guesses, ["whitespace"]),
+      guesses[0],
+    );
+    assert.isUndefined(findDuplicateGuess("to wel", guesses, []));
+  });
+});
@@ -0,0 +1,58 @@
+import { assert } from "chai";
+import chatMessagePlainText from "../../../../imports/lib/chatMessagePlainText";
+
+describe("chatMessagePlainText", function () {
+  const displayNames = new Map([["user1", "Alice"]]);
+  const groupNames = new Map([["group1", "Metas"]]);
+
+  it("flattens mentions and images", function () {
+    assert.equal(
+      chatMessagePlainText(
+        {
+          type: "message",
+          children: [
+            { text: "hey " },
+            { type: "mention", userId: "user1" },
+            { text: " and " },
+            { type: "role-mention", roleId: "operator" },
+            { text: " " },
+            { type: "image", url: "https://example.com/a.png" },
+          ],
+        },
+        displayNames,
+      ),
+      "hey @Alice and @operator [image]",
+    );
+  });
+
+  it("uses group names for group mentions", function () {
+    assert.equal(
+      chatMessagePlainText(
+        {
+          type: "message",
+          children: [
+            { type: "group-mention", groupId: "group1" },
+            { text: " can you look at this?" },
+          ],
+        },
+        displayNames,
+        groupNames,
+      ),
+      "@Metas can you look at this?",
+    );
+  });
+
+  it("falls back for groups it doesn't know", function () {
+    assert.equal(
+      chatMessagePlainText(
+        {
+          type: "message",
+          children: [{ type: "group-mention", groupId: "group2" }],
+        },
+        displayNames,
+        groupNames,
+      ),
+      "@group",
+    );
+  });
+});
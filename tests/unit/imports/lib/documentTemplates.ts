@@ -0,0 +1,46 @@
+import { assert } from "chai";
+import { pickDocumentTemplate } from "../../../../imports/lib/documentTemplates";
+import type { DocumentTemplateType } from "../../../../imports/lib/models/Hunts";
+
+describe("pickDocumentTemplate", function () {
+  const templates: DocumentTemplateType[] = [
+    { type: "spreadsheet", id: "default-sheet" },
+    { tag: "crossword", type: "spreadsheet", id: "crossword-sheet" },
+    { tag: "meta", type: "spreadsheet", id: "meta-sheet" },
+    { tag: "meta", type: "document", id: "meta-doc" },
+  ];
+
+  it("prefers a template for one of the puzzle's tags", function () {
+    assert.equal(
+      pickDocumentTemplate(templates, "spreadsheet", ["meta"])?.id,
+      "meta-sheet",
+    );
+  });
+
+  it("uses the first listed template when several tags match", function () {
+    assert.equal(
+      pickDocumentTemplate(templates, "spreadsheet", ["meta", "crossword"])?.id,
+      "crossword-sheet",
+    );
+  });
+
+  it("falls back to the hunt-wide template", function () {
+    assert.equal(
+      pickDocumentTemplate(templates, "spreadsheet", ["logic"])?.id,
+      "default-sheet",
+    );
+  });
+
+  it("only considers templates of the right type", function () {
+    assert.equal(
+      pickDocumentTemplate(templates, "document", ["meta"])?.id,
+      "meta-doc",
+    );
+    assert.isUndefined(pickDocumentTemplate(templates, "document", []));
+    assert.isUndefined(pickDocumentTemplate(templates, "drawing", ["meta"]));
+  });
+
+  it("handles hunts with no templates", function () {
+    assert.isUndefined(pickDocumentTemplate(undefined, "spreadsheet", []));
+  });
+});
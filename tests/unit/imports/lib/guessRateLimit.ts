@@ -0,0 +1,81 @@
+import { assert } from "chai";
+import {
+  guessBudget,
+  guessesSharingBudget,
+} from "../../../../imports/lib/guessRateLimit";
+import type { GuessType } from "../../../../imports/lib/models/Guesses";
+
+const now = new Date(2024, 0, 12, 14, 0);
+
+function minutesAgo(minutes: number) {
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+function makeGuess(
+  state: GuessType["state"],
+  resolvedMinutesAgo: number,
+  puzzle = "puzzle1",
+) {
+  return {
+    puzzle,
+    state,
+    createdAt: minutesAgo(resolvedMinutesAgo + 5),
+    updatedAt: minutesAgo(resolvedMinutesAgo),
+  };
+}
+
+describe("guessBudget", function () {
+  const policy = { scope: "puzzle" as const, limit: 2, windowMinutes: 60 };
+
+  it("only counts submitted guesses inside the window", function () {
+    const budget = guessBudget(
+      policy,
+      [
+        makeGuess("incorrect", 10),
+        makeGuess("incorrect", 90),
+        makeGuess("rejected", 5),
+        makeGuess("pending", 1),
+      ],
+      now,
+    );
+    assert.deepEqual(budget, {
+      limit: 2,
+      used: 1,
+      remaining: 1,
+      pending: 1,
+      availableAt: undefined,
+    });
+  });
+
+  it("reports when the budget frees up again", function () {
+    const budget = guessBudget(
+      policy,
+      [
+        makeGuess("incorrect", 10),
+        makeGuess("intermediate", 20),
+        makeGuess("incorrect", 40),
+      ],
+      now,
+    );
+    assert.equal(budget.remaining, 0);
+    // Two of the three need to age out, so we wait for the second-oldest
+    assert.deepEqual(budget.availableAt, minutesAgo(20 - 60));
+  });
+});
+
+describe("guessesSharingBudget", function () {
+  const guesses = [
+    makeGuess("incorrect", 10, "puzzle1"),
+    makeGuess("incorrect", 10, "puzzle2"),
+  ];
+
+  it("limits per-puzzle budgets to the puzzle's guesses", function () {
+    const policy = { scope: "puzzle" as const, limit: 2, windowMinutes: 60 };
+    assert.lengthOf(guessesSharingBudget(policy, "puzzle1", guesses), 1);
+  });
+
+  it("shares hunt-wide budgets across puzzles", function () {
+    const policy = { scope: "hunt" as const, limit: 2, windowMinutes: 60 };
+    assert.lengthOf(guessesSharingBudget(policy, "puzzle1", guesses), 2);
+  });
+});
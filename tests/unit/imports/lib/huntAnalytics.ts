@@ -0,0 +1,69 @@
+import { assert } from "chai";
+import type { PuzzleAnalyticsType } from "../../../../imports/lib/huntAnalytics";
+import {
+  cumulativeProgress,
+  huntAnalyticsCsv,
+  timeToSolve,
+} from "../../../../imports/lib/huntAnalytics";
+
+describe("huntAnalytics", function () {
+  const entries: PuzzleAnalyticsType[] = [
+    {
+      puzzle: "p1",
+      title: "First",
+      unlockedAt: new Date("2026-01-16T17:00:00Z"),
+      solvedAt: new Date("2026-01-16T18:30:00Z"),
+      guesses: 3,
+      incorrectGuesses: 2,
+      personMinutes: 120,
+    },
+    {
+      puzzle: "p2",
+      title: 'Say "Hello", World',
+      unlockedAt: new Date("2026-01-16T18:00:00Z"),
+      guesses: 0,
+      incorrectGuesses: 0,
+      personMinutes: 15,
+    },
+  ];
+
+  describe("timeToSolve", function () {
+    it("measures from unlock to solve", function () {
+      assert.equal(timeToSolve(entries[0]!), 90 * 60 * 1000);
+    });
+
+    it("is undefined for unsolved puzzles", function () {
+      assert.isUndefined(timeToSolve(entries[1]!));
+    });
+  });
+
+  describe("cumulativeProgress", function () {
+    it("counts unlocks and solves in order", function () {
+      assert.deepEqual(
+        cumulativeProgress(entries).map(({ unlocked, solved }) => [
+          unlocked,
+          solved,
+        ]),
+        [
+          [1, 0],
+          [2, 0],
+          [2, 1],
+        ],
+      );
+    });
+  });
+
+  describe("huntAnalyticsCsv", function () {
+    it("renders a header and one row per puzzle", function () {
+      assert.equal(
+        huntAnalyticsCsv(entries),
+        [
+          "Puzzle,Unlocked,Solved,Minutes to solve,Guesses,Incorrect guesses,Person-minutes",
+          "First,2026-01-16T17:00:00.000Z,2026-01-16T18:30:00.000Z,90,3,2,120",
+          '"Say ""Hello"", World",2026-01-16T18:00:00.000Z,,,0,0,15',
+          "",
+        ].join("\r\n"),
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { assert } from "chai";
+import {
+  huntCapabilitiesForRoles,
+  huntRoleIdFromName,
+  mentionableRolesForHunt,
+} from "../../../../imports/lib/huntRoles";
+
+describe("huntCapabilitiesForRoles", function () {
+  const hunt = {
+    customRoles: [
+      {
+        id: "guess-submitter",
+        name: "Guess submitter",
+        capabilities: ["submitGuesses" as const],
+      },
+      {
+        id: "observer",
+        name: "Observer",
+        capabilities: [],
+        restricted: true,
+      },
+    ],
+    memberCapabilities: ["sendChatMessages" as const],
+  };
+
+  it("gives operators every capability", function () {
+    const capabilities = huntCapabilitiesForRoles(hunt, ["operator"]);
+    assert.isTrue(capabilities.has("configureWebhooks"));
+    assert.isTrue(capabilities.has("assignRoles"));
+  });
+
+  it("gives members the hunt's member capabilities", function () {
+    assert.sameMembers(
+      [...huntCapabilitiesForRoles(hunt, [])],
+      ["sendChatMessages"],
+    );
+  });
+
+  it("defaults member capabilities when the hunt doesn't set them", function () {
+    assert.sameMembers(
+      [...huntCapabilitiesForRoles({}, [])],
+      ["submitGuesses", "sendChatMessages"],
+    );
+  });
+
+  it("adds the capabilities of custom roles", function () {
+    assert.sameMembers(
+      [...huntCapabilitiesForRoles(hunt, ["guess-submitter"])],
+      ["submitGuesses", "sendChatMessages"],
+    );
+  });
+
+  it("drops member capabilities for restricted roles", function () {
+    assert.isEmpty([...huntCapabilitiesForRoles(hunt, ["observer"])]);
+    assert.sameMembers(
+      [...huntCapabilitiesForRoles(hunt, ["observer", "guess-submitter"])],
+      ["submitGuesses"],
+    );
+  });
+
+  it("ignores roles the hunt doesn't define", function () {
+    assert.sameMembers(
+      [...huntCapabilitiesForRoles(hunt, ["missing"])],
+      ["sendChatMessages"],
+    );
+  });
+});
+
+describe("huntRoleIdFromName", function () {
+  it("slugifies names", function () {
+    assert.equal(huntRoleIdFromName("Guess Submitter"), "guess-submitter");
+    assert.equal(huntRoleIdFromName("  On-site team! "), "on-site-team");
+  });
+});
+
+describe("mentionableRolesForHunt", function () {
+  it("includes operators and custom roles", function () {
+    assert.deepEqual(mentionableRolesForHunt(undefined), ["operator"]);
+    assert.deepEqual(
+      mentionableRolesForHunt({
+        customRoles: [{ id: "runner", name: "Runner", capabilities: [] }],
+      }),
+      ["operator", "runner"],
+    );
+  });
+});
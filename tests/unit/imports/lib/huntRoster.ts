@@ -0,0 +1,39 @@
+import { assert } from "chai";
+import {
+  isUnattendedPuzzle,
+  UNATTENDED_PUZZLE_THRESHOLD,
+} from "../../../../imports/lib/huntRoster";
+
+describe("isUnattendedPuzzle", function () {
+  const now = Date.now();
+  const puzzle = {
+    answers: [],
+    expectedAnswerCount: 1,
+    assignees: [],
+    createdAt: new Date(now - UNATTENDED_PUZZLE_THRESHOLD),
+    deleted: false,
+  };
+
+  it("flags unsolved puzzles that have gone unassigned for too long", function () {
+    assert.isTrue(isUnattendedPuzzle(puzzle, now));
+    assert.isTrue(isUnattendedPuzzle({ ...puzzle, assignees: undefined }, now));
+  });
+
+  it("gives newly unlocked puzzles some time", function () {
+    assert.isFalse(
+      isUnattendedPuzzle({ ...puzzle, createdAt: new Date(now - 1000) }, now),
+    );
+  });
+
+  it("ignores puzzles with someone assigned", function () {
+    assert.isFalse(isUnattendedPuzzle({ ...puzzle, assignees: ["u1"] }, now));
+  });
+
+  it("ignores solved and deleted puzzles", function () {
+    assert.isFalse(isUnattendedPuzzle({ ...puzzle, answers: ["ANSWER"] }, now));
+    assert.isFalse(
+      isUnattendedPuzzle({ ...puzzle, expectedAnswerCount: 0 }, now),
+    );
+    assert.isFalse(isUnattendedPuzzle({ ...puzzle, deleted: true }, now));
+  });
+});
@@ -0,0 +1,58 @@
+import { assert } from "chai";
+import {
+  parseSearchQuery,
+  scoreSearchMatch,
+  searchTermRegExp,
+} from "../../../../imports/lib/huntSearch";
+
+describe("parseSearchQuery", function () {
+  it("splits on whitespace and lowercases", function () {
+    assert.deepEqual(parseSearchQuery("  Semaphore  FLAGS "), [
+      "semaphore",
+      "flags",
+    ]);
+  });
+
+  it("keeps quoted phrases together", function () {
+    assert.deepEqual(parseSearchQuery('"nautical flags" semaphore'), [
+      "nautical flags",
+      "semaphore",
+    ]);
+  });
+
+  it("drops empty and repeated terms", function () {
+    assert.deepEqual(parseSearchQuery('"" a A'), ["a"]);
+  });
+});
+
+describe("searchTermRegExp", function () {
+  it("matches terms literally", function () {
+    assert.isTrue(searchTermRegExp("a.b (c)").test("A.B (C)"));
+    assert.isFalse(searchTermRegExp("a.b").test("axb"));
+  });
+});
+
+describe("scoreSearchMatch", function () {
+  it("requires every term to match some field", function () {
+    const fields = [
+      { text: "Semaphore Signals", weight: 1 },
+      { text: "flags", weight: 1 },
+    ];
+    assert.isDefined(scoreSearchMatch(["semaphore", "flags"], fields));
+    assert.isUndefined(scoreSearchMatch(["semaphore", "morse"], fields));
+  });
+
+  it("prefers whole words to prefixes to substrings", function () {
+    const score = (text: string) =>
+      scoreSearchMatch(["flag"], [{ text, weight: 1 }]);
+    assert.isAbove(score("a flag")!, score("flagpole")!);
+    assert.isAbove(score("flagpole")!, score("reflagged")!);
+  });
+
+  it("weights fields", function () {
+    assert.isAbove(
+      scoreSearchMatch(["flag"], [{ text: "flag", weight: 3 }])!,
+      scoreSearchMatch(["flag"], [{ text: "flag", weight: 1 }])!,
+    );
+  });
+});
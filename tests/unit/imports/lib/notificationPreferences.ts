@@ -0,0 +1,95 @@
+import { assert } from "chai";
+import {
+  isInQuietHours,
+  notificationDelivery,
+  resolveNotificationDelivery,
+} from "../../../../imports/lib/notificationPreferences";
+
+describe("notificationDelivery", function () {
+  it("defaults to in-app toasts", function () {
+    assert.equal(notificationDelivery(undefined, "chat"), "toast");
+    assert.equal(notificationDelivery({}, "bookmark"), "toast");
+  });
+
+  it("uses the chosen delivery", function () {
+    assert.equal(notificationDelivery({ chat: "email" }, "chat"), "email");
+    assert.equal(notificationDelivery({ guess: "off" }, "guess"), "off");
+  });
+
+  it("ignores deliveries that don't apply to the type", function () {
+    assert.equal(notificationDelivery({ guess: "email" }, "guess"), "toast");
+  });
+});
+
+describe("isInQuietHours", function () {
+  const at = (time: string) => new Date(`2026-01-15T${time}:00Z`);
+
+  it("is never quiet without quiet hours", function () {
+    assert.isFalse(isInQuietHours(undefined, at("03:00")));
+  });
+
+  it("handles quiet hours within a day", function () {
+    const quietHours = { start: 9 * 60, end: 17 * 60, timeZone: "UTC" };
+    assert.isFalse(isInQuietHours(quietHours, at("08:59")));
+    assert.isTrue(isInQuietHours(quietHours, at("09:00")));
+    assert.isTrue(isInQuietHours(quietHours, at("16:59")));
+    assert.isFalse(isInQuietHours(quietHours, at("17:00")));
+  });
+
+  it("handles quiet hours that run overnight", function () {
+    const quietHours = { start: 23 * 60, end: 8 * 60, timeZone: "UTC" };
+    assert.isTrue(isInQuietHours(quietHours, at("23:30")));
+    assert.isTrue(isInQuietHours(quietHours, at("03:00")));
+    assert.isFalse(isInQuietHours(quietHours, at("12:00")));
+  });
+
+  it("uses the quiet hours' time zone", function () {
+    // 03:00 UTC is 22:00 the previous evening in New York (EST)
+    const quietHours = {
+      start: 23 * 60,
+      end: 8 * 60,
+      timeZone: "America/New_York",
+    };
+    assert.isFalse(isInQuietHours(quietHours, at("03:00")));
+    assert.isTrue(isInQuietHours(quietHours, at("05:00")));
+  });
+
+  it("treats equal start and end as no quiet hours", function () {
+    const quietHours = { start: 60, end: 60, timeZone: "UTC" };
+    assert.isFalse(isInQuietHours(quietHours, at("01:00")));
+  });
+});
+
+describe("resolveNotificationDelivery", function () {
+  const quietHours = { start: 0, end: 6 * 60, timeZone: "UTC" };
+  const quiet = new Date("2026-01-15T03:00:00Z");
+  const awake = new Date("2026-01-15T12:00:00Z");
+
+  it("holds back emails and browser notifications during quiet hours", function () {
+    const preferences = {
+      chat: "email",
+      bookmark: "browser",
+      quietHours,
+    } as const;
+    assert.equal(
+      resolveNotificationDelivery(preferences, "chat", quiet),
+      "toast",
+    );
+    assert.equal(
+      resolveNotificationDelivery(preferences, "bookmark", quiet),
+      "toast",
+    );
+    assert.equal(
+      resolveNotificationDelivery(preferences, "chat", awake),
+      "email",
+    );
+  });
+
+  it("keeps notifications that are off switched off", function () {
+    const preferences = { chat: "off", quietHours } as const;
+    assert.equal(
+      resolveNotificationDelivery(preferences, "chat", quiet),
+      "off",
+    );
+  });
+});
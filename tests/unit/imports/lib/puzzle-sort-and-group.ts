@@ -37,6 +37,7 @@ let puzCounter = 0;
 type MakePuzzleOpts = {
   answers?: string[];
   expectedAnswerCount?: number;
+  feeders?: string[];
 };
 
 function makePuzzle(
@@ -44,7 +45,7 @@ function makePuzzle(
   tags: string[],
   opts: MakePuzzleOpts = {},
 ): PuzzleType {
-  const { answers = [], expectedAnswerCount = 1 } = opts;
+  const { answers = [], expectedAnswerCount = 1, feeders } = opts;
   const tagIds = tags
     .map((tagName) => {
       if (allTagsByName.has(tagName)) {
@@ -70,6 +71,7 @@ function makePuzzle(
     updatedBy: undefined,
     updatedAt: new Date(2000 + puzCounter),
     replacedBy: undefined,
+    feeders,
   };
   puzCounter += 1;
   return puzzle;
@@ -171,6 +173,48 @@ describe("puzzleGroupsByRelevance", function () {
       ]);
     });
 
+    it("groups metas with their feeders", function () {
+      const feederA = makePuzzle("Feeder A", []);
+      const feederB = makePuzzle("Feeder B", []);
+      const meta = makePuzzle("Meta", [], {
+        feeders: [feederA._id, feederB._id],
+      });
+      const loose = makePuzzle("Loose", []);
+      const groups = puzzleGroupsByRelevance(
+        [feederA, feederB, meta, loose],
+        allTags,
+      );
+      assert.deepEqual(groups, [
+        {
+          sharedTag: undefined,
+          meta,
+          puzzles: [meta, feederA, feederB],
+          subgroups: [],
+        },
+        {
+          sharedTag: undefined,
+          puzzles: [loose],
+          subgroups: [],
+        },
+      ]);
+    });
+
+    it("attaches metas to tag groups with the same puzzles", function () {
+      const feeder = makePuzzle("Tagged feeder", ["group:native"]);
+      const meta = makePuzzle("Tagged meta", ["group:native"], {
+        feeders: [feeder._id],
+      });
+      const groups = puzzleGroupsByRelevance([feeder, meta], allTags);
+      assert.deepEqual(groups, [
+        {
+          sharedTag: allTagsByName.get("group:native"),
+          meta,
+          puzzles: [feeder, meta],
+          subgroups: [],
+        },
+      ]);
+    });
+
     it("shows common subgroups in each parent", function () {
       // If a group is a strict subset of several other disjoint groups, we'll
       // show it in each.
@@ -0,0 +1,61 @@
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import { z } from "zod";
+import { nonEmptyString } from "../../../../imports/lib/models/customTypes";
+import SoftDeletedModel from "../../../../imports/lib/models/SoftDeletedModel";
+import attachSchema from "../../../../imports/server/attachSchema";
+
+describe("SoftDeletedModel", function () {
+  const schema = z.object({
+    string: nonEmptyString,
+  });
+  let model: SoftDeletedModel<typeof schema>;
+  this.beforeAll(async function () {
+    model = new SoftDeletedModel(`test_schema_${Random.id()}`, schema);
+    await attachSchema(model.schema, model.collection);
+  });
+  this.afterAll(async function () {
+    await model.collection.dropCollectionAsync();
+  });
+
+  it("returns deleted with inclusion projections", async function () {
+    const id = await model.insertAsync({ string: "foo" });
+    const record = await model.findOneAsync(id, { projection: { string: 1 } });
+    assert.equal(record?.string, "foo");
+    assert.isFalse(record?.deleted);
+  });
+
+  it("accepts exclusion projections", async function () {
+    const id = await model.insertAsync({ string: "foo" });
+    const record = await model.findOneAsync(id, { projection: { string: 0 } });
+    assert.isOk(record);
+    assert.isUndefined(record.string);
+    assert.isFalse(record.deleted);
+  });
+
+  it("records when and by whom a record was deleted", async function () {
+    const id = await model.insertAsync({ string: "foo" });
+    const userId = Random.id();
+    const before = new Date();
+    await model.destroyAsync(id, userId);
+
+    assert.isUndefined(await model.findOneAsync(id));
+    const record = await model.findOneDeletedAsync(id);
+    assert.isOk(record);
+    assert.isTrue(record.deleted);
+    assert.equal(record.deletedBy, userId);
+    assert.isAtLeast(record.deletedAt!.getTime(), before.getTime());
+  });
+
+  it("forgets who deleted a record when it's restored", async function () {
+    const id = await model.insertAsync({ string: "foo" });
+    await model.destroyAsync(id, Random.id());
+    await model.undestroyAsync(id);
+
+    const record = await model.findOneAsync(id);
+    assert.isOk(record);
+    assert.isFalse(record.deleted);
+    assert.isUndefined(record.deletedAt);
+    assert.isUndefined(record.deletedBy);
+  });
+});
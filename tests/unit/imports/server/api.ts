@@ -0,0 +1,358 @@
+import { Accounts } from "meteor/accounts-base";
+import { Meteor } from "meteor/meteor";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import FixtureHunt from "../../../../imports/FixtureHunt";
+import type { APIKeyScopeType } from "../../../../imports/lib/models/APIKeys";
+import APIKeys, { APIKeyScopes } from "../../../../imports/lib/models/APIKeys";
+import AuditLogEntries from "../../../../imports/lib/models/AuditLogEntries";
+import Hunts from "../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../imports/lib/models/MeteorUsers";
+import makeFixtureHunt from "../../../../imports/server/makeFixtureHunt";
+import resetDatabase from "../../../lib/resetDatabase";
+
+const huntId = FixtureHunt._id;
+const fixturePuzzle = FixtureHunt.puzzles.find((p) => p.guesses.length > 0)!;
+const fixtureGuess = fixturePuzzle.guesses[0]!;
+
+// Creates a user who is a member of the given hunts, holding the given roles
+// in each of them
+async function createMember(hunts: string[], roles: string[] = []) {
+  const userId = await Accounts.createUserAsync({
+    email: `${Random.id()}@example.com`,
+  });
+  await MeteorUsers.updateAsync(userId, {
+    $set: {
+      hunts,
+      roles: Object.fromEntries(hunts.map((h) => [h, roles])),
+    },
+  });
+  return userId;
+}
+
+async function createAPIKey(
+  user: string,
+  scopes: APIKeyScopeType[],
+  hunts?: string[],
+) {
+  const key = Random.id(32);
+  await APIKeys.insertAsync({ user, key, scopes, hunts, createdBy: user });
+  return key;
+}
+
+async function apiRequest(
+  key: string,
+  method: string,
+  path: string,
+  body?: unknown,
+) {
+  return fetch(Meteor.absoluteUrl(`api${path}`), {
+    method,
+    headers: {
+      Authorization: `Bearer ${key}`,
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+describe("REST API", function () {
+  let otherHuntId: string;
+
+  beforeEach(async function () {
+    await resetDatabase("REST API");
+    const creator = Random.id();
+    await makeFixtureHunt(creator);
+    otherHuntId = await Hunts.insertAsync({
+      name: "Another hunt",
+      hasGuessQueue: false,
+      createdBy: creator,
+    });
+  });
+
+  describe("keys restricted to hunts", function () {
+    let key: string;
+
+    beforeEach(async function () {
+      const userId = await createMember([huntId, otherHuntId]);
+      key = await createAPIKey(userId, ["read", "puzzle-write"], [huntId]);
+    });
+
+    it("can be used with their hunts", async function () {
+      const res = await apiRequest(key, "GET", `/hunts/${huntId}/puzzles`);
+      assert.equal(res.status, 200);
+    });
+
+    it("refuses other hunts the user is a member of", async function () {
+      const res = await apiRequest(key, "GET", `/hunts/${otherHuntId}/puzzles`);
+      assert.equal(res.status, 403);
+    });
+
+    it("refuses other hunts regardless of the path's case", async function () {
+      for (const path of [
+        `/HUNTS/${otherHuntId}/puzzles`,
+        `/Hunts/${otherHuntId}/Puzzles`,
+        `/hunts/${otherHuntId}/TAGS`,
+      ]) {
+        const res = await apiRequest(key, "GET", path);
+        assert.equal(res.status, 403, path);
+      }
+
+      const res = await apiRequest(
+        key,
+        "POST",
+        `/HUNTS/${otherHuntId}/puzzles`,
+        {
+          title: "Sneaky",
+          tags: [],
+          expectedAnswerCount: 1,
+          docType: "spreadsheet",
+        },
+      );
+      assert.equal(res.status, 403);
+    });
+
+    it("only lists their hunts", async function () {
+      const res = await apiRequest(key, "GET", "/hunts");
+      assert.equal(res.status, 200);
+      const { hunts } = await res.json();
+      assert.sameMembers(
+        hunts.map((h: { _id: string }) => h._id),
+        [huntId],
+      );
+    });
+  });
+
+  describe("authentication", function () {
+    it("requires an API key", async function () {
+      const res = await fetch(Meteor.absoluteUrl(`api/hunts/${huntId}`));
+      assert.equal(res.status, 401);
+    });
+
+    it("refuses unknown keys", async function () {
+      const res = await apiRequest(Random.id(32), "GET", `/hunts/${huntId}`);
+      assert.equal(res.status, 403);
+    });
+
+    it("refuses requests outside the key's scopes", async function () {
+      const userId = await createMember([huntId], ["operator"]);
+      const key = await createAPIKey(userId, ["read"]);
+      const res = await apiRequest(key, "POST", `/hunts/${huntId}/puzzles`, {
+        title: "New puzzle",
+        tags: [],
+        expectedAnswerCount: 1,
+        docType: "spreadsheet",
+      });
+      assert.equal(res.status, 403);
+
+      const patch = await apiRequest(
+        key,
+        "PATCH",
+        `/hunts/${huntId}/guesses/${fixtureGuess._id}`,
+        { state: "incorrect" },
+      );
+      assert.equal(patch.status, 403);
+    });
+  });
+
+  describe("hunt membership", function () {
+    it("refuses hunts the key's user isn't a member of", async function () {
+      const userId = await createMember([otherHuntId]);
+      const key = await createAPIKey(userId, ["read"]);
+      for (const path of [
+        `/hunts/${huntId}`,
+        `/hunts/${huntId}/puzzles`,
+        `/hunts/${huntId}/guesses`,
+        `/hunts/${huntId}/tags`,
+        `/hunts/${huntId}/announcements`,
+      ]) {
+        const res = await apiRequest(key, "GET", path);
+        assert.equal(res.status, 403, path);
+      }
+    });
+
+    it("returns 404 for hunts that don't exist", async function () {
+      const missingHuntId = Random.id();
+      const userId = await createMember([missingHuntId]);
+      const key = await createAPIKey(userId, ["read"]);
+      const res = await apiRequest(key, "GET", `/hunts/${missingHuntId}`);
+      assert.equal(res.status, 404);
+    });
+  });
+
+  describe("puzzles", function () {
+    let memberKey: string;
+    let operatorKey: string;
+
+    beforeEach(async function () {
+      const memberId = await createMember([huntId]);
+      memberKey = await createAPIKey(memberId, APIKeyScopes.options);
+      const operatorId = await createMember([huntId], ["operator"]);
+      operatorKey = await createAPIKey(operatorId, APIKeyScopes.options);
+    });
+
+    it("lists the hunt's puzzles with their tag names", async function () {
+      const res = await apiRequest(
+        memberKey,
+        "GET",
+        `/hunts/${huntId}/puzzles`,
+      );
+      assert.equal(res.status, 200);
+      const { puzzles } = await res.json();
+      assert.lengthOf(puzzles, FixtureHunt.puzzles.length);
+      const tagNames = new Map(FixtureHunt.tags.map((t) => [t._id, t.name]));
+      const rendered = puzzles.find(
+        (p: { _id: string }) => p._id === fixturePuzzle._id,
+      );
+      assert.sameMembers(
+        rendered.tags,
+        fixturePuzzle.tags.map((t) => tagNames.get(t)),
+      );
+    });
+
+    it("returns 404 for unknown puzzles", async function () {
+      const path = `/hunts/${huntId}/puzzles/${Random.id()}`;
+      const get = await apiRequest(memberKey, "GET", path);
+      assert.equal(get.status, 404);
+      const patch = await apiRequest(operatorKey, "PATCH", path, {
+        title: "Renamed",
+      });
+      assert.equal(patch.status, 404);
+    });
+
+    it("doesn't find puzzles through another hunt", async function () {
+      const userId = await createMember([huntId, otherHuntId]);
+      const key = await createAPIKey(userId, ["read"]);
+      const res = await apiRequest(
+        key,
+        "GET",
+        `/hunts/${otherHuntId}/puzzles/${fixturePuzzle._id}`,
+      );
+      assert.equal(res.status, 404);
+    });
+
+    it("requires permission to add puzzles", async function () {
+      const res = await apiRequest(
+        memberKey,
+        "POST",
+        `/hunts/${huntId}/puzzles`,
+        {
+          title: "New puzzle",
+          tags: [],
+          expectedAnswerCount: 1,
+          docType: "spreadsheet",
+        },
+      );
+      assert.equal(res.status, 401);
+    });
+
+    it("refuses puzzles with a duplicate URL", async function () {
+      const res = await apiRequest(
+        operatorKey,
+        "POST",
+        `/hunts/${huntId}/puzzles`,
+        {
+          title: "Duplicate",
+          url: fixturePuzzle.url,
+          tags: [],
+          expectedAnswerCount: 1,
+          docType: "spreadsheet",
+        },
+      );
+      assert.equal(res.status, 409);
+    });
+
+    it("validates request bodies", async function () {
+      const res = await apiRequest(
+        operatorKey,
+        "POST",
+        `/hunts/${huntId}/puzzles`,
+        { title: "Missing fields" },
+      );
+      assert.equal(res.status, 400);
+    });
+  });
+
+  describe("guesses", function () {
+    let memberKey: string;
+
+    beforeEach(async function () {
+      const memberId = await createMember([huntId]);
+      memberKey = await createAPIKey(memberId, APIKeyScopes.options);
+    });
+
+    it("returns 404 for unknown guesses and puzzles", async function () {
+      const get = await apiRequest(
+        memberKey,
+        "GET",
+        `/hunts/${huntId}/guesses/${Random.id()}`,
+      );
+      assert.equal(get.status, 404);
+
+      const post = await apiRequest(
+        memberKey,
+        "POST",
+        `/hunts/${huntId}/puzzles/${Random.id()}/guesses`,
+        { guess: "ANSWER", direction: 0, confidence: 50 },
+      );
+      assert.equal(post.status, 404);
+    });
+
+    it("requires permission to resolve guesses", async function () {
+      const res = await apiRequest(
+        memberKey,
+        "PATCH",
+        `/hunts/${huntId}/guesses/${fixtureGuess._id}`,
+        { state: "incorrect" },
+      );
+      assert.equal(res.status, 401);
+    });
+
+    it("records resolved guesses in the audit log", async function () {
+      const operatorId = await createMember([huntId], ["operator"]);
+      const operatorKey = await createAPIKey(operatorId, APIKeyScopes.options);
+      const res = await apiRequest(
+        operatorKey,
+        "PATCH",
+        `/hunts/${huntId}/guesses/${fixtureGuess._id}`,
+        { state: "incorrect" },
+      );
+      assert.equal(res.status, 200);
+
+      const entry = await AuditLogEntries.findOneAsync({
+        subjectId: fixtureGuess._id,
+      });
+      assert.equal(entry?.action, "setGuessState");
+      assert.equal(entry?.user, operatorId);
+      assert.equal(entry?.hunt, huntId);
+    });
+  });
+
+  describe("announcements", function () {
+    it("requires permission to post announcements", async function () {
+      const memberId = await createMember([huntId]);
+      const key = await createAPIKey(memberId, APIKeyScopes.options);
+      const res = await apiRequest(
+        key,
+        "POST",
+        `/hunts/${huntId}/announcements`,
+        { message: "Hello" },
+      );
+      assert.equal(res.status, 401);
+    });
+  });
+
+  describe("tags", function () {
+    it("lists the hunt's tag names", async function () {
+      const memberId = await createMember([huntId]);
+      const key = await createAPIKey(memberId, ["read"]);
+      const res = await apiRequest(key, "GET", `/hunts/${huntId}/tags`);
+      assert.equal(res.status, 200);
+      const { tags } = await res.json();
+      assert.sameMembers(
+        tags,
+        FixtureHunt.tags.map((t) => t.name),
+      );
+    });
+  });
+});
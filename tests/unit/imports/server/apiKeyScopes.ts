@@ -0,0 +1,50 @@
+import { assert } from "chai";
+import { requiredScope } from "../../../../imports/server/api/apiKeyScopes";
+
+describe("apiKeyScopes", function () {
+  describe("requiredScope", function () {
+    it("requires read for every GET", function () {
+      assert.equal(requiredScope("GET", "/users/someone@example.com"), "read");
+      assert.equal(requiredScope("GET", "/hunts/abc/puzzles"), "read");
+      assert.equal(requiredScope("head", "/hunts/abc/guesses/def"), "read");
+    });
+
+    it("maps write routes to their scopes", function () {
+      assert.equal(
+        requiredScope("POST", "/hunts/abc/puzzles/def/guesses"),
+        "guess-submit",
+      );
+      assert.equal(
+        requiredScope("PATCH", "/hunts/abc/guesses/def"),
+        "guess-resolve",
+      );
+      assert.equal(
+        requiredScope("POST", "/hunts/abc/announcements"),
+        "announce",
+      );
+      assert.equal(requiredScope("POST", "/hunts/abc/puzzles"), "puzzle-write");
+      assert.equal(
+        requiredScope("PATCH", "/hunts/abc/puzzles/def"),
+        "puzzle-write",
+      );
+      assert.equal(
+        requiredScope("DELETE", "/hunts/abc/puzzles/def/tags/meta"),
+        "puzzle-write",
+      );
+    });
+
+    it("matches routes case-insensitively, as Express does", function () {
+      assert.equal(requiredScope("POST", "/HUNTS/abc/Puzzles"), "puzzle-write");
+      assert.equal(
+        requiredScope("PATCH", "/Hunts/abc/GUESSES/def"),
+        "guess-resolve",
+      );
+    });
+
+    it("refuses unknown writes", function () {
+      assert.isUndefined(requiredScope("POST", "/users/someone@example.com"));
+      assert.isUndefined(requiredScope("DELETE", "/hunts/abc"));
+      assert.isUndefined(requiredScope("PUT", "/hunts/abc/puzzles/def"));
+    });
+  });
+});
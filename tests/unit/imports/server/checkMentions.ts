@@ -0,0 +1,88 @@
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import type { ChatMessageContentType } from "../../../../imports/lib/models/ChatMessages";
+import HuntGroups from "../../../../imports/lib/models/HuntGroups";
+import checkMentions from "../../../../imports/server/checkMentions";
+import resetDatabase from "../../../lib/resetDatabase";
+
+function mentioning(...groupIds: string[]): ChatMessageContentType {
+  return {
+    type: "message",
+    children: [
+      { text: "hey " },
+      ...groupIds.map((groupId) => ({
+        type: "group-mention" as const,
+        groupId,
+      })),
+    ],
+  };
+}
+
+function mentioningRoles(...roleIds: string[]): ChatMessageContentType {
+  return {
+    type: "message",
+    children: [
+      { text: "hey " },
+      ...roleIds.map((roleId) => ({
+        type: "role-mention" as const,
+        roleId,
+      })),
+    ],
+  };
+}
+
+describe("checkMentions", function () {
+  const hunt = {
+    _id: Random.id(),
+    customRoles: [{ id: "checker", name: "Checker", capabilities: [] }],
+  };
+  let groupId: string;
+  let otherHuntGroupId: string;
+
+  beforeEach(async function () {
+    await resetDatabase("checkMentions");
+    groupId = await HuntGroups.insertAsync({
+      hunt: hunt._id,
+      name: "Remote",
+      createdBy: Random.id(),
+    });
+    otherHuntGroupId = await HuntGroups.insertAsync({
+      hunt: Random.id(),
+      name: "Elsewhere",
+      createdBy: Random.id(),
+    });
+  });
+
+  it("allows messages without mentions", async function () {
+    await checkMentions(mentioning(), hunt);
+  });
+
+  it("allows mentioning the hunt's groups", async function () {
+    await checkMentions(mentioning(groupId, groupId), hunt);
+  });
+
+  it("refuses groups from other hunts", async function () {
+    await assert.isRejected(
+      checkMentions(mentioning(groupId, otherHuntGroupId), hunt),
+      /Unknown group/,
+    );
+  });
+
+  it("refuses groups that don't exist", async function () {
+    await assert.isRejected(
+      checkMentions(mentioning(Random.id()), hunt),
+      /Unknown group/,
+    );
+  });
+
+  it("allows mentioning operators and the hunt's roles", async function () {
+    await checkMentions(mentioningRoles("operator", "checker"), hunt);
+  });
+
+  it("refuses roles the hunt doesn't have", async function () {
+    await assert.isRejected(
+      checkMentions(mentioningRoles("checker", "runner"), hunt),
+      /Unknown role/,
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { assert } from "chai";
+import { EtherpadClient } from "../../../../imports/server/etherpad";
+
+const API_KEY = "test-api-key";
+
+// A stand-in for an Etherpad server, implementing just enough of its HTTP API
+// for the client
+function handleRequest(
+  pads: Map<string, number>,
+  req: IncomingMessage,
+  res: ServerResponse,
+) {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const params = new URLSearchParams(body);
+    const method = req.url?.split("/").pop();
+    const padId = params.get("padID") ?? "";
+    const reply = (code: number, message: string, data: unknown = null) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ code, message, data }));
+    };
+
+    if (params.get("apikey") !== API_KEY) {
+      reply(4, "no or wrong API Key");
+      return;
+    }
+
+    switch (method) {
+      case "checkToken":
+        reply(0, "ok");
+        break;
+      case "createPad":
+        if (pads.has(padId)) {
+          reply(1, "padID does already exist");
+        } else {
+          pads.set(padId, 1700000000000);
+          reply(0, "ok");
+        }
+        break;
+      case "getLastEdited":
+        if (pads.has(padId)) {
+          reply(0, "ok", { lastEdited: pads.get(padId) });
+        } else {
+          reply(1, "padID does not exist");
+        }
+        break;
+      case "padUsers":
+        reply(0, "ok", { padUsers: [{ id: "a.1", name: "Alice" }] });
+        break;
+      default:
+        res.statusCode = 404;
+        res.end();
+        break;
+    }
+  });
+}
+
+describe("EtherpadClient", function () {
+  let server: Server;
+  let baseUrl: string;
+  let pads: Map<string, number>;
+
+  this.beforeAll(async function () {
+    server = createServer((req, res) => handleRequest(pads, req, res));
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/`;
+  });
+
+  this.afterAll(async function () {
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  this.beforeEach(function () {
+    pads = new Map();
+  });
+
+  it("accepts a valid API key", async function () {
+    await new EtherpadClient(baseUrl, API_KEY).checkToken();
+  });
+
+  it("rejects an invalid API key", async function () {
+    const client = new EtherpadClient(baseUrl, "wrong");
+    let error: unknown;
+    try {
+      await client.checkToken();
+    } catch (e) {
+      error = e;
+    }
+    assert.instanceOf(error, Error);
+  });
+
+  it("builds pad URLs without a doubled slash", function () {
+    const client = new EtherpadClient(baseUrl, API_KEY);
+    assert.equal(client.padUrl("jr-abc"), `${baseUrl}p/jr-abc`);
+  });
+
+  it("tolerates creating a pad that already exists", async function () {
+    const client = new EtherpadClient(baseUrl, API_KEY);
+    await client.createPad("jr-abc");
+    await client.createPad("jr-abc");
+    assert.deepEqual([...pads.keys()], ["jr-abc"]);
+  });
+
+  it("fetches pad activity", async function () {
+    const client = new EtherpadClient(baseUrl, API_KEY);
+    await client.createPad("jr-abc");
+    assert.equal(await client.getLastEdited("jr-abc"), 1700000000000);
+    assert.deepEqual(await client.padUsers("jr-abc"), [
+      { id: "a.1", name: "Alice" },
+    ]);
+  });
+});
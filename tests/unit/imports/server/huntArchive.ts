@@ -0,0 +1,251 @@
+import { Accounts } from "meteor/accounts-base";
+import { EJSON } from "meteor/ejson";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import FixtureHunt from "../../../../imports/FixtureHunt";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../../../imports/lib/models/ChatMessages";
+import Guesses from "../../../../imports/lib/models/Guesses";
+import HuntGroups from "../../../../imports/lib/models/HuntGroups";
+import Hunts from "../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../imports/lib/models/MeteorUsers";
+import Puzzles from "../../../../imports/lib/models/Puzzles";
+import Tags from "../../../../imports/lib/models/Tags";
+import { userIsOperatorForHunt } from "../../../../imports/lib/permission_stubs";
+import {
+  exportHuntArchive,
+  HUNT_ARCHIVE_VERSION,
+  importHuntArchive,
+} from "../../../../imports/server/huntArchive";
+import makeFixtureHunt from "../../../../imports/server/makeFixtureHunt";
+import resetDatabase from "../../../lib/resetDatabase";
+
+const sourceHuntId = FixtureHunt._id;
+
+// Puzzle titles are unique within the fixture hunt, so they identify puzzles
+// across the export and import
+async function puzzlesByTitle(huntId: string) {
+  return new Map(
+    await Puzzles.find({ hunt: huntId }).mapAsync((p) => [p.title, p]),
+  );
+}
+
+describe("huntArchive", function () {
+  let userId: string;
+
+  beforeEach(async function () {
+    await resetDatabase("huntArchive");
+    userId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    await makeFixtureHunt(userId);
+  });
+
+  it("round-trips a hunt's puzzles, tags and guesses", async function () {
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    assert.notEqual(huntId, sourceHuntId);
+    assert.equal((await Hunts.findOneAsync(huntId))?.name, FixtureHunt.name);
+
+    const sourceTags = new Map(
+      await Tags.find({ hunt: sourceHuntId }).mapAsync((t) => [t._id, t.name]),
+    );
+    const importedTags = new Map(
+      await Tags.find({ hunt: huntId }).mapAsync((t) => [t._id, t.name]),
+    );
+    assert.sameMembers([...importedTags.values()], [...sourceTags.values()]);
+
+    const sourcePuzzles = await puzzlesByTitle(sourceHuntId);
+    const importedPuzzles = await puzzlesByTitle(huntId);
+    assert.sameMembers([...importedPuzzles.keys()], [...sourcePuzzles.keys()]);
+    for (const [title, source] of sourcePuzzles) {
+      const imported = importedPuzzles.get(title)!;
+      assert.notEqual(imported._id, source._id);
+      assert.sameMembers(
+        imported.tags.map((t) => importedTags.get(t)),
+        source.tags.map((t) => sourceTags.get(t)),
+        title,
+      );
+      assert.sameMembers(imported.answers, source.answers, title);
+
+      const sourceGuesses = await Guesses.find({
+        puzzle: source._id,
+      }).mapAsync((g) => `${g.guess}:${g.state}`);
+      const importedGuesses = await Guesses.find({
+        puzzle: imported._id,
+      }).mapAsync((g) => `${g.guess}:${g.state}`);
+      assert.sameMembers(importedGuesses, sourceGuesses, title);
+    }
+  });
+
+  it("round-trips chat, keeping replies and mentions", async function () {
+    const source = FixtureHunt.puzzles[0]!;
+    const parentId = await ChatMessages.insertAsync({
+      hunt: sourceHuntId,
+      puzzle: source._id,
+      content: {
+        type: "message",
+        children: [{ type: "mention", userId }, { text: " take a look" }],
+      },
+      sender: userId,
+      timestamp: new Date(),
+      createdBy: userId,
+    });
+    await ChatMessages.insertAsync({
+      hunt: sourceHuntId,
+      puzzle: source._id,
+      content: contentFromMessage("on it"),
+      sender: userId,
+      timestamp: new Date(),
+      parent: parentId,
+      createdBy: userId,
+    });
+
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    const imported = (await puzzlesByTitle(huntId)).get(source.title)!;
+    const messages = await ChatMessages.find(
+      { puzzle: imported._id },
+      { sort: { timestamp: 1 } },
+    ).fetchAsync();
+    assert.lengthOf(messages, 2);
+    const [parent, reply] = messages as [
+      (typeof messages)[number],
+      (typeof messages)[number],
+    ];
+    assert.deepEqual(parent.content.children[0], { type: "mention", userId });
+    assert.equal(parent.sender, userId);
+    assert.equal(reply.parent, parent._id);
+  });
+
+  it("round-trips groups and mentions of them", async function () {
+    const source = FixtureHunt.puzzles[0]!;
+    const groupId = await HuntGroups.insertAsync({
+      hunt: sourceHuntId,
+      name: "Remote",
+      members: [userId, Random.id()],
+      tags: [FixtureHunt.tags[0]!._id],
+      createdBy: userId,
+    });
+    await ChatMessages.insertAsync({
+      hunt: sourceHuntId,
+      puzzle: source._id,
+      content: {
+        type: "message",
+        children: [
+          { type: "group-mention", groupId },
+          { type: "group-mention", groupId: Random.id() },
+        ],
+      },
+      sender: userId,
+      timestamp: new Date(),
+      createdBy: userId,
+    });
+
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    const group = await HuntGroups.findOneAsync({ hunt: huntId });
+    assert.equal(group?.name, "Remote");
+    assert.deepEqual(group?.members, [userId]);
+    const tag = await Tags.findOneAsync(group!.tags[0]!);
+    assert.equal(tag?.hunt, huntId);
+    assert.equal(tag?.name, FixtureHunt.tags[0]!.name);
+
+    const imported = (await puzzlesByTitle(huntId)).get(source.title)!;
+    const message = await ChatMessages.findOneAsync({ puzzle: imported._id });
+    assert.deepEqual(message?.content.children, [
+      { type: "group-mention", groupId: group!._id },
+      { text: "@unknown group" },
+    ]);
+  });
+
+  it("points duplicate guesses at the imported originals", async function () {
+    const source = FixtureHunt.puzzles.find((p) => p.guesses.length > 0)!;
+    const original = source.guesses[0]!;
+    await Guesses.insertAsync({
+      hunt: sourceHuntId,
+      puzzle: source._id,
+      guess: original.guess,
+      state: "pending",
+      duplicateOf: original._id,
+      createdBy: userId,
+    });
+
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    const imported = (await puzzlesByTitle(huntId)).get(source.title)!;
+    const duplicate = await Guesses.findOneAsync({
+      puzzle: imported._id,
+      duplicateOf: { $exists: true },
+    });
+    const importedOriginal = await Guesses.findOneAsync(
+      duplicate!.duplicateOf!,
+    );
+    assert.equal(importedOriginal?.puzzle, imported._id);
+    assert.equal(importedOriginal?.guess, original.guess);
+    assert.equal(importedOriginal?.state, original.state);
+  });
+
+  it("keeps assignees it can match and drops the rest", async function () {
+    const source = FixtureHunt.puzzles[0]!;
+    await Puzzles.updateAsync(source._id, {
+      $set: { assignees: [userId, Random.id()] },
+    });
+
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    const imported = (await puzzlesByTitle(huntId)).get(source.title)!;
+    assert.deepEqual(imported.assignees, [userId]);
+  });
+
+  it("makes the importing user an operator of the new hunt", async function () {
+    const huntId = await importHuntArchive(
+      await exportHuntArchive(sourceHuntId),
+      userId,
+    );
+    const user = await MeteorUsers.findOneAsync(userId);
+    assert.include(user?.hunts ?? [], huntId);
+    assert.isTrue(userIsOperatorForHunt(user, { _id: huntId }));
+  });
+
+  it("rejects archives that aren't hunt archives", async function () {
+    await assert.isRejected(importHuntArchive("not json", userId), /JSON/);
+    await assert.isRejected(
+      importHuntArchive(EJSON.stringify({ format: "something else" }), userId),
+      /Not a valid hunt archive/,
+    );
+  });
+
+  it("rejects archives from newer versions", async function () {
+    const archive = EJSON.parse(await exportHuntArchive(sourceHuntId));
+    const newer = EJSON.stringify({
+      ...archive,
+      version: HUNT_ARCHIVE_VERSION + 1,
+    });
+    await assert.isRejected(importHuntArchive(newer, userId), /newer/);
+  });
+
+  it("rejects invalid records without importing anything", async function () {
+    const archive = EJSON.parse(await exportHuntArchive(sourceHuntId)) as {
+      puzzles: Record<string, unknown>[];
+    };
+    archive.puzzles[0]!.expectedAnswerCount = -1;
+    const huntCount = await Hunts.find().countAsync();
+    await assert.isRejected(
+      importHuntArchive(EJSON.stringify(archive), userId),
+      /Invalid/,
+    );
+    assert.equal(await Hunts.find().countAsync(), huntCount);
+  });
+});
@@ -0,0 +1,54 @@
+import { Accounts } from "meteor/accounts-base";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../../../../imports/lib/models/ChatMessages";
+import deleteChatMessage from "../../../../../imports/methods/deleteChatMessage";
+import resetDatabase from "../../../../lib/resetDatabase";
+import runAsUser from "../../../../lib/runAsUser";
+
+describe("deleteChatMessage", function () {
+  let senderId: string;
+  let chatMessageId: string;
+
+  beforeEach(async function () {
+    await resetDatabase("deleteChatMessage");
+    senderId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    chatMessageId = await ChatMessages.insertAsync({
+      hunt: Random.id(),
+      puzzle: Random.id(),
+      content: contentFromMessage("oops"),
+      sender: senderId,
+      timestamp: new Date(),
+      createdBy: senderId,
+    });
+  });
+
+  function remove(userId: string) {
+    return runAsUser(userId, () =>
+      deleteChatMessage.callPromise({ chatMessageId }),
+    );
+  }
+
+  it("soft-deletes the sender's message", async function () {
+    await remove(senderId);
+
+    assert.isUndefined(await ChatMessages.findOneAsync(chatMessageId));
+    const deleted = await ChatMessages.findOneDeletedAsync({
+      _id: chatMessageId,
+    });
+    assert.isTrue(deleted?.deleted);
+    assert.equal(deleted?.deletedBy, senderId);
+  });
+
+  it("only lets the sender delete a message", async function () {
+    const otherId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    await assert.isRejected(remove(otherId), /may not delete/);
+    assert.isOk(await ChatMessages.findOneAsync(chatMessageId));
+  });
+});
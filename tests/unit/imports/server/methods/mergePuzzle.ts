@@ -0,0 +1,187 @@
+import { Accounts } from "meteor/accounts-base";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import Bookmarks from "../../../../../imports/lib/models/Bookmarks";
+import Guesses from "../../../../../imports/lib/models/Guesses";
+import Hunts from "../../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../../imports/lib/models/MeteorUsers";
+import Puzzles from "../../../../../imports/lib/models/Puzzles";
+import Tags from "../../../../../imports/lib/models/Tags";
+import mergePuzzle from "../../../../../imports/methods/mergePuzzle";
+import resetDatabase from "../../../../lib/resetDatabase";
+import runAsUser from "../../../../lib/runAsUser";
+
+describe("mergePuzzle", function () {
+  let huntId: string;
+  let operatorId: string;
+
+  async function createPuzzle(
+    fields: {
+      tags?: string[];
+      answers?: string[];
+      expectedAnswerCount?: number;
+      feeders?: string[];
+    } = {},
+  ) {
+    return Puzzles.insertAsync({
+      hunt: huntId,
+      title: Random.id(),
+      answers: [],
+      expectedAnswerCount: 1,
+      tags: [],
+      ...fields,
+      createdBy: operatorId,
+    });
+  }
+
+  async function createTag(name: string) {
+    return Tags.insertAsync({ hunt: huntId, name, createdBy: operatorId });
+  }
+
+  async function createBookmark(puzzle: string, user: string) {
+    return Bookmarks.insertAsync({
+      hunt: huntId,
+      puzzle,
+      user,
+      createdBy: user,
+    });
+  }
+
+  function merge(puzzleId: string, intoPuzzleId: string) {
+    return runAsUser(operatorId, () =>
+      mergePuzzle.callPromise({ puzzleId, intoPuzzleId }),
+    );
+  }
+
+  beforeEach(async function () {
+    await resetDatabase("mergePuzzle");
+    operatorId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    huntId = await Hunts.insertAsync({
+      name: "Test hunt",
+      hasGuessQueue: true,
+      createdBy: operatorId,
+    });
+    await MeteorUsers.updateAsync(operatorId, {
+      $set: { hunts: [huntId], roles: { [huntId]: ["operator"] } },
+    });
+  });
+
+  it("moves guesses to the surviving puzzle", async function () {
+    const from = await createPuzzle();
+    const into = await createPuzzle();
+    const guessId = await Guesses.insertAsync({
+      hunt: huntId,
+      puzzle: from,
+      guess: "WRONG",
+      state: "incorrect",
+      createdBy: operatorId,
+    });
+
+    await merge(from, into);
+
+    assert.equal((await Guesses.findOneAsync(guessId))?.puzzle, into);
+  });
+
+  it("moves bookmarks, keeping one per user", async function () {
+    const from = await createPuzzle();
+    const into = await createPuzzle();
+    const otherUser = Random.id();
+    await createBookmark(from, operatorId);
+    await createBookmark(into, operatorId);
+    await createBookmark(from, otherUser);
+
+    await merge(from, into);
+
+    assert.equal(await Bookmarks.find({ puzzle: from }).countAsync(), 0);
+    assert.sameMembers(
+      await Bookmarks.find({ puzzle: into }).mapAsync((b) => b.user),
+      [operatorId, otherUser],
+    );
+  });
+
+  it("combines tags and answers", async function () {
+    const shared = await createTag("group:shared");
+    const fromOnly = await createTag("group:from");
+    const intoOnly = await createTag("group:into");
+    const from = await createPuzzle({
+      tags: [shared, fromOnly],
+      answers: ["FIRST", "SECOND"],
+      expectedAnswerCount: 2,
+    });
+    const into = await createPuzzle({
+      tags: [shared, intoOnly],
+      answers: ["FIRST"],
+      expectedAnswerCount: 1,
+    });
+
+    await merge(from, into);
+
+    const survivor = await Puzzles.findOneAsync(into);
+    assert.sameMembers(survivor!.tags, [shared, fromOnly, intoOnly]);
+    assert.sameMembers(survivor!.answers, ["FIRST", "SECOND"]);
+    assert.equal(survivor?.expectedAnswerCount, 2);
+  });
+
+  it("keeps the surviving puzzle's expected answer count if it's higher", async function () {
+    const from = await createPuzzle({ answers: ["FIRST"] });
+    const into = await createPuzzle({ expectedAnswerCount: 3 });
+
+    await merge(from, into);
+
+    assert.equal((await Puzzles.findOneAsync(into))?.expectedAnswerCount, 3);
+  });
+
+  it("has metas fed by the merged puzzle fed by the survivor", async function () {
+    const from = await createPuzzle();
+    const into = await createPuzzle();
+    const other = await createPuzzle();
+    const fedByFrom = await createPuzzle({ feeders: [from, other] });
+    const fedByBoth = await createPuzzle({ feeders: [from, into] });
+    // The merged puzzle is itself a meta, fed in part by the survivor
+    await Puzzles.updateAsync(from, { $set: { feeders: [into, other] } });
+
+    await merge(from, into);
+
+    assert.sameMembers((await Puzzles.findOneAsync(fedByFrom))!.feeders!, [
+      other,
+      into,
+    ]);
+    assert.deepEqual((await Puzzles.findOneAsync(fedByBoth))?.feeders, [into]);
+    assert.deepEqual((await Puzzles.findOneAsync(into))?.feeders, [other]);
+  });
+
+  it("leaves the merged puzzle deleted and pointing at the survivor", async function () {
+    const from = await createPuzzle();
+    const into = await createPuzzle();
+
+    await merge(from, into);
+
+    assert.isUndefined(await Puzzles.findOneAsync(from));
+    const merged = await Puzzles.findOneDeletedAsync({ _id: from });
+    assert.isTrue(merged?.merged);
+    assert.equal(merged?.replacedBy, into);
+  });
+
+  it("refuses to merge a puzzle into itself or another hunt", async function () {
+    const from = await createPuzzle();
+    await assert.isRejected(merge(from, from), /Invalid puzzle/);
+
+    const otherHunt = await Hunts.insertAsync({
+      name: "Other hunt",
+      hasGuessQueue: true,
+      createdBy: operatorId,
+    });
+    const elsewhere = await Puzzles.insertAsync({
+      hunt: otherHunt,
+      title: "Elsewhere",
+      answers: [],
+      expectedAnswerCount: 1,
+      tags: [],
+      createdBy: operatorId,
+    });
+    await assert.isRejected(merge(from, elsewhere), /Invalid puzzle/);
+    assert.isOk(await Puzzles.findOneAsync(from));
+  });
+});
@@ -0,0 +1,109 @@
+import { Accounts } from "meteor/accounts-base";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import Hunts from "../../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../../imports/lib/models/MeteorUsers";
+import setUserHuntRoles from "../../../../../imports/methods/setUserHuntRoles";
+import resetDatabase from "../../../../lib/resetDatabase";
+import runAsUser from "../../../../lib/runAsUser";
+
+describe("setUserHuntRoles", function () {
+  let huntId: string;
+  let assignerId: string;
+  let targetId: string;
+
+  async function createMember(roles: string[] = []) {
+    const userId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    await MeteorUsers.updateAsync(userId, {
+      $set: { hunts: [huntId], roles: { [huntId]: roles } },
+    });
+    return userId;
+  }
+
+  async function rolesOf(userId: string) {
+    return (await MeteorUsers.findOneAsync(userId))?.roles?.[huntId];
+  }
+
+  function assign(userId: string, roles: string[]) {
+    return runAsUser(userId, () =>
+      setUserHuntRoles.callPromise({ targetUserId: targetId, huntId, roles }),
+    );
+  }
+
+  beforeEach(async function () {
+    await resetDatabase("setUserHuntRoles");
+    huntId = await Hunts.insertAsync({
+      name: "Test hunt",
+      hasGuessQueue: true,
+      customRoles: [
+        {
+          id: "captain",
+          name: "Captain",
+          capabilities: ["assignRoles", "writePuzzles"],
+        },
+        { id: "scribe", name: "Scribe", capabilities: ["writePuzzles"] },
+        {
+          id: "answerer",
+          name: "Answerer",
+          capabilities: ["resolveGuesses"],
+        },
+        {
+          id: "webhooker",
+          name: "Webhooker",
+          capabilities: ["configureWebhooks", "assignRoles"],
+        },
+      ],
+      createdBy: Random.id(),
+    });
+    assignerId = await createMember(["captain"]);
+    targetId = await createMember();
+  });
+
+  it("lets hunters give roles within their own capabilities", async function () {
+    await assign(assignerId, ["scribe"]);
+    assert.deepEqual(await rolesOf(targetId), ["scribe"]);
+  });
+
+  it("refuses roles allowing more than the assigner can do", async function () {
+    await assert.isRejected(assign(assignerId, ["answerer"]), /may not assign/);
+    await assert.isRejected(
+      assign(assignerId, ["scribe", "webhooker"]),
+      /may not assign/,
+    );
+    assert.deepEqual(await rolesOf(targetId), []);
+  });
+
+  it("doesn't let hunters give themselves more capabilities", async function () {
+    targetId = assignerId;
+    await assert.isRejected(
+      assign(assignerId, ["captain", "answerer"]),
+      /may not assign/,
+    );
+    assert.deepEqual(await rolesOf(assignerId), ["captain"]);
+  });
+
+  it("refuses taking away roles the assigner couldn't give", async function () {
+    await MeteorUsers.updateAsync(targetId, {
+      $set: { [`roles.${huntId}`]: ["answerer", "scribe"] },
+    });
+    await assert.isRejected(assign(assignerId, ["scribe"]), /may not assign/);
+    await assign(assignerId, ["answerer"]);
+    assert.deepEqual(await rolesOf(targetId), ["answerer"]);
+  });
+
+  it("lets operators give any role", async function () {
+    const operatorId = await createMember(["operator"]);
+    await assign(operatorId, ["answerer", "webhooker"]);
+    assert.deepEqual(await rolesOf(targetId), ["answerer", "webhooker"]);
+  });
+
+  it("keeps operator status as it is", async function () {
+    await MeteorUsers.updateAsync(targetId, {
+      $set: { [`roles.${huntId}`]: ["operator"] },
+    });
+    await assign(assignerId, ["scribe"]);
+    assert.deepEqual(await rolesOf(targetId), ["operator", "scribe"]);
+  });
+});
@@ -0,0 +1,80 @@
+import { Accounts } from "meteor/accounts-base";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import Hunts from "../../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../../imports/lib/models/MeteorUsers";
+import Puzzles from "../../../../../imports/lib/models/Puzzles";
+import undestroyPuzzle from "../../../../../imports/methods/undestroyPuzzle";
+import resetDatabase from "../../../../lib/resetDatabase";
+import runAsUser from "../../../../lib/runAsUser";
+
+describe("undestroyPuzzle", function () {
+  let huntId: string;
+  let operatorId: string;
+
+  async function createDeletedPuzzle(fields: {
+    merged?: boolean;
+    replacedBy?: string;
+  }) {
+    return Puzzles.insertAsync({
+      hunt: huntId,
+      title: Random.id(),
+      answers: [],
+      expectedAnswerCount: 1,
+      tags: [],
+      ...fields,
+      deleted: true,
+      deletedAt: new Date(),
+      deletedBy: operatorId,
+      createdBy: operatorId,
+    });
+  }
+
+  function restore(puzzleId: string) {
+    return runAsUser(operatorId, () =>
+      undestroyPuzzle.callPromise({ puzzleId }),
+    );
+  }
+
+  beforeEach(async function () {
+    await resetDatabase("undestroyPuzzle");
+    operatorId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    huntId = await Hunts.insertAsync({
+      name: "Test hunt",
+      hasGuessQueue: true,
+      createdBy: operatorId,
+    });
+    await MeteorUsers.updateAsync(operatorId, {
+      $set: { hunts: [huntId], roles: { [huntId]: ["operator"] } },
+    });
+  });
+
+  it("restores deleted puzzles", async function () {
+    const replacement = await Puzzles.insertAsync({
+      hunt: huntId,
+      title: "Replacement",
+      answers: [],
+      expectedAnswerCount: 1,
+      tags: [],
+      createdBy: operatorId,
+    });
+    const puzzleId = await createDeletedPuzzle({ replacedBy: replacement });
+    await restore(puzzleId);
+
+    const puzzle = await Puzzles.findOneAsync(puzzleId);
+    assert.isOk(puzzle);
+    assert.isUndefined(puzzle?.replacedBy);
+    assert.isUndefined(puzzle?.deletedAt);
+  });
+
+  it("refuses to restore merged puzzles", async function () {
+    const puzzleId = await createDeletedPuzzle({
+      merged: true,
+      replacedBy: Random.id(),
+    });
+    await assert.isRejected(restore(puzzleId), /Merged puzzles/);
+    assert.isOk(await Puzzles.findOneDeletedAsync({ _id: puzzleId }));
+  });
+});
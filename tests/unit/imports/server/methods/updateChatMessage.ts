@@ -0,0 +1,138 @@
+import { Accounts } from "meteor/accounts-base";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import type { ChatMessageContentType } from "../../../../../imports/lib/models/ChatMessages";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../../../../imports/lib/models/ChatMessages";
+import ChatNotifications from "../../../../../imports/lib/models/ChatNotifications";
+import Hunts from "../../../../../imports/lib/models/Hunts";
+import MeteorUsers from "../../../../../imports/lib/models/MeteorUsers";
+import updateChatMessage from "../../../../../imports/methods/updateChatMessage";
+import resetDatabase from "../../../../lib/resetDatabase";
+import runAsUser from "../../../../lib/runAsUser";
+
+// Creates a user who is a member of the given hunt
+async function createMember(huntId: string) {
+  const userId = await Accounts.createUserAsync({
+    email: `${Random.id()}@example.com`,
+  });
+  await MeteorUsers.updateAsync(userId, { $set: { hunts: [huntId] } });
+  return userId;
+}
+
+describe("updateChatMessage", function () {
+  let huntId: string;
+  let senderId: string;
+  let chatMessageId: string;
+  const timestamp = new Date("2026-01-16T12:00:00Z");
+
+  beforeEach(async function () {
+    await resetDatabase("updateChatMessage");
+    huntId = await Hunts.insertAsync({
+      name: "Test hunt",
+      hasGuessQueue: true,
+      createdBy: Random.id(),
+    });
+    senderId = await createMember(huntId);
+    chatMessageId = await ChatMessages.insertAsync({
+      hunt: huntId,
+      puzzle: Random.id(),
+      content: contentFromMessage("first draft"),
+      sender: senderId,
+      timestamp,
+      createdBy: senderId,
+    });
+  });
+
+  function editContent(userId: string, content: ChatMessageContentType) {
+    return runAsUser(userId, () =>
+      updateChatMessage.callPromise({
+        chatMessageId,
+        content: JSON.stringify(content),
+      }),
+    );
+  }
+
+  function edit(userId: string, message: string) {
+    return editContent(userId, contentFromMessage(message));
+  }
+
+  it("replaces the content and records the previous version", async function () {
+    await edit(senderId, "second draft");
+    await edit(senderId, "final draft");
+
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    assert.deepEqual(chatMessage?.content, contentFromMessage("final draft"));
+    assert.isOk(chatMessage?.editedAt);
+    assert.lengthOf(chatMessage?.history ?? [], 2);
+    const [first, second] = chatMessage!.history!;
+    assert.deepEqual(first?.content, contentFromMessage("first draft"));
+    assert.deepEqual(first?.timestamp, timestamp);
+    assert.deepEqual(second?.content, contentFromMessage("second draft"));
+    assert.isAbove(second!.timestamp.getTime(), timestamp.getTime());
+  });
+
+  it("only lets the sender edit a message", async function () {
+    const otherId = await createMember(huntId);
+    await assert.isRejected(edit(otherId, "hijacked"), /may not edit/);
+
+    const chatMessage = await ChatMessages.findOneAsync(chatMessageId);
+    assert.deepEqual(chatMessage?.content, contentFromMessage("first draft"));
+    assert.isUndefined(chatMessage?.history);
+  });
+
+  it("doesn't let anyone edit system messages", async function () {
+    await ChatMessages.updateAsync(chatMessageId, { $unset: { sender: 1 } });
+    await assert.isRejected(edit(senderId, "hijacked"), /may not edit/);
+  });
+
+  it("only lets senders who can still send messages edit", async function () {
+    await MeteorUsers.updateAsync(senderId, { $set: { hunts: [] } });
+    await assert.isRejected(edit(senderId, "second draft"), /may not send/);
+  });
+
+  it("refuses mentions of roles the hunt doesn't have", async function () {
+    await assert.isRejected(
+      editContent(senderId, {
+        type: "message",
+        children: [{ type: "role-mention", roleId: "runner" }],
+      }),
+      /Unknown role/,
+    );
+  });
+
+  it("notifies users newly mentioned by an edit", async function () {
+    const mentionedId = await createMember(huntId);
+    const mention = {
+      type: "message" as const,
+      children: [
+        { type: "mention" as const, userId: mentionedId },
+        { text: " take a look" },
+      ],
+    };
+    await editContent(senderId, mention);
+
+    const notifications = await ChatNotifications.find({
+      user: mentionedId,
+    }).fetchAsync();
+    assert.lengthOf(notifications, 1);
+    assert.equal(notifications[0]?.sender, senderId);
+    assert.deepEqual(notifications[0]?.content, mention);
+
+    // Editing again without adding anyone doesn't notify them a second time
+    await editContent(senderId, {
+      ...mention,
+      children: [...mention.children, { text: " please" }],
+    });
+    assert.equal(
+      await ChatNotifications.find({ user: mentionedId }).countAsync(),
+      1,
+    );
+  });
+
+  it("refuses unknown messages", async function () {
+    chatMessageId = Random.id();
+    await assert.isRejected(edit(senderId, "hello"), /Unknown chat message/);
+  });
+});
@@ -0,0 +1,98 @@
+import { Accounts } from "meteor/accounts-base";
+import { Meteor } from "meteor/meteor";
+import type { Mongo } from "meteor/mongo";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import type { ChatMessageType } from "../../../../../imports/lib/models/ChatMessages";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../../../../imports/lib/models/ChatMessages";
+import MeteorUsers from "../../../../../imports/lib/models/MeteorUsers";
+import chatMessagesForPuzzle from "../../../../../imports/lib/publications/chatMessagesForPuzzle";
+import resetDatabase from "../../../../lib/resetDatabase";
+
+type PublishHandler = (
+  this: { userId: string },
+  arg: unknown,
+) => Promise<Mongo.Cursor<ChatMessageType> | []>;
+
+// Runs the publication's handler directly and returns what it would publish
+async function publishedMessages(
+  userId: string,
+  huntId: string,
+  puzzleId: string,
+) {
+  const handlers = (
+    Meteor as unknown as {
+      server: { publish_handlers: Record<string, PublishHandler> };
+    }
+  ).server.publish_handlers;
+  const result = await handlers[chatMessagesForPuzzle.name]!.call(
+    { userId },
+    { huntId, puzzleId },
+  );
+  return Array.isArray(result) ? result : result.fetchAsync();
+}
+
+describe("chatMessagesForPuzzle", function () {
+  const huntId = Random.id();
+  const puzzleId = Random.id();
+
+  async function createMember(roles: string[] = []) {
+    const userId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    await MeteorUsers.updateAsync(userId, {
+      $set: { hunts: [huntId], roles: { [huntId]: roles } },
+    });
+    return userId;
+  }
+
+  beforeEach(async function () {
+    await resetDatabase("chatMessagesForPuzzle");
+    const senderId = await createMember();
+    await ChatMessages.insertAsync({
+      hunt: huntId,
+      puzzle: puzzleId,
+      content: contentFromMessage("edited"),
+      sender: senderId,
+      timestamp: new Date(),
+      editedAt: new Date(),
+      history: [
+        { content: contentFromMessage("original"), timestamp: new Date() },
+      ],
+      createdBy: senderId,
+    });
+  });
+
+  it("hides edit history from hunters", async function () {
+    const messages = await publishedMessages(
+      await createMember(),
+      huntId,
+      puzzleId,
+    );
+    assert.lengthOf(messages, 1);
+    assert.isOk(messages[0]!.editedAt);
+    assert.isUndefined(messages[0]!.history);
+  });
+
+  it("shows edit history to operators", async function () {
+    const messages = await publishedMessages(
+      await createMember(["operator"]),
+      huntId,
+      puzzleId,
+    );
+    assert.lengthOf(messages, 1);
+    assert.deepEqual(
+      messages[0]!.history?.[0]?.content,
+      contentFromMessage("original"),
+    );
+  });
+
+  it("publishes nothing to non-members", async function () {
+    const userId = await Accounts.createUserAsync({
+      email: `${Random.id()}@example.com`,
+    });
+    assert.lengthOf(await publishedMessages(userId, huntId, puzzleId), 0);
+  });
+});
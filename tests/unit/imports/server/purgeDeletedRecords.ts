@@ -0,0 +1,172 @@
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import Bookmarks from "../../../../imports/lib/models/Bookmarks";
+import ChatMessages, {
+  contentFromMessage,
+} from "../../../../imports/lib/models/ChatMessages";
+import ChatNotifications from "../../../../imports/lib/models/ChatNotifications";
+import DocumentActivities from "../../../../imports/lib/models/DocumentActivities";
+import Guesses from "../../../../imports/lib/models/Guesses";
+import Hunts from "../../../../imports/lib/models/Hunts";
+import Puzzles from "../../../../imports/lib/models/Puzzles";
+import { purgeHunt } from "../../../../imports/server/purgeDeletedRecords";
+import resetDatabase from "../../../lib/resetDatabase";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("purgeDeletedRecords", function () {
+  const userId = Random.id();
+  const longAgo = new Date(Date.now() - 30 * DAY);
+  const cutoff = new Date(Date.now() - 7 * DAY);
+  let huntId: string;
+
+  async function createPuzzle(
+    fields: {
+      deletedAt?: Date;
+      merged?: boolean;
+      replacedBy?: string;
+      feeders?: string[];
+    } = {},
+  ) {
+    const { deletedAt, ...rest } = fields;
+    return Puzzles.insertAsync({
+      hunt: huntId,
+      title: Random.id(),
+      answers: [],
+      expectedAnswerCount: 1,
+      tags: [],
+      ...rest,
+      ...(deletedAt ? { deleted: true, deletedAt, deletedBy: userId } : {}),
+      createdBy: userId,
+    });
+  }
+
+  async function puzzleExists(puzzleId: string) {
+    return !!(await Puzzles.findOneAllowingDeletedAsync(puzzleId));
+  }
+
+  beforeEach(async function () {
+    await resetDatabase("purgeDeletedRecords");
+    huntId = await Hunts.insertAsync({
+      name: "Test hunt",
+      hasGuessQueue: true,
+      purgeDeletedAfterDays: 7,
+      createdBy: userId,
+    });
+  });
+
+  it("purges puzzles deleted before the cutoff", async function () {
+    const old = await createPuzzle({ deletedAt: longAgo });
+    const recent = await createPuzzle({ deletedAt: new Date() });
+    const live = await createPuzzle();
+
+    await purgeHunt(huntId, cutoff);
+
+    assert.isFalse(await puzzleExists(old));
+    assert.isTrue(await puzzleExists(recent));
+    assert.isTrue(await puzzleExists(live));
+  });
+
+  it("removes everything attached to purged puzzles", async function () {
+    const purged = await createPuzzle({ deletedAt: longAgo });
+    const kept = await createPuzzle();
+    for (const puzzle of [purged, kept]) {
+      await Guesses.insertAsync({
+        hunt: huntId,
+        puzzle,
+        guess: "ANSWER",
+        state: "incorrect",
+        createdBy: userId,
+      });
+      await ChatMessages.insertAsync({
+        hunt: huntId,
+        puzzle,
+        content: contentFromMessage("hello"),
+        sender: userId,
+        timestamp: new Date(),
+        createdBy: userId,
+      });
+      await ChatNotifications.insertAsync({
+        user: Random.id(),
+        sender: userId,
+        hunt: huntId,
+        puzzle,
+        content: contentFromMessage("hello"),
+        timestamp: new Date(),
+        createdBy: userId,
+      });
+      await Bookmarks.insertAsync({
+        hunt: huntId,
+        puzzle,
+        user: userId,
+        createdBy: userId,
+      });
+      await DocumentActivities.insertAsync({
+        ts: new Date(),
+        hunt: huntId,
+        puzzle,
+        document: Random.id(),
+        user: userId,
+      });
+    }
+
+    await purgeHunt(huntId, cutoff);
+
+    for (const model of [
+      Guesses,
+      ChatMessages,
+      ChatNotifications,
+      Bookmarks,
+      DocumentActivities,
+    ]) {
+      assert.equal(
+        await model.find({ puzzle: purged }).countAsync(),
+        0,
+        model.name,
+      );
+      assert.equal(
+        await model.find({ puzzle: kept }).countAsync(),
+        1,
+        model.name,
+      );
+    }
+  });
+
+  it("removes purged puzzles from other puzzles", async function () {
+    const purged = await createPuzzle({ deletedAt: longAgo });
+    const feeder = await createPuzzle();
+    const meta = await createPuzzle({ feeders: [purged, feeder] });
+    const replaced = await createPuzzle({ replacedBy: purged });
+
+    await purgeHunt(huntId, cutoff);
+
+    assert.deepEqual((await Puzzles.findOneAsync(meta))?.feeders, [feeder]);
+    assert.isUndefined((await Puzzles.findOneAsync(replaced))?.replacedBy);
+  });
+
+  it("keeps merged puzzles while they have somewhere to redirect to", async function () {
+    const survivor = await createPuzzle();
+    const merged = await createPuzzle({
+      deletedAt: longAgo,
+      merged: true,
+      replacedBy: survivor,
+    });
+
+    await purgeHunt(huntId, cutoff);
+    assert.isTrue(await puzzleExists(merged));
+
+    // Once the puzzle it was merged into is purged, the merged puzzle is
+    // just an ordinary deleted puzzle
+    await Puzzles.updateAsync(survivor, {
+      $set: { deleted: true, deletedAt: longAgo, deletedBy: userId },
+    });
+    await purgeHunt(huntId, cutoff);
+    assert.isFalse(await puzzleExists(survivor));
+    const orphan = await Puzzles.findOneAllowingDeletedAsync(merged);
+    assert.isUndefined(orphan?.merged);
+    assert.isUndefined(orphan?.replacedBy);
+
+    await purgeHunt(huntId, cutoff);
+    assert.isFalse(await puzzleExists(merged));
+  });
+});
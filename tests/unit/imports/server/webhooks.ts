@@ -0,0 +1,198 @@
+import type { IncomingHttpHeaders, Server } from "node:http";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Random } from "meteor/random";
+import { assert } from "chai";
+import WebhookDeliveries from "../../../../imports/lib/models/WebhookDeliveries";
+import Webhooks from "../../../../imports/lib/models/Webhooks";
+import {
+  attemptWebhookDelivery,
+  signWebhookPayload,
+  webhookRetryDelay,
+} from "../../../../imports/server/webhooks";
+
+describe("webhooks", function () {
+  describe("signWebhookPayload", function () {
+    it("signs the timestamp and payload with HMAC-SHA256", function () {
+      assert.equal(
+        signWebhookPayload("shh", "1700000000", '{"event":"announcement"}'),
+        "sha256=e9a080602292cbe7261a9cb7bbf417bde65776342ff9de24dedc29a5d10a2d74",
+      );
+    });
+
+    it("depends on the timestamp", function () {
+      assert.notEqual(
+        signWebhookPayload("shh", "1700000000", "{}"),
+        signWebhookPayload("shh", "1700000001", "{}"),
+      );
+    });
+  });
+
+  describe("webhookRetryDelay", function () {
+    it("backs off exponentially from 30 seconds", function () {
+      assert.equal(webhookRetryDelay(1), 30 * 1000);
+      assert.equal(webhookRetryDelay(2), 60 * 1000);
+      assert.equal(webhookRetryDelay(3), 120 * 1000);
+    });
+
+    it("waits at most an hour", function () {
+      assert.equal(webhookRetryDelay(10), 60 * 60 * 1000);
+      assert.equal(webhookRetryDelay(29), 60 * 60 * 1000);
+    });
+
+    it("gives up after 30 attempts", function () {
+      assert.isUndefined(webhookRetryDelay(30));
+    });
+  });
+
+  describe("attemptWebhookDelivery", function () {
+    let server: Server;
+    let url: string;
+    let responseStatus: number;
+    let received: { headers: IncomingHttpHeaders; body: string }[];
+
+    this.beforeAll(async function () {
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => {
+          body += chunk;
+        });
+        req.on("end", () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(responseStatus);
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => {
+        server.listen(0, "127.0.0.1", resolve);
+      });
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+    this.afterAll(async function () {
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+    });
+
+    let webhookId: string;
+    const secret = "shh";
+    beforeEach(async function () {
+      responseStatus = 204;
+      received = [];
+      webhookId = await Webhooks.insertAsync({
+        hunt: Random.id(),
+        url,
+        events: ["announcement"],
+        secret,
+        createdBy: Random.id(),
+      });
+    });
+
+    async function createDelivery(
+      fields: { attempts?: number; nextAttemptAt?: Date } = {},
+    ) {
+      const id = await WebhookDeliveries.insertAsync({
+        hunt: Random.id(),
+        webhook: webhookId,
+        event: "announcement",
+        payload: '{"event":"announcement"}',
+        state: "pending",
+        attempts: fields.attempts ?? 0,
+        nextAttemptAt: fields.nextAttemptAt ?? new Date(),
+      });
+      return (await WebhookDeliveries.findOneAsync(id))!;
+    }
+
+    it("sends a signed payload and records success", async function () {
+      const delivery = await createDelivery();
+      await attemptWebhookDelivery(delivery);
+
+      assert.lengthOf(received, 1);
+      const { headers, body } = received[0]!;
+      assert.equal(body, delivery.payload);
+      assert.equal(headers["x-jolly-roger-delivery"], delivery._id);
+      assert.equal(
+        headers["x-jolly-roger-signature"],
+        signWebhookPayload(
+          secret,
+          headers["x-jolly-roger-timestamp"] as string,
+          body,
+        ),
+      );
+
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "succeeded");
+      assert.equal(updated?.attempts, 1);
+      assert.equal(updated?.responseStatus, 204);
+      assert.isUndefined(updated?.nextAttemptAt);
+    });
+
+    it("schedules a retry when the receiver fails", async function () {
+      responseStatus = 500;
+      const delivery = await createDelivery();
+      const before = Date.now();
+      await attemptWebhookDelivery(delivery);
+
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "pending");
+      assert.equal(updated?.attempts, 1);
+      assert.equal(updated?.responseStatus, 500);
+      assert.include(updated?.lastError, "500");
+      assert.isAtLeast(updated!.nextAttemptAt!.getTime(), before + 30 * 1000);
+    });
+
+    it("gives up after the last attempt", async function () {
+      responseStatus = 500;
+      const delivery = await createDelivery({ attempts: 29 });
+      await attemptWebhookDelivery(delivery);
+
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "failed");
+      assert.equal(updated?.attempts, 30);
+      assert.isUndefined(updated?.nextAttemptAt);
+    });
+
+    it("records failures which have no message", async function () {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = async () => {
+        throw new Error("");
+      };
+      const delivery = await createDelivery();
+      try {
+        await attemptWebhookDelivery(delivery);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "pending");
+      assert.equal(updated?.attempts, 1);
+      assert.isOk(updated?.lastError);
+    });
+
+    it("leaves deliveries claimed by another server alone", async function () {
+      const delivery = await createDelivery();
+      // Another server claims the delivery after we fetched it
+      await WebhookDeliveries.updateAsync(delivery._id, {
+        $set: { nextAttemptAt: new Date(Date.now() + 30 * 1000) },
+      });
+      await attemptWebhookDelivery(delivery);
+
+      assert.lengthOf(received, 0);
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "pending");
+      assert.equal(updated?.attempts, 0);
+    });
+
+    it("fails deliveries whose webhook was deleted", async function () {
+      const delivery = await createDelivery();
+      await Webhooks.destroyAsync(webhookId);
+      await attemptWebhookDelivery(delivery);
+
+      assert.lengthOf(received, 0);
+      const updated = await WebhookDeliveries.findOneAsync(delivery._id);
+      assert.equal(updated?.state, "failed");
+      assert.equal(updated?.lastError, "Webhook was deleted");
+    });
+  });
+});